@@ -0,0 +1,1179 @@
+/*
+  VibeConsole local server
+
+  A Supabase-free backend for LAN play and CI. It keeps sessions, devices, device inputs
+  and input mapping profiles in memory and offers the operations the client's Supabase
+  helpers use:
+
+    sessions        createSession, getSession, getSessionByCode, updateSession, endSession,
+                    transferHost, moderateDevice, getLastModeration, setLobbyAccess,
+                    setIceConfig
+    devices         createDevice, getSessionDevices, updateDevice, touchDevice, deleteDevice,
+                    issueDeviceToken, resumeDevice, claimDevice, promoteDevice, reviewJoin
+    device_inputs   createDeviceInput
+    webrtc_signals  sendSignal (relayed to the receiver, never stored)
+    relay           relay (data-channel fallback, see src/lib/transport.ts)
+    presence        trackPresence, untrackPresence (see src/lib/presence.ts)
+    input_mapping_profiles
+                    getMappingProfile, saveMappingProfile (one per player name, saved only
+                    under the name of one of the connection's devices)
+
+  Protocol - JSON text frames over a WebSocket:
+    request   { id, op, params }
+    reply     { id, ok: true, result } | { id, ok: false, error: { code, message, details? } }
+    subscribe { id, op: 'subscribe', params: { topic, sessionId?, deviceId? } } -> result { subscription }
+    change    { subscription, eventType: 'INSERT' | 'UPDATE' | 'DELETE', new, old }
+
+  Topics: sessions (sessionId), devices (sessionId), device_inputs (sessionId, deviceId?),
+  webrtc_signals (deviceId), relay (sessionId, deviceId), presence (sessionId).
+  webrtc_signals and relay subscriptions need a device the connection owns (error code
+  `forbidden` otherwise); relay stamps that device as the sender of what it forwards.
+  Like the session-scoped RLS policies, sessions, devices and device_inputs changes only
+  reach connections holding an active device of the session (a device still knocking gets
+  its own row), and getSession/getSessionDevices read the same way. presence needs a
+  device of the session, pending or not, when subscribing.
+
+  Presence is tied to the connection that announced it: when that client disconnects its
+  devices leave, like Realtime Presence. Every change pushes the session's full member
+  list as `new: { members }`.
+
+  Like expire_inactive_sessions()/cleanup_old_data() in Postgres, a sweep every minute
+  ends sessions whose devices haven't been seen for LOCAL_SERVER_SESSION_IDLE_MS
+  (default 30 minutes) and forgets sessions that ended an hour ago.
+
+  Run with `npm run server`. LOCAL_SERVER_PORT (default 8787) and LOCAL_SERVER_HOST
+  (default 0.0.0.0) pick the address. Everything is lost when the process exits.
+
+  Phones beyond a session's `max_players` are refused with error code `lobby_full` (details
+  carry `maxPlayers`), like enforce_lobby_capacity(). Spectators don't take seats.
+  A session has one console; creating another is refused with error code `conflict`.
+
+  Hosts follow transfer_host() and the host election triggers: `host_device_id` on the
+  session and `is_host` on its devices change together, and deleting the host device
+  promotes the longest-connected phone.
+
+  Device resume tokens are signed like resume_device() in Postgres, with a key from
+  LOCAL_SERVER_TOKEN_SECRET or a random one per run.
+
+  A connection acts for the devices it created or resumed, like the device JWT does for
+  Supabase: it only writes its own device rows, inputs, signals and presence, and session
+  changes need the session's console or host (caller_controls_session()). createDevice and
+  resumeDevice add an `access_token` to the device they return; after a reconnect the
+  client hands it to claimDevice to act for that device again. Only the console changes
+  `ice_config` (setIceConfig, like set_ice_config()).
+
+  moderateDevice follows moderate_device(): the host kicks, bans, mutes or unmutes another
+  device and the action is appended to the session's `moderation_log`. Banned names, and
+  phones presenting the token of a banned device, are refused with error code `banned`.
+
+  Lobby access follows set_lobby_access(): in 'pin' lobbies phones need the PIN (error
+  code `pin_required`), kept as a salted scrypt hash that never leaves the server; in 'knock'
+  lobbies they join as `pending` devices until the console or host calls reviewJoin.
+  Like join_session(), PIN_MAX_ATTEMPTS wrong PINs in a row make the lobby refuse PINs for
+  PIN_LOCKOUT_MS (error code `pin_locked`).
+*/
+
+import { createServer } from 'node:http';
+import { createHash, createHmac, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+const PORT = Number(process.env.LOCAL_SERVER_PORT || 8787);
+const HOST = process.env.LOCAL_SERVER_HOST || '0.0.0.0';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_FRAME_BYTES = 1024 * 1024;
+const MAX_MESSAGE_BYTES = 1024 * 1024; // All fragments of one message together
+const KEEPALIVE_INTERVAL = 30000;
+// Inputs are only kept for debugging, so cap them per session
+const MAX_INPUTS_PER_SESSION = 500;
+const SESSION_IDLE_MS = Number(process.env.LOCAL_SERVER_SESSION_IDLE_MS || 30 * 60 * 1000);
+const ENDED_SESSION_RETENTION_MS = 60 * 60 * 1000;
+const SWEEP_INTERVAL = 60 * 1000;
+const END_REASONS = ['ended_by_host', 'expired'];
+// The plans' seat counts (src/lib/plans.ts), as create_session() allows them, and the
+// Free plan's as the default. Any console may pick either; they aren't paid limits
+const PLAN_CAPACITIES = [4, 6];
+const DEFAULT_MAX_PLAYERS = 4;
+const TOKEN_SECRET = process.env.LOCAL_SERVER_TOKEN_SECRET || randomBytes(32);
+
+// ---------------------------------------------------------------------------
+// Data
+// ---------------------------------------------------------------------------
+
+const sessions = new Map(); // id -> session row
+const devices = new Map(); // id -> device row
+const deviceInputs = new Map(); // session id -> device input rows
+const presence = new Map(); // session id -> Map(device id -> { meta, client })
+const lobbyPins = new Map(); // session id -> { salt, hash, failedAttempts, lockedUntil } of the lobby's PIN
+const mappingProfiles = new Map(); // player name -> input mapping profile row
+
+const clients = new Set();
+
+class RequestError extends Error {
+  constructor(code, message, details) {
+    super(message);
+    this.code = code;
+    this.details = details;
+  }
+}
+
+const DEVICE_TYPES = ['phone', 'console', 'spectator'];
+const MODERATION_ACTIONS = ['kick', 'ban', 'mute', 'unmute'];
+const JOIN_MODES = ['open', 'pin', 'knock'];
+const PIN_PATTERN = /^\d{4}$/;
+// Wrong PINs in a row before a lobby stops taking PINs, and for how long (see lobbyAccess.ts)
+const PIN_MAX_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 5 * 60 * 1000;
+
+const normalizeName = (name) => name.trim().toLowerCase();
+
+// Inputs a player can rebind and actions the console knows, as in src/lib/inputRouter.ts
+const REMAPPABLE_INPUT_TYPES = [
+  'dpad.up', 'dpad.down', 'dpad.left', 'dpad.right', 'button.confirm', 'button.folder',
+  'voice.recording', 'canvas.draw_move', 'canvas.clear'
+];
+const CONSOLE_ACTION_IDS = [
+  'move_up', 'move_down', 'move_left', 'move_right', 'confirm', 'back', 'open_files',
+  'voice_input', 'canvas_draw', 'canvas_clear'
+];
+
+// Same rules as isValidMappingProfile(): rebindable inputs, each once, bound to known actions
+const isValidMappingProfile = (mappings) => {
+  if (!Array.isArray(mappings)) return false;
+  const inputTypes = new Set(mappings.map(mapping => mapping?.inputType));
+  return inputTypes.size === mappings.length && mappings.every(mapping =>
+    mapping !== null && typeof mapping === 'object'
+    && REMAPPABLE_INPUT_TYPES.includes(mapping.inputType)
+    && typeof mapping.isActive === 'boolean'
+    && (!mapping.isActive || CONSOLE_ACTION_IDS.includes(mapping.mappedAction))
+  );
+};
+
+// Throw lobby_full if another phone wouldn't fit in the session
+const requireSeat = (session, exceptDeviceId = null) => {
+  const seated = [...devices.values()]
+    .filter(device => device.session_id === session.id && device.device_type === 'phone' && device.id !== exceptDeviceId)
+    .length;
+  if (seated >= session.max_players) {
+    throw new RequestError('lobby_full', `This lobby holds ${session.max_players} players`, { maxPlayers: session.max_players });
+  }
+};
+
+const nowIso = () => new Date().toISOString();
+
+const pick = (source, fields) => {
+  const result = {};
+  for (const field of fields) {
+    if (source && Object.prototype.hasOwnProperty.call(source, field)) {
+      result[field] = source[field];
+    }
+  }
+  return result;
+};
+
+const requireString = (params, field) => {
+  const value = params?.[field];
+  if (typeof value !== 'string' || value === '') {
+    throw new RequestError('bad_request', `${field} is required`);
+  }
+  return value;
+};
+
+const requireSession = (sessionId) => {
+  const session = sessions.get(sessionId);
+  if (!session) throw new RequestError('not_found', 'session not found');
+  return session;
+};
+
+const requireDevice = (deviceId) => {
+  const device = devices.get(deviceId);
+  if (!device) throw new RequestError('not_found', 'device not found');
+  return device;
+};
+
+// Like caller_session_id(): the connection acts for an active device of the session
+const inSession = (client, sessionId) => [...client.devices].some(deviceId => {
+  const device = devices.get(deviceId);
+  return device?.session_id === sessionId && device.status === 'active';
+});
+
+// Like caller_lobby_session_id(): the same, devices still knocking included
+const inLobby = (client, sessionId) => [...client.devices]
+  .some(deviceId => devices.get(deviceId)?.session_id === sessionId);
+
+// Push a row change to every subscription that matches it; `matches` also gets the
+// subscribing connection, for the checks the RLS policies make on each row
+const publish = (topic, matches, change) => {
+  for (const client of clients) {
+    for (const [subscription, filter] of client.subscriptions) {
+      if (filter.topic === topic && matches(filter, client)) {
+        client.send({ subscription, ...change });
+      }
+    }
+  }
+};
+
+const publishSession = (eventType, row, old) => {
+  publish('sessions', (filter, client) => filter.sessionId === row.id && inSession(client, row.id), { eventType, new: row, old });
+};
+
+const publishDevice = (eventType, row, old) => {
+  // Like "Devices read their own session's devices": a device knocking only sees its own row
+  publish('devices', (filter, client) => filter.sessionId === row.session_id
+    && (inSession(client, row.session_id) || client.devices.has(row.id)), { eventType, new: row, old });
+};
+
+const publishPresence = (sessionId) => {
+  const members = {};
+  for (const [deviceId, entry] of presence.get(sessionId) || []) {
+    members[deviceId] = entry.meta;
+  }
+  publish('presence', filter => filter.sessionId === sessionId, { eventType: 'UPDATE', new: { members }, old: null });
+};
+
+// Drop everything a disconnected client had announced
+const untrackClient = (client) => {
+  for (const [sessionId, members] of presence) {
+    let changed = false;
+    for (const [deviceId, entry] of members) {
+      if (entry.client === client) {
+        members.delete(deviceId);
+        changed = true;
+      }
+    }
+    if (members.size === 0) presence.delete(sessionId);
+    if (changed) publishPresence(sessionId);
+  }
+};
+
+// `v1.<device id>.<hex HMAC of "device id:session id">`, same as sign_device_token()
+const signDeviceToken = (deviceId, sessionId) =>
+  createHmac('sha256', TOKEN_SECRET).update(`${deviceId}:${sessionId}`).digest('hex');
+
+// `<hex HMAC of "access:device id">`, for claimDevice after a reconnect
+const signDeviceAccess = (deviceId) =>
+  createHmac('sha256', TOKEN_SECRET).update(`access:${deviceId}`).digest('hex');
+
+const withAccessToken = (device) => ({ ...device, access_token: signDeviceAccess(device.id) });
+
+const verifyDeviceToken = (token, sessionId) => {
+  const [version, deviceId, signature] = String(token).split('.');
+  if (version !== 'v1' || !deviceId || !signature) return null;
+
+  const expected = Buffer.from(signDeviceToken(deviceId, sessionId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  return deviceId;
+};
+
+// Whether the connection acts for the session's console or its host
+const controlsSession = (client, session) => [...client.devices].some(deviceId => {
+  const device = devices.get(deviceId);
+  return device?.session_id === session.id && device.status === 'active'
+    && (device.device_type === 'console' || session.host_device_id === device.id);
+});
+
+// Whether the connection acts for this device or controls its session
+const ownsOrControls = (client, device) => {
+  const session = sessions.get(device.session_id);
+  return client.devices.has(device.id) || (session !== undefined && controlsSession(client, session));
+};
+
+const hashPin = (pin, salt) => scryptSync(pin, salt, 32);
+
+// Throw pin_required or pin_locked unless the PIN is right; wrong guesses are counted
+const requirePin = (sessionId, pin) => {
+  const stored = lobbyPins.get(sessionId);
+  if (stored && typeof pin === 'string') {
+    if (stored.lockedUntil > Date.now()) {
+      throw new RequestError('pin_locked', 'Too many wrong PINs - try again in a few minutes');
+    }
+    if (timingSafeEqual(hashPin(pin, stored.salt), stored.hash)) {
+      stored.failedAttempts = 0;
+      return;
+    }
+    if (++stored.failedAttempts >= PIN_MAX_ATTEMPTS) {
+      stored.failedAttempts = 0;
+      stored.lockedUntil = Date.now() + PIN_LOCKOUT_MS;
+    }
+  }
+  throw new RequestError('pin_required', 'This lobby needs the PIN shown on the console');
+};
+
+// Move the host flag to newHostId; with expectedHostId, only if that device is still host
+const transferHost = (session, newHostId, expectedHostId = null) => {
+  if (!session.is_active) return false;
+  if (expectedHostId && session.host_device_id !== expectedHostId) return false;
+
+  const newHost = devices.get(newHostId);
+  if (!newHost || newHost.session_id !== session.id || newHost.device_type !== 'phone' || newHost.status !== 'active') return false;
+
+  for (const old of devices.values()) {
+    if (old.session_id !== session.id || old.is_host === (old.id === newHostId)) continue;
+    const device = { ...old, is_host: old.id === newHostId };
+    devices.set(device.id, device);
+    publishDevice('UPDATE', device, old);
+  }
+
+  const updated = { ...session, host_device_id: newHostId, updated_at: nowIso() };
+  sessions.set(updated.id, updated);
+  publishSession('UPDATE', updated, session);
+  console.log(`👑 [Server] ${newHost.name} is now host of ${session.code}`);
+  return true;
+};
+
+// Remove a device with its inputs, electing a new host if it was the host
+const deleteDevice = (device) => {
+  devices.delete(device.id);
+
+  // ON DELETE CASCADE
+  const inputs = deviceInputs.get(device.session_id);
+  if (inputs) {
+    deviceInputs.set(device.session_id, inputs.filter(input => input.device_id !== device.id));
+  }
+
+  publishDevice('DELETE', device, device);
+
+  // Like trigger_elect_host_on_delete
+  const session = sessions.get(device.session_id);
+  if (session && session.host_device_id === device.id) {
+    const cleared = { ...session, host_device_id: null };
+    sessions.set(cleared.id, cleared);
+
+    const nextHost = [...devices.values()]
+      .filter(other => other.session_id === session.id && other.device_type === 'phone' && other.status === 'active')
+      .sort((a, b) => a.joined_at - b.joined_at)[0];
+    if (!nextHost || !transferHost(cleared, nextHost.id)) {
+      publishSession('UPDATE', cleared, session);
+    }
+  }
+};
+
+// Deactivate a session; ending an ended session returns it unchanged
+const endSession = (old, reason) => {
+  if (!old.is_active) return old;
+
+  const now = nowIso();
+  const session = { ...old, is_active: false, ended_at: now, end_reason: reason, updated_at: now };
+  sessions.set(session.id, session);
+  publishSession('UPDATE', session, old);
+  console.log(`🏁 [Server] Session ${session.code} ended (${reason})`);
+  return session;
+};
+
+// Expire idle sessions and forget long-ended ones with their devices and inputs
+const sweepSessions = () => {
+  const now = Date.now();
+
+  for (const session of sessions.values()) {
+    const sessionDevices = [...devices.values()].filter(device => device.session_id === session.id);
+
+    if (session.is_active) {
+      const lastSeen = sessionDevices.length > 0
+        ? Math.max(...sessionDevices.map(device => Date.parse(device.last_seen)))
+        : Date.parse(session.created_at);
+      if (now - lastSeen > SESSION_IDLE_MS) {
+        endSession(session, 'expired');
+      }
+    } else if (now - Date.parse(session.ended_at || session.created_at) > ENDED_SESSION_RETENTION_MS) {
+      sessionDevices.forEach(device => devices.delete(device.id));
+      deviceInputs.delete(session.id);
+      lobbyPins.delete(session.id);
+      sessions.delete(session.id);
+    }
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+const operations = {
+  ping() {
+    return { now: Date.now() };
+  },
+
+  createSession(params) {
+    const code = requireString(params, 'code');
+    for (const session of sessions.values()) {
+      // Same rule as idx_sessions_code_unique
+      if (session.is_active && session.code === code) {
+        throw new RequestError('conflict', `an active session already uses code ${code}`);
+      }
+    }
+
+    const maxPlayers = params.maxPlayers === undefined ? DEFAULT_MAX_PLAYERS : params.maxPlayers;
+    if (!PLAN_CAPACITIES.includes(maxPlayers)) {
+      throw new RequestError('bad_request', `maxPlayers must be one of ${PLAN_CAPACITIES.join(', ')}`);
+    }
+
+    const now = nowIso();
+    const session = {
+      id: randomUUID(),
+      code,
+      is_active: true,
+      is_locked: false,
+      selected_editor: null,
+      ice_config: null,
+      ended_at: null,
+      end_reason: null,
+      host_device_id: null,
+      max_players: maxPlayers,
+      banned_names: [],
+      banned_device_ids: [],
+      moderation_log: [],
+      join_mode: 'open',
+      created_at: now,
+      updated_at: now
+    };
+    sessions.set(session.id, session);
+    console.log(`✅ [Server] Session created: ${code} (${session.id.slice(-8)})`);
+    return session;
+  },
+
+  // Devices of the session only; null otherwise
+  getSession(params, client) {
+    const sessionId = requireString(params, 'sessionId');
+    return inSession(client, sessionId) ? sessions.get(sessionId) || null : null;
+  },
+
+  // Like find_session(), only what a phone needs before it joins
+  getSessionByCode(params) {
+    const code = requireString(params, 'code');
+    for (const session of sessions.values()) {
+      if (session.is_active && session.code === code) {
+        const { id, is_active, is_locked, selected_editor, join_mode, max_players } = session;
+        return { id, code, is_active, is_locked, selected_editor, join_mode, max_players, pin_required: join_mode === 'pin' };
+      }
+    }
+    return null;
+  },
+
+  // The last moderation of a device this connection holds, even after it was removed
+  getLastModeration(params, client) {
+    const session = requireSession(requireString(params, 'sessionId'));
+    const deviceId = requireString(params, 'deviceId');
+    if (!client.devices.has(deviceId)) return null;
+    return [...session.moderation_log].reverse().find(entry => entry.device_id === deviceId) || null;
+  },
+
+  // Console or host; null otherwise. Like the column grants, sessions only end through
+  // endSession and never come back
+  updateSession(params, client) {
+    const old = requireSession(requireString(params, 'sessionId'));
+    if (!controlsSession(client, old)) return null;
+
+    const changes = pick(params.changes, ['is_locked', 'selected_editor']);
+    const session = { ...old, ...changes, updated_at: nowIso() };
+    sessions.set(session.id, session);
+    publishSession('UPDATE', session, old);
+    return session;
+  },
+
+  // Console or host; null otherwise
+  endSession(params, client) {
+    const session = requireSession(requireString(params, 'sessionId'));
+    const reason = params.reason === undefined ? 'ended_by_host' : params.reason;
+    if (!END_REASONS.includes(reason)) {
+      throw new RequestError('bad_request', `reason must be one of ${END_REASONS.join(', ')}`);
+    }
+    if (!controlsSession(client, session)) return null;
+    return endSession(session, reason);
+  },
+
+  // Console or host
+  transferHost(params, client) {
+    const session = requireSession(requireString(params, 'sessionId'));
+    if (!controlsSession(client, session)) return false;
+    const expectedHostId = typeof params.expectedHostId === 'string' ? params.expectedHostId : null;
+    return transferHost(session, requireString(params, 'deviceId'), expectedHostId);
+  },
+
+  // Host-only; false when the connection doesn't own the host device or the target isn't
+  // another phone/spectator
+  moderateDevice(params, client) {
+    const old = requireSession(requireString(params, 'sessionId'));
+    const hostDeviceId = requireString(params, 'hostDeviceId');
+    const action = params.action;
+    if (!MODERATION_ACTIONS.includes(action)) {
+      throw new RequestError('bad_request', `action must be one of ${MODERATION_ACTIONS.join(', ')}`);
+    }
+
+    const target = devices.get(requireString(params, 'deviceId'));
+    if (!client.devices.has(hostDeviceId)) return false;
+    if (!old.is_active || old.host_device_id !== hostDeviceId || !target || target.id === hostDeviceId) return false;
+    if (target.session_id !== old.id || !['phone', 'spectator'].includes(target.device_type)) return false;
+
+    // Log first, so a removed phone finds out why when its row disappears
+    const session = {
+      ...old,
+      moderation_log: [...old.moderation_log, { action, device_id: target.id, name: target.name, at: nowIso() }],
+      updated_at: nowIso()
+    };
+    if (action === 'ban') {
+      const name = normalizeName(target.name);
+      session.banned_names = [...old.banned_names.filter(banned => banned !== name), name];
+      session.banned_device_ids = [...old.banned_device_ids.filter(id => id !== target.id), target.id];
+    }
+    sessions.set(session.id, session);
+    publishSession('UPDATE', session, old);
+
+    if (action === 'kick' || action === 'ban') {
+      deleteDevice(target);
+    } else {
+      const device = { ...target, is_muted: action === 'mute' };
+      devices.set(device.id, device);
+      publishDevice('UPDATE', device, target);
+    }
+    console.log(`🛡️ [Server] ${target.name} in ${session.code}: ${action}`);
+    return true;
+  },
+
+  // Like set_ice_config(): console-only, an object or null to clear it
+  setIceConfig(params, client) {
+    const old = requireSession(requireString(params, 'sessionId'));
+    const consoleDevice = devices.get(requireString(params, 'consoleDeviceId'));
+    const config = params.config ?? null;
+    if (config !== null && (typeof config !== 'object' || Array.isArray(config))) {
+      throw new RequestError('bad_request', 'config must be an object or null');
+    }
+    if (!old.is_active || !consoleDevice || !client.devices.has(consoleDevice.id)) return false;
+    if (consoleDevice.session_id !== old.id || consoleDevice.device_type !== 'console') return false;
+
+    const session = { ...old, ice_config: config, updated_at: nowIso() };
+    sessions.set(session.id, session);
+    publishSession('UPDATE', session, old);
+    return true;
+  },
+
+  // Console-only; false when the connection doesn't own the session's console
+  setLobbyAccess(params, client) {
+    const old = requireSession(requireString(params, 'sessionId'));
+    const consoleDevice = devices.get(requireString(params, 'consoleDeviceId'));
+    const mode = params.mode;
+    if (!JOIN_MODES.includes(mode)) {
+      throw new RequestError('bad_request', `mode must be one of ${JOIN_MODES.join(', ')}`);
+    }
+    if (mode === 'pin' && !PIN_PATTERN.test(String(params.pin))) {
+      throw new RequestError('bad_request', 'pin must be 4 digits');
+    }
+    if (!old.is_active || !consoleDevice || !client.devices.has(consoleDevice.id)) return false;
+    if (consoleDevice.session_id !== old.id || consoleDevice.device_type !== 'console') return false;
+
+    if (mode === 'pin') {
+      const salt = randomBytes(16).toString('hex');
+      lobbyPins.set(old.id, { salt, hash: hashPin(params.pin, salt), failedAttempts: 0, lockedUntil: 0 });
+    } else {
+      lobbyPins.delete(old.id);
+    }
+
+    const session = { ...old, join_mode: mode, updated_at: nowIso() };
+    sessions.set(session.id, session);
+    publishSession('UPDATE', session, old);
+    console.log(`🚪 [Server] Lobby ${session.code} is now ${mode}`);
+    return true;
+  },
+
+  createDevice(params, client) {
+    const session = requireSession(requireString(params, 'sessionId'));
+    const name = requireString(params, 'name');
+    const deviceType = DEVICE_TYPES.includes(params.deviceType) ? params.deviceType : 'phone';
+    const now = nowIso();
+
+    // Like refuse_banned_device() and is_device_banned()
+    const tokenDeviceId = typeof params.token === 'string' ? verifyDeviceToken(params.token, session.id) : null;
+    if (session.banned_names.includes(normalizeName(name)) || session.banned_device_ids.includes(tokenDeviceId)) {
+      throw new RequestError('banned', 'The host banned this player from the session');
+    }
+
+    // Like join_session(): one console per session, so a second can't skip the PIN and
+    // the knock queue and then control the session as its console
+    const hasConsole = [...devices.values()]
+      .some(device => device.session_id === session.id && device.device_type === 'console');
+    if (deviceType === 'console' && hasConsole) {
+      throw new RequestError('conflict', 'This session already has a console');
+    }
+
+    // Like guard_lobby_access() and join_session()
+    if (deviceType !== 'console' && session.join_mode === 'pin') requirePin(session.id, params.pin);
+    const pending = deviceType !== 'console' && session.join_mode === 'knock';
+
+    // Requests run one at a time, so counting here can't race another join
+    if (deviceType === 'phone') requireSeat(session);
+
+    // Like join_session(): the console, or the first phone; later hosts only come from
+    // election or transfer
+    const hasHostPhone = [...devices.values()]
+      .some(device => device.session_id === session.id && device.device_type === 'phone' && device.is_host);
+    const isHost = params.isHost === true && !pending
+      && (deviceType === 'console' || (deviceType === 'phone' && !hasHostPhone));
+
+    const device = {
+      id: randomUUID(),
+      session_id: session.id,
+      name,
+      device_type: deviceType,
+      is_host: isHost,
+      status: pending ? 'pending' : 'active',
+      joined_at: Date.now(),
+      last_seen: now,
+      connected_at: now,
+      token_issued_at: null,
+      is_muted: false
+    };
+    devices.set(device.id, device);
+    client.devices.add(device.id);
+    publishDevice('INSERT', device, null);
+
+    // Like trigger_record_session_host, which only records phones
+    if (device.is_host && deviceType === 'phone' && !session.host_device_id) {
+      const updated = { ...session, host_device_id: device.id, updated_at: now };
+      sessions.set(updated.id, updated);
+      publishSession('UPDATE', updated, session);
+    }
+    console.log(`✅ [Server] Device joined ${session.code}: ${name} (${deviceType}${pending ? ', pending' : ''})`);
+    return withAccessToken(device);
+  },
+
+  // The session's devices for its devices; others only see their own rows
+  getSessionDevices(params, client) {
+    const sessionId = requireString(params, 'sessionId');
+    const member = inSession(client, sessionId);
+    return [...devices.values()]
+      .filter(device => device.session_id === sessionId && (member || client.devices.has(device.id)))
+      .sort((a, b) => a.joined_at - b.joined_at);
+  },
+
+  // Own device only, and like the column grants only `last_seen`: hosts change through
+  // transferHost and spectators through promoteDevice
+  updateDevice(params, client) {
+    const old = requireDevice(requireString(params, 'deviceId'));
+    if (!client.devices.has(old.id)) return null;
+
+    const changes = pick(params.changes, ['last_seen']);
+    const device = { ...old, ...changes };
+    devices.set(device.id, device);
+    publishDevice('UPDATE', device, old);
+    return device;
+  },
+
+  // Own device, or any device of a session the connection controls (the console marks
+  // phones seen when their inputs arrive)
+  touchDevice(params, client) {
+    const old = requireDevice(requireString(params, 'deviceId'));
+    if (!ownsOrControls(client, old)) return null;
+
+    const device = { ...old, last_seen: nowIso() };
+    devices.set(device.id, device);
+    publishDevice('UPDATE', device, old);
+    return device;
+  },
+
+  // Tokens are only handed out once, to the connection that created the device
+  issueDeviceToken(params, client) {
+    const old = requireDevice(requireString(params, 'deviceId'));
+    if (old.token_issued_at || !client.devices.has(old.id)) return null;
+
+    const device = { ...old, token_issued_at: nowIso() };
+    devices.set(device.id, device);
+    return `v1.${device.id}.${signDeviceToken(device.id, device.session_id)}`;
+  },
+
+  resumeDevice(params, client) {
+    const session = requireSession(requireString(params, 'sessionId'));
+    const deviceId = verifyDeviceToken(requireString(params, 'token'), session.id);
+    const old = deviceId && devices.get(deviceId);
+    if (!old || old.session_id !== session.id || !session.is_active) return null;
+
+    const now = nowIso();
+    const device = { ...old, last_seen: now, connected_at: now };
+    devices.set(device.id, device);
+    client.devices.add(device.id);
+    publishDevice('UPDATE', device, old);
+    console.log(`🔁 [Server] Device resumed in ${session.code}: ${device.name}`);
+    return withAccessToken(device);
+  },
+
+  // Act for a device again after a reconnect, with the access token it was returned with
+  claimDevice(params, client) {
+    const device = devices.get(requireString(params, 'deviceId'));
+    if (!device) return false;
+
+    const expected = Buffer.from(signDeviceAccess(device.id));
+    const actual = Buffer.from(String(params.accessToken));
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return false;
+
+    client.devices.add(device.id);
+    return true;
+  },
+
+  // Console or host, on a device the connection owns; approving the first phone of a lobby
+  // without a phone host makes it host
+  reviewJoin(params, client) {
+    const session = requireSession(requireString(params, 'sessionId'));
+    const reviewer = devices.get(requireString(params, 'reviewerDeviceId'));
+    const target = devices.get(requireString(params, 'deviceId'));
+    if (!session.is_active || !reviewer || !client.devices.has(reviewer.id)) return false;
+    if (reviewer.session_id !== session.id || reviewer.status !== 'active') return false;
+    if (reviewer.device_type !== 'console' && session.host_device_id !== reviewer.id) return false;
+    if (!target || target.session_id !== session.id || target.status !== 'pending') return false;
+
+    if (params.approve !== true) {
+      deleteDevice(target);
+      console.log(`🚫 [Server] ${target.name} was denied entry to ${session.code}`);
+      return true;
+    }
+
+    const device = { ...target, status: 'active' };
+    devices.set(device.id, device);
+    publishDevice('UPDATE', device, target);
+    console.log(`✅ [Server] ${device.name} was let into ${session.code}`);
+
+    const hasHost = [...devices.values()]
+      .some(other => other.session_id === session.id && other.device_type === 'phone' && other.status === 'active' && other.is_host);
+    if (device.device_type === 'phone' && !hasHost) {
+      transferHost(session, device.id);
+    }
+    return true;
+  },
+
+  // Console or host
+  promoteDevice(params, client) {
+    const old = requireDevice(requireString(params, 'deviceId'));
+    if (old.device_type !== 'spectator') {
+      throw new RequestError('bad_request', 'only spectators can be promoted');
+    }
+    const session = requireSession(old.session_id);
+    if (!controlsSession(client, session)) {
+      throw new RequestError('forbidden', 'only the console or the host can promote spectators');
+    }
+    requireSeat(session, old.id);
+
+    const device = { ...old, device_type: 'phone' };
+    devices.set(device.id, device);
+    publishDevice('UPDATE', device, old);
+    console.log(`⬆️ [Server] Spectator promoted: ${device.name}`);
+    return device;
+  },
+
+  // Leaving, or removing another device as the console or host
+  deleteDevice(params, client) {
+    const device = requireDevice(requireString(params, 'deviceId'));
+    if (!ownsOrControls(client, device)) return false;
+
+    deleteDevice(device);
+    return true;
+  },
+
+  // Own device only; null otherwise
+  createDeviceInput(params, client) {
+    const session = requireSession(requireString(params, 'sessionId'));
+    const device = requireDevice(requireString(params, 'deviceId'));
+    if (!client.devices.has(device.id) || device.session_id !== session.id) return null;
+    const now = nowIso();
+
+    const input = {
+      id: randomUUID(),
+      session_id: session.id,
+      device_id: device.id,
+      input_type: requireString(params, 'inputType'),
+      input_action: requireString(params, 'inputAction'),
+      input_data: params.inputData ?? {},
+      timestamp: typeof params.timestamp === 'string' ? params.timestamp : now,
+      source: params.source === 'webrtc' ? 'webrtc' : 'supabase',
+      created_at: now
+    };
+
+    const inputs = deviceInputs.get(session.id) || [];
+    inputs.push(input);
+    deviceInputs.set(session.id, inputs.slice(-MAX_INPUTS_PER_SESSION));
+
+    publish(
+      'device_inputs',
+      (filter, subscriber) => filter.sessionId === session.id && (!filter.deviceId || filter.deviceId === device.id)
+        && inSession(subscriber, session.id),
+      { eventType: 'INSERT', new: input, old: null }
+    );
+    return input;
+  },
+
+  // From an own device only; null otherwise
+  sendSignal(params, client) {
+    const signal = {
+      session_id: requireString(params, 'sessionId'),
+      sender_device_id: requireString(params, 'senderDeviceId'),
+      receiver_device_id: requireString(params, 'receiverDeviceId'),
+      type: requireString(params, 'type'),
+      payload: params.payload ?? {}
+    };
+    if (!client.devices.has(signal.sender_device_id)) return null;
+
+    let delivered = 0;
+    publish('webrtc_signals', filter => {
+      const matches = filter.deviceId === signal.receiver_device_id;
+      if (matches) delivered++;
+      return matches;
+    }, { eventType: 'INSERT', new: signal, old: null });
+    return { delivered };
+  },
+
+  // Own devices only
+  trackPresence(params, client) {
+    const sessionId = requireString(params, 'sessionId');
+    const deviceId = requireString(params, 'deviceId');
+    if (!params.meta || typeof params.meta !== 'object') {
+      throw new RequestError('bad_request', 'meta is required');
+    }
+    if (!client.devices.has(deviceId) || devices.get(deviceId)?.session_id !== sessionId) return false;
+
+    if (!presence.has(sessionId)) presence.set(sessionId, new Map());
+    presence.get(sessionId).set(deviceId, { meta: { ...params.meta, device_id: deviceId }, client });
+    publishPresence(sessionId);
+    return true;
+  },
+
+  untrackPresence(params, client) {
+    const sessionId = requireString(params, 'sessionId');
+    const deviceId = requireString(params, 'deviceId');
+    const members = presence.get(sessionId);
+    if (!client.devices.has(deviceId) || !members?.delete(deviceId)) return false;
+
+    if (members.size === 0) presence.delete(sessionId);
+    publishPresence(sessionId);
+    return true;
+  },
+
+  // Like the profile policies: a connection reads the profiles of its own devices and of
+  // players in their sessions
+  getMappingProfile(params, client) {
+    const playerName = requireString(params, 'playerName');
+    const readable = [...client.devices].some(deviceId => {
+      const device = devices.get(deviceId);
+      return device && (device.name === playerName || (device.status === 'active' && [...devices.values()]
+        .some(other => other.session_id === device.session_id && other.name === playerName)));
+    });
+    return readable ? mappingProfiles.get(playerName) || null : null;
+  },
+
+  // Create or replace, like the upsert on player_name; only under a name of the
+  // connection's own devices
+  saveMappingProfile(params, client) {
+    const playerName = requireString(params, 'playerName');
+    const profileName = requireString(params, 'profileName');
+    if (!isValidMappingProfile(params.mappings)) {
+      throw new RequestError('bad_request', 'mappings must bind rebindable inputs, each once, to console actions');
+    }
+    if (![...client.devices].some(deviceId => devices.get(deviceId)?.name === playerName)) return null;
+
+    const now = nowIso();
+    const old = mappingProfiles.get(playerName);
+    const profile = {
+      id: old ? old.id : randomUUID(),
+      player_name: playerName,
+      profile_name: profileName,
+      mappings: params.mappings,
+      created_at: old ? old.created_at : now,
+      updated_at: now
+    };
+    mappingProfiles.set(playerName, profile);
+    console.log(`🗺️ [Server] Mapping profile saved: ${profileName} (${playerName})`);
+    return profile;
+  },
+
+  // The sender is the device this connection receives relayed envelopes for, never what the
+  // request claims; muted devices and devices no longer in the session can't relay
+  relay(params, client) {
+    const sessionId = requireString(params, 'sessionId');
+    const subscription = [...client.subscriptions.values()]
+      .find(filter => filter.topic === 'relay' && filter.sessionId === sessionId);
+    const sender = subscription && devices.get(subscription.deviceId);
+    if (!sender || sender.session_id !== sessionId || sender.status !== 'active' || sender.is_muted) {
+      return false;
+    }
+
+    const envelope = {
+      from: sender.id,
+      to: requireString(params, 'to'),
+      text: typeof params.text === 'string' ? params.text : undefined,
+      binary: typeof params.binary === 'string' ? params.binary : undefined
+    };
+
+    publish(
+      'relay',
+      filter => filter.sessionId === sessionId && filter.deviceId === envelope.to,
+      { eventType: 'INSERT', new: envelope, old: null }
+    );
+    return true;
+  }
+};
+
+const TOPICS = ['sessions', 'devices', 'device_inputs', 'webrtc_signals', 'relay', 'presence'];
+const DEVICE_TOPICS = ['webrtc_signals', 'relay'];
+
+const handleRequest = (client, message) => {
+  const { id, op, params } = message;
+
+  if (op === 'subscribe') {
+    const topic = params?.topic;
+    if (!TOPICS.includes(topic)) {
+      throw new RequestError('bad_request', `unknown topic ${topic}`);
+    }
+    // Signals and relayed envelopes addressed to a device only go to its own connection
+    if (DEVICE_TOPICS.includes(topic) && !client.devices.has(params.deviceId)) {
+      throw new RequestError('forbidden', `${topic} needs a device this connection joined or resumed`);
+    }
+    // Like the presence channel's policy, checked when the channel is joined
+    if (topic === 'presence' && !inLobby(client, params.sessionId)) {
+      throw new RequestError('forbidden', 'presence needs a device of the session');
+    }
+    const subscription = randomUUID();
+    client.subscriptions.set(subscription, {
+      topic,
+      sessionId: params.sessionId,
+      deviceId: params.deviceId
+    });
+    return { subscription };
+  }
+
+  if (op === 'unsubscribe') {
+    return client.subscriptions.delete(params?.subscription);
+  }
+
+  const operation = Object.prototype.hasOwnProperty.call(operations, op) ? operations[op] : undefined;
+  if (!operation) {
+    throw new RequestError('bad_request', `unknown operation ${op} (request ${id})`);
+  }
+  return operation(params || {}, client);
+};
+
+// ---------------------------------------------------------------------------
+// WebSocket (RFC 6455, text frames only)
+// ---------------------------------------------------------------------------
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+};
+
+class Client {
+  constructor(socket) {
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    this.subscriptions = new Map(); // subscription id -> filter
+    this.devices = new Set(); // Devices this connection created or resumed
+    this.alive = true;
+    this.closed = false;
+
+    socket.on('data', chunk => this.onData(chunk));
+    socket.on('close', () => this.onClose());
+    socket.on('error', error => {
+      console.error('❌ [Server] Socket error:', error.message);
+      socket.destroy();
+    });
+  }
+
+  send(message) {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+
+  close(code = 1000) {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.socket.end(encodeFrame(0x8, payload));
+    this.closed = true;
+    this.fragments = [];
+  }
+
+  ping() {
+    if (!this.alive) {
+      console.log('💀 [Server] Client stopped answering pings, dropping it');
+      this.socket.destroy();
+      return;
+    }
+    this.alive = false;
+    this.socket.write(encodeFrame(0x9, Buffer.alloc(0)));
+  }
+
+  onData(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      const masked = (second & 0x80) !== 0;
+      let length = second & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      // Clients must mask their frames
+      if (!masked) return this.close(1002);
+      if (length > MAX_FRAME_BYTES) return this.close(1009);
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      this.onFrame(fin, opcode, payload);
+      if (this.closed) return;
+    }
+  }
+
+  onFrame(fin, opcode, payload) {
+    switch (opcode) {
+      case 0x0: // continuation
+      case 0x1: // text
+        // Each frame is capped in onData; without this, endless fragments would pile up
+        this.fragmentBytes += payload.length;
+        if (this.fragmentBytes > MAX_MESSAGE_BYTES) return this.close(1009);
+        this.fragments.push(payload);
+        if (fin) {
+          const text = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.fragmentBytes = 0;
+          this.onMessage(text);
+        }
+        break;
+      case 0x8: // close
+        this.close();
+        break;
+      case 0x9: // ping
+        this.socket.write(encodeFrame(0xa, payload));
+        break;
+      case 0xa: // pong
+        this.alive = true;
+        break;
+      default:
+        // Binary frames aren't part of the protocol
+        this.close(1003);
+    }
+  }
+
+  onMessage(text) {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      console.error('❌ [Server] Dropping non-JSON message');
+      return;
+    }
+
+    try {
+      const result = handleRequest(this, message);
+      this.send({ id: message.id, ok: true, result });
+    } catch (error) {
+      const code = error instanceof RequestError ? error.code : 'internal';
+      if (code === 'internal') console.error(`❌ [Server] ${message.op} failed:`, error);
+      this.send({ id: message.id, ok: false, error: { code, message: error.message, details: error.details } });
+    }
+  }
+
+  onClose() {
+    this.closed = true;
+    this.subscriptions.clear();
+    clients.delete(this);
+    untrackClient(this);
+    console.log(`👋 [Server] Client disconnected (${clients.size} connected)`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+const server = createServer((request, response) => {
+  // Plain HTTP only answers health checks (CI waits on this before starting the app)
+  if (request.url === '/health') {
+    response.writeHead(200, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+    response.end(JSON.stringify({ ok: true, sessions: sessions.size, devices: devices.size, clients: clients.size }));
+    return;
+  }
+
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('WebSocket connections only\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  clients.add(new Client(socket));
+  console.log(`🔌 [Server] Client connected from ${socket.remoteAddress} (${clients.size} connected)`);
+});
+
+// Listen, keep connections alive and sweep sessions until SIGINT/SIGTERM
+const start = () => {
+  const keepalive = setInterval(() => {
+    clients.forEach(client => client.ping());
+  }, KEEPALIVE_INTERVAL);
+
+  const sweep = setInterval(sweepSessions, SWEEP_INTERVAL);
+
+  const shutdown = () => {
+    console.log('🛑 [Server] Shutting down');
+    clearInterval(keepalive);
+    clearInterval(sweep);
+    clients.forEach(client => client.close(1001));
+    server.close(() => process.exit(0));
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  server.listen(PORT, HOST, () => {
+    console.log(`🚀 [Server] VibeConsole local server listening on ws://${HOST}:${PORT}`);
+  });
+};
+
+// Imported by the tests, which call handleRequest with their own clients
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  start();
+}
+
+export { Client, clients, handleRequest };
@@ -0,0 +1,477 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client, clients, handleRequest } from './localServer.js';
+
+// The local server's operations, called the way a WebSocket connection calls them
+
+let nextCode = 1000;
+
+// A connection that records what the server pushes to it
+const connect = () => {
+  const client = {
+    devices: new Set(),
+    subscriptions: new Map(),
+    received: [],
+    send(message) {
+      this.received.push(message);
+    }
+  };
+  clients.add(client);
+  return client;
+};
+
+const call = (client, op, params = {}) => handleRequest(client, { id: 1, op, params });
+
+// A lobby with a console and a host phone, each on its own connection
+const openLobby = (options = {}) => {
+  const consoleClient = connect();
+  const session = call(consoleClient, 'createSession', { code: String(nextCode++), ...options });
+  const consoleDevice = call(consoleClient, 'createDevice', { sessionId: session.id, name: 'Console', deviceType: 'console' });
+  const hostClient = connect();
+  const host = call(hostClient, 'createDevice', { sessionId: session.id, name: 'Ada', isHost: true });
+  return { session, consoleClient, consoleDevice, hostClient, host };
+};
+
+const join = (sessionId, name, params = {}) => {
+  const client = connect();
+  const device = call(client, 'createDevice', { sessionId, name, ...params });
+  return { client, device };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  clients.clear();
+  vi.restoreAllMocks();
+});
+
+describe('local server session and device operations', () => {
+  it('only opens lobbies with a plan\'s seat count, and fills them to it', () => {
+    const consoleClient = connect();
+    expect(() => call(consoleClient, 'createSession', { code: String(nextCode++), maxPlayers: 100 })).toThrow(/maxPlayers must be one of 4, 6/);
+    expect(() => call(consoleClient, 'createSession', { code: String(nextCode++), maxPlayers: 5 })).toThrow(/maxPlayers must be one of/);
+
+    const { session } = openLobby({ maxPlayers: 6 });
+    for (const name of ['Grace', 'Linus', 'Barbara', 'Ken', 'Margaret']) join(session.id, name);
+    expect(() => join(session.id, 'Dennis')).toThrow(/holds 6 players/);
+  });
+
+  it('refuses a second console, which would skip the PIN and control the session', () => {
+    const { session, consoleClient, consoleDevice } = openLobby();
+    call(consoleClient, 'setLobbyAccess', { sessionId: session.id, consoleDeviceId: consoleDevice.id, mode: 'pin', pin: '1234' });
+    const intruder = connect();
+
+    expect(() => call(intruder, 'createDevice', { sessionId: session.id, name: 'Console', deviceType: 'console' })).toThrow(/already has a console/);
+    expect(call(intruder, 'updateSession', { sessionId: session.id, changes: { is_locked: true } })).toBeNull();
+  });
+
+  it('lets only the console or the host change, hand over or end the session', () => {
+    const { session, consoleClient, hostClient, host } = openLobby();
+    const { client: playerClient, device: player } = join(session.id, 'Grace');
+    const stranger = connect();
+
+    expect(call(stranger, 'updateSession', { sessionId: session.id, changes: { is_locked: true } })).toBeNull();
+    expect(call(playerClient, 'transferHost', { sessionId: session.id, deviceId: player.id })).toBe(false);
+    expect(call(playerClient, 'endSession', { sessionId: session.id })).toBeNull();
+
+    expect(call(consoleClient, 'updateSession', { sessionId: session.id, changes: { is_locked: true } })).toMatchObject({ is_locked: true });
+    expect(call(hostClient, 'transferHost', { sessionId: session.id, deviceId: player.id, expectedHostId: host.id })).toBe(true);
+    expect(call(hostClient, 'endSession', { sessionId: session.id })).toBeNull();
+    expect(call(playerClient, 'endSession', { sessionId: session.id })).toMatchObject({ is_active: false });
+  });
+
+  it('only lets the console change the session\'s ICE settings', () => {
+    const { session, consoleClient, consoleDevice, hostClient } = openLobby();
+    const relays = { turnUrls: ['turn:evil.example:3478'], iceTransportPolicy: 'relay' };
+
+    expect(call(hostClient, 'updateSession', { sessionId: session.id, changes: { ice_config: relays } })).toMatchObject({ ice_config: null });
+    expect(call(hostClient, 'setIceConfig', { sessionId: session.id, consoleDeviceId: consoleDevice.id, config: relays })).toBe(false);
+    expect(() => call(consoleClient, 'setIceConfig', { sessionId: session.id, consoleDeviceId: consoleDevice.id, config: ['turn:x'] }))
+      .toThrow(/config must be an object/);
+
+    const lan = { iceServers: [{ urls: 'stun:lan.example' }] };
+    expect(call(consoleClient, 'setIceConfig', { sessionId: session.id, consoleDeviceId: consoleDevice.id, config: lan })).toBe(true);
+    expect(call(hostClient, 'getSession', { sessionId: session.id }).ice_config).toEqual(lan);
+  });
+
+  it('never brings an ended session back through updateSession', () => {
+    const { session, consoleClient } = openLobby();
+    call(consoleClient, 'endSession', { sessionId: session.id });
+
+    const updated = call(consoleClient, 'updateSession', { sessionId: session.id, changes: { is_active: true, is_locked: true } });
+    expect(updated).toMatchObject({ is_active: false, is_locked: true, end_reason: 'ended_by_host' });
+    expect(call(consoleClient, 'getSessionByCode', { code: session.code })).toBeNull();
+  });
+
+  it('only writes a device row for its own connection, and never its role', () => {
+    const { session, host } = openLobby();
+    const { client: playerClient, device: player } = join(session.id, 'Grace');
+
+    expect(call(playerClient, 'updateDevice', { deviceId: host.id, changes: { last_seen: 'x' } })).toBeNull();
+    expect(call(playerClient, 'deleteDevice', { deviceId: host.id })).toBe(false);
+
+    const updated = call(playerClient, 'updateDevice', { deviceId: player.id, changes: { is_host: true, device_type: 'console' } });
+    expect(updated).toMatchObject({ is_host: false, device_type: 'phone' });
+    expect(call(playerClient, 'getSession', { sessionId: session.id }).host_device_id).toBe(host.id);
+  });
+
+  it('only makes the first phone the session\'s host, whatever later devices ask for', () => {
+    const consoleClient = connect();
+    const session = call(consoleClient, 'createSession', { code: String(nextCode++) });
+    call(consoleClient, 'createDevice', { sessionId: session.id, name: 'Console', deviceType: 'console', isHost: true });
+    expect(call(consoleClient, 'getSession', { sessionId: session.id }).host_device_id).toBeNull();
+
+    const { device: spectator } = join(session.id, 'Linus', { deviceType: 'spectator', isHost: true });
+    const { device: host } = join(session.id, 'Ada', { isHost: true });
+    const { device: second } = join(session.id, 'Grace', { isHost: true });
+
+    expect(spectator.is_host).toBe(false);
+    expect(host.is_host).toBe(true);
+    expect(second.is_host).toBe(false);
+    expect(call(consoleClient, 'getSession', { sessionId: session.id }).host_device_id).toBe(host.id);
+  });
+
+  it('refuses inputs, signals and presence for devices of other connections', () => {
+    const { session, consoleDevice, host } = openLobby();
+    const { client: playerClient } = join(session.id, 'Grace');
+
+    expect(call(playerClient, 'createDeviceInput', {
+      sessionId: session.id, deviceId: host.id, inputType: 'dpad', inputAction: 'up'
+    })).toBeNull();
+    expect(call(playerClient, 'sendSignal', {
+      sessionId: session.id, senderDeviceId: host.id, receiverDeviceId: consoleDevice.id, type: 'offer'
+    })).toBeNull();
+    expect(call(playerClient, 'trackPresence', { sessionId: session.id, deviceId: host.id, meta: {} })).toBe(false);
+  });
+
+  it('lets a new connection act for a device again with its access token', () => {
+    const { session, host } = openLobby();
+    expect(typeof host.access_token).toBe('string');
+
+    const reconnected = connect();
+    expect(call(reconnected, 'claimDevice', { deviceId: host.id, accessToken: 'forged' })).toBe(false);
+    expect(call(reconnected, 'updateSession', { sessionId: session.id, changes: { is_locked: true } })).toBeNull();
+
+    expect(call(reconnected, 'claimDevice', { deviceId: host.id, accessToken: host.access_token })).toBe(true);
+    expect(call(reconnected, 'updateSession', { sessionId: session.id, changes: { is_locked: true } })).toMatchObject({ is_locked: true });
+  });
+
+  it('hands a resume token only to the device\'s connection, once, and resumes that device with it', () => {
+    const { session, consoleClient, hostClient, host } = openLobby();
+    const other = openLobby();
+
+    expect(call(consoleClient, 'issueDeviceToken', { deviceId: host.id })).toBeNull();
+    const token = call(hostClient, 'issueDeviceToken', { deviceId: host.id });
+    expect(token).toMatch(/^v1\./);
+    expect(call(hostClient, 'issueDeviceToken', { deviceId: host.id })).toBeNull();
+
+    const reloaded = connect();
+    expect(call(reloaded, 'resumeDevice', { sessionId: other.session.id, token })).toBeNull();
+    expect(call(reloaded, 'resumeDevice', { sessionId: session.id, token: `${token}0` })).toBeNull();
+    expect(call(reloaded, 'resumeDevice', { sessionId: session.id, token })).toMatchObject({ id: host.id, is_host: true });
+    expect(call(reloaded, 'updateSession', { sessionId: session.id, changes: { is_locked: true } })).toMatchObject({ is_locked: true });
+
+    call(consoleClient, 'endSession', { sessionId: session.id });
+    expect(call(connect(), 'resumeDevice', { sessionId: session.id, token })).toBeNull();
+  });
+});
+
+describe('local server relay and moderation', () => {
+  const subscribe = (client, params) => call(client, 'subscribe', params).subscription;
+  const relayed = (client, subscription) => client.received
+    .filter(message => message.subscription === subscription)
+    .map(message => message.new);
+
+  it('only subscribes a connection to relays and signals for its own devices', () => {
+    const { session, host } = openLobby();
+    const { client: playerClient } = join(session.id, 'Grace');
+
+    expect(() => subscribe(playerClient, { topic: 'relay', sessionId: session.id, deviceId: host.id })).toThrow(/relay needs a device/);
+    expect(() => subscribe(playerClient, { topic: 'webrtc_signals', deviceId: host.id })).toThrow(/webrtc_signals needs a device/);
+  });
+
+  it('stamps the sender of relayed envelopes, whatever the request claims', () => {
+    const { session, consoleClient, consoleDevice, host } = openLobby();
+    const { client: playerClient, device: player } = join(session.id, 'Grace');
+    const consoleRelay = subscribe(consoleClient, { topic: 'relay', sessionId: session.id, deviceId: consoleDevice.id });
+    subscribe(playerClient, { topic: 'relay', sessionId: session.id, deviceId: player.id });
+
+    expect(call(playerClient, 'relay', { sessionId: session.id, from: host.id, to: consoleDevice.id, text: 'hi' })).toBe(true);
+    expect(relayed(consoleClient, consoleRelay)).toEqual([expect.objectContaining({ from: player.id, text: 'hi' })]);
+  });
+
+  it('drops relays from muted devices and connections without a relay subscription', () => {
+    const { session, consoleClient, consoleDevice, hostClient, host } = openLobby();
+    const { client: playerClient, device: player } = join(session.id, 'Grace');
+    const consoleRelay = subscribe(consoleClient, { topic: 'relay', sessionId: session.id, deviceId: consoleDevice.id });
+    subscribe(playerClient, { topic: 'relay', sessionId: session.id, deviceId: player.id });
+
+    expect(call(connect(), 'relay', { sessionId: session.id, to: consoleDevice.id, text: 'hi' })).toBe(false);
+    expect(call(hostClient, 'moderateDevice', { sessionId: session.id, hostDeviceId: host.id, deviceId: player.id, action: 'mute' })).toBe(true);
+    expect(call(playerClient, 'relay', { sessionId: session.id, to: consoleDevice.id, text: 'hi' })).toBe(false);
+    expect(relayed(consoleClient, consoleRelay)).toEqual([]);
+  });
+
+  it('only lets the console or the host seat a spectator, and only while there is room', () => {
+    const { session, consoleClient, hostClient } = openLobby();
+    const { client: playerClient, device: player } = join(session.id, 'Grace');
+    const { device: spectator } = join(session.id, 'Eve', { deviceType: 'spectator' });
+    join(session.id, 'Linus');
+    const { device: last } = join(session.id, 'Barbara');
+    expect(() => join(session.id, 'Ken')).toThrow(/holds 4 players/);
+
+    expect(() => call(playerClient, 'promoteDevice', { deviceId: spectator.id })).toThrow(/only the console or the host/);
+    expect(() => call(hostClient, 'promoteDevice', { deviceId: player.id })).toThrow(/only spectators/);
+    expect(() => call(hostClient, 'promoteDevice', { deviceId: spectator.id })).toThrow(/holds 4 players/);
+
+    expect(call(consoleClient, 'deleteDevice', { deviceId: last.id })).toBe(true);
+    expect(call(hostClient, 'promoteDevice', { deviceId: spectator.id })).toMatchObject({ device_type: 'phone', is_host: false });
+    expect(() => join(session.id, 'Ken')).toThrow(/holds 4 players/);
+  });
+
+  it('only moderates for the connection that owns the host device', () => {
+    const { session, host } = openLobby();
+    const { client: playerClient, device: player } = join(session.id, 'Grace');
+
+    // Players can read the host's id, but naming it isn't enough
+    expect(call(playerClient, 'getSessionDevices', { sessionId: session.id }).some(device => device.id === host.id)).toBe(true);
+    expect(call(playerClient, 'moderateDevice', { sessionId: session.id, hostDeviceId: host.id, deviceId: player.id, action: 'unmute' })).toBe(false);
+    expect(call(connect(), 'moderateDevice', { sessionId: session.id, hostDeviceId: host.id, deviceId: player.id, action: 'kick' })).toBe(false);
+    expect(call(playerClient, 'getSessionDevices', { sessionId: session.id })).toHaveLength(3);
+  });
+
+  it('only shows a session, its devices and their changes to the session\'s own devices', () => {
+    const { session, consoleClient, consoleDevice } = openLobby();
+    const stranger = connect();
+    const other = openLobby();
+    const subscribe = (client, topic) => call(client, 'subscribe', { topic, sessionId: session.id }).subscription;
+
+    expect(call(stranger, 'getSession', { sessionId: session.id })).toBeNull();
+    expect(call(stranger, 'getSessionDevices', { sessionId: session.id })).toEqual([]);
+    expect(call(other.consoleClient, 'getSessionDevices', { sessionId: session.id })).toEqual([]);
+    expect(() => subscribe(stranger, 'presence')).toThrow(/presence needs a device/);
+
+    const watching = ['sessions', 'devices', 'device_inputs'].map(topic => subscribe(stranger, topic));
+    const { client: playerClient, device: player } = join(session.id, 'Grace');
+    call(playerClient, 'createDeviceInput', { sessionId: session.id, deviceId: player.id, inputType: 'dpad', inputAction: 'up' });
+    call(consoleClient, 'updateSession', { sessionId: session.id, changes: { is_locked: true } });
+    expect(stranger.received.filter(message => watching.includes(message.subscription))).toEqual([]);
+
+    const consoleWatching = subscribe(consoleClient, 'device_inputs');
+    call(playerClient, 'createDeviceInput', { sessionId: session.id, deviceId: player.id, inputType: 'dpad', inputAction: 'down' });
+    expect(consoleClient.received.filter(message => message.subscription === consoleWatching)).toHaveLength(1);
+    expect(call(consoleClient, 'getSession', { sessionId: session.id })).toMatchObject({ id: session.id, is_locked: true });
+    expect(call(playerClient, 'getSessionDevices', { sessionId: session.id }).map(device => device.id)).toContain(consoleDevice.id);
+  });
+
+  it('shows a phone knocking at the door only its own row', () => {
+    const { session, consoleClient, consoleDevice } = openLobby();
+    call(consoleClient, 'setLobbyAccess', { sessionId: session.id, consoleDeviceId: consoleDevice.id, mode: 'knock' });
+    const { client, device } = join(session.id, 'Grace');
+    const watching = call(client, 'subscribe', { topic: 'devices', sessionId: session.id }).subscription;
+
+    expect(call(client, 'getSession', { sessionId: session.id })).toBeNull();
+    expect(call(client, 'getSessionDevices', { sessionId: session.id }).map(row => row.id)).toEqual([device.id]);
+
+    join(session.id, 'Linus');
+    call(consoleClient, 'reviewJoin', { sessionId: session.id, reviewerDeviceId: consoleDevice.id, deviceId: device.id, approve: true });
+    expect(client.received.filter(message => message.subscription === watching).map(message => message.new.id)).toEqual([device.id]);
+  });
+
+  it('tells a kicked phone why, without showing the lobby\'s moderation log by code', () => {
+    const { session, hostClient, host } = openLobby();
+    const { client: playerClient, device: player } = join(session.id, 'Grace');
+
+    expect(call(hostClient, 'moderateDevice', { sessionId: session.id, hostDeviceId: host.id, deviceId: player.id, action: 'kick' })).toBe(true);
+    expect(call(playerClient, 'getLastModeration', { sessionId: session.id, deviceId: player.id })).toMatchObject({ action: 'kick', device_id: player.id });
+    expect(call(connect(), 'getLastModeration', { sessionId: session.id, deviceId: player.id })).toBeNull();
+
+    const summary = call(connect(), 'getSessionByCode', { code: session.code });
+    expect(summary).toEqual({
+      id: session.id,
+      code: session.code,
+      is_active: true,
+      is_locked: false,
+      selected_editor: null,
+      join_mode: 'open',
+      max_players: 4,
+      pin_required: false
+    });
+  });
+});
+
+describe('local server lobby access', () => {
+  it('only changes lobby access for the connection that owns the console', () => {
+    const { session, consoleClient, consoleDevice, hostClient } = openLobby();
+    expect(call(consoleClient, 'setLobbyAccess', { sessionId: session.id, consoleDeviceId: consoleDevice.id, mode: 'pin', pin: '1234' })).toBe(true);
+
+    // The console's id is public, so a phone can name it
+    expect(call(hostClient, 'setLobbyAccess', { sessionId: session.id, consoleDeviceId: consoleDevice.id, mode: 'open' })).toBe(false);
+    expect(call(hostClient, 'getSession', { sessionId: session.id }).join_mode).toBe('pin');
+  });
+
+  it('keeps knocking phones out until the console or host lets them in', () => {
+    const { session, consoleClient, consoleDevice, hostClient, host } = openLobby();
+    call(consoleClient, 'setLobbyAccess', { sessionId: session.id, consoleDeviceId: consoleDevice.id, mode: 'knock' });
+    const { client: knockerClient, device: knocker } = join(session.id, 'Grace');
+    const { device: other } = join(session.id, 'Linus');
+    expect(knocker.status).toBe('pending');
+
+    expect(call(knockerClient, 'reviewJoin', { sessionId: session.id, reviewerDeviceId: consoleDevice.id, deviceId: knocker.id, approve: true })).toBe(false);
+    expect(call(knockerClient, 'reviewJoin', { sessionId: session.id, reviewerDeviceId: host.id, deviceId: knocker.id, approve: true })).toBe(false);
+
+    expect(call(hostClient, 'reviewJoin', { sessionId: session.id, reviewerDeviceId: host.id, deviceId: knocker.id, approve: true })).toBe(true);
+    expect(call(consoleClient, 'reviewJoin', { sessionId: session.id, reviewerDeviceId: consoleDevice.id, deviceId: other.id, approve: false })).toBe(true);
+    const statuses = call(consoleClient, 'getSessionDevices', { sessionId: session.id }).map(device => [device.name, device.status]);
+    expect(statuses).toEqual([['Console', 'active'], ['Ada', 'active'], ['Grace', 'active']]);
+  });
+
+  it('asks phones joining a PIN lobby for the right PIN', () => {
+    const { session, consoleClient, consoleDevice } = openLobby();
+    call(consoleClient, 'setLobbyAccess', { sessionId: session.id, consoleDeviceId: consoleDevice.id, mode: 'pin', pin: '4321' });
+
+    expect(() => join(session.id, 'Grace')).toThrow(/needs the PIN/);
+    expect(() => join(session.id, 'Grace', { pin: '1234' })).toThrow(/needs the PIN/);
+    expect(join(session.id, 'Grace', { pin: '4321' }).device).toMatchObject({ status: 'active' });
+  });
+});
+
+describe('local server lobby PINs', () => {
+  it('stops taking PINs for a while after five wrong ones in a row', () => {
+    const { session, consoleClient, consoleDevice } = openLobby();
+    call(consoleClient, 'setLobbyAccess', { sessionId: session.id, consoleDeviceId: consoleDevice.id, mode: 'pin', pin: '4321' });
+
+    for (const guess of ['0000', '0001', '0002', '0003', '0004']) {
+      expect(() => join(session.id, 'Mallory', { pin: guess })).toThrow(/needs the PIN/);
+    }
+    expect(() => join(session.id, 'Grace', { pin: '4321' })).toThrow(/Too many wrong PINs/);
+
+    // A new PIN from the console lifts the lock
+    call(consoleClient, 'setLobbyAccess', { sessionId: session.id, consoleDeviceId: consoleDevice.id, mode: 'pin', pin: '5678' });
+    expect(join(session.id, 'Grace', { pin: '5678' }).device).toMatchObject({ status: 'active' });
+  });
+
+  it('lets the lobby take PINs again once the lockout is over', () => {
+    vi.useFakeTimers();
+    try {
+      const { session, consoleClient, consoleDevice } = openLobby();
+      call(consoleClient, 'setLobbyAccess', { sessionId: session.id, consoleDeviceId: consoleDevice.id, mode: 'pin', pin: '4321' });
+      for (let i = 0; i < 5; i++) {
+        expect(() => join(session.id, 'Mallory', { pin: '0000' })).toThrow(/needs the PIN/);
+      }
+
+      vi.advanceTimersByTime(5 * 60 * 1000);
+      expect(join(session.id, 'Grace', { pin: '4321' }).device).toMatchObject({ status: 'active' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('local server mapping profiles', () => {
+  const lefty = [
+    { inputType: 'dpad.up', mappedAction: 'move_down', isActive: true },
+    { inputType: 'button.confirm', mappedAction: 'confirm', isActive: true }
+  ];
+
+  it('only saves a profile under the name of one of the connection\'s devices', () => {
+    const { session, consoleClient, hostClient } = openLobby();
+    const stranger = connect();
+
+    expect(call(stranger, 'saveMappingProfile', { playerName: 'Ada', profileName: 'Hacked', mappings: lefty })).toBeNull();
+    expect(call(hostClient, 'saveMappingProfile', { playerName: 'Ada', profileName: 'Lefty', mappings: lefty }))
+      .toMatchObject({ player_name: 'Ada', profile_name: 'Lefty' });
+    expect(call(consoleClient, 'saveMappingProfile', { playerName: 'Ada', profileName: 'Hacked', mappings: lefty })).toBeNull();
+
+    // The console reads the profiles of players in its session; strangers read nothing
+    expect(call(consoleClient, 'getMappingProfile', { playerName: 'Ada' })).toMatchObject({ profile_name: 'Lefty' });
+    expect(call(stranger, 'getMappingProfile', { playerName: 'Ada' })).toBeNull();
+    expect(call(join(session.id, 'Grace').client, 'getMappingProfile', { playerName: 'Ada' })).toMatchObject({ profile_name: 'Lefty' });
+  });
+
+  it('refuses mappings that fail isValidMappingProfile()', () => {
+    const { hostClient } = openLobby();
+    const save = (mappings) => call(hostClient, 'saveMappingProfile', { playerName: 'Ada', profileName: 'Bad', mappings });
+
+    expect(() => save([{ inputType: 'dpad.up', mappedAction: 'self_destruct', isActive: true }])).toThrow(/mappings must/);
+    expect(() => save([{ inputType: 'keyboard.q', mappedAction: 'confirm', isActive: true }])).toThrow(/mappings must/);
+    expect(() => save([...lefty, lefty[0]])).toThrow(/mappings must/);
+    expect(() => save({ 'dpad.up': 'confirm' })).toThrow(/mappings must/);
+    expect(save([{ inputType: 'dpad.up', mappedAction: '', isActive: false }])).toMatchObject({ profile_name: 'Bad' });
+  });
+});
+
+describe('local server presence', () => {
+  const members = (client, subscription) => client.received
+    .filter(message => message.subscription === subscription)
+    .map(message => message.new.members);
+
+  it('pushes the session\'s members to every subscriber on track and untrack', () => {
+    const { session, consoleClient, consoleDevice, hostClient, host } = openLobby();
+    const watching = call(consoleClient, 'subscribe', { topic: 'presence', sessionId: session.id }).subscription;
+
+    expect(call(consoleClient, 'trackPresence', { sessionId: session.id, deviceId: consoleDevice.id, meta: { name: 'Console', state: 'active' } })).toBe(true);
+    expect(call(hostClient, 'trackPresence', { sessionId: session.id, deviceId: host.id, meta: { name: 'Ada', state: 'idle', device_id: consoleDevice.id } })).toBe(true);
+    expect(Object.keys(members(consoleClient, watching).at(-1)).sort()).toEqual([consoleDevice.id, host.id].sort());
+    // The member id is the tracked device, whatever the meta claims
+    expect(members(consoleClient, watching).at(-1)[host.id]).toEqual({ name: 'Ada', state: 'idle', device_id: host.id });
+
+    expect(call(consoleClient, 'untrackPresence', { sessionId: session.id, deviceId: host.id })).toBe(false);
+    expect(call(hostClient, 'untrackPresence', { sessionId: session.id, deviceId: host.id })).toBe(true);
+    expect(Object.keys(members(consoleClient, watching).at(-1))).toEqual([consoleDevice.id]);
+    expect(call(hostClient, 'untrackPresence', { sessionId: session.id, deviceId: host.id })).toBe(false);
+  });
+
+  it('requires an announcement to track', () => {
+    const { session, hostClient, host } = openLobby();
+
+    expect(() => call(hostClient, 'trackPresence', { sessionId: session.id, deviceId: host.id })).toThrow(/meta is required/);
+  });
+});
+
+describe('local server WebSocket frames', () => {
+  // A masked client frame; `fin` false leaves the message open for continuations
+  const frame = (opcode, payload, fin = true) => {
+    const mask = Buffer.from([1, 2, 3, 4]);
+    const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+    const header = Buffer.alloc(10);
+    header[0] = (fin ? 0x80 : 0) | opcode;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+    return Buffer.concat([header, mask, masked]);
+  };
+
+  const openSocket = () => {
+    const socket = { on: vi.fn(), write: vi.fn(), end: vi.fn(), destroy: vi.fn() };
+    return { socket, client: new Client(socket) };
+  };
+
+  // Close code of the close frame the server ended the socket with
+  const closeCode = socket => socket.end.mock.calls[0]?.[0].readUInt16BE(2);
+
+  it('closes with 1009 once a fragmented message outgrows the cap', () => {
+    const { socket, client } = openSocket();
+    const chunk = Buffer.alloc(512 * 1024, 0x20);
+
+    client.onData(frame(0x1, chunk, false));
+    client.onData(frame(0x0, chunk, false));
+    expect(socket.end).not.toHaveBeenCalled();
+
+    client.onData(frame(0x0, Buffer.from(' '), false));
+    expect(closeCode(socket)).toBe(1009);
+    expect(client.fragments).toEqual([]);
+  });
+
+  it('still puts fragmented messages under the cap together', () => {
+    const { socket, client } = openSocket();
+    const request = Buffer.from(JSON.stringify({ id: 7, op: 'getSessionByCode', params: { code: 'none' } }));
+
+    client.onData(frame(0x1, request.subarray(0, 10), false));
+    client.onData(frame(0x0, request.subarray(10)));
+
+    expect(socket.end).not.toHaveBeenCalled();
+    expect(socket.write).toHaveBeenCalledTimes(1);
+    expect(socket.write.mock.calls[0][0].subarray(2).toString()).toBe(JSON.stringify({ id: 7, ok: true, result: null }));
+  });
+});
@@ -5,6 +5,7 @@ import ConsoleDisplay from './components/ConsoleDisplay';
 import { Card, CardContent } from "./components/card";
 import PhoneController from './components/PhoneController';
 import LobbyJoin from './components/LobbyJoin';
+import { PLANS, DEFAULT_PLAN, PlanId } from './lib/plans';
 
 const platformLogos = [
   {
@@ -63,18 +64,20 @@ const navItems = [
 
 const pricingPlans = [
   {
-    name: "Free",
+    id: PLANS.free.id,
+    name: PLANS.free.name,
     price: "$0",
     buttonText: "Get Started",
-    features: ["Limited lobbies", "Upto 4 members", "Community support"],
+    features: ["Limited lobbies", `Upto ${PLANS.free.maxPlayers} members`, "Community support"],
   },
   {
-    name: "Pro",
+    id: PLANS.pro.id,
+    name: PLANS.pro.name,
     price: "$15",
     buttonText: "Upgrade",
     features: [
       "Unlimited lobbies",
-      "Upto 6 members",
+      `Upto ${PLANS.pro.maxPlayers} members`,
       "Priority support",
     ],
   },
@@ -88,7 +91,8 @@ const stats = [
 
 
 function App() {
-  const [isOnboarding, setIsOnboarding] = useState(false);
+  // The plan the console opens its lobby with, once the visitor starts
+  const [onboardingPlan, setOnboardingPlan] = useState<PlanId | null>(null);
 
   const LandingPage = () => (
     <div className="min-h-screen bg-[#1f252a] backdrop-blur-md border-b border-white/10 flex flex-col justify-center w-full text-white">
@@ -121,7 +125,7 @@ function App() {
             start Vibing instantly
         </p>
         <button 
-          onClick={() => setIsOnboarding(true)}
+          onClick={() => setOnboardingPlan(DEFAULT_PLAN)}
           className="hover:bg-[#ffaa3e] text-white px-8 py-3 bg-[#c48c4b] rounded-md transition-colors shadow-[0px_0px_12px_#ffaa3e]"
         >
           Start Coding Now
@@ -369,7 +373,10 @@ function App() {
             </div>
 
             {/* CTA Button */}
-            <button className="w-full h-10 mt-4 items-center justify-center px-4 py-0 bg-[#283038] rounded-lg overflow-hidden flex hover:bg-[#343e48] transition-colors">
+            <button
+              onClick={() => setOnboardingPlan(plan.id)}
+              className="w-full h-10 mt-4 items-center justify-center px-4 py-0 bg-[#283038] rounded-lg overflow-hidden flex hover:bg-[#343e48] transition-colors"
+            >
               <span className="[font-family:'Space_Grotesk',Helvetica] font-bold text-white text-sm text-center tracking-[0] leading-[21px] whitespace-nowrap">
                 {plan.buttonText}
               </span>
@@ -434,7 +441,7 @@ function App() {
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={isOnboarding ? <ConsoleDisplay /> : <LandingPage />} />
+        <Route path="/" element={onboardingPlan ? <ConsoleDisplay plan={onboardingPlan} /> : <LandingPage />} />
         <Route path="/controller" element={<ControllerWrapper />} />
       </Routes>
     </BrowserRouter>
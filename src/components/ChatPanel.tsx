@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { MessageCircle, Send } from 'lucide-react';
+import { CHAT_MAX_LENGTH, type ChatPayload } from '../lib/protocol';
+
+interface ChatPanelProps {
+  lines: ChatPayload[];
+  myDeviceId: string;
+  // Null when we can chat, otherwise why not (muted, not connected yet)
+  disabledReason: string | null;
+  onSend: (text: string) => boolean;
+}
+
+// Lobby chat on phones; lines come back from the console, ours included
+const ChatPanel: React.FC<ChatPanelProps> = ({ lines, myDeviceId, disabledReason, onSend }) => {
+  const [text, setText] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || disabledReason) return;
+    if (onSend(text.trim())) {
+      setText('');
+    }
+  };
+
+  return (
+    <div className="w-full bg-gray-800/60 rounded-lg p-3 text-left">
+      <div className="flex items-center gap-2 mb-2 text-sm text-gray-300">
+        <MessageCircle size={14} />
+        <span>Chat</span>
+      </div>
+      <div className="max-h-40 overflow-y-auto space-y-1 mb-2">
+        {lines.map((line, index) => (
+          <div key={index} className="text-sm break-words">
+            <span className={line.fromDeviceId === myDeviceId ? 'text-indigo-300' : 'text-gray-400'}>
+              {line.fromName || 'Unknown'}:
+            </span>{' '}
+            {line.text}
+          </div>
+        ))}
+        {lines.length === 0 && (
+          <div className="text-sm text-gray-500">No messages yet</div>
+        )}
+      </div>
+      <form onSubmit={submit} className="flex gap-2">
+        <input
+          value={text}
+          onChange={e => setText(e.target.value)}
+          maxLength={CHAT_MAX_LENGTH}
+          disabled={disabledReason !== null}
+          placeholder={disabledReason || 'Say something'}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabledReason !== null || !text.trim()}
+          className="px-3 rounded-lg bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50 disabled:hover:bg-indigo-500 transition-colors"
+        >
+          <Send size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
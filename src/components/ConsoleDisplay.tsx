@@ -1,21 +1,47 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Code, Users, QrCode, Copy, Check, Crown, Wifi, Activity, AlertCircle, Trash2, ArrowLeft } from 'lucide-react';
-import { supabase, sessionHelpers, deviceHelpers, deviceInputHelpers } from '../lib/supabase';
+import { Code, Users, QrCode, Copy, Check, Crown, Wifi, Activity, AlertCircle, Trash2, ArrowLeft, Power, RefreshCw } from 'lucide-react';
+import { useRepositories } from '../hooks/useRepositories';
 import { useWebRTC } from '../hooks/useWebRTC';
-import { WebRTCMessage } from '../lib/webrtc';
+import { useSessionLifecycle, describeSessionEnd } from '../hooks/useSessionLifecycle';
+import { usePresence } from '../hooks/usePresence';
+import { REMOVE_AFTER, PresenceStatus } from '../lib/presence';
+import { HOST_ELECTION_AFTER, chooseNextHost } from '../lib/hostElection';
+import { PLANS, DEFAULT_PLAN, PlanId } from '../lib/plans';
+import { ModerationEntry, describeModeration } from '../lib/moderation';
+import { JoinMode, JOIN_MODES, describeJoinMode, generateLobbyPin } from '../lib/lobbyAccess';
+import { TransportKind, WebRTCMessage } from '../lib/webrtc';
+import { ChatPayload, SketchPayload } from '../lib/protocol';
+import { SketchForwarder } from '../lib/sketches';
 import { InputRouter, ControllerInput } from '../lib/inputRouter';
+import { EditorBridge, EditorBridgeState } from '../lib/editorBridge';
+import { InputEmulator, resolveEmulationConfig } from '../lib/inputEmulator';
+import { editors, getEditorById } from '../lib/editors';
 import EditorSelection from './EditorSelection';
+import LatencyBadge from './LatencyBadge';
 
 interface Player {
   id: string;
   name: string;
-  deviceType: 'phone' | 'console';
+  deviceType: 'phone' | 'console' | 'spectator';
   isHost: boolean;
+  isMuted: boolean;
   joinedAt: number;
   lastSeen: number;
-  status: string;
 }
 
+// Moderation entries listed under the players
+const MODERATION_LOG_LIMIT = 5;
+
+// Chat lines shown over the editor
+const CHAT_LOG_LIMIT = 5;
+
+// Player avatar/chip colours by presence
+const presenceStyles: Record<PresenceStatus, { dot: string; label: string }> = {
+  online: { dot: 'bg-green-400', label: 'text-green-400' },
+  idle: { dot: 'bg-yellow-400', label: 'text-yellow-400' },
+  disconnected: { dot: 'bg-red-400', label: 'text-red-400' }
+};
+
 interface SelectedEditor {
   id: string;
   name: string;
@@ -24,10 +50,17 @@ interface SelectedEditor {
   timestamp: number;
 }
 
-const ConsoleDisplay: React.FC = () => {
+interface ConsoleDisplayProps {
+  // Decides how many phones the lobby holds
+  plan?: PlanId;
+}
+
+const ConsoleDisplay: React.FC<ConsoleDisplayProps> = ({ plan = DEFAULT_PLAN }) => {
+  const repositories = useRepositories();
   const [sessionId, setSessionId] = useState<string>('');
   const [consoleDeviceId, setConsoleDeviceId] = useState<string>('');
   const [lobbyCode, setLobbyCode] = useState<string>('');
+  const [maxPlayers, setMaxPlayers] = useState(PLANS[plan].maxPlayers);
   const [qrCodeData, setQrCodeData] = useState<string>('');
   const [connectionUrl, setConnectionUrl] = useState<string>('');
   const [players, setPlayers] = useState<Player[]>([]);
@@ -40,37 +73,56 @@ const ConsoleDisplay: React.FC = () => {
   // NEW: Selected editor state from Supabase
   const [selectedEditor, setSelectedEditor] = useState<SelectedEditor | null>(null);
 
+  // Editor highlighted on the selection screen, shared with every phone
+  const [highlightedEditorIndex, setHighlightedEditorIndex] = useState(0);
+
   // InputRouter integration
   const inputRouterRef = useRef<InputRouter | null>(null);
 
+  // Editor iframe bridge
+  const editorIframeRef = useRef<HTMLIFrameElement | null>(null);
+  const editorBridgeRef = useRef<EditorBridge | null>(null);
+  const [editorBridgeState, setEditorBridgeState] = useState<EditorBridgeState>('idle');
+
+  // Keyboard/pointer emulation for editors without bridge support
+  const inputEmulatorRef = useRef<InputEmulator | null>(null);
+
+  // Short-lived notice when a phone switches between WebRTC and the Realtime relay
+  const [transportNotice, setTransportNotice] = useState<{ deviceId: string; transport: TransportKind } | null>(null);
+
+  // Host kicks, bans and mutes, from sessions.moderation_log
+  const [moderationLog, setModerationLog] = useState<ModerationEntry[]>([]);
+
+  // Lobby access: the PIN is only known here, and knocking devices wait for approval
+  const [joinMode, setJoinMode] = useState<JoinMode>('open');
+  const [lobbyPin, setLobbyPin] = useState<string | null>(null);
+  const [knocking, setKnocking] = useState<Player[]>([]);
+
+  // Chat from phones and spectators, which the console passes on to everyone
+  const [chatLog, setChatLog] = useState<ChatPayload[]>([]);
+
+  // Chat and the players' strokes go on to other devices; set once the WebRTC manager
+  // exists, since its message handler is fixed when it's created
+  const passOnMessageRef = useRef<(message: WebRTCMessage, fromDeviceId: string) => void>(() => {});
+
   // Create device name mapping for WebRTC messages
   const deviceNames = players.reduce((acc, player) => {
     acc[player.id] = player.name;
     return acc;
   }, {} as Record<string, string>);
 
-  // Check Supabase connection
-  const checkSupabaseConnection = async (): Promise<boolean> => {
+  // Check the backend connection
+  const checkBackendConnection = async (): Promise<boolean> => {
     try {
-      console.log('🔍 Checking Supabase connection...');
-      
-      const { data, error } = await supabase
-        .from('sessions')
-        .select('id')
-        .limit(1);
-
-      if (error) {
-        console.error('❌ Supabase connection check failed:', error);
-        setConnectionError(`Database error: ${error.message}`);
-        return false;
-      }
+      console.log(`🔍 Checking ${repositories.kind} connection...`);
+      await repositories.checkConnection();
 
-      console.log('✅ Supabase connection successful');
+      console.log(`✅ ${repositories.kind} connection successful`);
       setConnectionError(null);
       return true;
     } catch (error) {
-      console.error('❌ Supabase connection check exception:', error);
-      setConnectionError(`Network error: ${error.message || 'Failed to connect to database'}`);
+      console.error(`❌ ${repositories.kind} connection check failed:`, error);
+      setConnectionError(error.message || 'Network error: Failed to connect to database');
       return false;
     }
   };
@@ -82,7 +134,7 @@ const ConsoleDisplay: React.FC = () => {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       console.log(`🔄 Connection attempt ${attempt}/${maxRetries}`);
       
-      const isConnected = await checkSupabaseConnection();
+      const isConnected = await checkBackendConnection();
       if (isConnected) {
         setIsRetrying(false);
         return true;
@@ -103,6 +155,8 @@ const ConsoleDisplay: React.FC = () => {
   const handleWebRTCMessage = useCallback((message: WebRTCMessage, fromDeviceId: string) => {
     const deviceName = deviceNames[fromDeviceId] || 'Unknown Device';
     console.log(`📩 [CONSOLE] WebRTC Message from ${deviceName} (${fromDeviceId.slice(-8)}):`, message);
+
+    passOnMessageRef.current(message, fromDeviceId);
     
     // Process through InputRouter first
     if (inputRouterRef.current) {
@@ -127,32 +181,137 @@ const ConsoleDisplay: React.FC = () => {
         break;
       case 'game_data':
         console.log(`🎯 [CONSOLE] Game data from ${deviceName}:`, message.data);
+        // A phone only ever sends its own profile, so it applies to the sender alone
+        if (message.data.kind === 'mapping_profile' && inputRouterRef.current) {
+          inputRouterRef.current.applyMappingProfile(fromDeviceId, message.data.profile.mappings);
+        }
+        break;
+      case 'chat':
+        console.log(`💬 [CONSOLE] Chat from ${deviceName}:`, message.data.text);
         break;
       case 'heartbeat':
+        // Phones refresh their own last_seen (useSessionLifecycle); RLS won't let us
         console.log(`💓 [CONSOLE] Heartbeat from ${deviceName}`);
-        deviceHelpers.updateDeviceActivity?.(fromDeviceId);
         break;
       default:
         console.log(`❓ [CONSOLE] Unknown message type from ${deviceName}:`, message);
     }
   }, [deviceNames]);
 
+  // Keep the session alive while the console is open, and notice when it ends
+  const lifecycle = useSessionLifecycle({
+    sessionId,
+    deviceId: consoleDeviceId,
+    enabled: !connectionError
+  });
+  const sessionEnded = lifecycle.ended !== null;
+
+  // Who is actually here, as opposed to who has a device row
+  const { getStatus: getPresenceStatus, absentSince } = usePresence({
+    sessionId,
+    deviceId: consoleDeviceId,
+    name: 'Console',
+    deviceType: 'console',
+    enabled: !connectionError && !sessionEnded
+  });
+  const presenceSinceRef = useRef(Date.now());
+  const removedDevicesRef = useRef<Set<string>>(new Set());
+
+  const electingHostRef = useRef(false);
+
+  useEffect(() => {
+    presenceSinceRef.current = Date.now();
+    removedDevicesRef.current.clear();
+  }, [sessionId]);
+
+  // When a player went missing, or null while they're here. Devices never seen in presence
+  // count from their last touch or from when we started watching.
+  const getAbsentSince = useCallback((player: Player) => {
+    const since = absentSince(player.id);
+    if (since !== null) return since;
+    return getPresenceStatus(player.id) === 'disconnected'
+      ? Math.max(player.lastSeen || 0, presenceSinceRef.current)
+      : null;
+  }, [absentSince, getPresenceStatus]);
+
   // WebRTC integration with enhanced logging
   const webrtc = useWebRTC({
     sessionId,
     deviceId: consoleDeviceId,
     isHost: true,
     onMessage: handleWebRTCMessage,
-    enabled: sessionId !== '' && consoleDeviceId !== '' && isLobbyLocked && !connectionError
+    enabled: sessionId !== '' && consoleDeviceId !== '' && isLobbyLocked && !connectionError && !sessionEnded
   });
 
+  // Save an editor choice to the session so every screen switches to it
+  const selectEditor = async (index: number, selectedBy: string) => {
+    const editor = editors[index];
+    if (!editor || !sessionId) return;
+
+    console.log(`🎯 [CONSOLE] ${selectedBy} confirmed editor:`, editor.name);
+
+    const selectionData = {
+      selectedEditor: editor.id,
+      selectedEditorName: editor.name,
+      selectedIndex: index,
+      selectionTimestamp: Date.now(),
+      sessionId,
+      lobbyCode,
+      selectedBy
+    };
+
+    const saved = await repositories.sessions.update(sessionId, { selected_editor: JSON.stringify(selectionData) });
+    if (!saved) {
+      console.error('❌ [CONSOLE] Error saving editor selection');
+      return;
+    }
+
+    // Let phones switch to their editor controls right away
+    webrtc.broadcastMessage({
+      type: 'selection',
+      data: { highlightedEditorIndex: index, selectedEditor: editor.id }
+    });
+  };
+
+  // Drive the editor selection screen from phone d-pad and confirm inputs
+  const handleEditorSelectionInput = (input: ControllerInput): boolean => {
+    switch (input.input.mappedAction) {
+      case 'move_left':
+        setHighlightedEditorIndex(prev => prev > 0 ? prev - 1 : editors.length - 1);
+        return true;
+      case 'move_right':
+        setHighlightedEditorIndex(prev => prev < editors.length - 1 ? prev + 1 : 0);
+        return true;
+      case 'confirm':
+        selectEditor(highlightedEditorIndex, input.deviceName);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // Latest handler for routed inputs - InputRouter keeps one callback for its lifetime
+  const handleRoutedInputRef = useRef<(input: ControllerInput) => void>(() => {});
+  handleRoutedInputRef.current = (input: ControllerInput) => {
+    if (isLobbyLocked && !selectedEditor) {
+      handleEditorSelectionInput(input);
+      return;
+    }
+
+    const handledByBridge = editorBridgeRef.current?.handleInput(input) || false;
+    if (!handledByBridge) {
+      inputEmulatorRef.current?.handleInput(input);
+    }
+  };
+
   // Initialize InputRouter with enhanced logging
   useEffect(() => {
     if (sessionId && consoleDeviceId) {
       console.log('🎮 [CONSOLE] Initializing InputRouter');
       inputRouterRef.current = new InputRouter((input) => {
         console.log(`🎯 [CONSOLE] InputRouter processed input:`, input);
-      });
+        handleRoutedInputRef.current(input);
+      }, undefined, repositories.mappingProfiles);
 
       // Register console device
       inputRouterRef.current.registerDevice(consoleDeviceId, 'Console', 'console');
@@ -166,7 +325,89 @@ const ConsoleDisplay: React.FC = () => {
         console.log('🧹 [CONSOLE] InputRouter cleaned up');
       }
     };
-  }, [sessionId, consoleDeviceId]);
+  }, [sessionId, consoleDeviceId, repositories]);
+
+  // Create the editor bridge whenever an editor is shown in the iframe
+  const selectedEditorUrl = selectedEditor?.url;
+  useEffect(() => {
+    if (!selectedEditorUrl || !editorIframeRef.current) return;
+
+    console.log(`🌉 [CONSOLE] Setting up editor bridge for ${selectedEditorUrl}`);
+    const bridge = new EditorBridge(editorIframeRef.current, selectedEditorUrl, setEditorBridgeState);
+    editorBridgeRef.current = bridge;
+
+    return () => {
+      bridge.destroy();
+      editorBridgeRef.current = null;
+    };
+  }, [selectedEditorUrl]);
+
+  // Configure input emulation for the selected editor
+  const selectedEditorId = selectedEditor?.id;
+  useEffect(() => {
+    if (!selectedEditorId) return;
+
+    const config = resolveEmulationConfig(getEditorById(selectedEditorId)?.emulation);
+    inputEmulatorRef.current = new InputEmulator(config);
+
+    return () => {
+      inputEmulatorRef.current = null;
+    };
+  }, [selectedEditorId]);
+
+  // Keep every phone's highlight in sync with the console's
+  const readyConnections = webrtc.status.readyConnections;
+  // Announce transport switches reported by the WebRTC manager
+  const { lastTransportChange } = webrtc.status;
+  useEffect(() => {
+    if (!lastTransportChange) return;
+
+    setTransportNotice(lastTransportChange);
+    const timeout = setTimeout(() => setTransportNotice(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [lastTransportChange]);
+
+  const { broadcastMessage, sendMessage, disconnectDevice, setRelaySenders, setSignalingPeers } = webrtc;
+
+  // Spectators watch the players' strokes as sketches, one message per stroke frame
+  const spectatorIds = players.filter(player => player.deviceType === 'spectator').map(player => player.id);
+  const sendSketchRef = useRef<(sketch: SketchPayload) => void>(() => {});
+  sendSketchRef.current = sketch => {
+    spectatorIds.forEach(spectatorId => sendMessage(spectatorId, { type: 'sketch', data: sketch }));
+  };
+  const sketchForwarderRef = useRef<SketchForwarder | null>(null);
+  if (!sketchForwarderRef.current) {
+    sketchForwarderRef.current = new SketchForwarder(sketch => sendSketchRef.current(sketch));
+  }
+
+  passOnMessageRef.current = (message, fromDeviceId) => {
+    const router = inputRouterRef.current;
+    if (router?.isMuted(fromDeviceId)) return;
+
+    // Chat goes to everyone, the sender included, stamped with who said it
+    if (message.type === 'chat') {
+      const line = { text: message.data.text.trim(), fromDeviceId, fromName: deviceNames[fromDeviceId] || 'Unknown Device' };
+      setChatLog(prev => [...prev, line].slice(-CHAT_LOG_LIMIT));
+      broadcastMessage({ type: 'chat', data: line });
+      return;
+    }
+
+    if (
+      message.type === 'game_data' && message.data.kind === 'input' && message.data.input.type === 'canvas' &&
+      !router?.isSpectator(fromDeviceId) && spectatorIds.length > 0
+    ) {
+      sketchForwarderRef.current!.push(fromDeviceId, message.data.input);
+    }
+  };
+  useEffect(() => {
+    if (!isLobbyLocked || selectedEditor || readyConnections === 0) return;
+
+    console.log(`📤 [CONSOLE] Broadcasting highlighted editor index: ${highlightedEditorIndex}`);
+    broadcastMessage({
+      type: 'selection',
+      data: { highlightedEditorIndex }
+    });
+  }, [highlightedEditorIndex, isLobbyLocked, selectedEditor, readyConnections, broadcastMessage]);
 
   // Register devices with InputRouter when players change
   useEffect(() => {
@@ -174,10 +415,70 @@ const ConsoleDisplay: React.FC = () => {
       console.log('🎮 [CONSOLE] Registering devices with InputRouter');
       players.forEach(player => {
         inputRouterRef.current!.registerDevice(player.id, player.name, player.deviceType);
+        inputRouterRef.current!.setMuted(player.id, player.isMuted);
         console.log(`📱 [CONSOLE] Registered device: ${player.name} (${player.deviceType})`);
       });
     }
-  }, [players]);
+
+    // Forget devices that were removed from the session (kicked, banned or gone too long)
+    // and close their peer connections
+    inputRouterRef.current?.getRegisteredDevices().forEach(({ deviceId }) => {
+      if (!players.some(player => player.id === deviceId)) {
+        inputRouterRef.current!.unregisterDevice(deviceId);
+        disconnectDevice(deviceId);
+      }
+    });
+  }, [players, disconnectDevice]);
+
+  // Only take relayed messages from players still here and unmuted
+  useEffect(() => {
+    if (!webrtc.status.isInitialized) return;
+    setRelaySenders(players.filter(player => !player.isMuted).map(player => player.id));
+  }, [players, webrtc.status.isInitialized, setRelaySenders]);
+
+  // Negotiate with every phone and spectator, muted ones included
+  useEffect(() => {
+    if (!webrtc.status.isInitialized) return;
+    setSignalingPeers(players.filter(player => player.deviceType !== 'console').map(player => player.id));
+  }, [players, webrtc.status.isInitialized, setSignalingPeers]);
+
+  // Remove phones and spectators that have been gone for longer than the grace period. Presence statuses
+  // are re-evaluated every few seconds, which re-runs this check.
+  useEffect(() => {
+    if (!sessionId || !consoleDeviceId || connectionError || sessionEnded) return;
+
+    const now = Date.now();
+    players
+      .filter(player => player.deviceType !== 'console' && !removedDevicesRef.current.has(player.id))
+      .forEach(player => {
+        const gone = getAbsentSince(player);
+        if (gone === null || now - gone < REMOVE_AFTER) return;
+
+        console.log(`👋 [CONSOLE] Removing ${player.name} after ${Math.round((now - gone) / 1000)}s away`);
+        removedDevicesRef.current.add(player.id);
+        repositories.devices.remove(player.id);
+      });
+  }, [sessionId, consoleDeviceId, connectionError, sessionEnded, players, getAbsentSince, repositories]);
+
+  // Promote the longest-connected phone when the host has been away too long (or there is none)
+  useEffect(() => {
+    if (!sessionId || !consoleDeviceId || connectionError || sessionEnded || electingHostRef.current) return;
+
+    const host = players.find(player => player.isHost && player.deviceType === 'phone') || null;
+    if (host) {
+      const gone = getAbsentSince(host);
+      if (gone === null || Date.now() - gone < HOST_ELECTION_AFTER) return;
+    }
+
+    const nextHost = chooseNextHost(players, host?.id || null, getPresenceStatus);
+    if (!nextHost) return;
+
+    console.log(`👑 [CONSOLE] ${host ? `Host ${host.name} is away` : 'No host'} - promoting ${nextHost.name}`);
+    electingHostRef.current = true;
+    repositories.sessions.transferHost(sessionId, nextHost.id, host?.id).finally(() => {
+      electingHostRef.current = false;
+    });
+  }, [sessionId, consoleDeviceId, connectionError, sessionEnded, players, getAbsentSince, getPresenceStatus, repositories]);
 
   // Generate a random 6-character lobby code
   const generateLobbyCode = () => {
@@ -206,7 +507,7 @@ const ConsoleDisplay: React.FC = () => {
       setIsCreatingSession(true);
       setConnectionError(null);
 
-      const isConnected = await checkSupabaseConnection();
+      const isConnected = await checkBackendConnection();
       if (!isConnected) {
         console.log('🔄 Attempting to retry connection...');
         const retrySuccess = await retryConnection();
@@ -222,7 +523,7 @@ const ConsoleDisplay: React.FC = () => {
       
       console.log('🚀 Creating session with code:', code);
       
-      const session = await sessionHelpers.createSession(code);
+      const session = await repositories.sessions.create(code, PLANS[plan].maxPlayers);
       if (!session) {
         console.error('❌ Failed to create session');
         setConnectionError('Failed to create session. Please check your database connection.');
@@ -232,7 +533,7 @@ const ConsoleDisplay: React.FC = () => {
 
       console.log('✅ Session created:', session);
 
-      const consoleDevice = await deviceHelpers.createDevice(
+      const consoleDevice = await repositories.devices.create(
         session.id,
         'Console',
         'console',
@@ -253,6 +554,7 @@ const ConsoleDisplay: React.FC = () => {
       setSessionId(session.id);
       setConsoleDeviceId(consoleDevice.id);
       setLobbyCode(code);
+      setMaxPlayers(session.max_players ?? PLANS[plan].maxPlayers);
       setConnectionUrl(connectionUrl);
       setQrCodeData(qrCode);
       setIsCreatingSession(false);
@@ -275,21 +577,25 @@ const ConsoleDisplay: React.FC = () => {
     if (!sessionId || connectionError) return;
 
     try {
-      const devices = await deviceHelpers.getSessionDevices(sessionId);
+      const devices = await repositories.devices.listBySession(sessionId);
+
+      // Devices knocking on a knock lobby aren't players until they're let in
+      const pendingIds = new Set(devices.filter(device => device.status === 'pending').map(device => device.id));
 
       const mappedPlayers: Player[] = devices.map((device) => ({
         id: device.id,
         name: device.name,
         deviceType: device.device_type || (device.name === 'Console' ? 'console' : 'phone'),
         isHost: device.is_host || false,
+        isMuted: device.is_muted || false,
         joinedAt: typeof device.joined_at === 'number' 
           ? device.joined_at 
           : new Date(device.joined_at || device.connected_at || '').getTime(),
-        lastSeen: new Date(device.last_seen || device.connected_at || '').getTime(),
-        status: 'connected'
+        lastSeen: new Date(device.last_seen || device.connected_at || '').getTime()
       }));
 
-      setPlayers(mappedPlayers);
+      setPlayers(mappedPlayers.filter(player => !pendingIds.has(player.id)));
+      setKnocking(mappedPlayers.filter(player => pendingIds.has(player.id)));
       console.log('✅ Players loaded:', mappedPlayers);
 
     } catch (error) {
@@ -298,24 +604,16 @@ const ConsoleDisplay: React.FC = () => {
         setConnectionError('Network error: Unable to load devices. Please check your connection.');
       }
     }
-  }, [sessionId, connectionError]);
+  }, [sessionId, connectionError, repositories]);
 
   // NEW: Load session status with selected editor parsing
   const loadSessionStatus = useCallback(async () => {
     if (!sessionId || connectionError) return;
 
     try {
-      const { data: session, error } = await supabase
-        .from('sessions')
-        .select('is_locked, selected_editor')
-        .eq('id', sessionId)
-        .single();
-
-      if (error) {
-        console.error('❌ Error loading session status:', error);
-        if (error.message?.includes('fetch') || error.code === 'PGRST301') {
-          setConnectionError('Network error: Unable to load session status. Please check your connection.');
-        }
+      const session = await repositories.sessions.get(sessionId);
+      if (!session) {
+        console.error('❌ Error loading session status');
         return;
       }
 
@@ -323,6 +621,8 @@ const ConsoleDisplay: React.FC = () => {
       const nowLocked = session.is_locked || false;
       
       setIsLobbyLocked(nowLocked);
+      setModerationLog(session.moderation_log || []);
+      setJoinMode(session.join_mode || 'open');
       
       // NEW: Parse selected_editor field
       if (session.selected_editor) {
@@ -331,19 +631,13 @@ const ConsoleDisplay: React.FC = () => {
           
           // Check if this is an editor selection (not navigation data)
           if (editorData.selectedEditor && editorData.selectedEditorName) {
-            console.log('🎯 [CONSOLE] Editor selected via Supabase:', editorData.selectedEditorName);
+            console.log('🎯 [CONSOLE] Editor selected via session:', editorData.selectedEditorName);
             
             // Map editor data to our format
-            const editorUrls = {
-              'bolt': 'https://bolt.new',
-              'loveable': 'https://loveable.dev',
-              'co': 'https://co.dev'
-            };
-            
             setSelectedEditor({
               id: editorData.selectedEditor,
               name: editorData.selectedEditorName,
-              url: editorUrls[editorData.selectedEditor] || 'https://bolt.new',
+              url: getEditorById(editorData.selectedEditor)?.url || 'https://bolt.new',
               selectedBy: editorData.selectedBy || 'Host',
               timestamp: editorData.selectionTimestamp || Date.now()
             });
@@ -364,21 +658,17 @@ const ConsoleDisplay: React.FC = () => {
         setConnectionError('Network error: Unable to load session status. Please check your connection.');
       }
     }
-  }, [sessionId, isLobbyLocked, connectionError]);
+  }, [sessionId, isLobbyLocked, connectionError, repositories]);
 
   // NEW: Clear selected editor and return to editor selection
   const clearSelectedEditor = async () => {
     console.log('🔙 [CONSOLE] Clearing selected editor');
     
     try {
-      // Clear the selected_editor field in Supabase
-      const { error } = await supabase
-        .from('sessions')
-        .update({ selected_editor: null })
-        .eq('id', sessionId);
-
-      if (error) {
-        console.error('❌ [CONSOLE] Error clearing selected editor:', error);
+      // Clear the selected_editor field on the session
+      const cleared = await repositories.sessions.update(sessionId, { selected_editor: null });
+      if (!cleared) {
+        console.error('❌ [CONSOLE] Error clearing selected editor');
         return;
       }
 
@@ -516,63 +806,49 @@ const ConsoleDisplay: React.FC = () => {
 
   // Set up real-time subscriptions with connection error handling
   useEffect(() => {
-    if (sessionId && !connectionError) {
+    if (sessionId && !connectionError && !sessionEnded) {
       loadDevices();
       loadSessionStatus();
       
-      const devicesChannel = supabase
-        .channel(`devices_${sessionId}`)
-        .on('postgres_changes', 
-          { 
-            event: '*', 
-            schema: 'public', 
-            table: 'devices',
-            filter: `session_id=eq.${sessionId}`
-          }, 
-          (payload) => {
-            console.log('📱 Device change detected:', payload);
-            loadDevices();
-          }
-        )
-        .subscribe((status) => {
+      const unsubscribeDevices = repositories.devices.subscribe(
+        sessionId,
+        (change) => {
+          console.log('📱 Device change detected:', change);
+          loadDevices();
+        },
+        (status) => {
           console.log('📱 Devices subscription status:', status);
           if (status === 'CHANNEL_ERROR') {
             setConnectionError('Real-time connection lost. Please refresh the page.');
           }
-        });
-
-      const sessionChannel = supabase
-        .channel(`session_${sessionId}`)
-        .on('postgres_changes', 
-          { 
-            event: 'UPDATE', 
-            schema: 'public', 
-            table: 'sessions',
-            filter: `id=eq.${sessionId}`
-          }, 
-          (payload) => {
-            console.log('🏠 Session change detected:', payload);
-            loadSessionStatus();
-          }
-        )
-        .subscribe((status) => {
+        }
+      );
+
+      const unsubscribeSession = repositories.sessions.subscribe(
+        sessionId,
+        (change) => {
+          console.log('🏠 Session change detected:', change);
+          loadSessionStatus();
+        },
+        (status) => {
           console.log('🏠 Session subscription status:', status);
           if (status === 'CHANNEL_ERROR') {
             setConnectionError('Real-time connection lost. Please refresh the page.');
           }
-        });
+        }
+      );
 
       return () => {
         console.log('🧹 Cleaning up subscriptions');
-        devicesChannel.unsubscribe();
-        sessionChannel.unsubscribe();
+        unsubscribeDevices();
+        unsubscribeSession();
       };
     }
-  }, [sessionId, loadDevices, loadSessionStatus, connectionError]);
+  }, [sessionId, loadDevices, loadSessionStatus, connectionError, sessionEnded, repositories]);
 
   // Backup refresh interval with connection error handling
   useEffect(() => {
-    if (!sessionId || connectionError) return;
+    if (!sessionId || connectionError || sessionEnded) return;
 
     const interval = setInterval(() => {
       loadDevices();
@@ -580,7 +856,57 @@ const ConsoleDisplay: React.FC = () => {
     }, 3000);
 
     return () => clearInterval(interval);
-  }, [sessionId, loadDevices, loadSessionStatus, connectionError]);
+  }, [sessionId, loadDevices, loadSessionStatus, connectionError, sessionEnded]);
+
+  // Open the lobby, protect it with a fresh PIN, or make phones knock
+  const changeJoinMode = async (mode: JoinMode) => {
+    if (!sessionId || !consoleDeviceId) return;
+
+    const pin = mode === 'pin' ? generateLobbyPin() : undefined;
+    const changed = await repositories.sessions.setAccess(sessionId, consoleDeviceId, mode, pin);
+    if (!changed) {
+      console.error('❌ [CONSOLE] Failed to change lobby access to', mode);
+      return;
+    }
+
+    console.log('🚪 [CONSOLE] Lobby access:', mode);
+    setJoinMode(mode);
+    setLobbyPin(pin || null);
+  };
+
+  // Let a knocking device in, or turn it away
+  const reviewKnock = async (player: Player, approve: boolean) => {
+    if (!sessionId || !consoleDeviceId) return;
+
+    const reviewed = await repositories.devices.review(sessionId, consoleDeviceId, player.id, approve);
+    if (!reviewed) {
+      console.error(`❌ [CONSOLE] Failed to ${approve ? 'approve' : 'deny'} ${player.name}`);
+      return;
+    }
+    loadDevices();
+  };
+
+  // End the session for every phone; they switch to their "session ended" screen
+  const handleEndSession = async () => {
+    if (!window.confirm('End this session for everyone?')) return;
+    await lifecycle.endSession();
+  };
+
+  // Start over with a fresh lobby after the session ended
+  const startNewSession = async () => {
+    console.log('🆕 [CONSOLE] Starting a new session');
+    setSelectedEditor(null);
+    setIsLobbyLocked(false);
+    setHighlightedEditorIndex(0);
+    setPlayers([]);
+    setModerationLog([]);
+    setJoinMode('open');
+    setLobbyPin(null);
+    setKnocking([]);
+    setSessionId('');
+    setConsoleDeviceId('');
+    await createSession();
+  };
 
   const copyConnectionUrl = async () => {
     try {
@@ -592,6 +918,28 @@ const ConsoleDisplay: React.FC = () => {
     }
   };
 
+  // Session ended (by the host or by expiry) - offer a fresh lobby
+  if (lifecycle.ended) {
+    const { title, message } = describeSessionEnd(lifecycle.ended);
+    return (
+      <div className="min-h-screen bg-[#1f252a] text-white flex flex-col items-center justify-center p-6">
+        <div className="w-20 h-20 bg-gray-700 rounded-full flex items-center justify-center mb-8">
+          <Power size={40} className="text-gray-300" />
+        </div>
+        <h1 className="text-3xl font-bold mb-4">{title}</h1>
+        <p className="text-indigo-200 mb-2 text-center max-w-md">{message}</p>
+        <p className="text-sm text-gray-500 mb-8">Lobby {lobbyCode} is closed and phones have been told.</p>
+        <button
+          onClick={startNewSession}
+          className="px-6 py-3 rounded-lg font-medium bg-indigo-500 hover:bg-indigo-600 transition-colors flex items-center gap-2"
+        >
+          <RefreshCw size={16} />
+          Start New Session
+        </button>
+      </div>
+    );
+  }
+
   // NEW: Show selected editor in fullscreen iframe if one is selected
   if (selectedEditor) {
     return (
@@ -603,6 +951,13 @@ const ConsoleDisplay: React.FC = () => {
           >
             <ArrowLeft size={24} />
           </button>
+          <button
+            onClick={handleEndSession}
+            title="End session"
+            className="bg-black/50 hover:bg-red-500/50 text-white p-3 rounded-full backdrop-blur-md border border-white/20 transition-colors"
+          >
+            <Power size={24} />
+          </button>
           <div className="bg-black/50 backdrop-blur-md border border-white/20 rounded-lg px-4 py-2 text-white">
             <div className="flex items-center gap-2">
               <Code size={20} className="text-indigo-300" />
@@ -612,9 +967,66 @@ const ConsoleDisplay: React.FC = () => {
               </span>
             </div>
           </div>
+          <div className={`bg-black/50 backdrop-blur-md border border-white/20 rounded-lg px-3 py-2 text-xs ${
+            editorBridgeState === 'ready' ? 'text-green-400' : 'text-gray-400'
+          }`}>
+            {editorBridgeState === 'ready' ? '🎮 Phone control active' :
+             editorBridgeState === 'handshaking' ? 'Connecting controls...' :
+             'Editor does not accept phone control'}
+          </div>
+          {players.some(p => p.deviceType === 'spectator') && (
+            <div
+              className="bg-black/50 backdrop-blur-md border border-white/20 rounded-lg px-3 py-2 text-xs text-gray-300"
+              title={players.filter(p => p.deviceType === 'spectator').map(p => p.name).join(', ')}
+            >
+              👀 {players.filter(p => p.deviceType === 'spectator').length} watching
+            </div>
+          )}
+          {players.filter(p => p.deviceType === 'phone').map(player => (
+            <div
+              key={player.id}
+              className="bg-black/50 backdrop-blur-md border border-white/20 rounded-lg px-3 py-2 text-xs text-white flex items-center gap-2"
+            >
+              {player.isHost && <Crown size={12} className="text-yellow-400" />}
+              <span>{player.name}</span>
+              {player.isMuted && <span title="Muted by the host">🔇</span>}
+              {getPresenceStatus(player.id) !== 'online' && (
+                <span className={presenceStyles[getPresenceStatus(player.id)].label}>
+                  {getPresenceStatus(player.id)}
+                </span>
+              )}
+              <LatencyBadge latency={webrtc.status.latency[player.id]} showInputLatency />
+              {webrtc.status.transports[player.id] === 'realtime' ? (
+                <span className="text-yellow-400">relay</span>
+              ) : webrtc.status.candidatePairs[player.id] && (
+                <span className="text-gray-400" title="Active ICE candidate pair (local ↔ remote)">
+                  {webrtc.status.candidatePairs[player.id].local}↔{webrtc.status.candidatePairs[player.id].remote}
+                </span>
+              )}
+            </div>
+          ))}
         </div>
+
+        {chatLog.length > 0 && (
+          <div className="absolute bottom-4 left-4 z-10 max-w-sm bg-black/70 backdrop-blur-md border border-white/20 rounded-lg px-4 py-2 text-sm text-white space-y-1">
+            {chatLog.map((line, index) => (
+              <p key={index} className="break-words">
+                <span className="text-indigo-300">{line.fromName}:</span> {line.text}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {transportNotice && (
+          <div className="absolute bottom-4 right-4 z-10 bg-black/70 backdrop-blur-md border border-white/20 rounded-lg px-4 py-2 text-sm text-white">
+            {deviceNames[transportNotice.deviceId] || transportNotice.deviceId.slice(-8)}
+            {transportNotice.transport === 'realtime' ? ' switched to Realtime relay' : ' is back on WebRTC'}
+          </div>
+        )}
         
         <iframe
+          ref={editorIframeRef}
+          onLoad={() => editorBridgeRef.current?.startHandshake()}
           src={selectedEditor.url}
           className="w-full h-full border-0"
           title={selectedEditor.name}
@@ -631,7 +1043,10 @@ const ConsoleDisplay: React.FC = () => {
         sessionId={sessionId}
         lobbyCode={lobbyCode}
         players={players}
+        selectedIndex={highlightedEditorIndex}
+        onSelectedIndexChange={setHighlightedEditorIndex}
         onBack={() => setIsLobbyLocked(false)}
+        onEndSession={handleEndSession}
       />
     );
   }
@@ -649,6 +1064,15 @@ const ConsoleDisplay: React.FC = () => {
           </a>
           <div className="flex items-center gap-4">
             {lobbyCode}
+            {sessionId && (
+              <button
+                onClick={handleEndSession}
+                className="flex items-center gap-2 px-3 py-1 rounded-full bg-gray-800 hover:bg-red-500/30 text-sm text-gray-300 hover:text-red-200 transition-colors"
+              >
+                <Power size={14} />
+                End Session
+              </button>
+            )}
           </div>
         </div>
         <div class="h-px mt-1 bg-gradient-to-r from-transparent via-white/20 to-transparent"></div>
@@ -723,8 +1147,66 @@ const ConsoleDisplay: React.FC = () => {
                     </button>
                   </div>
                 </div>
+
+                <div>
+                  <label className="text-sm text-indigo-300 block mb-1">Lobby Access</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {JOIN_MODES.map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => changeJoinMode(mode)}
+                        disabled={!consoleDeviceId || isLobbyLocked}
+                        className={`px-3 py-2 rounded text-sm capitalize transition-colors disabled:opacity-50 ${
+                          joinMode === mode ? 'bg-indigo-500' : 'bg-gray-800 hover:bg-gray-700'
+                        }`}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-400 mt-2">{describeJoinMode(joinMode)}</p>
+                  {joinMode === 'pin' && lobbyPin && (
+                    <div className="mt-2 bg-indigo-900/50 px-3 py-2 rounded border border-indigo-500/30 font-mono text-2xl text-center tracking-[0.5em]">
+                      {lobbyPin}
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
+
+            {/* Devices knocking on a knock lobby */}
+            {knocking.length > 0 && (
+              <div className="bg-black/20 rounded-lg p-6 border border-yellow-500/30">
+                <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+                  <Users className="text-yellow-300" />
+                  Knocking
+                </h3>
+                <div className="space-y-2">
+                  {knocking.map(player => (
+                    <div key={player.id} className="flex items-center justify-between bg-gray-800/60 rounded px-3 py-2">
+                      <span>
+                        {player.name}
+                        {player.deviceType === 'spectator' && <span className="text-xs text-gray-400"> (spectator)</span>}
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => reviewKnock(player, true)}
+                          className="px-3 py-1 rounded text-sm bg-green-500/30 hover:bg-green-500/50 text-green-200 transition-colors"
+                        >
+                          Let in
+                        </button>
+                        <button
+                          onClick={() => reviewKnock(player, false)}
+                          className="px-3 py-1 rounded text-sm bg-red-500/30 hover:bg-red-500/50 text-red-200 transition-colors"
+                        >
+                          Deny
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Main Game Area - Now Second */}
@@ -745,6 +1227,7 @@ const ConsoleDisplay: React.FC = () => {
                   <div className="text-center">
                     <div className="text-6xl mb-4 animate-bounce">🎮</div>
                     <p className="text-sm text-gray-500 mt-2">First member to join becomes the host</p>
+                    <p className="text-xs text-gray-500 mt-1">Up to {maxPlayers} players ({PLANS[plan].name} plan)</p>
                     <div className="mt-4 flex items-center justify-center gap-2 text-sm text-indigo-300">
                       <div className="w-2 h-2 bg-indigo-400 rounded-full animate-pulse"></div>
                       <span>Waiting for connections...</span>
@@ -756,6 +1239,10 @@ const ConsoleDisplay: React.FC = () => {
                     <p className="text-green-400 font-medium text-xl mb-2">
                       {players.filter(p => p.deviceType === 'phone').length} player{players.filter(p => p.deviceType === 'phone').length > 1 ? 's' : ''} connected!
                     </p>
+                    <p className={`text-sm ${players.filter(p => p.deviceType === 'phone').length >= maxPlayers ? 'text-yellow-400' : 'text-gray-400'}`}>
+                      {players.filter(p => p.deviceType === 'phone').length} / {maxPlayers} seats taken
+                      {players.filter(p => p.deviceType === 'phone').length >= maxPlayers && ' - lobby full'}
+                    </p>
                     {players.find(p => p.isHost && p.deviceType === 'phone') && (
                       <p className="text-purple-300 text-sm mt-2 flex items-center justify-center gap-1">
                         <Crown size={16} className="text-yellow-400" />
@@ -769,21 +1256,51 @@ const ConsoleDisplay: React.FC = () => {
                     {/* Player avatars */}
                     <div className="flex justify-center gap-2 mt-4">
                       {players.filter(p => p.deviceType === 'phone').map((player) => (
-                        <div key={player.id} className="relative">
-                          <div className="w-12 h-12 bg-gradient-to-br from-indigo-500 to-purple-500 rounded-full flex items-center justify-center text-white font-bold text-lg border-2 border-white/20">
+                        <div key={player.id} className="relative" title={`${player.name} (${getPresenceStatus(player.id)})`}>
+                          <div className={`w-12 h-12 bg-gradient-to-br from-indigo-500 to-purple-500 rounded-full flex items-center justify-center text-white font-bold text-lg border-2 border-white/20 ${
+                            getPresenceStatus(player.id) === 'online' ? '' : 'opacity-50'
+                          }`}>
                             {player.name.charAt(0).toUpperCase()}
                           </div>
                           {player.isHost && (
                             <Crown size={12} className="absolute -top-1 -right-1 text-yellow-400" />
                           )}
+                          {player.isMuted && (
+                            <span className="absolute -top-1 -left-1 text-xs" title="Muted by the host">🔇</span>
+                          )}
                           <div className={`absolute -bottom-1 -right-1 w-4 h-4 rounded-full border-2 border-gray-900 ${
-                            webrtc.status.connectedDevices.includes(player.id) ? 'bg-green-400' : 'bg-yellow-400'
-                          } animate-pulse`}></div>
+                            presenceStyles[getPresenceStatus(player.id)].dot
+                          } ${getPresenceStatus(player.id) === 'online' ? 'animate-pulse' : ''}`}></div>
+                          <span className={`block mt-1 text-[10px] ${presenceStyles[getPresenceStatus(player.id)].label}`}>
+                            {getPresenceStatus(player.id)}
+                          </span>
+                          {webrtc.status.connectedDevices.includes(player.id) && (
+                            <LatencyBadge
+                              latency={webrtc.status.latency[player.id]}
+                              className="block mt-1"
+                            />
+                          )}
                         </div>
                       ))}
                     </div>
                   </div>
                 )}
+
+                {players.some(p => p.deviceType === 'spectator') && (
+                  <p className="text-xs text-gray-400 mt-4">
+                    👀 Watching: {players.filter(p => p.deviceType === 'spectator').map(p => p.name).join(', ')}
+                  </p>
+                )}
+
+                {moderationLog.length > 0 && (
+                  <div className="mt-4 space-y-1 text-xs text-gray-500">
+                    {moderationLog.slice(-MODERATION_LOG_LIMIT).reverse().map(entry => (
+                      <p key={`${entry.device_id}-${entry.at}-${entry.action}`}>
+                        🛡️ {describeModeration(entry)}
+                      </p>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           </div>
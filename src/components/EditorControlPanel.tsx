@@ -1,22 +1,32 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ArrowLeft, Mic, Folder, Trash2, ChevronUp, ChevronDown, ChevronLeft, ChevronRight } from 'lucide-react';
-import { deviceInputHelpers } from '../lib/supabase';
+import { ArrowLeft, Mic, Folder, Trash2, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, SlidersHorizontal } from 'lucide-react';
+import { MappingDefinition } from '../lib/inputRouter';
+import { OutgoingWebRTCMessage } from '../lib/webrtc';
+import { createInputPayload } from '../lib/protocol';
+import { CanvasPoint, DEFAULT_STREAM_FPS, StreamBatcher, encodeStreamBatch } from '../lib/streamCodec';
+import InputRemapPanel from './InputRemapPanel';
+import LatencyBadge from './LatencyBadge';
 
 interface EditorControlPanelProps {
-  sessionId: string;
-  myPlayerId: string;
   playerName: string;
   webrtcStatus: any;
-  webrtcSendMessage: (targetDeviceId: string, message: any) => boolean;
+  webrtcSendMessage: (targetDeviceId: string, message: OutgoingWebRTCMessage) => boolean;
+  webrtcSendBinary: (targetDeviceId: string, buffer: ArrayBuffer) => boolean;
+  consoleDeviceId?: string;
+  streamFps?: number;
   onBack: () => void;
 }
 
+const STROKE_COLOR = '#8B5CF6';
+const STROKE_WIDTH = 3;
+
 const EditorControlPanel: React.FC<EditorControlPanelProps> = ({
-  sessionId,
-  myPlayerId,
   playerName,
   webrtcStatus,
   webrtcSendMessage,
+  webrtcSendBinary,
+  consoleDeviceId,
+  streamFps = DEFAULT_STREAM_FPS,
   onBack
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -25,6 +35,14 @@ const EditorControlPanel: React.FC<EditorControlPanelProps> = ({
   const [lastPosition, setLastPosition] = useState({ x: 0, y: 0 });
   const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null);
   const [audioChunks, setAudioChunks] = useState<Blob[]>([]);
+  const [showRemapPanel, setShowRemapPanel] = useState(false);
+
+  // Canvas moves are batched per frame and streamed as compact binary frames
+  const strokeBatcherRef = useRef<StreamBatcher<CanvasPoint> | null>(null);
+  const strokeAnchorRef = useRef<CanvasPoint | null>(null);
+  const flushStrokeRef = useRef<(points: CanvasPoint[]) => void>(() => {});
+  const strokeFrameRef = useRef(0); // Sequence of the last stroke frame sent
+  const strokeSentFrameRef = useRef(false); // Whether the current stroke sent any frame
 
   // Initialize canvas
   useEffect(() => {
@@ -39,8 +57,8 @@ const EditorControlPanel: React.FC<EditorControlPanelProps> = ({
     canvas.height = canvas.offsetHeight;
 
     // Set drawing style
-    ctx.strokeStyle = '#8B5CF6';
-    ctx.lineWidth = 3;
+    ctx.strokeStyle = STROKE_COLOR;
+    ctx.lineWidth = STROKE_WIDTH;
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
 
@@ -49,54 +67,90 @@ const EditorControlPanel: React.FC<EditorControlPanelProps> = ({
     ctx.fillRect(0, 0, canvas.width, canvas.height);
   }, []);
 
-  // Send input to console via WebRTC or Supabase fallback
-  const sendInputToConsole = async (inputType: 'dpad' | 'button' | 'voice' | 'canvas', inputAction: string, inputData: any = {}) => {
-    console.log(`🎮 [EDITOR_CONTROL] Sending ${inputType}.${inputAction}:`, inputData);
+  // Set up the stroke batcher for the configured frame rate
+  useEffect(() => {
+    const batcher = new StreamBatcher<CanvasPoint>(points => flushStrokeRef.current(points), streamFps);
+    strokeBatcherRef.current = batcher;
 
-    try {
-      // Try WebRTC first
-      let webrtcSent = false;
-      if (webrtcStatus?.isInitialized) {
-        // Find console device
-        const consoleDeviceId = Object.keys(webrtcStatus.connections).find(deviceId => 
-          webrtcStatus.connections[deviceId] === 'connected'
-        );
-
-        if (consoleDeviceId) {
-          const webrtcMessage = {
-            type: 'game_data' as const,
-            data: {
-              [inputType]: {
-                [inputAction]: inputData
-              }
-            }
-          };
-
-          webrtcSent = webrtcSendMessage(consoleDeviceId, webrtcMessage);
-          console.log(`📡 [EDITOR_CONTROL] WebRTC sent:`, webrtcSent);
-        }
-      }
+    return () => {
+      batcher.dispose();
+      strokeBatcherRef.current = null;
+    };
+  }, [streamFps]);
+
+  // Find the console device - known from the session, or the connected peer
+  const findConsoleDeviceId = (): string | undefined => {
+    if (!webrtcStatus?.isInitialized) return undefined;
+
+    return consoleDeviceId || Object.keys(webrtcStatus.connections).find(deviceId => 
+      webrtcStatus.connections[deviceId] === 'connected'
+    );
+  };
 
-      // Store in device_inputs table
-      const inputCreated = await deviceInputHelpers.createDeviceInput(
-        sessionId,
-        myPlayerId,
-        inputType,
-        inputAction,
-        {
-          ...inputData,
-          playerName: playerName,
-          timestamp: Date.now()
-        },
-        webrtcSent ? 'webrtc' : 'supabase'
-      );
-
-      if (inputCreated) {
-        console.log(`✅ [EDITOR_CONTROL] Input stored successfully`);
+  // The console is reached over Supabase Realtime instead of a direct data channel
+  const consoleTarget = findConsoleDeviceId();
+  const isRelayed = consoleTarget !== undefined && webrtcStatus?.transports?.[consoleTarget] === 'realtime';
+
+  // Push a freshly saved mapping profile to the console so it applies immediately
+  const handleMappingProfileSaved = (profileName: string, mappings: MappingDefinition[]) => {
+    console.log(`🗺️ [EDITOR_CONTROL] Mapping profile saved: ${profileName}`);
+
+    const consoleDeviceId = findConsoleDeviceId();
+    if (!consoleDeviceId) return;
+
+    webrtcSendMessage(consoleDeviceId, {
+      type: 'game_data',
+      data: {
+        kind: 'mapping_profile',
+        profile: { profileName, mappings }
       }
+    });
+  };
 
-    } catch (error) {
-      console.error(`❌ [EDITOR_CONTROL] Error sending input:`, error);
+  // Send input to console - the WebRTC manager falls back to Realtime broadcast on its own
+  const sendInputToConsole = (inputType: 'dpad' | 'button' | 'voice' | 'canvas', inputAction: string, inputData: any = {}) => {
+    console.log(`🎮 [EDITOR_CONTROL] Sending ${inputType}.${inputAction}:`, inputData);
+
+    const consoleDeviceId = findConsoleDeviceId();
+    if (!consoleDeviceId) {
+      console.log('⚠️ [EDITOR_CONTROL] Console not found yet, dropping input');
+      return;
+    }
+
+    const sent = webrtcSendMessage(consoleDeviceId, {
+      type: 'game_data',
+      data: createInputPayload(inputType, inputAction, inputData)
+    });
+
+    if (!sent) {
+      console.error(`❌ [EDITOR_CONTROL] No transport available for ${inputType}.${inputAction}`);
+    }
+  };
+
+  // Send one frame of stroke points - binary over WebRTC, a single record as fallback
+  flushStrokeRef.current = (points: CanvasPoint[]) => {
+    const canvas = canvasRef.current;
+    const anchor = strokeAnchorRef.current;
+    const strokePoints = anchor ? [anchor, ...points] : points;
+    strokeAnchorRef.current = points[points.length - 1];
+
+    if (strokePoints.length < 2) return;
+
+    const consoleDeviceId = findConsoleDeviceId();
+    strokeFrameRef.current = (strokeFrameRef.current + 1) % 0x10000;
+    strokeSentFrameRef.current = true;
+    const frame = encodeStreamBatch({
+      kind: 'canvas',
+      sequence: strokeFrameRef.current,
+      canvasWidth: canvas?.width || 0,
+      canvasHeight: canvas?.height || 0,
+      lineWidth: STROKE_WIDTH,
+      color: STROKE_COLOR,
+      points: strokePoints
+    });
+
+    if (!consoleDeviceId || !webrtcSendBinary(consoleDeviceId, frame)) {
+      console.error('❌ [EDITOR_CONTROL] No transport available for stroke frame');
     }
   };
 
@@ -125,9 +179,16 @@ const EditorControlPanel: React.FC<EditorControlPanelProps> = ({
     const pos = getCanvasPosition(e);
     setIsDrawing(true);
     setLastPosition(pos);
+    strokeAnchorRef.current = { ...pos, t: Date.now() };
+    strokeSentFrameRef.current = false;
 
     // Send canvas start event
-    sendInputToConsole('canvas', 'draw_start', { x: pos.x, y: pos.y });
+    sendInputToConsole('canvas', 'draw_start', {
+      x: pos.x,
+      y: pos.y,
+      canvasWidth: canvasRef.current?.width,
+      canvasHeight: canvasRef.current?.height
+    });
   };
 
   const draw = (e: React.MouseEvent | React.TouchEvent) => {
@@ -146,13 +207,8 @@ const EditorControlPanel: React.FC<EditorControlPanelProps> = ({
     ctx.lineTo(pos.x, pos.y);
     ctx.stroke();
 
-    // Send canvas draw event
-    sendInputToConsole('canvas', 'draw_move', {
-      from: lastPosition,
-      to: pos,
-      color: '#8B5CF6',
-      lineWidth: 3
-    });
+    // Queue the point for the next stream frame
+    strokeBatcherRef.current?.push({ ...pos, t: Date.now() });
 
     setLastPosition(pos);
   };
@@ -161,8 +217,15 @@ const EditorControlPanel: React.FC<EditorControlPanelProps> = ({
     if (!isDrawing) return;
     setIsDrawing(false);
 
-    // Send canvas end event
-    sendInputToConsole('canvas', 'draw_end', { timestamp: Date.now() });
+    // Deliver any pending stroke points before the end event
+    strokeBatcherRef.current?.flush();
+    strokeAnchorRef.current = null;
+
+    // Send canvas end event; the console holds it until the stroke's last frame is in
+    sendInputToConsole('canvas', 'draw_end', {
+      timestamp: Date.now(),
+      ...(strokeSentFrameRef.current && { lastFrame: strokeFrameRef.current })
+    });
   };
 
   // Clear canvas
@@ -250,9 +313,25 @@ const EditorControlPanel: React.FC<EditorControlPanelProps> = ({
           <ArrowLeft size={24} />
         </button>
         
+        <button
+          onClick={() => setShowRemapPanel(true)}
+          className="p-2 hover:bg-gray-800 rounded-full transition-colors"
+        >
+          <SlidersHorizontal size={24} />
+        </button>
 
-        <div className="w-10 h-10 bg-green-500 rounded-full flex items-center justify-center">
-          <div className="w-3 h-3 bg-white rounded-full"></div>
+        <div className="flex items-center gap-2">
+          {webrtcStatus?.connectedDevices?.[0] && (
+            <LatencyBadge latency={webrtcStatus.latency?.[webrtcStatus.connectedDevices[0]]} />
+          )}
+          <div
+            className={`w-10 h-10 rounded-full flex items-center justify-center ${
+              isRelayed ? 'bg-yellow-500' : 'bg-green-500'
+            }`}
+            title={isRelayed ? 'Connected via Realtime relay' : 'Connected via WebRTC'}
+          >
+            <div className="w-3 h-3 bg-white rounded-full"></div>
+          </div>
         </div>
       </div>
 
@@ -354,6 +433,14 @@ const EditorControlPanel: React.FC<EditorControlPanelProps> = ({
         </div>
       </div>
 
+      {/* Remapping Panel */}
+      {showRemapPanel && (
+        <InputRemapPanel
+          playerName={playerName}
+          onClose={() => setShowRemapPanel(false)}
+          onSaved={handleMappingProfileSaved}
+        />
+      )}
     </div>
   );
 };
@@ -1,74 +1,35 @@
-import React, { useState, useEffect } from 'react';
-import { Code, Database, Zap, ExternalLink, Lock, Users, ArrowLeft, Crown } from 'lucide-react';
+import React, { useEffect } from 'react';
+import { Code, ExternalLink, Lock, Users, ArrowLeft, Crown, Power } from 'lucide-react';
+import { editors } from '../lib/editors';
 
 interface EditorSelectionProps {
   sessionId: string;
   lobbyCode: string;
   players: any[];
+  selectedIndex: number;
+  onSelectedIndexChange: (index: number) => void;
   onBack: () => void;
+  onEndSession?: () => void;
 }
 
-interface Editor {
-  id: string;
-  name: string;
-  description: string;
-  url: string;
-  icon: React.ComponentType<any>;
-  color: string;
-  bgGradient: string;
-  features: string[];
-}
-
-const editors: Editor[] = [
-  {
-    id: 'bolt',
-    name: 'Bolt.new',
-    description: 'AI-powered full-stack development platform',
-    url: 'https://bolt.new',
-    icon: Zap,
-    color: 'text-yellow-400',
-    bgGradient: 'from-yellow-500/20 to-orange-500/20',
-    features: ['AI Code Generation', 'Real-time Preview', 'Full-stack Support', 'Instant Deployment']
-  },
-  {
-    id: 'loveable',
-    name: 'Loveable',
-    description: 'Visual development platform for modern apps',
-    url: 'https://loveable.dev',
-    icon: Code,
-    color: 'text-pink-400',
-    bgGradient: 'from-pink-500/20 to-purple-500/20',
-    features: ['Visual Builder', 'Component Library', 'Responsive Design', 'Team Collaboration']
-  },
-  {
-    id: 'co',
-    name: 'co.dev',
-    description: 'Google\'s app development platform',
-    url: 'https://co.dev',
-    icon: Database,
-    color: 'text-orange-400',
-    bgGradient: 'from-orange-500/20 to-red-500/20',
-    features: ['Real-time Database', 'Authentication', 'Cloud Functions', 'Analytics']
-  }
-];
-
 const EditorSelection: React.FC<EditorSelectionProps> = ({ 
   sessionId, 
   lobbyCode, 
   players, 
-  onBack
+  selectedIndex,
+  onSelectedIndexChange,
+  onBack,
+  onEndSession
 }) => {
-  const [selectedIndex, setSelectedIndex] = useState(0);
-
-  // Keyboard navigation for console (backup)
+  // Keyboard navigation for console (backup) - phones drive the same index via ConsoleDisplay
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
       switch (e.key) {
         case 'ArrowLeft':
-          setSelectedIndex(prev => prev > 0 ? prev - 1 : editors.length - 1);
+          onSelectedIndexChange(selectedIndex > 0 ? selectedIndex - 1 : editors.length - 1);
           break;
         case 'ArrowRight':
-          setSelectedIndex(prev => prev < editors.length - 1 ? prev + 1 : 0);
+          onSelectedIndexChange(selectedIndex < editors.length - 1 ? selectedIndex + 1 : 0);
           break;
         case 'Escape':
           onBack();
@@ -78,7 +39,7 @@ const EditorSelection: React.FC<EditorSelectionProps> = ({
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [onBack]);
+  }, [onBack, selectedIndex, onSelectedIndexChange]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-950 to-indigo-900 text-white">
@@ -107,6 +68,15 @@ const EditorSelection: React.FC<EditorSelectionProps> = ({
               <Lock size={16} />
               <span>Locked</span>
             </div>
+            {onEndSession && (
+              <button
+                onClick={onEndSession}
+                className="flex items-center gap-2 bg-gray-800 hover:bg-red-500/30 text-gray-300 hover:text-red-200 px-3 py-1 rounded-full transition-colors"
+              >
+                <Power size={16} />
+                <span>End Session</span>
+              </button>
+            )}
           </div>
         </div>
       </header>
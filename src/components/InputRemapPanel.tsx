@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, RotateCcw } from 'lucide-react';
+import { useRepositories } from '../hooks/useRepositories';
+import { CONSOLE_ACTIONS, DEFAULT_PHONE_MAPPINGS, REMAPPABLE_INPUTS, MappingDefinition, withDefaultMappings } from '../lib/inputRouter';
+
+interface InputRemapPanelProps {
+  playerName: string;
+  onClose: () => void;
+  onSaved: (profileName: string, mappings: MappingDefinition[]) => void;
+}
+
+// Value used by the action picker for inputs that should not trigger anything
+const UNASSIGNED = '';
+
+// Build the picker state (inputType -> action id) from a list of mappings
+const toSelections = (mappings: MappingDefinition[]): Record<string, string> => {
+  return REMAPPABLE_INPUTS.reduce((acc, { inputType }) => {
+    const mapping = mappings.find(m => m.inputType === inputType);
+    acc[inputType] = mapping && mapping.isActive ? mapping.mappedAction : UNASSIGNED;
+    return acc;
+  }, {} as Record<string, string>);
+};
+
+const InputRemapPanel: React.FC<InputRemapPanelProps> = ({ playerName, onClose, onSaved }) => {
+  const repositories = useRepositories();
+  const [profileName, setProfileName] = useState('Default');
+  const [selections, setSelections] = useState<Record<string, string>>(() => toSelections(DEFAULT_PHONE_MAPPINGS));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Load the player's saved profile, if any
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProfile = async () => {
+      const profile = await repositories.mappingProfiles.getForPlayer(playerName);
+      if (cancelled) return;
+
+      if (profile) {
+        console.log('🗺️ [REMAP] Loaded profile:', profile.profile_name);
+        setProfileName(profile.profile_name);
+        setSelections(toSelections(withDefaultMappings(profile.mappings)));
+      }
+      setIsLoading(false);
+    };
+
+    loadProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [playerName, repositories]);
+
+  const handleSelectionChange = (inputType: string, actionId: string) => {
+    setSelections(prev => ({ ...prev, [inputType]: actionId }));
+  };
+
+  const resetToDefaults = () => {
+    setSelections(toSelections(DEFAULT_PHONE_MAPPINGS));
+  };
+
+  const saveProfile = async () => {
+    const name = profileName.trim() || 'Default';
+    // Unassigned inputs are kept as inactive entries, so they don't get their default back
+    const mappings: MappingDefinition[] = REMAPPABLE_INPUTS.map(({ inputType }) => ({
+      inputType,
+      mappedAction: selections[inputType],
+      isActive: selections[inputType] !== UNASSIGNED
+    }));
+
+    setIsSaving(true);
+    setSaveError(null);
+
+    const saved = await repositories.mappingProfiles.save(playerName, name, mappings);
+    setIsSaving(false);
+
+    if (!saved) {
+      setSaveError('Failed to save profile. Please try again.');
+      return;
+    }
+
+    onSaved(name, mappings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-end sm:items-center justify-center">
+      <div className="w-full max-w-md bg-gray-900 border border-purple-500/30 rounded-t-xl sm:rounded-xl p-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold">Remap Controls</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-800 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Profile Name */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Profile Name
+          </label>
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            maxLength={30}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2"
+          />
+        </div>
+
+        {/* Bindings */}
+        <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-purple-300 text-sm">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-400"></div>
+              <span>Loading profile...</span>
+            </div>
+          ) : (
+            REMAPPABLE_INPUTS.map(({ inputType, label }) => (
+              <div key={inputType} className="flex items-center justify-between gap-3 bg-gray-800/50 rounded-lg px-3 py-2">
+                <span className="text-sm text-gray-200">{label}</span>
+                <select
+                  value={selections[inputType]}
+                  onChange={(e) => handleSelectionChange(inputType, e.target.value)}
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm"
+                >
+                  <option value={UNASSIGNED}>Unassigned</option>
+                  {CONSOLE_ACTIONS.map(action => (
+                    <option key={action.id} value={action.id}>{action.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))
+          )}
+        </div>
+
+        {saveError && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-300 text-sm mb-4">
+            {saveError}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-2">
+          <button
+            onClick={resetToDefaults}
+            disabled={isLoading || isSaving}
+            className="flex-1 py-3 rounded-lg font-medium bg-gray-700 hover:bg-gray-600 transition-colors flex items-center justify-center gap-2"
+          >
+            <RotateCcw size={16} />
+            Defaults
+          </button>
+          <button
+            onClick={saveProfile}
+            disabled={isLoading || isSaving}
+            className={`flex-1 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
+              isLoading || isSaving
+                ? 'bg-gray-700 cursor-not-allowed'
+                : 'bg-purple-500 hover:bg-purple-600'
+            }`}
+          >
+            <Save size={16} />
+            {isSaving ? 'Saving...' : 'Save Profile'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InputRemapPanel;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { PeerLatency } from '../lib/webrtc';
+
+interface LatencyBadgeProps {
+  latency?: PeerLatency;
+  // Also show the smoothed one-way input latency (console side, where inputs arrive)
+  showInputLatency?: boolean;
+  className?: string;
+}
+
+const latencyColor = (ms: number) => {
+  if (ms < 60) return 'text-green-400';
+  if (ms < 150) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+const LatencyBadge: React.FC<LatencyBadgeProps> = ({ latency, showInputLatency = false, className = '' }) => {
+  if (latency?.rtt === undefined) {
+    return <span className={`text-xs text-gray-500 ${className}`}>-- ms</span>;
+  }
+
+  const { rtt, averageInputLatency, clockOffset } = latency;
+
+  return (
+    <span
+      className={`text-xs font-mono ${latencyColor(rtt)} ${className}`}
+      title={`RTT ${Math.round(rtt)}ms, clock offset ${Math.round(clockOffset ?? 0)}ms`}
+    >
+      {Math.round(rtt)}ms
+      {showInputLatency && averageInputLatency !== undefined && (
+        <span className={`ml-1 ${latencyColor(averageInputLatency)}`}>
+          ({Math.round(averageInputLatency)}ms in)
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default LatencyBadge;
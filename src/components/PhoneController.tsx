@@ -1,9 +1,21 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, Gamepad2, Crown, Lock, Users, Code, Monitor, AlertCircle, RefreshCw, Zap, Database, ExternalLink } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ArrowLeft, Gamepad2, Crown, Lock, Users, Monitor, AlertCircle, RefreshCw, ExternalLink, ChevronLeft, ChevronRight, Check, Power, Eye, VolumeX, Ban } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { supabase, sessionHelpers, deviceHelpers, deviceInputHelpers } from '../lib/supabase';
+import { useRepositories } from '../hooks/useRepositories';
 import { useWebRTC } from '../hooks/useWebRTC';
+import { useSessionLifecycle, describeSessionEnd } from '../hooks/useSessionLifecycle';
+import { usePresence } from '../hooks/usePresence';
+import { editors } from '../lib/editors';
+import { loadDeviceIdentity, saveDeviceIdentity, clearDeviceIdentity } from '../lib/deviceIdentity';
+import { PLANS, DEFAULT_PLAN } from '../lib/plans';
+import type { ModerationAction } from '../lib/moderation';
+import { PIN_LENGTH, PIN_LOCKOUT_MINUTES, type JoinMode } from '../lib/lobbyAccess';
+import { createInputPayload, type ChatPayload } from '../lib/protocol';
+import { followLobbyLock, shouldLinkToConsole, type PhoneGameStatus } from '../lib/consoleLink';
 import EditorControlPanel from './EditorControlPanel';
+import LatencyBadge from './LatencyBadge';
+import ChatPanel from './ChatPanel';
+import SketchView, { type SketchViewHandle } from './SketchView';
 
 interface PhoneControllerProps {
   lobbyCode: string;
@@ -13,56 +25,34 @@ interface Player {
   id: string;
   name: string;
   isHost: boolean;
+  isSpectator: boolean;
+  isMuted: boolean;
+  isPending: boolean;
 }
 
-interface Editor {
-  id: string;
-  name: string;
-  description: string;
-  url: string;
-  icon: React.ComponentType<any>;
-  color: string;
-  bgGradient: string;
-  features: string[];
-}
-
-const editors: Editor[] = [
-  {
-    id: 'bolt',
-    name: 'Bolt.new',
-    description: 'AI-powered full-stack development platform',
-    url: 'https://bolt.new',
-    icon: Zap,
-    color: 'text-yellow-400',
-    bgGradient: 'from-yellow-500/20 to-orange-500/20',
-    features: ['AI Code Generation', 'Real-time Preview', 'Full-stack Support', 'Instant Deployment']
-  },
-  {
-    id: 'loveable',
-    name: 'Loveable',
-    description: 'Visual development platform for modern apps',
-    url: 'https://loveable.dev',
-    icon: Code,
-    color: 'text-pink-400',
-    bgGradient: 'from-pink-500/20 to-purple-500/20',
-    features: ['Visual Builder', 'Component Library', 'Responsive Design', 'Team Collaboration']
-  },
-  {
-    id: 'co',
-    name: 'co.dev',
-    description: 'Google\'s app development platform',
-    url: 'https://co.dev',
-    icon: Database,
-    color: 'text-orange-400',
-    bgGradient: 'from-orange-500/20 to-red-500/20',
-    features: ['Real-time Database', 'Authentication', 'Cloud Functions', 'Analytics']
+// Why we're no longer in the lobby: kicked or banned by the host, turned away at the door,
+// or removed after being away
+type Removal = 'kick' | 'ban' | 'denied' | 'removed';
+
+// Chat lines kept on the phone
+const CHAT_LOG_LIMIT = 50;
+
+// selected_editor holds the JSON written by handlePhoneEditorSelection
+const getSelectedEditorName = (selectedEditor: string | null): string | null => {
+  if (!selectedEditor) return null;
+  try {
+    const selection = JSON.parse(selectedEditor);
+    return selection.selectedEditorName || selection.selectedEditor || null;
+  } catch {
+    return selectedEditor;
   }
-];
+};
 
 const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
+  const repositories = useRepositories();
   const [playerName, setPlayerName] = useState('');
   const [isJoined, setIsJoined] = useState(false);
-  const [gameStatus, setGameStatus] = useState<'waiting' | 'editor_selection' | 'in_editor'>('waiting');
+  const [gameStatus, setGameStatus] = useState<PhoneGameStatus>('waiting');
   const [myPlayerId, setMyPlayerId] = useState<string>('');
   const [connectionError, setConnectionError] = useState<string>('');
   const [currentSessionId, setCurrentSessionId] = useState<string>('');
@@ -73,20 +63,96 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
   
   // NEW: Phone editor selection state
   const [phoneSelectedEditorIndex, setPhoneSelectedEditorIndex] = useState(0);
+
+  // Capacity of the lobby we were turned away from, null unless it was full
+  const [fullLobbyCapacity, setFullLobbyCapacity] = useState<number | null>(null);
+
+  // Short notices about our role (host handed to us, promoted from spectator)
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Spectators watch the session without a seat or routed inputs
+  const [isSpectator, setIsSpectator] = useState(false);
+  const [watchedEditorName, setWatchedEditorName] = useState<string | null>(null);
+
+  // Muted by the host (the console drops our inputs), and why we were taken out of the lobby
+  const [isMuted, setIsMuted] = useState(false);
+  const [removal, setRemoval] = useState<Removal | null>(null);
+
+  // How the lobby lets phones in, the PIN we type for a PIN lobby, and whether we're
+  // still waiting for the host to let us into a knock lobby
+  const [lobbyJoinMode, setLobbyJoinMode] = useState<JoinMode>('open');
+  const [pin, setPin] = useState('');
+  const [isPending, setIsPending] = useState(false);
+
+  // Console device, reachable over WebRTC or the Realtime fallback
+  const [consoleDeviceId, setConsoleDeviceId] = useState<string>('');
+
+  // Chat passed on by the console, and the players' sketches it sends spectators
+  const [chatLog, setChatLog] = useState<ChatPayload[]>([]);
+  const sketchViewRef = useRef<SketchViewHandle>(null);
   
   const navigate = useNavigate();
 
+  // Keeps our device marked active and tells us when the host (or expiry) ends the session
+  const lifecycle = useSessionLifecycle({
+    sessionId: currentSessionId,
+    deviceId: myPlayerId
+  });
+  const sessionEnded = lifecycle.ended !== null;
+
+  // Heartbeat into the session's presence so the console can show us as online/idle
+  usePresence({
+    sessionId: currentSessionId,
+    deviceId: myPlayerId,
+    name: playerName.trim(),
+    deviceType: isSpectator ? 'spectator' : 'phone',
+    enabled: isJoined && !sessionEnded
+  });
+
+  // Players and spectators talk to the console once the subscribed session row shows the lock
+  const consoleLinked = shouldLinkToConsole({
+    sessionId: currentSessionId,
+    deviceId: myPlayerId,
+    isLobbyLocked,
+    sessionEnded,
+    isPending
+  });
+
   // WebRTC integration for phone controller
   const webrtc = useWebRTC({
     sessionId: currentSessionId,
     deviceId: myPlayerId,
     isHost: false,
-    onMessage: (message, fromDeviceId) => {
+    onMessage: (message) => {
       console.log('📩 [PHONE] WebRTC message from console:', message.type);
+
+      // Console broadcasts its highlighted editor so every screen shows the same cursor
+      if (message.type === 'selection') {
+        setPhoneSelectedEditorIndex(message.data.highlightedEditorIndex);
+        if (message.data.selectedEditor) {
+          setGameStatus('in_editor');
+        }
+      }
+
+      if (message.type === 'chat') {
+        setChatLog(prev => [...prev, message.data].slice(-CHAT_LOG_LIMIT));
+      }
+
+      if (message.type === 'sketch') {
+        sketchViewRef.current?.draw(message.data);
+      }
     },
-    enabled: currentSessionId !== '' && myPlayerId !== '' && isLobbyLocked
+    enabled: consoleLinked
   });
 
+  // Phones only talk to the console, so relayed messages and signals are only taken from it
+  const { setRelaySenders, setSignalingPeers } = webrtc;
+  useEffect(() => {
+    if (!webrtc.status.isInitialized) return;
+    setRelaySenders(consoleDeviceId ? [consoleDeviceId] : []);
+    setSignalingPeers(consoleDeviceId ? [consoleDeviceId] : []);
+  }, [consoleDeviceId, webrtc.status.isInitialized, setRelaySenders, setSignalingPeers]);
+
   // Load session and check if it exists
   const loadSession = async () => {
     console.log('🔍 [PHONE] Loading session for lobby code:', lobbyCode);
@@ -94,7 +160,7 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
     setConnectionError('');
     
     try {
-      const session = await sessionHelpers.getSessionByCode(lobbyCode);
+      const session = await repositories.sessions.getByCode(lobbyCode);
       
       if (!session) {
         console.error('❌ [PHONE] Session not found for lobby code:', lobbyCode);
@@ -109,6 +175,8 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
       const nowLocked = session.is_locked || false;
       
       setIsLobbyLocked(nowLocked);
+      setLobbyJoinMode(session.join_mode || 'open');
+      setWatchedEditorName(getSelectedEditorName(session.selected_editor));
       
       if (!wasLocked && nowLocked) {
         console.log('🔒 [PHONE] Lobby locked - switching to editor selection mode');
@@ -135,19 +203,22 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
   };
 
   // Load players in the session
-  const loadPlayers = async () => {
+  const loadPlayers = useCallback(async () => {
     if (!currentSessionId) return;
 
     try {
-      const devices = await deviceHelpers.getSessionDevices(currentSessionId);
+      const devices = await repositories.devices.listBySession(currentSessionId);
 
-      // Filter out console device and only show phone controllers
+      // Filter out console device; spectators are listed too, apart from players
       const mappedPlayers: Player[] = devices
         .filter(device => device.device_type !== 'console' && device.name !== 'Console')
         .map((device) => ({
           id: device.id,
           name: device.name,
-          isHost: device.is_host || false
+          isHost: device.is_host || false,
+          isSpectator: device.device_type === 'spectator',
+          isMuted: device.is_muted || false,
+          isPending: device.status === 'pending'
         }));
 
       setPlayers(mappedPlayers);
@@ -157,11 +228,93 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
       if (myDevice) {
         const amHost = myDevice.is_host || false;
         setIsHost(amHost);
+
+        setIsSpectator(myDevice.device_type === 'spectator');
+        setIsMuted(myDevice.is_muted || false);
+        setIsPending(myDevice.status === 'pending');
       }
     } catch (error) {
       console.error('💥 [PHONE] Error loading players:', error);
     }
-  };
+  }, [currentSessionId, myPlayerId, repositories]);
+
+  // Tell a spectator when the host gives them a seat
+  const wasSpectatorRef = useRef(false);
+  useEffect(() => {
+    if (wasSpectatorRef.current && !isSpectator && isJoined) {
+      console.log('⬆️ [PHONE] Promoted to player');
+      setNotice('The host made you a player');
+    }
+    wasSpectatorRef.current = isSpectator;
+  }, [isSpectator, isJoined]);
+
+  // Keep the player list current and follow host changes announced on the session row
+  useEffect(() => {
+    if (!currentSessionId || !myPlayerId || sessionEnded) return;
+
+    loadPlayers();
+
+    const unsubscribeDevices = repositories.devices.subscribe(currentSessionId, async (change) => {
+      if (change.eventType !== 'DELETE' || change.old?.id !== myPlayerId) {
+        loadPlayers();
+        return;
+      }
+
+      // Our device is gone - our last moderation says whether the host did it, and a
+      // pending device that goes away was turned away at the door
+      const moderation = await repositories.sessions.lastModeration(currentSessionId, myPlayerId);
+      const reason: Removal = moderation?.action === 'kick' || moderation?.action === 'ban'
+        ? moderation.action
+        : isPending ? 'denied' : 'removed';
+      console.log('🚪 [PHONE] Removed from the lobby:', reason);
+      setRemoval(reason);
+      setIsJoined(false);
+      setIsHost(false);
+      setIsPending(false);
+      setMyPlayerId('');
+    });
+
+    // Follow the host locking and unlocking the lobby, like loadSession
+    let lockSeen = false;
+    const followLock = (nowLocked: boolean) => {
+      setIsLobbyLocked(nowLocked);
+      setGameStatus(prev => followLobbyLock(prev, nowLocked));
+    };
+
+    // Host as last seen on the session row; undefined until we know it. The lobby may also
+    // have been locked between loading the session and joining it
+    let knownHostId: string | null | undefined;
+    repositories.sessions.get(currentSessionId).then(session => {
+      if (!session) return;
+      if (knownHostId === undefined) knownHostId = session.host_device_id ?? null;
+      if (!lockSeen) followLock(session.is_locked || false);
+    });
+
+    const unsubscribeSession = repositories.sessions.subscribe(currentSessionId, (change) => {
+      if (change.new) {
+        setWatchedEditorName(getSelectedEditorName(change.new.selected_editor));
+        lockSeen = true;
+        followLock(change.new.is_locked || false);
+      }
+
+      const hostId = change.new?.host_device_id;
+      if (hostId === undefined || hostId === knownHostId) return;
+
+      const wasHost = knownHostId === myPlayerId;
+      const firstSeen = knownHostId === undefined;
+      knownHostId = hostId;
+
+      const amHost = hostId === myPlayerId;
+      console.log('👑 [PHONE] Host is now', amHost ? 'us' : hostId?.slice(-8));
+      setIsHost(amHost);
+      setNotice(amHost && !wasHost && !firstSeen ? 'You are now the host' : null);
+    });
+
+    return () => {
+      unsubscribeDevices();
+      unsubscribeSession();
+    };
+  }, [currentSessionId, myPlayerId, sessionEnded, isPending, lobbyCode, loadPlayers, repositories]);
 
   // NEW: Handle phone editor selection
   const handlePhoneEditorSelection = async (editorId: string) => {
@@ -172,6 +325,12 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
       return;
     }
 
+    // selected_editor is the console's and the host's to change
+    if (!isHost) {
+      setNotice('Only the host can pick the editor');
+      return;
+    }
+
     try {
       // Find the selected editor
       const selectedEditorInfo = editors.find(editor => editor.id === editorId);
@@ -180,7 +339,7 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
         return;
       }
 
-      // Create selection data for Supabase
+      // Create selection data for the session row
       const selectionData = {
         selectedEditor: selectedEditorInfo.id,
         selectedEditorName: selectedEditorInfo.name,
@@ -191,18 +350,15 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
         selectedBy: playerName
       };
 
-      console.log('💾 [PHONE] Saving editor selection to Supabase:', selectionData);
+      console.log('💾 [PHONE] Saving editor selection to session:', selectionData);
 
       // Update session with selection data - this will trigger ConsoleDisplay to show the editor
-      const { error } = await supabase
-        .from('sessions')
-        .update({ 
-          selected_editor: JSON.stringify(selectionData)
-        })
-        .eq('id', currentSessionId);
-
-      if (error) {
-        console.error('❌ [PHONE] Error saving editor selection:', error);
+      const saved = await repositories.sessions.update(currentSessionId, {
+        selected_editor: JSON.stringify(selectionData)
+      });
+
+      if (!saved) {
+        console.error('❌ [PHONE] Error saving editor selection');
         return;
       }
 
@@ -216,19 +372,52 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
     }
   };
 
+  // Send a selection-screen input (d-pad / confirm) to the console
+  const sendSelectionInput = (inputType: 'dpad' | 'button', inputAction: string) => {
+    if (!consoleDeviceId) {
+      console.log('⚠️ [PHONE] Console not found yet, cannot send selection input');
+      return;
+    }
+
+    webrtc.sendMessage(consoleDeviceId, {
+      type: 'game_data',
+      data: createInputPayload(
+        inputType,
+        inputAction,
+        inputType === 'dpad' ? { pressed: true, direction: inputAction } : { pressed: true }
+      )
+    });
+  };
+
+  // Send a chat line; the console passes it on to everyone, us included
+  const sendChat = (text: string) => {
+    if (!consoleDeviceId) return false;
+    return webrtc.sendMessage(consoleDeviceId, { type: 'chat', data: { text } });
+  };
+
+  const chatDisabledReason = isMuted ? 'Muted by the host'
+    : !consoleDeviceId || !webrtc.status.isInitialized ? 'Connecting to the console...'
+    : null;
+
+  const chatPanel = (
+    <ChatPanel lines={chatLog} myDeviceId={myPlayerId} disabledReason={chatDisabledReason} onSend={sendChat} />
+  );
+
   // NEW: Handle back from editor
   const handleBackFromEditor = async () => {
     console.log('🔙 [PHONE] Going back from editor to selection');
+
+    // The editor screen has no room for notices
+    if (!isHost) {
+      window.alert('Only the host can leave the editor');
+      return;
+    }
     
     try {
-      // Clear the selected_editor field in Supabase
-      const { error } = await supabase
-        .from('sessions')
-        .update({ selected_editor: null })
-        .eq('id', currentSessionId);
-
-      if (error) {
-        console.error('❌ [PHONE] Error clearing selected editor:', error);
+      // Clear the selected_editor field on the session
+      const cleared = await repositories.sessions.update(currentSessionId, { selected_editor: null });
+      if (!cleared) {
+        console.error('❌ [PHONE] Error clearing selected editor');
         return;
       }
 
@@ -245,25 +434,64 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
     loadSession();
   }, [lobbyCode]);
 
+  // Reclaim the device this browser joined with before a reload; true if we're back in
+  const resumingRef = useRef(false);
+  const resumeStoredDevice = useCallback(async (sessionId: string) => {
+    const identity = loadDeviceIdentity(lobbyCode);
+    if (!identity || resumingRef.current) return false;
+
+    // Same lobby code, but an earlier session
+    if (identity.sessionId !== sessionId) {
+      clearDeviceIdentity(lobbyCode);
+      return false;
+    }
+
+    resumingRef.current = true;
+    try {
+      console.log('🔁 [PHONE] Resuming device:', identity.deviceId.slice(-8));
+      const device = await repositories.devices.resume(sessionId, identity.token);
+      if (!device) {
+        // Keep the identity: joining again hands its token over for the ban check
+        console.log('⚠️ [PHONE] Stored device is gone - joining as a new player');
+        return false;
+      }
+
+      console.log('✅ [PHONE] Resumed as', device.name, device.is_host ? '(host)' : '');
+      setMyPlayerId(device.id);
+      setPlayerName(device.name);
+      setIsHost(device.is_host || false);
+      setIsSpectator(device.device_type === 'spectator');
+      setIsPending(device.status === 'pending');
+      setIsJoined(true);
+      setConnectionError('');
+      return true;
+    } finally {
+      resumingRef.current = false;
+    }
+  }, [lobbyCode, repositories]);
+
+  // Try to resume as soon as the session is known
   useEffect(() => {
-    if (!currentSessionId || !myPlayerId || !isLobbyLocked) return;
+    if (!currentSessionId || isJoined) return;
+    resumeStoredDevice(currentSessionId);
+  }, [currentSessionId, isJoined, resumeStoredDevice]);
+
+  useEffect(() => {
+    if (!consoleLinked) return;
 
     const attemptConsoleConnection = async () => {
       try {
         // Find console device
-        const { data: consoleDevice, error } = await supabase
-          .from('devices')
-          .select('id')
-          .eq('session_id', currentSessionId)
-          .eq('name', 'Console')
-          .single();
-
-        if (error || !consoleDevice) {
-          console.error('❌ [PHONE] Console device not found:', error);
+        const devices = await repositories.devices.listBySession(currentSessionId);
+        const consoleDevice = devices.find(device => device.device_type === 'console' || device.name === 'Console');
+
+        if (!consoleDevice) {
+          console.error('❌ [PHONE] Console device not found');
           return;
         }
 
         console.log('📡 [PHONE] Found console device, attempting WebRTC connection');
+        setConsoleDeviceId(consoleDevice.id);
         
         if (webrtc.status.isInitialized) {
           await webrtc.connectToDevice(consoleDevice.id);
@@ -287,9 +515,9 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
       clearTimeout(initialTimeout);
       clearInterval(retryInterval);
     };
-  }, [currentSessionId, myPlayerId, isLobbyLocked, webrtc.status.isInitialized]);
+  }, [currentSessionId, consoleLinked, webrtc.status.isInitialized, repositories]);
 
-  const joinLobby = async () => {
+  const joinLobby = async (asSpectator = false) => {
     if (!playerName.trim() || !lobbyCode) return;
 
     console.log('🚪 [PHONE] Attempting to join lobby with name:', playerName.trim());
@@ -297,46 +525,75 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
       const session = await loadSession();
       if (!session) return;
 
-      // Check if lobby is full (max 4 players, excluding console)
-      const existingDevices = await deviceHelpers.getSessionDevices(session.id);
+      // This browser is already in the lobby
+      if (await resumeStoredDevice(session.id)) return;
 
-      if (!existingDevices) {
-        console.error('❌ [PHONE] Failed to get existing devices');
-        setConnectionError('Failed to check lobby capacity');
+      // Once the lobby is locked, newcomers can only watch
+      const spectating = asSpectator || session.is_locked;
+
+      // Every player asks to host; join_session() only makes the first phone host, under
+      // the session lock, so the device it returns says whether we got it. It also turns
+      // phones away from a full lobby - we can't count the seats before holding a device
+      const joined = await repositories.devices.join(
+        session.id,
+        playerName.trim(),
+        spectating ? 'spectator' : 'phone',
+        !spectating,
+        loadDeviceIdentity(lobbyCode)?.token,
+        pin.trim() || null
+      );
+
+      if (joined.error === 'banned') {
+        console.log('🚫 [PHONE] Banned from this lobby');
+        setRemoval('ban');
         return;
       }
 
-      // Count only phone controllers (exclude console)
-      const phoneControllers = existingDevices.filter(device => 
-        device.device_type !== 'console' && device.name !== 'Console'
-      );
-      
-      if (phoneControllers.length >= 4) {
-        console.log('🚫 [PHONE] Lobby is full');
-        setConnectionError('Lobby is full (max 4 players)');
+      if (joined.error === 'pin_required') {
+        console.log('🔢 [PHONE] Lobby needs a PIN');
+        setLobbyJoinMode('pin');
+        setConnectionError(pin.trim() ? 'Wrong PIN - check the PIN shown on the console' : 'This lobby needs the PIN shown on the console');
         return;
       }
 
-      // First phone controller becomes host (not including console)
-      const isFirstPlayer = phoneControllers.length === 0;
+      if (joined.error === 'pin_locked') {
+        console.log('🔒 [PHONE] Lobby stopped taking PINs for now');
+        setLobbyJoinMode('pin');
+        setConnectionError(`Too many wrong PINs - try again in ${PIN_LOCKOUT_MINUTES} minutes`);
+        return;
+      }
 
-      const device = await deviceHelpers.createDevice(
-        session.id,
-        playerName.trim(),
-        'phone',
-        isFirstPlayer
-      );
+      if (joined.error === 'lobby_full') {
+        console.log('🚫 [PHONE] Lobby is full');
+        setFullLobbyCapacity(joined.maxPlayers || session.max_players || PLANS[DEFAULT_PLAN].maxPlayers);
+        return;
+      }
 
+      const { device } = joined;
       if (!device) {
         console.error('❌ [PHONE] Device creation failed');
         setConnectionError('Failed to join lobby');
         return;
       }
 
-      console.log('✅ [PHONE] Successfully joined lobby');
+      // Knock lobbies hand back a pending device; the server never makes it host
+      const pending = device.status === 'pending';
+      console.log(`✅ [PHONE] Successfully joined lobby${spectating ? ' as a spectator' : ''}${pending ? ' - waiting to be let in' : ''}`);
+
+      // Remember the device so a reload picks it up again
+      const token = await repositories.devices.issueToken(device.id);
+      if (token) {
+        saveDeviceIdentity(lobbyCode, { sessionId: session.id, deviceId: device.id, name: device.name, token });
+      }
+
       setMyPlayerId(device.id);
       setIsJoined(true);
-      setIsHost(isFirstPlayer);
+      setIsHost(device.is_host || false);
+      setIsSpectator(spectating);
+      setIsPending(pending);
+      setIsMuted(false);
+      setRemoval(null);
+      setFullLobbyCapacity(null);
       setConnectionError('');
     } catch (error) {
       console.error('💥 [PHONE] Exception during lobby join:', error);
@@ -349,7 +606,7 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
 
     console.log('🔒 [PHONE] Host attempting to lock lobby');
     try {
-      const success = await sessionHelpers.lockSession(currentSessionId);
+      const success = await repositories.sessions.lock(currentSessionId);
       
       if (!success) {
         console.error('❌ [PHONE] Failed to lock lobby');
@@ -369,13 +626,9 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
 
     console.log('🔓 [PHONE] Host attempting to unlock lobby');
     try {
-      const { error } = await supabase
-        .from('sessions')
-        .update({ is_locked: false })
-        .eq('id', currentSessionId);
-
-      if (error) {
-        console.error('❌ [PHONE] Error unlocking lobby:', error);
+      const unlocked = await repositories.sessions.update(currentSessionId, { is_locked: false });
+      if (!unlocked) {
+        console.error('❌ [PHONE] Error unlocking lobby');
         return;
       }
 
@@ -387,15 +640,129 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
     }
   };
 
+  // Host-only: hand the host role to another player
+  const transferHost = async (player: Player) => {
+    if (!isHost || !currentSessionId) return;
+    if (!window.confirm(`Make ${player.name} the host?`)) return;
+
+    console.log('👑 [PHONE] Transferring host to', player.name);
+    const transferred = await repositories.sessions.transferHost(currentSessionId, player.id, myPlayerId);
+    if (!transferred) {
+      console.error('❌ [PHONE] Host transfer failed');
+      return;
+    }
+    setIsHost(false);
+  };
+
+  // Host-only: give a spectator a seat, if one is free
+  const promoteSpectator = async (player: Player) => {
+    if (!isHost) return;
+
+    console.log('⬆️ [PHONE] Promoting spectator', player.name);
+    const promoted = await repositories.devices.promote(player.id);
+    if (promoted.error === 'lobby_full') {
+      console.log('🚫 [PHONE] No free seat for', player.name);
+      setNotice(`No free seat for ${player.name} - the lobby holds ${promoted.maxPlayers ?? 'no more'} players`);
+      return;
+    }
+    if (promoted.error) {
+      console.error('❌ [PHONE] Failed to promote spectator');
+      return;
+    }
+    await loadPlayers();
+  };
+
+  // Host-only: kick, ban, mute or unmute another player or spectator
+  const moderate = async (player: Player, action: ModerationAction) => {
+    if (!isHost || !currentSessionId) return;
+    if (action === 'kick' && !window.confirm(`Kick ${player.name}? They can join again.`)) return;
+    if (action === 'ban' && !window.confirm(`Ban ${player.name} from this session?`)) return;
+
+    console.log(`🛡️ [PHONE] ${action} ${player.name}`);
+    const done = await repositories.sessions.moderate(currentSessionId, myPlayerId, player.id, action);
+    if (!done) {
+      console.error(`❌ [PHONE] Could not ${action} ${player.name}`);
+      return;
+    }
+    await loadPlayers();
+  };
+
+  // Host-only: let a phone that knocked into the lobby, or turn it away
+  const reviewKnock = async (player: Player, approve: boolean) => {
+    if (!isHost || !currentSessionId) return;
+
+    console.log(`🚪 [PHONE] ${approve ? 'Letting in' : 'Turning away'} ${player.name}`);
+    const reviewed = await repositories.devices.review(currentSessionId, myPlayerId, player.id, approve);
+    if (!reviewed) {
+      console.error('❌ [PHONE] Could not review', player.name);
+      return;
+    }
+    await loadPlayers();
+  };
+
+  // Pending: give up knocking and leave the lobby
+  const stopWaiting = async () => {
+    const deviceId = myPlayerId;
+    console.log('🚪 [PHONE] Stopped waiting to be let in');
+
+    // Leave first, so our own delete isn't taken for the host turning us away
+    setIsJoined(false);
+    setIsPending(false);
+    setMyPlayerId('');
+    clearDeviceIdentity(lobbyCode);
+    await repositories.devices.remove(deviceId);
+  };
+
+  // Host-only: end the session for everyone
+  const endSession = async () => {
+    if (!isHost || !currentSessionId) return;
+    if (!window.confirm('End this session for everyone?')) return;
+
+    console.log('🏁 [PHONE] Host ending session');
+    await lifecycle.endSession();
+  };
+
+  // Session ended - stop retrying and say so
+  if (lifecycle.ended) {
+    const { title, message } = describeSessionEnd(lifecycle.ended);
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-6">
+        <div className="flex flex-col items-center justify-center min-h-[80vh]">
+          <div className="w-20 h-20 bg-gray-700 rounded-full flex items-center justify-center mb-8">
+            <Power size={40} className="text-gray-300" />
+          </div>
+
+          <h1 className="text-3xl font-bold mb-4">{title}</h1>
+          <p className="text-gray-300 mb-8 text-center max-w-sm">{message}</p>
+
+          <div className="w-full max-w-sm space-y-3">
+            <button
+              onClick={() => navigate('/controller')}
+              className="w-full py-3 rounded-lg font-medium bg-indigo-500 hover:bg-indigo-600 transition-colors"
+            >
+              Join Another Game
+            </button>
+            <button
+              onClick={() => navigate('/')}
+              className="w-full py-3 rounded-lg font-medium bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              Back to Home
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // NEW: Show Stage 6 - Editor Control Panel
   if (gameStatus === 'in_editor') {
     return (
       <EditorControlPanel
-        sessionId={currentSessionId}
-        myPlayerId={myPlayerId}
         playerName={playerName}
         webrtcStatus={webrtc.status}
         webrtcSendMessage={webrtc.sendMessage}
+        webrtcSendBinary={webrtc.sendBinary}
+        consoleDeviceId={consoleDeviceId}
         onBack={handleBackFromEditor}
       />
     );
@@ -471,6 +838,99 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
     );
   }
 
+  // Kicked, banned, turned away or removed after being away
+  if (removal) {
+    const banned = removal === 'ban';
+    const title = banned
+      ? 'Banned'
+      : removal === 'kick' ? 'Removed by the Host' : removal === 'denied' ? 'Not Let In' : 'Removed from the Lobby';
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-6">
+        <div className="flex flex-col items-center justify-center min-h-[80vh]">
+          <div className="w-20 h-20 bg-red-500/20 rounded-full flex items-center justify-center mb-8">
+            <Ban size={40} className="text-red-400" />
+          </div>
+
+          <h1 className="text-3xl font-bold mb-4">{title}</h1>
+          <p className="text-gray-300 mb-8 text-center max-w-sm">
+            {banned
+              ? `The host banned you from lobby ${lobbyCode}.`
+              : removal === 'kick'
+                ? `The host removed you from lobby ${lobbyCode}. You can join again.`
+                : removal === 'denied'
+                  ? `The host didn't let you into lobby ${lobbyCode}.`
+                  : `You were away from lobby ${lobbyCode} for too long.`}
+          </p>
+
+          <div className="w-full max-w-sm space-y-3">
+            {!banned && (
+              <button
+                onClick={() => setRemoval(null)}
+                className="w-full py-3 rounded-lg font-medium bg-indigo-500 hover:bg-indigo-600 transition-colors flex items-center justify-center gap-2"
+              >
+                <RefreshCw size={16} />
+                Join Again
+              </button>
+            )}
+            <button
+              onClick={() => navigate('/controller')}
+              className="w-full py-3 rounded-lg font-medium bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              Join Another Game
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Lobby full - offer to check again in case someone leaves
+  if (!isJoined && fullLobbyCapacity !== null) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-6">
+        <div className="flex flex-col items-center justify-center min-h-[80vh]">
+          <div className="w-20 h-20 bg-yellow-500/20 rounded-full flex items-center justify-center mb-8">
+            <Users size={40} className="text-yellow-400" />
+          </div>
+
+          <h1 className="text-3xl font-bold mb-4">Lobby Full</h1>
+          <p className="text-gray-300 mb-8 text-center max-w-sm">
+            Lobby {lobbyCode} already has {fullLobbyCapacity} players. Try again if someone leaves.
+          </p>
+
+          <div className="w-full max-w-sm space-y-3">
+            <button
+              onClick={() => {
+                setFullLobbyCapacity(null);
+                joinLobby();
+              }}
+              className="w-full py-3 rounded-lg font-medium bg-indigo-500 hover:bg-indigo-600 transition-colors flex items-center justify-center gap-2"
+            >
+              <RefreshCw size={16} />
+              Try Again
+            </button>
+            <button
+              onClick={() => {
+                setFullLobbyCapacity(null);
+                joinLobby(true);
+              }}
+              className="w-full py-3 rounded-lg font-medium bg-gray-700 hover:bg-gray-600 transition-colors flex items-center justify-center gap-2"
+            >
+              <Eye size={16} />
+              Watch as Spectator
+            </button>
+            <button
+              onClick={() => navigate('/controller')}
+              className="w-full py-3 rounded-lg font-medium bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              Join Another Game
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (!isJoined) {
     return (
       <div className="min-h-screen bg-gray-900 text-white overflow-hidden p-6">
@@ -516,6 +976,24 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
               />
             </div>
 
+            {lobbyJoinMode === 'pin' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Lobby PIN
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                  placeholder="Shown on the console"
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-lg font-mono text-center tracking-widest"
+                  maxLength={PIN_LENGTH}
+                  onKeyPress={(e) => e.key === 'Enter' && joinLobby()}
+                />
+              </div>
+            )}
+
             {connectionError && (
               <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-300 text-sm">
                 <div className="font-medium mb-1">Connection Error:</div>
@@ -531,7 +1009,7 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
             )}
 
             <button
-              onClick={joinLobby}
+              onClick={() => joinLobby()}
               disabled={!playerName.trim() || isLoadingSession}
               className={`w-full py-4 rounded-lg text-lg font-medium transition-colors ${
                 playerName.trim() && !isLoadingSession
@@ -542,15 +1020,241 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
               {isLoadingSession ? 'Checking Game...' : 'Join Game'}
             </button>
 
+            <button
+              onClick={() => joinLobby(true)}
+              disabled={!playerName.trim() || isLoadingSession}
+              className="w-full py-3 rounded-lg font-medium bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:hover:bg-gray-800 transition-colors flex items-center justify-center gap-2 text-gray-300"
+            >
+              <Eye size={16} />
+              Watch as Spectator
+            </button>
+
             <div className="text-center text-sm text-gray-400">
-              <p>First to join becomes the host</p>
+              <p>
+                {lobbyJoinMode === 'knock'
+                  ? 'The host lets each player in'
+                  : 'First to join becomes the host'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Knock lobby - wait at the door until the console or the host lets us in
+  if (isPending) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-6">
+        <div className="flex flex-col items-center justify-center min-h-[80vh]">
+          <div className="w-20 h-20 bg-indigo-500/20 rounded-full flex items-center justify-center mb-8">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-400"></div>
+          </div>
+
+          <h1 className="text-3xl font-bold mb-4">Knocking...</h1>
+          <p className="text-gray-300 mb-8 text-center max-w-sm">
+            Waiting for the host to let {playerName} into lobby {lobbyCode}.
+          </p>
+
+          <div className="w-full max-w-sm space-y-3">
+            <button
+              onClick={stopWaiting}
+              className="w-full py-3 rounded-lg font-medium bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              Stop Waiting
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const seatedPlayers = players.filter(player => !player.isSpectator && !player.isPending);
+  const spectators = players.filter(player => player.isSpectator && !player.isPending);
+  const knockingPlayers = players.filter(player => player.isPending);
+
+  // Spectator - follow the session without a controller
+  if (isSpectator) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-4 flex flex-col">
+        <div className="flex items-center justify-between mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="p-2 hover:bg-gray-800 rounded-full transition-colors"
+          >
+            <ArrowLeft size={24} />
+          </button>
+
+          <div className="text-center">
+            <div className="flex items-center gap-2 justify-center">
+              <span className="text-lg font-semibold">{playerName}</span>
+              <Eye size={16} className="text-gray-400" />
             </div>
+            <div className="text-sm text-gray-400">Spectator</div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse"></div>
+            <span className="text-sm text-green-400">Watching</span>
+          </div>
+        </div>
+
+        <div className="flex-1 flex flex-col items-center justify-center text-center">
+          <Eye size={64} className="text-gray-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold mb-2">
+            {watchedEditorName
+              ? `Playing ${watchedEditorName}`
+              : isLobbyLocked ? 'Choosing an editor' : 'Waiting in the lobby'}
+          </h2>
+          <p className="text-gray-400 mb-6">You're watching lobby {lobbyCode} on the console</p>
+
+          <div className="w-full max-w-sm bg-gray-800/60 rounded-lg p-4 text-left">
+            <div className="flex items-center gap-2 mb-3 text-sm text-gray-300">
+              <Users size={14} />
+              <span>Players</span>
+            </div>
+            <div className="space-y-2">
+              {seatedPlayers.map(player => (
+                <div key={player.id} className="flex items-center gap-2 text-sm">
+                  {player.isHost && <Crown size={12} className="text-yellow-400" />}
+                  {player.name}
+                </div>
+              ))}
+              {seatedPlayers.length === 0 && (
+                <div className="text-sm text-gray-500">No players yet</div>
+              )}
+            </div>
+          </div>
+
+          {watchedEditorName && seatedPlayers.length > 0 && (
+            <div className="w-full max-w-sm mt-4">
+              <SketchView ref={sketchViewRef} players={seatedPlayers} />
+            </div>
+          )}
+
+          {consoleLinked && <div className="w-full max-w-sm mt-4">{chatPanel}</div>}
+
+          <div className="mt-6 bg-gray-500/10 border border-gray-500/20 rounded-lg p-3 text-sm text-gray-300">
+            The host can make you a player when a seat is free
           </div>
         </div>
       </div>
     );
   }
 
+  // Host-only: kick and ban buttons shared by the player and spectator lists
+  const removeButtons = (player: Player) => (
+    <>
+      <button
+        onClick={() => moderate(player, 'kick')}
+        className="text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+      >
+        Kick
+      </button>
+      <button
+        onClick={() => moderate(player, 'ban')}
+        className="text-xs px-2 py-1 rounded bg-red-500/30 hover:bg-red-500/50 text-red-200 transition-colors"
+      >
+        Ban
+      </button>
+    </>
+  );
+
+  // Host-only: hand over the host role and moderate the other players
+  const playerControls = isHost && seatedPlayers.length > 1 && (
+    <div className="mt-4">
+      <div className="flex items-center gap-2 mb-2 text-sm text-gray-300">
+        <Users size={14} />
+        <span>Players</span>
+      </div>
+      <div className="space-y-2">
+        {seatedPlayers.map(player => (
+          <div key={player.id} className="flex items-center justify-between bg-gray-800/60 rounded-lg px-3 py-2 text-sm">
+            <span className="flex items-center gap-2">
+              {player.isHost && <Crown size={12} className="text-yellow-400" />}
+              {player.name}{player.id === myPlayerId && ' (you)'}
+              {player.isMuted && <VolumeX size={12} className="text-gray-400" />}
+            </span>
+            {!player.isHost && (
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => transferHost(player)}
+                  className="text-xs px-2 py-1 rounded bg-purple-500/30 hover:bg-purple-500/50 text-purple-200 transition-colors"
+                >
+                  Make Host
+                </button>
+                <button
+                  onClick={() => moderate(player, player.isMuted ? 'unmute' : 'mute')}
+                  className="text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+                >
+                  {player.isMuted ? 'Unmute' : 'Mute'}
+                </button>
+                {removeButtons(player)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  // Host-only: spectators waiting for a seat
+  const spectatorControls = isHost && spectators.length > 0 && (
+    <div className="mt-4">
+      <div className="flex items-center gap-2 mb-2 text-sm text-gray-300">
+        <Eye size={14} />
+        <span>Spectators</span>
+      </div>
+      <div className="space-y-2">
+        {spectators.map(player => (
+          <div key={player.id} className="flex items-center justify-between bg-gray-800/60 rounded-lg px-3 py-2 text-sm">
+            <span>{player.name}</span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => promoteSpectator(player)}
+                className="text-xs px-2 py-1 rounded bg-indigo-500/30 hover:bg-indigo-500/50 text-indigo-200 transition-colors"
+              >
+                Make Player
+              </button>
+              {removeButtons(player)}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  // Host-only: phones knocking on a knock lobby
+  const knockControls = isHost && knockingPlayers.length > 0 && (
+    <div className="mt-4">
+      <div className="flex items-center gap-2 mb-2 text-sm text-gray-300">
+        <Lock size={14} />
+        <span>Knocking</span>
+      </div>
+      <div className="space-y-2">
+        {knockingPlayers.map(player => (
+          <div key={player.id} className="flex items-center justify-between bg-gray-800/60 rounded-lg px-3 py-2 text-sm">
+            <span>{player.name}{player.isSpectator && ' (spectator)'}</span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => reviewKnock(player, true)}
+                className="text-xs px-2 py-1 rounded bg-green-500/30 hover:bg-green-500/50 text-green-200 transition-colors"
+              >
+                Let In
+              </button>
+              <button
+                onClick={() => reviewKnock(player, false)}
+                className="text-xs px-2 py-1 rounded bg-red-500/30 hover:bg-red-500/50 text-red-200 transition-colors"
+              >
+                Deny
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gray-900 text-white p-4 flex flex-col">
       {/* Header */}
@@ -574,14 +1278,36 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
               gameStatus === 'editor_selection' ? 'Select Editor' : 'Waiting'
             }
           </div>
+          {isMuted && (
+            <div className="text-xs text-gray-400 flex items-center justify-center gap-1 mt-1">
+              <VolumeX size={12} />
+              Muted by the host
+            </div>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
           <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse"></div>
           <span className="text-sm text-green-400">Connected</span>
+          {webrtc.status.transports[consoleDeviceId] === 'realtime' && (
+            <span className="text-xs text-yellow-400">via relay</span>
+          )}
+          {webrtc.status.connectedDevices[0] && (
+            <LatencyBadge latency={webrtc.status.latency[webrtc.status.connectedDevices[0]]} />
+          )}
         </div>
       </div>
 
+      {notice && (
+        <div className="mb-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 text-sm text-yellow-300 flex items-center gap-2">
+          <Crown size={14} className="text-yellow-400" />
+          <span className="flex-1">{notice}</span>
+          <button onClick={() => setNotice(null)} className="text-yellow-200/70 hover:text-yellow-200">
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Host Controls - Only show in waiting state */}
       {isHost && gameStatus === 'waiting' && (
         <div className="mb-6 bg-purple-900/30 rounded-lg p-4 border border-purple-500/20">
@@ -599,6 +1325,16 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
           <p className="text-xs text-gray-400 mt-2 text-center">
             Lock the lobby when all have joined
           </p>
+          {knockControls}
+          {playerControls}
+          {spectatorControls}
+          <button
+            onClick={endSession}
+            className="w-full mt-3 py-2 rounded-lg text-sm transition-colors flex items-center justify-center gap-2 bg-gray-800 hover:bg-red-500/30 text-gray-300"
+          >
+            <Power size={14} />
+            End Session
+          </button>
         </div>
       )}
 
@@ -620,6 +1356,19 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
                 Unlock Lobby
               </button>
             )}
+            {isHost && (
+              <button
+                onClick={endSession}
+                className="w-full py-2 bg-gray-800 hover:bg-red-500/30 rounded-lg text-gray-300 text-sm transition-colors mb-4 flex items-center justify-center gap-2"
+              >
+                <Power size={14} />
+                End Session
+              </button>
+            )}
+            {knockControls && <div className="mb-4">{knockControls}</div>}
+            {playerControls && <div className="mb-4">{playerControls}</div>}
+            {spectatorControls && <div className="mb-4">{spectatorControls}</div>}
+            {chatPanel}
           </div>
 
           {/* Carousel Section - Takes remaining height */}
@@ -709,6 +1458,32 @@ const PhoneController: React.FC<PhoneControllerProps> = ({ lobbyCode }) => {
               </div>
             </div>
           </div>
+
+          {/* Console Navigation - moves the shared highlight on the console */}
+          <div className="flex-shrink-0 mt-4 flex items-center justify-center gap-4">
+            <button
+              onClick={() => sendSelectionInput('dpad', 'left')}
+              disabled={!consoleDeviceId}
+              className="w-14 h-14 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-full flex items-center justify-center transition-colors"
+            >
+              <ChevronLeft size={24} />
+            </button>
+            <button
+              onClick={() => sendSelectionInput('button', 'confirm')}
+              disabled={!consoleDeviceId}
+              className="h-14 px-6 bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50 rounded-full flex items-center justify-center gap-2 font-medium transition-colors"
+            >
+              <Check size={20} />
+              Select
+            </button>
+            <button
+              onClick={() => sendSelectionInput('dpad', 'right')}
+              disabled={!consoleDeviceId}
+              className="w-14 h-14 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-full flex items-center justify-center transition-colors"
+            >
+              <ChevronRight size={24} />
+            </button>
+          </div>
         </div>
       )}
 
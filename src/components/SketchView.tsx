@@ -0,0 +1,88 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import type { SketchPayload } from '../lib/protocol';
+import { getSketchSegments } from '../lib/sketches';
+
+const BACKGROUND = '#1F2937';
+
+interface SketchViewProps {
+  players: Array<{ id: string; name: string }>;
+}
+
+// Sketches arrive at stream rate, so they're drawn straight onto the canvases rather than kept in state
+export interface SketchViewHandle {
+  draw: (sketch: SketchPayload) => void;
+}
+
+const clearCanvas = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+};
+
+// One canvas per player, showing what they draw on their phone
+const SketchView = forwardRef<SketchViewHandle, SketchViewProps>(({ players }, ref) => {
+  const canvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+
+  useImperativeHandle(ref, () => ({
+    draw: ({ playerId, input }) => {
+      const canvas = canvasesRef.current.get(playerId);
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      if (input.action === 'clear') {
+        clearCanvas(canvas);
+        return;
+      }
+      if (input.action !== 'draw_move') return;
+
+      // Scale from the phone's canvas to ours
+      const { color, lineWidth, canvasWidth, canvasHeight } = input.data;
+      const scaleX = typeof canvasWidth === 'number' && canvasWidth > 0 ? canvas.width / canvasWidth : 1;
+      const scaleY = typeof canvasHeight === 'number' && canvasHeight > 0 ? canvas.height / canvasHeight : 1;
+
+      ctx.strokeStyle = typeof color === 'string' ? color : '#FFFFFF';
+      ctx.lineWidth = (typeof lineWidth === 'number' ? lineWidth : 3) * Math.min(scaleX, scaleY);
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      for (const { from, to } of getSketchSegments(input.data)) {
+        ctx.moveTo(from.x * scaleX, from.y * scaleY);
+        ctx.lineTo(to.x * scaleX, to.y * scaleY);
+      }
+      ctx.stroke();
+    }
+  }), []);
+
+  // Size new canvases to their layout and start them blank
+  const playerIds = players.map(player => player.id).join(',');
+  useEffect(() => {
+    canvasesRef.current.forEach(canvas => {
+      if (canvas.width === canvas.offsetWidth && canvas.height === canvas.offsetHeight) return;
+      canvas.width = canvas.offsetWidth;
+      canvas.height = canvas.offsetHeight;
+      clearCanvas(canvas);
+    });
+  }, [playerIds]);
+
+  return (
+    <div className="grid grid-cols-2 gap-2 w-full">
+      {players.map(player => (
+        <div key={player.id} className="bg-gray-800/60 rounded-lg p-2">
+          <div className="text-xs text-gray-400 mb-1 truncate">{player.name}</div>
+          <canvas
+            ref={canvas => {
+              if (canvas) canvasesRef.current.set(player.id, canvas);
+              else canvasesRef.current.delete(player.id);
+            }}
+            className="w-full aspect-[4/3] rounded"
+          />
+        </div>
+      ))}
+    </div>
+  );
+});
+
+SketchView.displayName = 'SketchView';
+
+export default SketchView;
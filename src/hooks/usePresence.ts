@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRepositories } from './useRepositories';
+import {
+  HEARTBEAT_INTERVAL,
+  getPresenceStatus,
+  type PresenceHandle,
+  type PresenceMembers,
+  type PresenceStatus
+} from '../lib/presence';
+import type { Device } from '../lib/supabase';
+
+// How often statuses are re-evaluated without a presence event
+const STATUS_TICK = 5000;
+
+interface UsePresenceProps {
+  sessionId: string;
+  deviceId: string;
+  name: string;
+  deviceType: Device['device_type'];
+  enabled?: boolean;
+}
+
+interface UsePresenceReturn {
+  members: PresenceMembers;
+  getStatus: (deviceId: string) => PresenceStatus;
+  // When a device was last seen present, null while it is present or was never seen
+  absentSince: (deviceId: string) => number | null;
+}
+
+// Announces this device in the session and tracks everyone else's presence
+export const usePresence = ({
+  sessionId,
+  deviceId,
+  name,
+  deviceType,
+  enabled = true
+}: UsePresenceProps): UsePresenceReturn => {
+  const repositories = useRepositories();
+  const [members, setMembers] = useState<PresenceMembers>({});
+  const [now, setNow] = useState(() => Date.now());
+  const handleRef = useRef<PresenceHandle | null>(null);
+  // Local receive times of each device's latest heartbeat, and when devices went missing
+  const heardAtRef = useRef<Map<string, { heartbeatAt: number; receivedAt: number }>>(new Map());
+  const leftAtRef = useRef<Map<string, number>>(new Map());
+
+  // Join the session's presence channel and heartbeat
+  useEffect(() => {
+    if (!sessionId || !deviceId || !enabled) return;
+
+    console.log('👋 [Presence] Joining session presence:', sessionId.slice(-8));
+    const heardAt = heardAtRef.current;
+    const leftAt = leftAtRef.current;
+
+    const handle = repositories.presence.join(
+      sessionId,
+      {
+        device_id: deviceId,
+        name,
+        device_type: deviceType,
+        state: document.visibilityState === 'hidden' ? 'idle' : 'active',
+        heartbeat_at: Date.now()
+      },
+      (nextMembers) => {
+        const receivedAt = Date.now();
+
+        Object.values(nextMembers).forEach(meta => {
+          const previous = heardAt.get(meta.device_id);
+          if (!previous || previous.heartbeatAt !== meta.heartbeat_at) {
+            heardAt.set(meta.device_id, { heartbeatAt: meta.heartbeat_at, receivedAt });
+          }
+          leftAt.delete(meta.device_id);
+        });
+
+        // Anyone known but no longer present has just left
+        heardAt.forEach((_, id) => {
+          if (!nextMembers[id] && !leftAt.has(id)) {
+            console.log('👋 [Presence] Device left:', id.slice(-8));
+            leftAt.set(id, receivedAt);
+          }
+        });
+
+        setMembers(nextMembers);
+        setNow(receivedAt);
+      },
+      (status) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.warn('⚠️ [Presence] Channel status:', status);
+        }
+      }
+    );
+    handleRef.current = handle;
+
+    const heartbeat = setInterval(() => {
+      handle.update({ heartbeat_at: Date.now() });
+    }, HEARTBEAT_INTERVAL);
+
+    return () => {
+      clearInterval(heartbeat);
+      handle.leave();
+      handleRef.current = null;
+      heardAt.clear();
+      leftAt.clear();
+      setMembers({});
+    };
+  }, [sessionId, deviceId, name, deviceType, enabled, repositories]);
+
+  // Report idle while the page is hidden
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleVisibilityChange = () => {
+      const state = document.visibilityState === 'hidden' ? 'idle' : 'active';
+      handleRef.current?.update({ state, heartbeat_at: Date.now() });
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [enabled]);
+
+  // Re-evaluate statuses as heartbeats age
+  useEffect(() => {
+    if (!enabled) return;
+
+    const interval = setInterval(() => setNow(Date.now()), STATUS_TICK);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  const getStatus = useCallback((id: string) => {
+    return getPresenceStatus(members[id], heardAtRef.current.get(id)?.receivedAt, now);
+  }, [members, now]);
+
+  const absentSince = useCallback((id: string) => {
+    if (members[id]) return null;
+    return leftAtRef.current.get(id) ?? null;
+  }, [members]);
+
+  return { members, getStatus, absentSince };
+};
@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { RepositoryContext } from '../lib/repositoryContext';
+import type { Repositories } from '../lib/repositories';
+
+export const useRepositories = (): Repositories => {
+  const repositories = useContext(RepositoryContext);
+  if (!repositories) {
+    throw new Error('useRepositories must be used inside a RepositoryContext.Provider');
+  }
+  return repositories;
+};
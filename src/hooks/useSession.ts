@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { supabase } from '../lib/supabase';
+import { useRepositories } from './useRepositories';
 import { generateLobbyCode, generateQRCode } from '../lib/utils';
 
 interface Player {
@@ -27,6 +27,7 @@ interface UseSessionReturn {
 }
 
 export const useSession = (): UseSessionReturn => {
+  const repositories = useRepositories();
   const [sessionId, setSessionId] = useState<string>('');
   const [consoleDeviceId, setConsoleDeviceId] = useState<string>('');
   const [lobbyCode, setLobbyCode] = useState<string>('');
@@ -41,23 +42,14 @@ export const useSession = (): UseSessionReturn => {
     if (!sessionId) return;
 
     try {
-      const { data: devices, error } = await supabase
-        .from('devices')
-        .select('*')
-        .eq('session_id', sessionId)
-        .order('connected_at', { ascending: true });
-
-      if (error) {
-        console.error('Error loading devices:', error);
-        return;
-      }
+      const devices = await repositories.devices.listBySession(sessionId);
 
       const mappedPlayers: Player[] = devices.map((device) => ({
         id: device.id,
         name: device.name,
-        deviceType: device.name === 'Console' ? 'console' : 'phone',
-        isHost: device.is_leader || false,
-        joinedAt: new Date(device.connected_at || '').getTime(),
+        deviceType: device.device_type || (device.name === 'Console' ? 'console' : 'phone'),
+        isHost: device.is_host || false,
+        joinedAt: device.joined_at,
         status: 'connected'
       }));
 
@@ -66,20 +58,15 @@ export const useSession = (): UseSessionReturn => {
       console.error('Error loading devices:', error);
       setError('Failed to load players');
     }
-  }, [sessionId]);
+  }, [sessionId, repositories]);
 
   const loadSessionStatus = useCallback(async () => {
     if (!sessionId) return;
 
     try {
-      const { data: session, error } = await supabase
-        .from('sessions')
-        .select('is_locked, selected_editor')
-        .eq('id', sessionId)
-        .single();
-
-      if (error) {
-        console.error('Error loading session status:', error);
+      const session = await repositories.sessions.get(sessionId);
+      if (!session) {
+        console.error('Error loading session status');
         return;
       }
 
@@ -88,7 +75,7 @@ export const useSession = (): UseSessionReturn => {
       console.error('Error loading session status:', error);
       setError('Failed to load session status');
     }
-  }, [sessionId]);
+  }, [sessionId, repositories]);
 
   const createSession = useCallback(async () => {
     try {
@@ -100,34 +87,15 @@ export const useSession = (): UseSessionReturn => {
       const connectionUrl = `${baseUrl}/controller?lobby=${code}`;
       
       // Create session
-      const { data: session, error: sessionError } = await supabase
-        .from('sessions')
-        .insert({
-          code,
-          is_active: true,
-          is_locked: false,
-          selected_editor: null
-        })
-        .select()
-        .single();
-
-      if (sessionError) {
-        throw new Error(`Failed to create session: ${sessionError.message}`);
+      const session = await repositories.sessions.create(code);
+      if (!session) {
+        throw new Error('Failed to create session');
       }
 
       // Create console device
-      const { data: consoleDevice, error: deviceError } = await supabase
-        .from('devices')
-        .insert({
-          session_id: session.id,
-          name: 'Console',
-          is_leader: true
-        })
-        .select()
-        .single();
-
-      if (deviceError) {
-        throw new Error(`Failed to create console device: ${deviceError.message}`);
+      const consoleDevice = await repositories.devices.create(session.id, 'Console', 'console', true);
+      if (!consoleDevice) {
+        throw new Error('Failed to create console device');
       }
 
       // Generate QR code
@@ -151,19 +119,15 @@ export const useSession = (): UseSessionReturn => {
     } finally {
       setIsCreatingSession(false);
     }
-  }, []);
+  }, [repositories]);
 
   const lockLobby = useCallback(async () => {
     if (!sessionId) return;
 
     try {
-      const { error } = await supabase
-        .from('sessions')
-        .update({ is_locked: true })
-        .eq('id', sessionId);
-
-      if (error) {
-        throw new Error(`Failed to lock lobby: ${error.message}`);
+      const locked = await repositories.sessions.lock(sessionId);
+      if (!locked) {
+        throw new Error('Failed to lock lobby');
       }
 
       setIsLobbyLocked(true);
@@ -171,19 +135,15 @@ export const useSession = (): UseSessionReturn => {
       console.error('Error locking lobby:', error);
       setError(error instanceof Error ? error.message : 'Failed to lock lobby');
     }
-  }, [sessionId]);
+  }, [sessionId, repositories]);
 
   const unlockLobby = useCallback(async () => {
     if (!sessionId) return;
 
     try {
-      const { error } = await supabase
-        .from('sessions')
-        .update({ is_locked: false })
-        .eq('id', sessionId);
-
-      if (error) {
-        throw new Error(`Failed to unlock lobby: ${error.message}`);
+      const unlocked = await repositories.sessions.update(sessionId, { is_locked: false });
+      if (!unlocked) {
+        throw new Error('Failed to unlock lobby');
       }
 
       setIsLobbyLocked(false);
@@ -191,7 +151,7 @@ export const useSession = (): UseSessionReturn => {
       console.error('Error unlocking lobby:', error);
       setError(error instanceof Error ? error.message : 'Failed to unlock lobby');
     }
-  }, [sessionId]);
+  }, [sessionId, repositories]);
 
   // Load data when session changes
   useEffect(() => {
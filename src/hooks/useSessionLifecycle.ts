@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useRepositories } from './useRepositories';
+import type { Session, SessionEndReason } from '../lib/supabase';
+
+// How often a device refreshes devices.last_seen; sessions expire after 30 idle minutes
+const TOUCH_INTERVAL = 60000;
+
+export interface SessionEnd {
+  reason: SessionEndReason;
+  endedAt: string | null;
+}
+
+interface UseSessionLifecycleProps {
+  sessionId: string;
+  deviceId: string;
+  enabled?: boolean;
+}
+
+interface UseSessionLifecycleReturn {
+  // Set once the session is no longer active, however that happened
+  ended: SessionEnd | null;
+  endSession: () => Promise<boolean>;
+}
+
+const toSessionEnd = (session: Pick<Session, 'end_reason' | 'ended_at'>): SessionEnd => ({
+  // Rows ended before end_reason existed were ended by someone
+  reason: session.end_reason || 'ended_by_host',
+  endedAt: session.ended_at || null
+});
+
+// Text for the "session ended" screens
+export const describeSessionEnd = (end: SessionEnd): { title: string; message: string } => {
+  if (end.reason === 'expired') {
+    return {
+      title: 'Session Expired',
+      message: 'This session ended after a long period without activity.'
+    };
+  }
+  return {
+    title: 'Session Ended',
+    message: 'The host ended this session.'
+  };
+};
+
+// Keeps this device marked as active and reports when the session ends
+export const useSessionLifecycle = ({
+  sessionId,
+  deviceId,
+  enabled = true
+}: UseSessionLifecycleProps): UseSessionLifecycleReturn => {
+  const repositories = useRepositories();
+  const [ended, setEnded] = useState<SessionEnd | null>(null);
+
+  // Watch the session row for deactivation
+  useEffect(() => {
+    setEnded(null);
+    if (!sessionId || !enabled) return;
+
+    let cancelled = false;
+
+    // The session may have ended before we subscribed
+    repositories.sessions.get(sessionId).then(session => {
+      if (!cancelled && session && !session.is_active) {
+        console.log('🏁 [Lifecycle] Session already ended:', session.end_reason);
+        setEnded(toSessionEnd(session));
+      }
+    });
+
+    const unsubscribe = repositories.sessions.subscribe(sessionId, (change) => {
+      if (change.new && !change.new.is_active) {
+        console.log('🏁 [Lifecycle] Session ended:', change.new.end_reason);
+        setEnded(toSessionEnd(change.new));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [sessionId, enabled, repositories]);
+
+  // Refresh last_seen while the session is running
+  useEffect(() => {
+    if (!deviceId || !enabled || ended) return;
+
+    repositories.devices.touch(deviceId);
+    const interval = setInterval(() => {
+      repositories.devices.touch(deviceId);
+    }, TOUCH_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [deviceId, enabled, ended, repositories]);
+
+  const endSession = useCallback(async () => {
+    if (!sessionId) return false;
+
+    console.log('🏁 [Lifecycle] Ending session');
+    const success = await repositories.sessions.end(sessionId, 'ended_by_host');
+    if (!success) {
+      console.error('❌ [Lifecycle] Failed to end session');
+      return false;
+    }
+
+    setEnded({ reason: 'ended_by_host', endedAt: new Date().toISOString() });
+    return true;
+  }, [sessionId, repositories]);
+
+  return { ended, endSession };
+};
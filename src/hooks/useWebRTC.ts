@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { WebRTCManager, WebRTCMessage } from '../lib/webrtc';
-import { supabase } from '../lib/supabase';
+import { WebRTCManager, WebRTCMessage, OutgoingWebRTCMessage, PeerLatency, TransportKind, CandidatePairInfo } from '../lib/webrtc';
+import { ProtocolError } from '../lib/protocol';
+import { useRepositories } from './useRepositories';
 
 interface UseWebRTCProps {
   sessionId: string;
@@ -10,11 +11,15 @@ interface UseWebRTCProps {
   enabled?: boolean;
 }
 
-interface WebRTCStatus {
+export interface WebRTCStatus {
   isInitialized: boolean;
   connections: Record<string, RTCPeerConnectionState>;
   dataChannels: Record<string, RTCDataChannelState | 'none'>;
   connectedDevices: string[];
+  latency: Record<string, PeerLatency>;
+  transports: Record<string, TransportKind>;
+  candidatePairs: Record<string, CandidatePairInfo>;
+  lastTransportChange?: { deviceId: string; transport: TransportKind; at: number };
   lastError?: string;
   totalConnections: number;
   readyConnections: number;
@@ -27,12 +32,16 @@ export const useWebRTC = ({
   onMessage, 
   enabled = true 
 }: UseWebRTCProps) => {
+  const repositories = useRepositories();
   const webrtcManager = useRef<WebRTCManager | null>(null);
   const [status, setStatus] = useState<WebRTCStatus>({
     isInitialized: false,
     connections: {},
     dataChannels: {},
     connectedDevices: [],
+    latency: {},
+    transports: {},
+    candidatePairs: {},
     totalConnections: 0,
     readyConnections: 0
   });
@@ -44,12 +53,18 @@ export const useWebRTC = ({
     const connections = webrtcManager.current.getConnectionStatus();
     const dataChannels = webrtcManager.current.getDataChannelStatus();
     const connectedDevices = webrtcManager.current.getConnectedDevices();
+    const latency = webrtcManager.current.getLatencyStats();
+    const transports = webrtcManager.current.getTransportStatus();
+    const candidatePairs = webrtcManager.current.getCandidatePairStatus();
     
     setStatus(prev => ({
       ...prev,
       connections,
       dataChannels,
       connectedDevices,
+      latency,
+      transports,
+      candidatePairs,
       totalConnections: Object.keys(connections).length,
       readyConnections: connectedDevices.length
     }));
@@ -61,6 +76,39 @@ export const useWebRTC = ({
     updateStatus();
   }, [updateStatus]);
 
+  // Latency stats arrive with each pong (every couple of seconds per peer)
+  const latencyUpdateHandler = useCallback((deviceId: string, latency: PeerLatency) => {
+    setStatus(prev => ({
+      ...prev,
+      latency: { ...prev.latency, [deviceId]: latency }
+    }));
+  }, []);
+
+  // Report switches between the data channel and the Realtime fallback
+  const transportChangeHandler = useCallback((deviceId: string, transport: TransportKind) => {
+    setStatus(prev => ({
+      ...prev,
+      transports: { ...prev.transports, [deviceId]: transport },
+      lastTransportChange: { deviceId, transport, at: Date.now() }
+    }));
+  }, []);
+
+  // Surface relayed messages that never made it out
+  const relayFailureHandler = useCallback((toDeviceId: string, reason: string) => {
+    setStatus(prev => ({
+      ...prev,
+      lastError: `Relay to ${toDeviceId.slice(-8)} failed: ${reason}`
+    }));
+  }, []);
+
+  // Surface rejected incoming messages
+  const protocolErrorHandler = useCallback((error: ProtocolError, fromDeviceId: string) => {
+    setStatus(prev => ({ 
+      ...prev, 
+      lastError: `Protocol error from ${fromDeviceId.slice(-8)}: ${error.code} - ${error.message}` 
+    }));
+  }, []);
+
   // Initialize WebRTC manager
   useEffect(() => {
     if (!enabled || !sessionId || !deviceId) {
@@ -85,8 +133,13 @@ export const useWebRTC = ({
         sessionId,
         deviceId,
         isHost,
+        { sessions: repositories.sessions, signals: repositories.signals, relay: repositories.relay },
         onMessage,
-        connectionStateChangeHandler
+        connectionStateChangeHandler,
+        protocolErrorHandler,
+        latencyUpdateHandler,
+        transportChangeHandler,
+        relayFailureHandler
       );
 
       setStatus(prev => ({ 
@@ -118,11 +171,14 @@ export const useWebRTC = ({
         connections: {},
         dataChannels: {},
         connectedDevices: [],
+        latency: {},
+        transports: {},
+        candidatePairs: {},
         totalConnections: 0,
         readyConnections: 0
       });
     };
-  }, [sessionId, deviceId, isHost, enabled]); // Removed onMessage to prevent recreation
+  }, [sessionId, deviceId, isHost, enabled, repositories]); // Removed onMessage to prevent recreation
 
   // Set up signaling listener - separate effect to avoid recreation
   useEffect(() => {
@@ -132,52 +188,42 @@ export const useWebRTC = ({
 
     console.log(`📡 Setting up WebRTC signaling for device ${deviceId}`);
 
-    const signalChannel = supabase
-      .channel(`webrtc_signals_${sessionId}_${deviceId}`, {
-        config: {
-          broadcast: { self: false },
-          presence: { key: deviceId }
-        }
-      })
-      .on('postgres_changes', 
-        { 
-          event: 'INSERT', 
-          schema: 'public', 
-          table: 'webrtc_signals',
-          filter: `receiver_device_id=eq.${deviceId}`
-        }, 
-        async (payload) => {
-          console.log('📡 Received WebRTC signal:', payload);
-          try {
-            if (webrtcManager.current) {
-              await webrtcManager.current.handleSignal(payload.new);
-              updateStatus();
-            }
-          } catch (error) {
-            console.error('❌ Error handling WebRTC signal:', error);
-            setStatus(prev => ({ 
-              ...prev, 
-              lastError: `Signal handling error: ${error.message}` 
-            }));
+    const signaling = webrtcManager.current.getSignalingBackend();
+    const unsubscribe = signaling.subscribe(
+      async (signal) => {
+        console.log(`📡 Received WebRTC ${signal.type} signal via ${signaling.kind}`);
+        try {
+          if (webrtcManager.current) {
+            await webrtcManager.current.handleSignal(signal);
+            updateStatus();
           }
+        } catch (error) {
+          console.error('❌ Error handling WebRTC signal:', error);
+          setStatus(prev => ({ 
+            ...prev, 
+            lastError: `Signal handling error: ${error.message}` 
+          }));
         }
-      )
-      .subscribe((status) => {
+      },
+      (status) => {
         console.log('📡 WebRTC signaling subscription status:', status);
         if (status === 'SUBSCRIBED') {
           console.log('✅ WebRTC signaling channel ready');
         } else if (status === 'CHANNEL_ERROR') {
-          console.error('❌ WebRTC signaling channel error - check RLS policies');
+          console.error(`❌ WebRTC signaling channel error (${signaling.kind} backend)`);
           setStatus(prev => ({ 
             ...prev, 
-            lastError: 'Signaling channel error - check database permissions' 
+            lastError: signaling.kind === 'table'
+              ? 'Signaling channel error - check database permissions'
+              : 'Signaling channel error - check Realtime connection'
           }));
         }
-      });
+      }
+    );
 
     return () => {
       console.log('🧹 Cleaning up WebRTC signaling');
-      signalChannel.unsubscribe();
+      unsubscribe();
     };
   }, [sessionId, deviceId, updateStatus]);
 
@@ -204,7 +250,7 @@ export const useWebRTC = ({
   }, [updateStatus]);
 
   // Send message to specific device
-  const sendMessage = useCallback((targetDeviceId: string, message: Omit<WebRTCMessage, 'timestamp' | 'senderId'>) => {
+  const sendMessage = useCallback((targetDeviceId: string, message: OutgoingWebRTCMessage) => {
     if (!webrtcManager.current) {
       console.error('❌ WebRTC manager not initialized');
       return false;
@@ -217,11 +263,20 @@ export const useWebRTC = ({
     return result;
   }, [updateStatus]);
 
+  // Send binary stream frame to specific device (no status refresh - called at frame rate)
+  const sendBinary = useCallback((targetDeviceId: string, buffer: ArrayBuffer) => {
+    if (!webrtcManager.current) {
+      return false;
+    }
+
+    return webrtcManager.current.sendBinary(targetDeviceId, buffer);
+  }, []);
+
   // Broadcast message to all connected devices
-  const broadcastMessage = useCallback((message: Omit<WebRTCMessage, 'timestamp' | 'senderId'>) => {
+  const broadcastMessage = useCallback((message: OutgoingWebRTCMessage) => {
     if (!webrtcManager.current) {
       console.error('❌ WebRTC manager not initialized');
-      return { webrtc: 0, fallback: [] };
+      return { webrtc: 0, realtime: 0, failed: [] };
     }
 
     const result = webrtcManager.current.broadcastMessage(message);
@@ -229,6 +284,24 @@ export const useWebRTC = ({
     return result;
   }, [updateStatus]);
 
+  // Close the connection to a device that was removed from the session
+  const disconnectDevice = useCallback((targetDeviceId: string) => {
+    if (!webrtcManager.current) return;
+
+    webrtcManager.current.disconnectPeer(targetDeviceId);
+    updateStatus();
+  }, [updateStatus]);
+
+  // Devices whose relayed messages are accepted (see WebRTCManager.setRelaySenders)
+  const setRelaySenders = useCallback((deviceIds: string[]) => {
+    webrtcManager.current?.setRelaySenders(deviceIds);
+  }, []);
+
+  // Devices whose signals are heard (see WebRTCManager.setSignalingPeers)
+  const setSignalingPeers = useCallback((deviceIds: string[]) => {
+    webrtcManager.current?.setSignalingPeers(deviceIds);
+  }, []);
+
   // Get detailed status for debugging
   const getDetailedStatus = useCallback(() => {
     if (!webrtcManager.current) return {};
@@ -246,7 +319,11 @@ export const useWebRTC = ({
   return {
     status,
     connectToDevice,
+    disconnectDevice,
+    setRelaySenders,
+    setSignalingPeers,
     sendMessage,
+    sendBinary,
     broadcastMessage,
     updateStatus,
     getDetailedStatus
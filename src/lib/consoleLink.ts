@@ -0,0 +1,28 @@
+/*
+  When a phone talks to the console
+
+  Players and spectators open WebRTC (with its Realtime relay) to the console once the
+  lobby is locked and while they're let in and the session runs. The lock comes from the
+  session row the phone is subscribed to, not from when it loaded the lobby, so phones
+  that joined before the lock connect as soon as the host locks it.
+*/
+
+export type PhoneGameStatus = 'waiting' | 'editor_selection' | 'in_editor';
+
+export interface ConsoleLinkState {
+  sessionId: string;
+  deviceId: string;
+  isLobbyLocked: boolean;
+  sessionEnded: boolean;
+  isPending: boolean;
+}
+
+export const shouldLinkToConsole = ({ sessionId, deviceId, isLobbyLocked, sessionEnded, isPending }: ConsoleLinkState): boolean =>
+  sessionId !== '' && deviceId !== '' && isLobbyLocked && !sessionEnded && !isPending;
+
+// Screen after the lobby was locked or unlocked; a phone already in the editor stays there
+// until the console says otherwise
+export const followLobbyLock = (status: PhoneGameStatus, isLocked: boolean): PhoneGameStatus => {
+  if (!isLocked) return 'waiting';
+  return status === 'waiting' ? 'editor_selection' : status;
+};
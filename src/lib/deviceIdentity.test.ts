@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearDeviceIdentity, loadDeviceIdentity, saveDeviceIdentity, type DeviceIdentity } from './deviceIdentity';
+import { createMemoryRepositories } from './memoryRepositories';
+
+// Resume identities in localStorage, and resuming the device they name
+
+const identity: DeviceIdentity = { sessionId: 'session-1', deviceId: 'phone-1', name: 'Ada', token: 'v1.phone-1.signature' };
+
+let stored: Map<string, string>;
+
+const storage = (overrides: Partial<Storage> = {}) => ({
+  getItem: (key: string) => stored.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    stored.set(key, value);
+  },
+  removeItem: (key: string) => {
+    stored.delete(key);
+  },
+  ...overrides
+});
+
+beforeEach(() => {
+  stored = new Map();
+  vi.stubGlobal('window', { localStorage: storage() });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('device identity storage', () => {
+  it('keeps one identity per lobby code, whatever its case', () => {
+    saveDeviceIdentity('abcd', identity);
+
+    expect(loadDeviceIdentity('ABCD')).toEqual(identity);
+    expect(loadDeviceIdentity('WXYZ')).toBeNull();
+
+    clearDeviceIdentity('Abcd');
+    expect(loadDeviceIdentity('ABCD')).toBeNull();
+  });
+
+  it('drops corrupt or incomplete entries', () => {
+    stored.set('vibeconsole:device:ABCD', '{"sessionId":');
+    stored.set('vibeconsole:device:WXYZ', JSON.stringify({ sessionId: 'session-1', deviceId: 'phone-1' }));
+
+    expect(loadDeviceIdentity('ABCD')).toBeNull();
+    expect(loadDeviceIdentity('WXYZ')).toBeNull();
+    expect(stored.size).toBe(0);
+  });
+
+  it('fills in a missing name', () => {
+    stored.set('vibeconsole:device:ABCD', JSON.stringify({ ...identity, name: undefined }));
+
+    expect(loadDeviceIdentity('ABCD')).toEqual({ ...identity, name: '' });
+  });
+
+  it('carries on without storage', () => {
+    const blocked = () => {
+      throw new Error('SecurityError');
+    };
+    vi.stubGlobal('window', { localStorage: storage({ setItem: blocked, removeItem: blocked }) });
+    expect(() => saveDeviceIdentity('ABCD', identity)).not.toThrow();
+    expect(() => clearDeviceIdentity('ABCD')).not.toThrow();
+    expect(loadDeviceIdentity('ABCD')).toBeNull();
+
+    vi.stubGlobal('window', undefined);
+    expect(loadDeviceIdentity('ABCD')).toBeNull();
+  });
+});
+
+describe('memory device resume', () => {
+  it('hands out a token once and resumes the same device with it', async () => {
+    const { sessions, devices } = createMemoryRepositories();
+    const session = await sessions.create('ABCD');
+    const { device } = await devices.join(session!.id, 'Ada', 'phone', true);
+
+    const token = await devices.issueToken(device!.id);
+    expect(token).toEqual(expect.any(String));
+    expect(await devices.issueToken(device!.id)).toBeNull();
+
+    expect(await devices.resume(session!.id, token!)).toMatchObject({ id: device!.id, name: 'Ada', is_host: true });
+    expect(await devices.resume(session!.id, 'v1.forged.token')).toBeNull();
+  });
+
+  it('does not resume into another or an ended session', async () => {
+    const { sessions, devices } = createMemoryRepositories();
+    const session = await sessions.create('ABCD');
+    const other = await sessions.create('WXYZ');
+    const { device } = await devices.join(session!.id, 'Ada', 'phone', true);
+    const token = await devices.issueToken(device!.id);
+
+    expect(await devices.resume(other!.id, token!)).toBeNull();
+
+    await sessions.end(session!.id);
+    expect(await devices.resume(session!.id, token!)).toBeNull();
+  });
+});
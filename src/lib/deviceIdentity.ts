@@ -0,0 +1,67 @@
+/*
+  Resumable device identity
+
+  When a phone joins a lobby it asks for a signed resume token (see
+  20250704090000_steady_anchor.sql) and keeps it in localStorage under the lobby code.
+  After a reload PhoneController hands the token back to reclaim the same devices row,
+  so the player keeps their host flag, WebRTC peer id and input mappings instead of
+  showing up twice.
+
+  Lobby codes are reused once a session ends, so the session id is stored too and an
+  identity for a different session is discarded. An identity whose device was removed
+  is kept until the phone joins again: its token goes along with the join, so a phone
+  the host banned stays out under a new name (see moderation.ts).
+*/
+
+const STORAGE_PREFIX = 'vibeconsole:device:';
+
+export interface DeviceIdentity {
+  sessionId: string;
+  deviceId: string;
+  name: string;
+  token: string;
+}
+
+const storageKey = (lobbyCode: string) => `${STORAGE_PREFIX}${lobbyCode.toUpperCase()}`;
+
+// Storage can be unavailable (private mode, blocked cookies) - identities are a convenience
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadDeviceIdentity = (lobbyCode: string): DeviceIdentity | null => {
+  const raw = getStorage()?.getItem(storageKey(lobbyCode));
+  if (!raw) return null;
+
+  try {
+    const identity = JSON.parse(raw) as Partial<DeviceIdentity>;
+    if (identity.sessionId && identity.deviceId && identity.token) {
+      return { sessionId: identity.sessionId, deviceId: identity.deviceId, name: identity.name || '', token: identity.token };
+    }
+  } catch {
+    // Fall through and drop the corrupt entry
+  }
+
+  clearDeviceIdentity(lobbyCode);
+  return null;
+};
+
+export const saveDeviceIdentity = (lobbyCode: string, identity: DeviceIdentity) => {
+  try {
+    getStorage()?.setItem(storageKey(lobbyCode), JSON.stringify(identity));
+  } catch (error) {
+    console.warn('⚠️ [Identity] Could not store device identity:', error);
+  }
+};
+
+export const clearDeviceIdentity = (lobbyCode: string) => {
+  try {
+    getStorage()?.removeItem(storageKey(lobbyCode));
+  } catch {
+    // Nothing stored
+  }
+};
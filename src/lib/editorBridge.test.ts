@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EDITOR_BRIDGE_VERSION, EditorBridge, type EditorBridgeMessage, type EditorBridgeState } from './editorBridge';
+import type { ControllerInput } from './inputRouter';
+
+// The console ↔ editor iframe postMessage protocol, with a fake window and iframe
+
+const EDITOR_URL = 'https://editor.example/project/1';
+const EDITOR_ORIGIN = 'https://editor.example';
+
+let page: EventTarget;
+let editorWindow: { postMessage: ReturnType<typeof vi.fn> };
+let iframe: HTMLIFrameElement;
+
+const posted = () => editorWindow.postMessage.mock.calls.map(([message]) => message as EditorBridgeMessage);
+
+const reply = (data: unknown, { origin = EDITOR_ORIGIN, source = editorWindow as unknown } = {}) => {
+  page.dispatchEvent(Object.assign(new Event('message'), { data, origin, source }));
+};
+
+const helloAck = (capabilities: string[], version = EDITOR_BRIDGE_VERSION) =>
+  reply({ source: 'vibeconsole-editor', version, type: 'hello_ack', payload: { capabilities, name: 'Test editor' } });
+
+const input = (mappedAction: string | undefined, data: Record<string, unknown> = {}): ControllerInput => ({
+  deviceId: 'phone-1',
+  deviceName: 'Ada',
+  deviceType: 'phone',
+  input: { type: 'button', action: 'a', data, timestamp: Date.now(), mappedAction },
+  webrtcMessage: true
+});
+
+beforeEach(() => {
+  page = new EventTarget();
+  editorWindow = { postMessage: vi.fn() };
+  iframe = { contentWindow: editorWindow } as unknown as HTMLIFrameElement;
+  vi.stubGlobal('window', page);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('EditorBridge', () => {
+  it('says hello every second until the editor acknowledges', () => {
+    const states: EditorBridgeState[] = [];
+    const bridge = new EditorBridge(iframe, EDITOR_URL, state => states.push(state));
+
+    bridge.startHandshake();
+    vi.advanceTimersByTime(2000);
+    expect(posted().map(message => message.type)).toEqual(['hello', 'hello', 'hello']);
+    expect(posted()[0]).toMatchObject({ source: 'vibeconsole', version: EDITOR_BRIDGE_VERSION, payload: { protocolVersion: EDITOR_BRIDGE_VERSION } });
+    expect(editorWindow.postMessage).toHaveBeenCalledWith(expect.anything(), EDITOR_ORIGIN);
+
+    helloAck(['confirm']);
+    vi.advanceTimersByTime(5000);
+    expect(posted()).toHaveLength(3);
+    expect(bridge.getState()).toBe('ready');
+    expect(bridge.getCapabilities()).toEqual(['confirm']);
+    expect(states).toEqual(['handshaking', 'ready']);
+  });
+
+  it('gives up on editors that never answer', () => {
+    const bridge = new EditorBridge(iframe, EDITOR_URL);
+
+    bridge.startHandshake();
+    vi.advanceTimersByTime(20000);
+
+    expect(posted()).toHaveLength(10);
+    expect(bridge.getState()).toBe('unsupported');
+    expect(bridge.handleInput(input('confirm'))).toBe(false);
+  });
+
+  it('ignores replies from other windows, other origins and other protocols', () => {
+    const bridge = new EditorBridge(iframe, EDITOR_URL);
+    bridge.startHandshake();
+
+    const ack = { source: 'vibeconsole-editor', version: EDITOR_BRIDGE_VERSION, type: 'hello_ack', payload: { capabilities: ['confirm'] } };
+    reply(ack, { origin: 'https://evil.example' });
+    reply(ack, { source: {} });
+    reply({ ...ack, source: 'someone-else' });
+    reply('hello_ack');
+    expect(bridge.getState()).toBe('handshaking');
+
+    helloAck(['confirm'], EDITOR_BRIDGE_VERSION + 1);
+    expect(bridge.getState()).toBe('unsupported');
+  });
+
+  it('sends nothing before the handshake and only the commands the editor supports after it', () => {
+    const bridge = new EditorBridge(iframe, EDITOR_URL);
+    expect(bridge.handleInput(input('confirm'))).toBe(false);
+
+    bridge.startHandshake();
+    helloAck(['cursor_move', 'insert_text']);
+    editorWindow.postMessage.mockClear();
+
+    expect(bridge.handleInput(input('move_left'))).toBe(true);
+    expect(bridge.handleInput(input('voice_input', { transcript: 'hello world' }))).toBe(true);
+    expect(bridge.handleInput(input('confirm'))).toBe(false);
+    expect(bridge.handleInput(input(undefined))).toBe(false);
+
+    expect(posted().map(({ type, payload }) => ({ type, payload }))).toEqual([
+      { type: 'cursor_move', payload: { direction: 'left', player: 'Ada' } },
+      { type: 'insert_text', payload: { text: 'hello world', player: 'Ada' } }
+    ]);
+  });
+
+  it('sends raw dictation audio and canvas strokes for the matching actions', () => {
+    const bridge = new EditorBridge(iframe, EDITOR_URL);
+    bridge.startHandshake();
+    helloAck(['dictation_audio', 'canvas_stroke', 'canvas_clear']);
+    editorWindow.postMessage.mockClear();
+
+    bridge.handleInput(input('voice_input', { audio: 'UklGRg==', format: 'audio/webm' }));
+    bridge.handleInput(input('canvas_draw', { from: { x: 0, y: 0 }, to: { x: 5, y: 5 }, color: '#fff', lineWidth: 3 }));
+    bridge.handleInput(input('canvas_clear'));
+
+    expect(posted().map(({ type, payload }) => ({ type, payload }))).toEqual([
+      { type: 'dictation_audio', payload: { audio: 'UklGRg==', format: 'audio/webm', player: 'Ada' } },
+      { type: 'canvas_stroke', payload: { from: { x: 0, y: 0 }, to: { x: 5, y: 5 }, color: '#fff', lineWidth: 3, player: 'Ada' } },
+      { type: 'canvas_clear', payload: { player: 'Ada' } }
+    ]);
+  });
+
+  it('stops listening once destroyed', () => {
+    const bridge = new EditorBridge(iframe, EDITOR_URL);
+    bridge.startHandshake();
+    bridge.destroy();
+
+    helloAck(['confirm']);
+    vi.advanceTimersByTime(5000);
+
+    expect(bridge.getState()).toBe('idle');
+    expect(posted()).toHaveLength(1);
+  });
+});
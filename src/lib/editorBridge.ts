@@ -0,0 +1,246 @@
+import { ControllerInput } from './inputRouter';
+
+/*
+  Editor Bridge - postMessage protocol between the console and the embedded editor iframe
+
+  Every message is a plain object with a `source` tag and a protocol `version`:
+
+    Console → editor:  { source: 'vibeconsole', version: 1, type, payload, timestamp }
+    Editor → console:  { source: 'vibeconsole-editor', version: 1, type, payload }
+
+  Handshake
+    1. When the iframe loads, the console sends `hello` every second (up to 10 times).
+         payload: { protocolVersion: 1 }
+    2. A cooperating editor page answers with `hello_ack`.
+         payload: { capabilities: EditorCommandType[], name?: string }
+    3. Only after `hello_ack` does the console send commands, and only the ones listed
+       in `capabilities`. Editors that never answer just keep receiving nothing.
+
+  Commands (console → editor)
+    cursor_move      { direction: 'up' | 'down' | 'left' | 'right', player }
+    confirm          { player }
+    back             { player }
+    open_file_panel  { player }
+    insert_text      { text, player }                      - dictated text
+    dictation_audio  { audio, format, player }             - raw audio when no transcript is available
+    canvas_stroke    { from: {x, y}, to: {x, y}, color, lineWidth, player }
+    canvas_clear     { player }
+
+  Editor → console messages other than `hello_ack` are reserved for future use and ignored.
+*/
+
+export const EDITOR_BRIDGE_VERSION = 1;
+
+export type EditorCommandType =
+  | 'cursor_move'
+  | 'confirm'
+  | 'back'
+  | 'open_file_panel'
+  | 'insert_text'
+  | 'dictation_audio'
+  | 'canvas_stroke'
+  | 'canvas_clear';
+
+export interface EditorBridgeMessage {
+  source: 'vibeconsole';
+  version: number;
+  type: 'hello' | EditorCommandType;
+  payload: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface EditorBridgeReply {
+  source: 'vibeconsole-editor';
+  version: number;
+  type: 'hello_ack';
+  payload: {
+    capabilities?: EditorCommandType[];
+    name?: string;
+  };
+}
+
+export type EditorBridgeState = 'idle' | 'handshaking' | 'ready' | 'unsupported';
+
+export class EditorBridge {
+  private iframe: HTMLIFrameElement;
+  private targetOrigin: string;
+  private state: EditorBridgeState = 'idle';
+  private capabilities = new Set<EditorCommandType>();
+  private handshakeTimer?: ReturnType<typeof setInterval>;
+  private handshakeAttempts = 0;
+  private maxHandshakeAttempts = 10;
+  private onStateChange?: (state: EditorBridgeState) => void;
+
+  constructor(
+    iframe: HTMLIFrameElement,
+    editorUrl: string,
+    onStateChange?: (state: EditorBridgeState) => void
+  ) {
+    this.iframe = iframe;
+    this.targetOrigin = new URL(editorUrl).origin;
+    this.onStateChange = onStateChange;
+
+    window.addEventListener('message', this.handleMessage);
+    console.log(`🌉 [EditorBridge] Created for ${this.targetOrigin}`);
+  }
+
+  // Start (or restart) the handshake, e.g. after the iframe finished loading
+  startHandshake() {
+    this.stopHandshake();
+    this.capabilities.clear();
+    this.handshakeAttempts = 0;
+    this.setState('handshaking');
+
+    const sendHello = () => {
+      if (this.handshakeAttempts >= this.maxHandshakeAttempts) {
+        console.log(`⚠️ [EditorBridge] No handshake reply from ${this.targetOrigin}, editor does not support the bridge`);
+        this.stopHandshake();
+        this.setState('unsupported');
+        return;
+      }
+
+      this.handshakeAttempts++;
+      this.post('hello', { protocolVersion: EDITOR_BRIDGE_VERSION });
+    };
+
+    sendHello();
+    this.handshakeTimer = setInterval(sendHello, 1000);
+  }
+
+  // Translate a routed controller input into an editor command
+  handleInput(input: ControllerInput): boolean {
+    if (this.state !== 'ready') {
+      return false;
+    }
+
+    const command = this.toCommand(input);
+    if (!command) {
+      return false;
+    }
+
+    if (!this.capabilities.has(command.type)) {
+      console.log(`⚠️ [EditorBridge] Editor does not support ${command.type}, dropping`);
+      return false;
+    }
+
+    return this.post(command.type, command.payload);
+  }
+
+  getState(): EditorBridgeState {
+    return this.state;
+  }
+
+  getCapabilities(): EditorCommandType[] {
+    return Array.from(this.capabilities);
+  }
+
+  // Remove listeners and timers
+  destroy() {
+    this.stopHandshake();
+    window.removeEventListener('message', this.handleMessage);
+    this.setState('idle');
+    console.log('🧹 [EditorBridge] Destroyed');
+  }
+
+  // Map a controller input (preferring its mapped action) to a bridge command
+  private toCommand(input: ControllerInput): { type: EditorCommandType; payload: Record<string, unknown> } | null {
+    const { input: event, deviceName } = input;
+    const player = deviceName;
+
+    switch (event.mappedAction) {
+      case 'move_up':
+      case 'move_down':
+      case 'move_left':
+      case 'move_right':
+        return { type: 'cursor_move', payload: { direction: event.mappedAction.replace('move_', ''), player } };
+      case 'confirm':
+        return { type: 'confirm', payload: { player } };
+      case 'back':
+        return { type: 'back', payload: { player } };
+      case 'open_files':
+        return { type: 'open_file_panel', payload: { player } };
+      case 'voice_input':
+        if (event.data?.transcript) {
+          return { type: 'insert_text', payload: { text: event.data.transcript, player } };
+        }
+        return { type: 'dictation_audio', payload: { audio: event.data?.audio, format: event.data?.format, player } };
+      case 'canvas_draw':
+        return {
+          type: 'canvas_stroke',
+          payload: {
+            from: event.data?.from,
+            to: event.data?.to,
+            color: event.data?.color,
+            lineWidth: event.data?.lineWidth,
+            player
+          }
+        };
+      case 'canvas_clear':
+        return { type: 'canvas_clear', payload: { player } };
+      default:
+        return null;
+    }
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    if (event.source !== this.iframe.contentWindow || event.origin !== this.targetOrigin) {
+      return;
+    }
+
+    const reply = event.data as EditorBridgeReply;
+    if (!reply || reply.source !== 'vibeconsole-editor' || reply.type !== 'hello_ack') {
+      return;
+    }
+
+    if (reply.version !== EDITOR_BRIDGE_VERSION) {
+      console.log(`⚠️ [EditorBridge] Editor speaks protocol v${reply.version}, expected v${EDITOR_BRIDGE_VERSION}`);
+      this.stopHandshake();
+      this.setState('unsupported');
+      return;
+    }
+
+    this.stopHandshake();
+    this.capabilities = new Set(reply.payload?.capabilities || []);
+    this.setState('ready');
+    console.log(`✅ [EditorBridge] Handshake complete with ${reply.payload?.name || this.targetOrigin}:`, this.getCapabilities());
+  };
+
+  private post(type: EditorBridgeMessage['type'], payload: Record<string, unknown>): boolean {
+    const target = this.iframe.contentWindow;
+    if (!target) {
+      return false;
+    }
+
+    const message: EditorBridgeMessage = {
+      source: 'vibeconsole',
+      version: EDITOR_BRIDGE_VERSION,
+      type,
+      payload,
+      timestamp: Date.now()
+    };
+
+    try {
+      target.postMessage(message, this.targetOrigin);
+      if (type !== 'hello') {
+        console.log(`📤 [EditorBridge] Sent ${type}`);
+      }
+      return true;
+    } catch (error) {
+      console.error(`❌ [EditorBridge] Error posting ${type}:`, error);
+      return false;
+    }
+  }
+
+  private stopHandshake() {
+    if (this.handshakeTimer) {
+      clearInterval(this.handshakeTimer);
+      this.handshakeTimer = undefined;
+    }
+  }
+
+  private setState(state: EditorBridgeState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.onStateChange?.(state);
+  }
+}
@@ -0,0 +1,65 @@
+import { Code, Database, Zap, LucideIcon } from 'lucide-react';
+import { EmulationConfig } from './inputEmulator';
+
+export interface Editor {
+  id: string;
+  name: string;
+  description: string;
+  url: string;
+  icon: LucideIcon;
+  color: string;
+  bgGradient: string;
+  features: string[];
+  // Keyboard/pointer emulation overrides for editors without bridge support
+  emulation?: Partial<EmulationConfig>;
+}
+
+export const editors: Editor[] = [
+  {
+    id: 'bolt',
+    name: 'Bolt.new',
+    description: 'AI-powered full-stack development platform',
+    url: 'https://bolt.new',
+    icon: Zap,
+    color: 'text-yellow-400',
+    bgGradient: 'from-yellow-500/20 to-orange-500/20',
+    features: ['AI Code Generation', 'Real-time Preview', 'Full-stack Support', 'Instant Deployment'],
+    emulation: {
+      keys: {
+        open_files: { key: 'p', code: 'KeyP', ctrlKey: true }
+      }
+    }
+  },
+  {
+    id: 'loveable',
+    name: 'Loveable',
+    description: 'Visual development platform for modern apps',
+    url: 'https://loveable.dev',
+    icon: Code,
+    color: 'text-pink-400',
+    bgGradient: 'from-pink-500/20 to-purple-500/20',
+    features: ['Visual Builder', 'Component Library', 'Responsive Design', 'Team Collaboration'],
+    emulation: {
+      keys: {
+        open_files: { key: 'k', code: 'KeyK', ctrlKey: true }
+      }
+    }
+  },
+  {
+    id: 'co',
+    name: 'co.dev',
+    description: 'Google\'s app development platform',
+    url: 'https://co.dev',
+    icon: Database,
+    color: 'text-orange-400',
+    bgGradient: 'from-orange-500/20 to-red-500/20',
+    features: ['Real-time Database', 'Authentication', 'Cloud Functions', 'Analytics'],
+    emulation: {
+      pointer: false
+    }
+  }
+];
+
+export const getEditorById = (id: string): Editor | undefined => {
+  return editors.find(editor => editor.id === id);
+};
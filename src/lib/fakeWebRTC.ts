@@ -0,0 +1,685 @@
+/*
+  In-process fakes of RTCPeerConnection and RTCDataChannel on a simulated network
+
+  Just enough of the browser behaviour for WebRTCManager:
+    - implicit setLocalDescription(), offer rollback on glare, InvalidStateError for an
+      answer in the wrong state, rejecting a description from a different peer connection
+    - one host candidate per ICE generation; restartIce() starts a new generation and
+      fires negotiationneeded
+    - ICE connects once both sides are stable and have each other's candidate, after a
+      round trip on the link
+    - a link that goes down moves ICE to `disconnected`, then `failed` after `failAfter`
+      ms. A link that comes back recovers a disconnected connection by itself; a failed
+      one needs an ICE restart
+    - negotiated channels pair up by id; channels created without `negotiated` are
+      announced to the remote side through ondatachannel once connected
+    - reliable channels deliver in order, turning loss into retransmission delay and
+      holding messages while the link is down; unreliable channels drop lost messages
+
+  SDP and candidates are opaque tokens naming the peer connection and ICE generation.
+*/
+
+export interface LinkConditions {
+  latency: number; // One-way delay in ms
+  jitter: number; // Uniform +/- ms added to each delivery
+  loss: number; // Probability (0..1) that a packet is lost
+}
+
+export const DEFAULT_LINK_CONDITIONS: LinkConditions = { latency: 20, jitter: 5, loss: 0 };
+
+export interface NetworkStats {
+  sent: number;
+  delivered: number;
+  dropped: number;
+  retransmitted: number;
+}
+
+export interface SimulatedNetworkOptions {
+  conditions?: Partial<LinkConditions>;
+  disconnectAfter?: number; // ms between a link going down and ICE noticing
+  failAfter?: number; // ms between ICE `disconnected` and `failed`
+}
+
+type Listener<T> = ((event: T) => void) | null;
+
+interface FakeDescriptionInit {
+  type: RTCSdpType;
+  sdp: string;
+}
+
+interface DescriptionToken {
+  pc: string;
+  owner: string;
+  ice: number;
+  channels: { id: number; label: string; ordered: boolean; maxRetransmits: number | null }[];
+}
+
+const SDP_PREFIX = 'fake-sdp:';
+const CANDIDATE_PREFIX = 'candidate:fake';
+
+const domError = (name: string, message: string) => {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+const tick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const makeDescription = (type: RTCSdpType, token: DescriptionToken) => {
+  const init: FakeDescriptionInit = { type, sdp: SDP_PREFIX + JSON.stringify(token) };
+  return { ...init, toJSON: () => ({ ...init }) };
+};
+
+const parseDescription = (description: RTCSessionDescriptionInit): DescriptionToken => {
+  if (!description.sdp?.startsWith(SDP_PREFIX)) {
+    throw domError('InvalidAccessError', 'not a fake session description');
+  }
+  return JSON.parse(description.sdp.slice(SDP_PREFIX.length));
+};
+
+export class SimulatedNetwork {
+  readonly stats: NetworkStats = { sent: 0, delivered: 0, dropped: 0, retransmitted: 0 };
+  disconnectAfter: number;
+  failAfter: number;
+  private defaults: LinkConditions;
+  private links = new Map<string, Partial<LinkConditions>>();
+  private downLinks = new Set<string>();
+  private connections = new Set<FakeRTCPeerConnection>();
+
+  constructor(options: SimulatedNetworkOptions = {}) {
+    this.defaults = { ...DEFAULT_LINK_CONDITIONS, ...options.conditions };
+    this.disconnectAfter = options.disconnectAfter ?? 500;
+    this.failAfter = options.failAfter ?? 3000;
+  }
+
+  private static linkKey(a: string, b: string) {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  // A peer connection for a device; pass it to WebRTCManager through createPeerConnection
+  createPeerConnection(ownerId: string, configuration?: RTCConfiguration): FakeRTCPeerConnection {
+    const connection = new FakeRTCPeerConnection(this, ownerId, configuration);
+    this.connections.add(connection);
+    return connection;
+  }
+
+  // Conditions for every link without its own
+  setConditions(conditions: Partial<LinkConditions>) {
+    this.defaults = { ...this.defaults, ...conditions };
+  }
+
+  setLinkConditions(a: string, b: string, conditions: Partial<LinkConditions>) {
+    const key = SimulatedNetwork.linkKey(a, b);
+    this.links.set(key, { ...this.links.get(key), ...conditions });
+  }
+
+  getConditions(a: string, b: string): LinkConditions {
+    return { ...this.defaults, ...this.links.get(SimulatedNetwork.linkKey(a, b)) };
+  }
+
+  isUp(a: string, b: string): boolean {
+    return !this.downLinks.has(SimulatedNetwork.linkKey(a, b));
+  }
+
+  // Cut the path between two devices (wifi drop, NAT rebinding...)
+  disconnect(a: string, b: string) {
+    this.downLinks.add(SimulatedNetwork.linkKey(a, b));
+    this.between(a, b).forEach(connection => connection.handleLinkChange());
+  }
+
+  reconnect(a: string, b: string) {
+    this.downLinks.delete(SimulatedNetwork.linkKey(a, b));
+    this.between(a, b).forEach(connection => connection.handleLinkChange());
+  }
+
+  // One-way delay for a packet, with jitter
+  sampleDelay(a: string, b: string): number {
+    const { latency, jitter } = this.getConditions(a, b);
+    return Math.max(0, latency + (Math.random() * 2 - 1) * jitter);
+  }
+
+  sampleLoss(a: string, b: string): boolean {
+    return Math.random() < this.getConditions(a, b).loss;
+  }
+
+  find(connectionId: string): FakeRTCPeerConnection | undefined {
+    for (const connection of this.connections) {
+      if (connection.id === connectionId) return connection;
+    }
+    return undefined;
+  }
+
+  forget(connection: FakeRTCPeerConnection) {
+    this.connections.delete(connection);
+  }
+
+  private between(a: string, b: string) {
+    return [...this.connections].filter(connection =>
+      (connection.ownerId === a && connection.remoteOwnerId === b) ||
+      (connection.ownerId === b && connection.remoteOwnerId === a)
+    );
+  }
+}
+
+let nextConnectionId = 1;
+
+export class FakeRTCDataChannel {
+  readonly label: string;
+  readonly id: number;
+  readonly ordered: boolean;
+  readonly maxRetransmits: number | null;
+  readonly negotiated: boolean;
+  readyState: RTCDataChannelState = 'connecting';
+  binaryType: BinaryType = 'blob';
+  bufferedAmount = 0;
+  onopen: Listener<Event> = null;
+  onclose: Listener<Event> = null;
+  onerror: Listener<Event> = null;
+  onmessage: Listener<{ data: string | ArrayBuffer }> = null;
+  private connection: FakeRTCPeerConnection;
+  private lastDeliveryAt = 0;
+  private held: (string | ArrayBuffer)[] = [];
+  private inFlight: (string | ArrayBuffer)[] = []; // Ordered payloads, oldest first
+
+  constructor(connection: FakeRTCPeerConnection, label: string, id: number, init: RTCDataChannelInit = {}) {
+    this.connection = connection;
+    this.label = label;
+    this.id = id;
+    this.ordered = init.ordered ?? true;
+    this.maxRetransmits = init.maxRetransmits ?? null;
+    this.negotiated = init.negotiated ?? false;
+  }
+
+  get reliable(): boolean {
+    return this.maxRetransmits === null;
+  }
+
+  send(data: string | ArrayBuffer | ArrayBufferView) {
+    if (this.readyState !== 'open') {
+      throw domError('InvalidStateError', `data channel ${this.label} is ${this.readyState}`);
+    }
+
+    const payload = typeof data === 'string'
+      ? data
+      : data instanceof ArrayBuffer
+        ? data.slice(0)
+        : new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice().buffer;
+
+    this.connection.network.stats.sent++;
+    if (!this.connection.canCarryData()) {
+      // SCTP keeps reliable data until the path returns; best-effort data is gone
+      if (this.reliable) {
+        this.held.push(payload);
+      } else {
+        this.connection.network.stats.dropped++;
+      }
+      return;
+    }
+
+    this.transmit(payload);
+  }
+
+  close() {
+    if (this.readyState === 'closed' || this.readyState === 'closing') return;
+    this.readyState = 'closing';
+    this.connection.remoteChannel(this.id)?.closeFromRemote();
+    this.finishClose();
+  }
+
+  // Flush data held while the link was down
+  releaseHeld() {
+    const held = this.held;
+    this.held = [];
+    held.forEach(payload => this.transmit(payload));
+  }
+
+  open() {
+    if (this.readyState !== 'connecting') return;
+    this.readyState = 'open';
+    this.onopen?.(new Event('open'));
+  }
+
+  closeFromRemote() {
+    if (this.readyState === 'closed') return;
+    this.finishClose();
+  }
+
+  deliver(payload: string | ArrayBuffer) {
+    if (this.readyState !== 'open') {
+      this.connection.network.stats.dropped++;
+      return;
+    }
+    this.connection.network.stats.delivered++;
+    this.onmessage?.({ data: payload });
+  }
+
+  private finishClose() {
+    this.held = [];
+    this.inFlight = [];
+    setTimeout(() => {
+      if (this.readyState === 'closed') return;
+      this.readyState = 'closed';
+      this.onclose?.(new Event('close'));
+    }, 0);
+  }
+
+  private transmit(payload: string | ArrayBuffer) {
+    const { network, ownerId, remoteOwnerId } = this.connection;
+    const remoteOwner = remoteOwnerId || '';
+    let delay = network.sampleDelay(ownerId, remoteOwner);
+
+    if (network.sampleLoss(ownerId, remoteOwner)) {
+      if (!this.reliable) {
+        network.stats.dropped++;
+        return;
+      }
+
+      // Retransmitted after a round trip, possibly more than once
+      let attempts = 0;
+      do {
+        delay += 2 * network.sampleDelay(ownerId, remoteOwner);
+        network.stats.retransmitted++;
+        attempts++;
+      } while (attempts < 10 && network.sampleLoss(ownerId, remoteOwner));
+    }
+
+    let deliverAt = Date.now() + delay;
+    if (this.ordered) {
+      deliverAt = Math.max(deliverAt, this.lastDeliveryAt);
+      this.lastDeliveryAt = deliverAt;
+      // Timers due in the same millisecond may fire in any order; each one delivers the oldest
+      this.inFlight.push(payload);
+    }
+
+    setTimeout(() => {
+      const next = this.ordered ? this.inFlight.shift() : payload;
+      const remote = this.connection.remoteChannel(this.id);
+      if (remote && next !== undefined) {
+        remote.deliver(next);
+      } else {
+        network.stats.dropped++;
+      }
+    }, deliverAt - Date.now());
+  }
+}
+
+export class FakeRTCPeerConnection {
+  readonly id = `pc${nextConnectionId++}`;
+  readonly network: SimulatedNetwork;
+  readonly ownerId: string;
+  readonly configuration?: RTCConfiguration;
+  remoteOwnerId?: string;
+  localDescription: (FakeDescriptionInit & { toJSON(): FakeDescriptionInit }) | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  signalingState: RTCSignalingState = 'stable';
+  iceConnectionState: RTCIceConnectionState = 'new';
+  connectionState: RTCPeerConnectionState = 'new';
+  onnegotiationneeded: Listener<Event> = null;
+  onicecandidate: Listener<{ candidate: { candidate: string; sdpMid: string; sdpMLineIndex: number; toJSON(): RTCIceCandidateInit } | null }> = null;
+  oniceconnectionstatechange: Listener<Event> = null;
+  onconnectionstatechange: Listener<Event> = null;
+  ondatachannel: Listener<{ channel: FakeRTCDataChannel }> = null;
+
+  private channels = new Map<number, FakeRTCDataChannel>();
+  private nextChannelId = 0;
+  private remoteConnectionId?: string;
+  private stableLocalDescription: FakeRTCPeerConnection['localDescription'] = null;
+  private iceGeneration = 0;
+  private gatheredGeneration = -1;
+  private remoteIceGeneration = -1;
+  private remoteCandidateGeneration = -1;
+  private failedGeneration = -1; // ICE generation that failed; only a restart recovers
+  private negotiationQueued = false;
+  private checking = false;
+  private disconnectTimer?: ReturnType<typeof setTimeout>;
+  private failTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(network: SimulatedNetwork, ownerId: string, configuration?: RTCConfiguration) {
+    this.network = network;
+    this.ownerId = ownerId;
+    this.configuration = configuration;
+  }
+
+  createDataChannel(label: string, init: RTCDataChannelInit = {}): FakeRTCDataChannel {
+    if (this.signalingState === 'closed') {
+      throw domError('InvalidStateError', 'peer connection is closed');
+    }
+
+    const id = init.negotiated && init.id !== undefined ? init.id : this.allocateChannelId();
+    const channel = new FakeRTCDataChannel(this, label, id, init);
+    this.channels.set(id, channel);
+
+    if (this.isConnected()) {
+      setTimeout(() => this.openChannels(), 0);
+    } else if (!this.localDescription) {
+      this.queueNegotiation();
+    }
+    return channel;
+  }
+
+  async createOffer(): Promise<FakeDescriptionInit> {
+    return makeDescription('offer', this.token()).toJSON();
+  }
+
+  async createAnswer(): Promise<FakeDescriptionInit> {
+    return makeDescription('answer', this.token()).toJSON();
+  }
+
+  async setLocalDescription(description?: RTCSessionDescriptionInit): Promise<void> {
+    this.assertOpen();
+    await tick();
+    this.assertOpen();
+
+    const type = description?.type ?? (this.signalingState === 'have-remote-offer' ? 'answer' : 'offer');
+    if (type === 'offer') {
+      if (this.signalingState !== 'stable' && this.signalingState !== 'have-local-offer') {
+        throw domError('InvalidStateError', `cannot set a local offer in ${this.signalingState}`);
+      }
+      this.localDescription = makeDescription('offer', this.token());
+      this.setSignalingState('have-local-offer');
+    } else if (type === 'answer') {
+      if (this.signalingState !== 'have-remote-offer') {
+        throw domError('InvalidStateError', `cannot set a local answer in ${this.signalingState}`);
+      }
+      this.localDescription = makeDescription('answer', this.token());
+      this.setSignalingState('stable');
+    } else if (type === 'rollback') {
+      this.rollback();
+      return;
+    }
+
+    this.gatherCandidates();
+    this.tryConnect();
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    this.assertOpen();
+    const token = parseDescription(description);
+    await tick();
+    this.assertOpen();
+
+    if (this.remoteConnectionId && token.pc !== this.remoteConnectionId) {
+      throw domError('InvalidAccessError', 'description belongs to a different peer connection');
+    }
+
+    if (description.type === 'offer') {
+      if (this.signalingState === 'have-local-offer') {
+        this.rollback();
+      }
+      // An ICE restart from the other side gets fresh credentials from this side too
+      if (this.remoteIceGeneration !== -1 && token.ice !== this.remoteIceGeneration) {
+        this.iceGeneration++;
+      }
+      this.setSignalingState('have-remote-offer');
+    } else if (description.type === 'answer') {
+      if (this.signalingState !== 'have-local-offer') {
+        throw domError('InvalidStateError', `cannot set a remote answer in ${this.signalingState}`);
+      }
+      this.setSignalingState('stable');
+    }
+
+    this.remoteDescription = { type: description.type, sdp: description.sdp };
+    this.remoteConnectionId = token.pc;
+    this.remoteOwnerId = token.owner;
+    this.remoteIceGeneration = token.ice;
+
+    // Channels the remote side created without pre-negotiating them
+    for (const announced of token.channels) {
+      if (!this.channels.has(announced.id)) {
+        const channel = new FakeRTCDataChannel(this, announced.label, announced.id, {
+          ordered: announced.ordered,
+          maxRetransmits: announced.maxRetransmits ?? undefined
+        });
+        this.channels.set(announced.id, channel);
+        setTimeout(() => this.ondatachannel?.({ channel }), 0);
+      }
+    }
+
+    this.tryConnect();
+    // The other side may have been waiting for this side to know it
+    this.peer()?.tryConnect();
+  }
+
+  async addIceCandidate(candidate?: RTCIceCandidateInit | null): Promise<void> {
+    this.assertOpen();
+    if (!candidate?.candidate) return; // End of candidates
+
+    if (!this.remoteDescription) {
+      throw domError('InvalidStateError', 'no remote description');
+    }
+
+    const [, connectionId, generation] = candidate.candidate.split(' ');
+    if (connectionId !== this.remoteConnectionId) {
+      throw domError('OperationError', 'candidate belongs to a different peer connection');
+    }
+
+    this.remoteCandidateGeneration = Math.max(this.remoteCandidateGeneration, Number(generation));
+    this.tryConnect();
+  }
+
+  restartIce() {
+    if (this.signalingState === 'closed') return;
+    this.iceGeneration++;
+    this.queueNegotiation();
+  }
+
+  async getStats(): Promise<Map<string, Record<string, unknown>>> {
+    const stats = new Map<string, Record<string, unknown>>();
+    if (!this.isConnected()) return stats;
+
+    stats.set('T1', { id: 'T1', type: 'transport', selectedCandidatePairId: 'CP1' });
+    stats.set('CP1', { id: 'CP1', type: 'candidate-pair', localCandidateId: 'L1', remoteCandidateId: 'R1', nominated: true, state: 'succeeded' });
+    stats.set('L1', { id: 'L1', type: 'local-candidate', candidateType: 'host', protocol: 'udp' });
+    stats.set('R1', { id: 'R1', type: 'remote-candidate', candidateType: 'host', protocol: 'udp' });
+    return stats;
+  }
+
+  close() {
+    if (this.signalingState === 'closed') return;
+
+    this.signalingState = 'closed';
+    this.iceConnectionState = 'closed';
+    this.connectionState = 'closed';
+    this.clearTimers();
+    this.channels.forEach(channel => channel.close());
+    this.network.forget(this);
+
+    // The other side sees its channels close and its ICE session time out
+    this.peer()?.handleLinkChange();
+  }
+
+  // --- used by the network and the channels ---
+
+  canCarryData(): boolean {
+    return this.isConnected() && this.pathUp();
+  }
+
+  remoteChannel(id: number): FakeRTCDataChannel | undefined {
+    const peer = this.peer();
+    return peer && peer.peer() === this ? peer.channels.get(id) : undefined;
+  }
+
+  handleLinkChange() {
+    if (this.signalingState === 'closed') return;
+
+    if (this.pathUp()) {
+      // The path came back before ICE gave up
+      if (this.iceConnectionState === 'disconnected') {
+        clearTimeout(this.failTimer);
+        this.tryConnect();
+      } else if (this.isConnected()) {
+        clearTimeout(this.disconnectTimer);
+      }
+      return;
+    }
+
+    if (!this.peer()) {
+      this.channels.forEach(channel => channel.closeFromRemote());
+    }
+
+    if (this.isConnected() && !this.disconnectTimer) {
+      this.disconnectTimer = setTimeout(() => {
+        this.disconnectTimer = undefined;
+        if (!this.pathUp() && this.isConnected()) this.markDisconnected();
+      }, this.network.disconnectAfter);
+    }
+  }
+
+  // --- internals ---
+
+  private peer(): FakeRTCPeerConnection | undefined {
+    return this.remoteConnectionId ? this.network.find(this.remoteConnectionId) : undefined;
+  }
+
+  private pathUp(): boolean {
+    const peer = this.peer();
+    return !!peer && peer.peer() === this && !!this.remoteOwnerId && this.network.isUp(this.ownerId, this.remoteOwnerId);
+  }
+
+  private isConnected(): boolean {
+    return this.iceConnectionState === 'connected' || this.iceConnectionState === 'completed';
+  }
+
+  private assertOpen() {
+    if (this.signalingState === 'closed') {
+      throw domError('InvalidStateError', 'peer connection is closed');
+    }
+  }
+
+  private allocateChannelId() {
+    while (this.channels.has(this.nextChannelId)) this.nextChannelId++;
+    return this.nextChannelId;
+  }
+
+  private token(): DescriptionToken {
+    return {
+      pc: this.id,
+      owner: this.ownerId,
+      ice: this.iceGeneration,
+      channels: [...this.channels.values()]
+        .filter(channel => !channel.negotiated)
+        .map(channel => ({ id: channel.id, label: channel.label, ordered: channel.ordered, maxRetransmits: channel.maxRetransmits }))
+    };
+  }
+
+  private rollback() {
+    this.localDescription = this.stableLocalDescription;
+    this.setSignalingState('stable');
+  }
+
+  private setSignalingState(state: RTCSignalingState) {
+    this.signalingState = state;
+    if (state === 'stable') {
+      this.stableLocalDescription = this.localDescription;
+    }
+  }
+
+  private queueNegotiation() {
+    if (this.negotiationQueued) return;
+    this.negotiationQueued = true;
+
+    setTimeout(() => {
+      this.negotiationQueued = false;
+      if (this.signalingState === 'closed') return;
+      if (this.signalingState !== 'stable') {
+        // Fires again once the current negotiation settles
+        this.queueNegotiation();
+        return;
+      }
+      this.onnegotiationneeded?.(new Event('negotiationneeded'));
+    }, 0);
+  }
+
+  private gatherCandidates() {
+    if (this.gatheredGeneration === this.iceGeneration) return;
+    this.gatheredGeneration = this.iceGeneration;
+    const generation = this.iceGeneration;
+
+    setTimeout(() => {
+      if (this.signalingState === 'closed') return;
+      const init: RTCIceCandidateInit = {
+        candidate: `${CANDIDATE_PREFIX} ${this.id} ${generation} 1 udp 2122260223 127.0.0.1 9 typ host`,
+        sdpMid: '0',
+        sdpMLineIndex: 0
+      };
+      this.onicecandidate?.({ candidate: { candidate: init.candidate!, sdpMid: '0', sdpMLineIndex: 0, toJSON: () => init } });
+      this.onicecandidate?.({ candidate: null });
+    }, 0);
+  }
+
+  // Run connectivity checks once both sides have everything they need
+  private tryConnect() {
+    if (this.signalingState !== 'stable' || !this.localDescription || !this.remoteDescription) return;
+    if (this.remoteCandidateGeneration < this.remoteIceGeneration) return;
+    if (this.isConnected() || this.checking) return;
+    if (this.iceConnectionState === 'failed' && this.failedGeneration === this.iceGeneration) return;
+    if (!this.pathUp() || !this.remoteOwnerId) return;
+
+    this.checking = true;
+    if (this.iceConnectionState !== 'disconnected') {
+      this.setIceState('checking');
+      this.setConnectionState('connecting');
+    }
+
+    const roundTrip = 2 * this.network.sampleDelay(this.ownerId, this.remoteOwnerId);
+    setTimeout(() => {
+      this.checking = false;
+      if (this.signalingState === 'closed') return;
+      if (!this.pathUp()) {
+        this.handleLinkChange();
+        return;
+      }
+      this.markConnected();
+    }, roundTrip);
+  }
+
+  private markConnected() {
+    clearTimeout(this.failTimer);
+    this.failTimer = undefined;
+    this.failedGeneration = -1;
+    this.setIceState('connected');
+    this.setConnectionState('connected');
+    this.openChannels();
+    this.channels.forEach(channel => channel.releaseHeld());
+  }
+
+  private markDisconnected() {
+    this.setIceState('disconnected');
+    this.setConnectionState('disconnected');
+
+    clearTimeout(this.failTimer);
+    this.failTimer = setTimeout(() => {
+      this.failTimer = undefined;
+      if (this.iceConnectionState !== 'disconnected') return;
+      this.failedGeneration = this.iceGeneration;
+      this.setIceState('failed');
+      this.setConnectionState('failed');
+    }, this.network.failAfter);
+  }
+
+  private openChannels() {
+    this.channels.forEach(channel => {
+      // Both ends of a channel must exist before it opens
+      if (this.remoteChannel(channel.id)) channel.open();
+    });
+  }
+
+  private setIceState(state: RTCIceConnectionState) {
+    if (this.iceConnectionState === state) return;
+    this.iceConnectionState = state;
+    this.oniceconnectionstatechange?.(new Event('iceconnectionstatechange'));
+  }
+
+  private setConnectionState(state: RTCPeerConnectionState) {
+    if (this.connectionState === state) return;
+    this.connectionState = state;
+    this.onconnectionstatechange?.(new Event('connectionstatechange'));
+  }
+
+  private clearTimers() {
+    clearTimeout(this.disconnectTimer);
+    clearTimeout(this.failTimer);
+    this.disconnectTimer = undefined;
+    this.failTimer = undefined;
+  }
+}
@@ -0,0 +1,39 @@
+import type { PresenceStatus } from './presence';
+
+/*
+  Host election
+
+  The host is whoever `sessions.host_device_id` points at (devices.is_host follows it).
+  The host phone can hand the role to another player at any time. If the host has been
+  away for HOST_ELECTION_AFTER, the console - the one client that always watches
+  presence - promotes the longest-connected phone that is still here. Transfers are
+  compare-and-swap on the current host, so a manual transfer and an election can't
+  both win.
+
+  Deleting the host device also elects a new host (in the database, the local server
+  and the memory repositories), which covers hosts removed after REMOVE_AFTER.
+*/
+
+// Shorter than presence's REMOVE_AFTER, so the lobby gets a host back before the old
+// one is removed
+export const HOST_ELECTION_AFTER = 30 * 1000;
+
+export interface HostCandidate {
+  id: string;
+  deviceType: 'phone' | 'console' | 'spectator';
+  joinedAt: number;
+}
+
+// Longest-connected phone that is present, other than the current host
+export const chooseNextHost = <T extends HostCandidate>(
+  players: T[],
+  currentHostId: string | null,
+  getStatus: (deviceId: string) => PresenceStatus
+): T | null => {
+  const candidates = players
+    .filter(player => player.deviceType === 'phone' && player.id !== currentHostId)
+    .filter(player => getStatus(player.id) !== 'disconnected')
+    .sort((a, b) => a.joinedAt - b.joinedAt);
+
+  return candidates[0] || null;
+};
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_ICE_SERVERS,
+  IceServerResolver,
+  RestCredentialProvider,
+  createCredentialProvider,
+  mergeIceConfig,
+  type IceCredentialProvider,
+  type TurnCredentials
+} from './iceConfig';
+
+// ICE settings: the session's ice_config over the environment, and TURN credentials on top
+
+const provider = (credentials: TurnCredentials | null): IceCredentialProvider & { getCredentials: ReturnType<typeof vi.fn> } => ({
+  getCredentials: vi.fn(async () => credentials)
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('mergeIceConfig', () => {
+  const base = {
+    iceServers: [{ urls: 'stun:env.example:3478' }],
+    turnUrls: ['turn:env.example:3478'],
+    credentialsUrl: 'https://env.example/turn',
+    iceTransportPolicy: 'all' as const
+  };
+
+  it('keeps the base config without session settings', () => {
+    expect(mergeIceConfig(base, null)).toEqual(base);
+    expect(mergeIceConfig(base, undefined)).toEqual(base);
+    expect(mergeIceConfig(base, {})).toEqual(base);
+  });
+
+  it('overrides field by field', () => {
+    expect(mergeIceConfig(base, { turnUrls: ['turn:session.example:443'], iceTransportPolicy: 'relay' })).toEqual({
+      iceServers: base.iceServers,
+      turnUrls: ['turn:session.example:443'],
+      credentialsUrl: base.credentialsUrl,
+      iceTransportPolicy: 'relay'
+    });
+  });
+
+  it('fills fields the base leaves out', () => {
+    expect(mergeIceConfig({}, { iceServers: [] })).toEqual({
+      iceServers: [],
+      turnUrls: undefined,
+      credentialsUrl: undefined,
+      iceTransportPolicy: undefined
+    });
+  });
+});
+
+describe('createCredentialProvider', () => {
+  it('uses the credential service when one is configured', () => {
+    expect(createCredentialProvider({ credentialsUrl: 'https://turn.example/credentials' })).toBeInstanceOf(RestCredentialProvider);
+  });
+
+  it('needs no provider without a credential service or shared secret', () => {
+    expect(createCredentialProvider({ turnUrls: ['turn:turn.example:3478'] })).toBeNull();
+  });
+});
+
+describe('IceServerResolver', () => {
+  const credentials: TurnCredentials = { username: 'user', credential: 'secret', ttl: 100 };
+
+  it('falls back to the default STUN servers and the "all" policy', async () => {
+    const resolver = new IceServerResolver('phone-1', {}, null);
+
+    expect(await resolver.resolve()).toEqual({ iceServers: DEFAULT_ICE_SERVERS, iceTransportPolicy: 'all' });
+  });
+
+  it('replaces the defaults with configured servers and adds TURN with fetched credentials', async () => {
+    const resolver = new IceServerResolver('phone-1', {
+      iceServers: [{ urls: 'stun:lan.example' }],
+      turnUrls: ['turn:turn.example:3478'],
+      iceTransportPolicy: 'relay'
+    }, provider(credentials));
+
+    expect(await resolver.resolve()).toEqual({
+      iceServers: [
+        { urls: 'stun:lan.example' },
+        { urls: ['turn:turn.example:3478'], username: 'user', credential: 'secret' }
+      ],
+      iceTransportPolicy: 'relay'
+    });
+  });
+
+  it('prefers the TURN URLs the credential service returns', async () => {
+    const resolver = new IceServerResolver('phone-1', { iceServers: [], turnUrls: ['turn:config.example'] }, provider({
+      ...credentials,
+      urls: ['turns:service.example:443']
+    }));
+
+    expect((await resolver.resolve()).iceServers).toEqual([
+      { urls: ['turns:service.example:443'], username: 'user', credential: 'secret' }
+    ]);
+  });
+
+  it('leaves TURN out when there are no URLs or no credentials', async () => {
+    const withoutUrls = new IceServerResolver('phone-1', { iceServers: [] }, provider(credentials));
+    const failing: IceCredentialProvider = { getCredentials: async () => { throw new Error('offline'); } };
+    const withoutCredentials = new IceServerResolver('phone-1', { iceServers: [], turnUrls: ['turn:turn.example'] }, failing);
+
+    expect((await withoutUrls.resolve()).iceServers).toEqual([]);
+    expect((await withoutCredentials.resolve()).iceServers).toEqual([]);
+  });
+
+  it('reuses credentials until most of their lifetime has passed', async () => {
+    vi.useFakeTimers();
+    const source = provider(credentials);
+    const resolver = new IceServerResolver('phone-1', { turnUrls: ['turn:turn.example'] }, source);
+
+    await resolver.resolve();
+    vi.advanceTimersByTime(79 * 1000);
+    await resolver.resolve();
+    expect(source.getCredentials).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(2 * 1000);
+    await resolver.resolve();
+    expect(source.getCredentials).toHaveBeenCalledTimes(2);
+    expect(source.getCredentials).toHaveBeenCalledWith('phone-1');
+  });
+
+  it('drops cached credentials when the session settings change', async () => {
+    const first = provider(credentials);
+    const second = provider({ username: 'other', credential: 'other-secret', ttl: 100 });
+    const resolver = new IceServerResolver('phone-1', { iceServers: [], turnUrls: ['turn:env.example'] }, first);
+    await resolver.resolve();
+
+    resolver.setConfig(mergeIceConfig({ iceServers: [], turnUrls: ['turn:env.example'] }, { turnUrls: ['turn:session.example'] }), second);
+    expect((await resolver.resolve()).iceServers).toEqual([
+      { urls: ['turn:session.example'], username: 'other', credential: 'other-secret' }
+    ]);
+  });
+});
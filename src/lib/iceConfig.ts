@@ -0,0 +1,266 @@
+/*
+  ICE server configuration
+
+  Sources, later ones override earlier ones field by field:
+    1. Defaults: Google's public STUN servers
+    2. Environment:
+         VITE_ICE_SERVERS           JSON array of RTCIceServer, replaces the defaults
+         VITE_TURN_URLS             comma-separated TURN URLs that need short-lived credentials
+         VITE_TURN_CREDENTIALS_URL  endpoint of a TURN REST credential service
+         VITE_TURN_SHARED_SECRET    coturn `static-auth-secret` (offline lab only - it ships to the browser)
+         VITE_ICE_TRANSPORT_POLICY  'all' or 'relay'
+    3. Session settings: the `ice_config` column of the session row (same shape as IceConfig),
+       which only the console sets (set_ice_config())
+
+  TURN credentials come from an IceCredentialProvider and are cached until shortly
+  before they expire.
+*/
+
+export interface IceConfig {
+  iceServers?: RTCIceServer[];
+  turnUrls?: string[];
+  credentialsUrl?: string;
+  iceTransportPolicy?: RTCIceTransportPolicy;
+}
+
+export interface TurnCredentials {
+  username: string;
+  credential: string;
+  ttl: number; // seconds
+  urls?: string[]; // Overrides the configured TURN URLs when the service returns its own
+}
+
+export interface IceCredentialProvider {
+  getCredentials(deviceId: string): Promise<TurnCredentials | null>;
+}
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface CandidatePairInfo {
+  local: CandidateType;
+  remote: CandidateType;
+  protocol?: string;
+}
+
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' }
+];
+
+// Refresh credentials once this fraction of their lifetime has passed
+const CREDENTIAL_REFRESH_RATIO = 0.8;
+
+const splitList = (value: string | undefined): string[] | undefined => {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+};
+
+const parseIceServers = (value: string | undefined): RTCIceServer[] | undefined => {
+  if (!value) return undefined;
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    console.error('❌ [ICE] VITE_ICE_SERVERS is not valid JSON, ignoring');
+    return undefined;
+  }
+};
+
+// Read ICE settings from the Vite environment
+export const getEnvIceConfig = (): IceConfig => {
+  const env = import.meta.env;
+  const policy = env.VITE_ICE_TRANSPORT_POLICY;
+
+  return {
+    iceServers: parseIceServers(env.VITE_ICE_SERVERS),
+    turnUrls: splitList(env.VITE_TURN_URLS),
+    credentialsUrl: env.VITE_TURN_CREDENTIALS_URL || undefined,
+    iceTransportPolicy: policy === 'relay' || policy === 'all' ? policy : undefined
+  };
+};
+
+// Overlay session settings onto a base config
+export const mergeIceConfig = (base: IceConfig, override?: IceConfig | null): IceConfig => ({
+  iceServers: override?.iceServers ?? base.iceServers,
+  turnUrls: override?.turnUrls ?? base.turnUrls,
+  credentialsUrl: override?.credentialsUrl ?? base.credentialsUrl,
+  iceTransportPolicy: override?.iceTransportPolicy ?? base.iceTransportPolicy
+});
+
+/*
+  Fetches credentials from a TURN REST service. Accepts both the draft TURN REST API
+  response ({ username, password, ttl, uris }) and { username, credential, ttl, urls }.
+*/
+export class RestCredentialProvider implements IceCredentialProvider {
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async getCredentials(deviceId: string): Promise<TurnCredentials | null> {
+    const requestUrl = new URL(this.url, window.location.href);
+    requestUrl.searchParams.set('username', deviceId);
+
+    const response = await fetch(requestUrl.toString());
+    if (!response.ok) {
+      throw new Error(`credential service responded ${response.status}`);
+    }
+
+    const body = await response.json();
+    const credential = body.credential ?? body.password;
+    if (typeof body.username !== 'string' || typeof credential !== 'string') {
+      throw new Error('credential service returned no username/credential');
+    }
+
+    return {
+      username: body.username,
+      credential,
+      ttl: typeof body.ttl === 'number' ? body.ttl : 3600,
+      urls: body.urls ?? body.uris
+    };
+  }
+}
+
+/*
+  Computes coturn `use-auth-secret` credentials locally:
+    username   = `${expiryUnixSeconds}:${deviceId}`
+    credential = base64(HMAC-SHA1(secret, username))
+  Only for an offline lab where the shared secret may live in the browser.
+*/
+export class SharedSecretCredentialProvider implements IceCredentialProvider {
+  private secret: string;
+  private ttl: number;
+
+  constructor(secret: string, ttl: number = 3600) {
+    this.secret = secret;
+    this.ttl = ttl;
+  }
+
+  async getCredentials(deviceId: string): Promise<TurnCredentials> {
+    const username = `${Math.floor(Date.now() / 1000) + this.ttl}:${deviceId}`;
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(this.secret),
+      { name: 'HMAC', hash: 'SHA-1' },
+      false,
+      ['sign']
+    );
+    const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(username)));
+
+    return {
+      username,
+      credential: btoa(String.fromCharCode(...signature)),
+      ttl: this.ttl
+    };
+  }
+}
+
+// Pick a credential provider for a config, if it has TURN URLs that need one
+export const createCredentialProvider = (config: IceConfig): IceCredentialProvider | null => {
+  if (config.credentialsUrl) {
+    return new RestCredentialProvider(config.credentialsUrl);
+  }
+
+  const secret = import.meta.env.VITE_TURN_SHARED_SECRET;
+  if (secret && config.turnUrls) {
+    return new SharedSecretCredentialProvider(secret);
+  }
+
+  return null;
+};
+
+// Builds the RTCConfiguration ICE fields for a device, caching TURN credentials
+export class IceServerResolver {
+  private config: IceConfig;
+  private provider: IceCredentialProvider | null;
+  private deviceId: string;
+  private cached?: { credentials: TurnCredentials; refreshAt: number };
+
+  constructor(deviceId: string, config: IceConfig = getEnvIceConfig(), provider?: IceCredentialProvider | null) {
+    this.deviceId = deviceId;
+    this.config = config;
+    this.provider = provider === undefined ? createCredentialProvider(config) : provider;
+  }
+
+  // Apply session settings; drops cached credentials since the TURN setup may differ
+  setConfig(config: IceConfig, provider?: IceCredentialProvider | null) {
+    this.config = config;
+    this.provider = provider === undefined ? createCredentialProvider(config) : provider;
+    this.cached = undefined;
+  }
+
+  async resolve(): Promise<Pick<RTCConfiguration, 'iceServers' | 'iceTransportPolicy'>> {
+    const iceServers = [...(this.config.iceServers || DEFAULT_ICE_SERVERS)];
+    const credentials = await this.getCredentials();
+    const turnUrls = credentials?.urls || this.config.turnUrls;
+
+    if (credentials && turnUrls) {
+      iceServers.push({ urls: turnUrls, username: credentials.username, credential: credentials.credential });
+    }
+
+    return {
+      iceServers,
+      iceTransportPolicy: this.config.iceTransportPolicy || 'all'
+    };
+  }
+
+  private async getCredentials(): Promise<TurnCredentials | null> {
+    if (!this.provider) return null;
+
+    if (this.cached && Date.now() < this.cached.refreshAt) {
+      return this.cached.credentials;
+    }
+
+    try {
+      const credentials = await this.provider.getCredentials(this.deviceId);
+      if (credentials) {
+        this.cached = {
+          credentials,
+          refreshAt: Date.now() + credentials.ttl * 1000 * CREDENTIAL_REFRESH_RATIO
+        };
+        console.log(`🔑 [ICE] Fetched TURN credentials (ttl ${credentials.ttl}s)`);
+      }
+      return credentials;
+    } catch (error) {
+      // Without TURN we can still try STUN and the Realtime fallback
+      console.error('❌ [ICE] Failed to fetch TURN credentials:', error);
+      return null;
+    }
+  }
+}
+
+// Read the selected candidate pair's types from a peer connection's stats
+export const getSelectedCandidatePair = async (peerConnection: RTCPeerConnection): Promise<CandidatePairInfo | null> => {
+  const stats = await peerConnection.getStats();
+  let selectedPairId: string | undefined;
+
+  stats.forEach(report => {
+    if (report.type === 'transport' && report.selectedCandidatePairId) {
+      selectedPairId = report.selectedCandidatePairId;
+    }
+  });
+
+  let pair: RTCIceCandidatePairStats | undefined;
+  stats.forEach(report => {
+    if (report.type !== 'candidate-pair') return;
+    // Firefox has no transport report but flags the pair itself
+    if (report.id === selectedPairId || (!selectedPairId && report.nominated && report.state === 'succeeded')) {
+      pair = report;
+    }
+  });
+
+  if (!pair) return null;
+
+  const local = stats.get(pair.localCandidateId);
+  const remote = stats.get(pair.remoteCandidateId);
+  if (!local?.candidateType || !remote?.candidateType) return null;
+
+  return {
+    local: local.candidateType,
+    remote: remote.candidateType,
+    protocol: local.protocol
+  };
+};
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_EMULATION, InputEmulator, resolveEmulationConfig } from './inputEmulator';
+import type { ControllerInput, InputEvent } from './inputRouter';
+
+// Synthetic keyboard and pointer events on the console page, without a browser
+
+class FakeElement extends EventTarget {
+  tagName = 'CANVAS';
+  events: Event[] = [];
+
+  dispatchEvent(event: Event): boolean {
+    this.events.push(event);
+    return super.dispatchEvent(event);
+  }
+
+  getBoundingClientRect() {
+    return { left: 10, top: 20, width: 200, height: 100 };
+  }
+}
+
+class FakeKeyboardEvent extends Event {
+  key: string;
+
+  constructor(type: string, init: KeyboardEventInit) {
+    super(type, init);
+    this.key = init.key || '';
+  }
+}
+
+class FakePointerEvent extends Event {
+  pointerId: number;
+  isPrimary: boolean;
+  clientX: number;
+  clientY: number;
+
+  constructor(type: string, init: PointerEventInit) {
+    super(type, init);
+    this.pointerId = init.pointerId || 0;
+    this.isPrimary = init.isPrimary || false;
+    this.clientX = init.clientX || 0;
+    this.clientY = init.clientY || 0;
+  }
+}
+
+let target: FakeElement;
+
+const input = (deviceId: string, type: InputEvent['type'], action: string, data: Record<string, unknown> = {}, mappedAction?: string): ControllerInput => ({
+  deviceId,
+  deviceName: deviceId,
+  deviceType: 'phone',
+  input: { type, action, data, timestamp: Date.now(), mappedAction },
+  webrtcMessage: true
+});
+
+const move = (deviceId: string, x: number, y: number, mappedAction = 'canvas_draw') =>
+  input(deviceId, 'canvas', 'draw_move', { to: { x, y }, canvasWidth: 100, canvasHeight: 50 }, mappedAction);
+
+const pointerEvents = () => (target.events as FakePointerEvent[])
+  .filter(event => event.type.startsWith('pointer'))
+  .map(({ type, pointerId, clientX, clientY }) => ({ type, pointerId, clientX, clientY }));
+
+beforeEach(() => {
+  target = new FakeElement();
+  vi.stubGlobal('document', { activeElement: target, body: target });
+  vi.stubGlobal('KeyboardEvent', FakeKeyboardEvent);
+  vi.stubGlobal('PointerEvent', FakePointerEvent);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('InputEmulator', () => {
+  it('presses the key bound to the mapped action', () => {
+    const emulator = new InputEmulator();
+
+    expect(emulator.handleInput(input('phone-1', 'dpad', 'up', {}, 'move_down'))).toBe(true);
+    expect(target.events.map(event => [event.type, (event as FakeKeyboardEvent).key])).toEqual([
+      ['keydown', 'ArrowDown'],
+      ['keyup', 'ArrowDown']
+    ]);
+    expect(emulator.handleInput(input('phone-1', 'dpad', 'up'))).toBe(false);
+  });
+
+  it('drags a pointer along a stroke, scaled onto the target', () => {
+    const emulator = new InputEmulator();
+
+    emulator.handleInput(input('phone-1', 'canvas', 'draw_start', { x: 0, y: 0, canvasWidth: 100, canvasHeight: 50 }));
+    emulator.handleInput(move('phone-1', 50, 25));
+    emulator.handleInput(input('phone-1', 'canvas', 'draw_end'));
+
+    expect(pointerEvents()).toEqual([
+      { type: 'pointerdown', pointerId: 1, clientX: 10, clientY: 20 },
+      { type: 'pointermove', pointerId: 1, clientX: 110, clientY: 70 },
+      { type: 'pointerup', pointerId: 1, clientX: 110, clientY: 70 }
+    ]);
+  });
+
+  it('keeps two phones drawing at once on separate pointers', () => {
+    const emulator = new InputEmulator();
+
+    emulator.handleInput(input('phone-1', 'canvas', 'draw_start', { x: 0, y: 0 }));
+    emulator.handleInput(input('phone-2', 'canvas', 'draw_start', { x: 100, y: 50 }));
+    emulator.handleInput(move('phone-1', 10, 10));
+    emulator.handleInput(move('phone-2', 90, 40));
+    emulator.handleInput(input('phone-1', 'canvas', 'draw_end'));
+    emulator.handleInput(move('phone-2', 80, 30));
+    emulator.handleInput(input('phone-2', 'canvas', 'draw_end'));
+
+    const events = target.events as FakePointerEvent[];
+    const byPointer = (pointerId: number) => events.filter(event => event.pointerId === pointerId).map(event => event.type);
+    expect(byPointer(1)).toEqual(['pointerdown', 'pointermove', 'pointerup']);
+    expect(byPointer(2)).toEqual(['pointerdown', 'pointermove', 'pointermove', 'pointerup']);
+    expect(events.filter(event => event.type === 'pointerdown').map(event => event.isPrimary)).toEqual([true, false]);
+  });
+
+  it('presses keys instead of drawing when the player remapped canvas draw', () => {
+    const emulator = new InputEmulator();
+
+    emulator.handleInput(input('phone-1', 'canvas', 'draw_start', { x: 0, y: 0 }));
+    expect(emulator.handleInput(move('phone-1', 10, 10, 'confirm'))).toBe(true);
+    expect(emulator.handleInput(input('phone-1', 'canvas', 'draw_end'))).toBe(false);
+    expect(emulator.handleInput(move('phone-1', 10, 10, ''))).toBe(false);
+
+    expect(pointerEvents()).toEqual([]);
+    expect(target.events.map(event => event.type)).toEqual(['keydown', 'keyup']);
+  });
+
+  it('draws nothing when the editor turns pointer emulation off', () => {
+    const emulator = new InputEmulator(resolveEmulationConfig({ pointer: false }));
+
+    emulator.handleInput(input('phone-1', 'canvas', 'draw_start', { x: 0, y: 0 }));
+    expect(emulator.handleInput(move('phone-1', 10, 10))).toBe(false);
+    expect(target.events).toEqual([]);
+  });
+
+  it('merges editor key overrides onto the defaults', () => {
+    const config = resolveEmulationConfig({ keys: { confirm: { key: ' ', code: 'Space' } } });
+
+    expect(config.keys.confirm).toEqual({ key: ' ', code: 'Space' });
+    expect(config.keys.move_up).toEqual(DEFAULT_EMULATION.keys.move_up);
+    expect(config.pointer).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+import { ControllerInput } from './inputRouter';
+
+export interface KeyBinding {
+  key: string;
+  code: string;
+  ctrlKey?: boolean;
+  shiftKey?: boolean;
+  altKey?: boolean;
+  metaKey?: boolean;
+}
+
+export interface EmulationConfig {
+  // Mapped action (see CONSOLE_ACTIONS) -> synthetic key press
+  keys: Record<string, KeyBinding>;
+  // Replay canvas strokes as pointer drags on the focused element
+  pointer: boolean;
+}
+
+// Key bindings used when an editor doesn't override them
+export const DEFAULT_EMULATION: EmulationConfig = {
+  keys: {
+    move_up: { key: 'ArrowUp', code: 'ArrowUp' },
+    move_down: { key: 'ArrowDown', code: 'ArrowDown' },
+    move_left: { key: 'ArrowLeft', code: 'ArrowLeft' },
+    move_right: { key: 'ArrowRight', code: 'ArrowRight' },
+    confirm: { key: 'Enter', code: 'Enter' },
+    back: { key: 'Escape', code: 'Escape' },
+    open_files: { key: 'p', code: 'KeyP', ctrlKey: true }
+  },
+  pointer: true
+};
+
+// Merge an editor's overrides onto the defaults
+export const resolveEmulationConfig = (overrides?: Partial<EmulationConfig>): EmulationConfig => ({
+  keys: { ...DEFAULT_EMULATION.keys, ...overrides?.keys },
+  pointer: overrides?.pointer ?? DEFAULT_EMULATION.pointer
+});
+
+// A phone's stroke in progress; the pointer only goes down once the stroke is drawn
+interface PointerStroke {
+  target: Element;
+  pointerId: number;
+  isPrimary: boolean;
+  down: boolean;
+  lastPoint: { clientX: number; clientY: number };
+  data: Record<string, unknown>;
+}
+
+/*
+  Turns routed controller inputs into synthetic keyboard and pointer events on the
+  console page. Events go to the focused element (document.activeElement), falling
+  back to document.body.
+
+  Everything follows the input's mapped action: canvas moves mapped to `canvas_draw`
+  become pointer drags, anything mapped to a bound action becomes a key press, so a
+  player who remaps their canvas draws keys instead. Each phone draws with its own
+  pointer id, so two players drawing at once make two strokes.
+
+  Browsers never let synthetic events cross into a cross-origin iframe, so for editors
+  embedded that way this only reaches console-side UI; editors that want real control
+  should implement the EditorBridge protocol instead.
+*/
+export class InputEmulator {
+  private config: EmulationConfig;
+  private strokes = new Map<string, PointerStroke>(); // device id -> stroke in progress
+  private nextPointerId = 1;
+
+  constructor(config: EmulationConfig = DEFAULT_EMULATION) {
+    this.config = config;
+    console.log(`⌨️ [InputEmulator] Initialized with ${Object.keys(config.keys).length} key bindings`);
+  }
+
+  setConfig(config: EmulationConfig) {
+    this.config = config;
+  }
+
+  // Emulate the given input; returns true if any event was dispatched
+  handleInput(input: ControllerInput): boolean {
+    const { input: event, deviceId } = input;
+
+    // Strokes start and end unmapped; the moves in between carry the mapping
+    if (event.type === 'canvas' && (event.action === 'draw_start' || event.action === 'draw_end')) {
+      return this.emulateStroke(deviceId, event.action, event.data);
+    }
+
+    if (event.mappedAction === 'canvas_draw') {
+      return this.config.pointer ? this.emulateDraw(deviceId, event.data) : false;
+    }
+
+    const binding = event.mappedAction ? this.config.keys[event.mappedAction] : undefined;
+    if (!binding) {
+      return false;
+    }
+
+    this.emulateKey(binding);
+    return true;
+  }
+
+  private getTarget(): Element {
+    return document.activeElement || document.body;
+  }
+
+  private emulateKey(binding: KeyBinding) {
+    const target = this.getTarget();
+    const init: KeyboardEventInit = {
+      key: binding.key,
+      code: binding.code,
+      ctrlKey: binding.ctrlKey || false,
+      shiftKey: binding.shiftKey || false,
+      altKey: binding.altKey || false,
+      metaKey: binding.metaKey || false,
+      bubbles: true,
+      cancelable: true
+    };
+
+    target.dispatchEvent(new KeyboardEvent('keydown', init));
+    target.dispatchEvent(new KeyboardEvent('keyup', init));
+    console.log(`⌨️ [InputEmulator] Key ${binding.key} → <${target.tagName.toLowerCase()}>`);
+  }
+
+  private emulateStroke(deviceId: string, action: 'draw_start' | 'draw_end', data: Record<string, unknown> = {}): boolean {
+    if (action === 'draw_end') {
+      const stroke = this.strokes.get(deviceId);
+      this.strokes.delete(deviceId);
+      return stroke?.down ? this.dispatchPointer(stroke, 'pointerup') : false;
+    }
+
+    if (!this.config.pointer) {
+      return false;
+    }
+
+    // End a stroke whose draw_end never arrived
+    const previous = this.strokes.get(deviceId);
+    if (previous?.down) this.dispatchPointer(previous, 'pointerup');
+
+    const target = this.getTarget();
+    const stroke: PointerStroke = {
+      target,
+      pointerId: this.nextPointerId++,
+      isPrimary: false,
+      down: false,
+      lastPoint: { clientX: 0, clientY: 0 },
+      data
+    };
+    stroke.lastPoint = this.toClientPoint(target, data.x, data.y, data) || stroke.lastPoint;
+    this.strokes.set(deviceId, stroke);
+    return false;
+  }
+
+  private emulateDraw(deviceId: string, data: Record<string, unknown> = {}): boolean {
+    const stroke = this.strokes.get(deviceId);
+    if (!stroke) {
+      return false;
+    }
+
+    if (!stroke.down) {
+      stroke.isPrimary = ![...this.strokes.values()].some(other => other.down);
+      stroke.down = true;
+      this.dispatchPointer(stroke, 'pointerdown');
+    }
+
+    const to = data.to as { x: number; y: number } | undefined;
+    stroke.lastPoint = this.toClientPoint(stroke.target, to?.x, to?.y, { ...stroke.data, ...data }) || stroke.lastPoint;
+    return this.dispatchPointer(stroke, 'pointermove');
+  }
+
+  // Scale phone canvas coordinates onto the target element's box
+  private toClientPoint(target: Element, x: unknown, y: unknown, data: Record<string, unknown>): { clientX: number; clientY: number } | null {
+    if (typeof x !== 'number' || typeof y !== 'number') {
+      return null;
+    }
+
+    const rect = target.getBoundingClientRect();
+    const sourceWidth = typeof data.canvasWidth === 'number' && data.canvasWidth > 0 ? data.canvasWidth : rect.width;
+    const sourceHeight = typeof data.canvasHeight === 'number' && data.canvasHeight > 0 ? data.canvasHeight : rect.height;
+
+    return {
+      clientX: rect.left + (x / sourceWidth) * rect.width,
+      clientY: rect.top + (y / sourceHeight) * rect.height
+    };
+  }
+
+  private dispatchPointer(stroke: PointerStroke, type: 'pointerdown' | 'pointermove' | 'pointerup'): boolean {
+    stroke.target.dispatchEvent(new PointerEvent(type, {
+      ...stroke.lastPoint,
+      pointerId: stroke.pointerId,
+      pointerType: 'touch',
+      isPrimary: stroke.isPrimary,
+      buttons: type === 'pointerup' ? 0 : 1,
+      bubbles: true,
+      cancelable: true
+    }));
+    return true;
+  }
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InputRouter, type ControllerInput } from './inputRouter';
+import { PROTOCOL_VERSION, createInputPayload } from './protocol';
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const mappedAction = (router: InputRouter, deviceId: string, inputType: string) =>
+  router.getMappings(deviceId).find(mapping => mapping.inputType === inputType)?.mappedAction;
+
+describe('InputRouter mapping profiles', () => {
+  it('applies a valid profile a player sent for itself', async () => {
+    const router = new InputRouter();
+    await router.registerDevice('phone-1', 'Ada', 'phone');
+
+    expect(router.applyMappingProfile('phone-1', [
+      { inputType: 'dpad.up', mappedAction: 'move_down', isActive: true }
+    ])).toBe(true);
+    expect(mappedAction(router, 'phone-1', 'dpad.up')).toBe('move_down');
+  });
+
+  it('rejects profiles with unknown inputs or actions', async () => {
+    const router = new InputRouter();
+    await router.registerDevice('phone-1', 'Ada', 'phone');
+
+    expect(router.applyMappingProfile('phone-1', [
+      { inputType: 'dpad.up', mappedAction: 'delete_everything', isActive: true }
+    ])).toBe(false);
+    expect(router.applyMappingProfile('phone-1', [
+      { inputType: 'keyboard.enter', mappedAction: 'confirm', isActive: true }
+    ])).toBe(false);
+    expect(mappedAction(router, 'phone-1', 'dpad.up')).toBe('move_up');
+  });
+
+  it('only takes profiles from registered, unmuted players', async () => {
+    const router = new InputRouter();
+    await router.registerDevice('phone-1', 'Ada', 'phone');
+    await router.registerDevice('watcher', 'Grace', 'spectator');
+    router.setMuted('phone-1', true);
+    const profile = [{ inputType: 'dpad.up', mappedAction: 'move_down', isActive: true }];
+
+    expect(router.applyMappingProfile('phone-1', profile)).toBe(false);
+    expect(router.applyMappingProfile('watcher', profile)).toBe(false);
+    expect(router.applyMappingProfile('stranger', profile)).toBe(false);
+    expect(router.getMappings('stranger')).toEqual([]);
+  });
+});
+
+describe('InputRouter default mappings', () => {
+  it('gives profiles saved before confirm and canvas clear existed their default bindings', async () => {
+    const oldProfile = [
+      { inputType: 'dpad.up', mappedAction: 'move_down', isActive: true },
+      { inputType: 'dpad.down', mappedAction: 'move_up', isActive: true }
+    ];
+    const router = new InputRouter(undefined, undefined, {
+      getForPlayer: async playerName => ({
+        id: 'profile-1',
+        player_name: playerName,
+        profile_name: 'Old',
+        mappings: oldProfile,
+        created_at: '',
+        updated_at: ''
+      }),
+      save: async () => null
+    });
+    await router.registerDevice('phone-1', 'Ada', 'phone');
+
+    expect(mappedAction(router, 'phone-1', 'dpad.up')).toBe('move_down');
+    expect(mappedAction(router, 'phone-1', 'button.confirm')).toBe('confirm');
+    expect(mappedAction(router, 'phone-1', 'canvas.clear')).toBe('canvas_clear');
+  });
+
+  it('keeps inputs the player deliberately left unassigned', async () => {
+    const router = new InputRouter();
+    await router.registerDevice('phone-1', 'Ada', 'phone');
+
+    router.applyMappingProfile('phone-1', [
+      { inputType: 'button.confirm', mappedAction: '', isActive: false }
+    ]);
+    const confirm = router.getMappings('phone-1').filter(mapping => mapping.inputType === 'button.confirm');
+    expect(confirm).toHaveLength(1);
+    expect(confirm[0].isActive).toBe(false);
+  });
+});
+
+describe('InputRouter spectators', () => {
+  const press = (router: InputRouter, deviceId: string) => ({
+    webrtc: router.processWebRTCInput(deviceId, {
+      version: PROTOCOL_VERSION,
+      type: 'game_data',
+      timestamp: Date.now(),
+      senderId: deviceId,
+      data: createInputPayload('button', 'confirm', { pressed: true })
+    }),
+    database: router.processDeviceInput({
+      device_id: deviceId,
+      input_type: 'button',
+      input_action: 'confirm',
+      input_data: { pressed: true },
+      timestamp: new Date().toISOString()
+    })
+  });
+
+  it('routes nothing a spectator sends, and gives it no mappings', async () => {
+    const routed: ControllerInput[] = [];
+    const router = new InputRouter(input => routed.push(input));
+    await router.registerDevice('watcher', 'Grace', 'spectator');
+
+    expect(press(router, 'watcher')).toEqual({ webrtc: null, database: null });
+    expect(router.isSpectator('watcher')).toBe(true);
+    expect(router.getMappings('watcher')).toEqual([]);
+    expect(routed).toEqual([]);
+  });
+
+  it('routes a spectator\'s inputs once it is promoted to player', async () => {
+    const routed: ControllerInput[] = [];
+    const router = new InputRouter(input => routed.push(input));
+    await router.registerDevice('watcher', 'Grace', 'spectator');
+
+    await router.registerDevice('watcher', 'Grace', 'phone');
+    const { webrtc, database } = press(router, 'watcher');
+
+    expect(router.isSpectator('watcher')).toBe(false);
+    expect(webrtc?.input.mappedAction).toBe('confirm');
+    expect(database?.input.mappedAction).toBe('confirm');
+  });
+});
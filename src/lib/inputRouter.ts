@@ -1,8 +1,15 @@
+import { WebRTCMessage } from './protocol';
+import type { MappingProfileRepository } from './repositories';
+
+// Spectators can be registered, but their inputs are never routed
+export type RoutedDeviceType = 'phone' | 'console' | 'spectator';
+
 export interface InputEvent {
   type: 'dpad' | 'button' | 'swipe' | 'touch' | 'accelerometer' | 'voice' | 'canvas';
   action: string;
   data: any;
   timestamp: number;
+  mappedAction?: string; // Resolved from the device's active InputMapping, if any
 }
 
 export interface ControllerInput {
@@ -21,115 +28,213 @@ export interface InputMapping {
   isActive: boolean;
 }
 
+export interface MappingDefinition {
+  inputType: string;
+  mappedAction: string;
+  isActive: boolean;
+}
+
+// Actions the console understands, in the order the remapping UI lists them
+export const CONSOLE_ACTIONS: Array<{ id: string; label: string }> = [
+  { id: 'move_up', label: 'Move Up' },
+  { id: 'move_down', label: 'Move Down' },
+  { id: 'move_left', label: 'Move Left' },
+  { id: 'move_right', label: 'Move Right' },
+  { id: 'confirm', label: 'Confirm' },
+  { id: 'back', label: 'Back' },
+  { id: 'open_files', label: 'Open Files' },
+  { id: 'voice_input', label: 'Voice Input' },
+  { id: 'canvas_draw', label: 'Canvas Draw' },
+  { id: 'canvas_clear', label: 'Canvas Clear' }
+];
+
+// Phone inputs a player can rebind
+export const REMAPPABLE_INPUTS: Array<{ inputType: string; label: string }> = [
+  { inputType: 'dpad.up', label: 'D-pad Up' },
+  { inputType: 'dpad.down', label: 'D-pad Down' },
+  { inputType: 'dpad.left', label: 'D-pad Left' },
+  { inputType: 'dpad.right', label: 'D-pad Right' },
+  { inputType: 'button.confirm', label: 'Confirm Button' },
+  { inputType: 'button.folder', label: 'Folder Button' },
+  { inputType: 'voice.recording', label: 'Voice' },
+  { inputType: 'canvas.draw_move', label: 'Canvas Draw' },
+  { inputType: 'canvas.clear', label: 'Canvas Clear' }
+];
+
+// Default phone controller mappings (simplified for new UI)
+export const DEFAULT_PHONE_MAPPINGS: MappingDefinition[] = [
+  { inputType: 'dpad.up', mappedAction: 'move_up', isActive: true },
+  { inputType: 'dpad.down', mappedAction: 'move_down', isActive: true },
+  { inputType: 'dpad.left', mappedAction: 'move_left', isActive: true },
+  { inputType: 'dpad.right', mappedAction: 'move_right', isActive: true },
+  { inputType: 'button.confirm', mappedAction: 'confirm', isActive: true },
+  { inputType: 'button.folder', mappedAction: 'open_files', isActive: true },
+  { inputType: 'voice.recording', mappedAction: 'voice_input', isActive: true },
+  { inputType: 'canvas.draw_move', mappedAction: 'canvas_draw', isActive: true },
+  { inputType: 'canvas.clear', mappedAction: 'canvas_clear', isActive: true }
+];
+
+const REMAPPABLE_INPUT_TYPES = new Set(REMAPPABLE_INPUTS.map(({ inputType }) => inputType));
+const CONSOLE_ACTION_IDS = new Set(CONSOLE_ACTIONS.map(({ id }) => id));
+
+// A profile may only bind inputs a player can rebind, each once, to actions the console knows.
+// Inactive entries record an input the player left unassigned.
+export const isValidMappingProfile = (mappings: MappingDefinition[]): boolean => {
+  const inputTypes = new Set(mappings.map(({ inputType }) => inputType));
+  return inputTypes.size === mappings.length && mappings.every(({ inputType, mappedAction, isActive }) =>
+    REMAPPABLE_INPUT_TYPES.has(inputType) && (!isActive || CONSOLE_ACTION_IDS.has(mappedAction))
+  );
+};
+
+// Profiles saved before an input got a default (e.g. button.confirm) don't mention it at all;
+// give those inputs their default binding instead of leaving the player without it
+export const withDefaultMappings = (mappings: MappingDefinition[]): MappingDefinition[] => [
+  ...mappings,
+  ...DEFAULT_PHONE_MAPPINGS.filter(({ inputType }) => !mappings.some(mapping => mapping.inputType === inputType))
+];
+
 export class InputRouter {
   private inputMappings = new Map<string, InputMapping[]>();
   private deviceNames = new Map<string, string>();
+  private deviceTypes = new Map<string, RoutedDeviceType>();
+  private mutedDevices = new Set<string>(); // Muted by the host; inputs are dropped
+  private pendingRegistrations = new Set<string>();
   private inputHistory: ControllerInput[] = [];
   private maxHistorySize = 100;
   
   private onInputCallback?: (input: ControllerInput) => void;
   private onMappingChangeCallback?: (deviceId: string, mappings: InputMapping[]) => void;
+  private mappingProfiles?: MappingProfileRepository; // Saved profiles; defaults only without
 
   constructor(
     onInput?: (input: ControllerInput) => void,
-    onMappingChange?: (deviceId: string, mappings: InputMapping[]) => void
+    onMappingChange?: (deviceId: string, mappings: InputMapping[]) => void,
+    mappingProfiles?: MappingProfileRepository
   ) {
     this.onInputCallback = onInput;
     this.onMappingChangeCallback = onMappingChange;
+    this.mappingProfiles = mappingProfiles;
   }
 
   // Register a device with its name for identification
-  registerDevice(deviceId: string, deviceName: string, deviceType: 'phone' | 'console' = 'phone') {
+  async registerDevice(deviceId: string, deviceName: string, deviceType: RoutedDeviceType = 'phone'): Promise<void> {
     this.deviceNames.set(deviceId, deviceName);
-    
-    // Set up default input mappings for new devices
-    if (!this.inputMappings.has(deviceId)) {
-      const defaultMappings = this.createDefaultMappings(deviceId, deviceName, deviceType);
-      this.inputMappings.set(deviceId, defaultMappings);
-      this.onMappingChangeCallback?.(deviceId, defaultMappings);
+    const previousType = this.deviceTypes.get(deviceId);
+    this.deviceTypes.set(deviceId, deviceType);
+
+    if (previousType && previousType !== deviceType) {
+      console.log(`🔁 [InputRouter] ${deviceName} is now a ${deviceType}`);
+    }
+
+    // Set up input mappings for new devices, preferring the player's saved profile.
+    // Spectators get theirs when they're promoted to player.
+    if (deviceType !== 'spectator' && !this.inputMappings.has(deviceId) && !this.pendingRegistrations.has(deviceId)) {
+      this.pendingRegistrations.add(deviceId);
+      try {
+        const savedMappings = deviceType === 'phone' ? await this.loadSavedMappings(deviceName) : null;
+        this.updateMappings(
+          deviceId,
+          this.buildMappings(deviceId, deviceName, savedMappings ?? this.createDefaultMappings(deviceType))
+        );
+      } finally {
+        this.pendingRegistrations.delete(deviceId);
+      }
     }
     
     console.log(`🎮 [InputRouter] Registered device: ${deviceName} (${deviceId.slice(-8)}) as ${deviceType}`);
   }
 
+  // Load a player's saved mapping profile from the repository
+  private async loadSavedMappings(playerName: string): Promise<MappingDefinition[] | null> {
+    if (!this.mappingProfiles) {
+      return null;
+    }
+
+    try {
+      const profile = await this.mappingProfiles.getForPlayer(playerName);
+      if (!profile) {
+        return null;
+      }
+
+      if (!isValidMappingProfile(profile.mappings)) {
+        console.warn(`⚠️ [InputRouter] Ignoring invalid mapping profile "${profile.profile_name}" for ${playerName}`);
+        return null;
+      }
+
+      console.log(`🗺️ [InputRouter] Loaded mapping profile "${profile.profile_name}" for ${playerName}`);
+      return withDefaultMappings(profile.mappings);
+    } catch (error) {
+      console.error(`❌ [InputRouter] Error loading mapping profile for ${playerName}:`, error);
+      return null;
+    }
+  }
+
   // Create default input mappings for a device
-  private createDefaultMappings(deviceId: string, deviceName: string, deviceType: 'phone' | 'console'): InputMapping[] {
+  private createDefaultMappings(deviceType: 'phone' | 'console'): MappingDefinition[] {
     if (deviceType === 'console') {
       return []; // Console doesn't need input mappings
     }
 
-    // Default phone controller mappings (simplified for new UI)
-    return [
-      {
-        deviceId,
-        deviceName,
-        inputType: 'dpad.up',
-        mappedAction: 'move_up',
-        isActive: true
-      },
-      {
-        deviceId,
-        deviceName,
-        inputType: 'dpad.down',
-        mappedAction: 'move_down',
-        isActive: true
-      },
-      {
-        deviceId,
-        deviceName,
-        inputType: 'dpad.left',
-        mappedAction: 'move_left',
-        isActive: true
-      },
-      {
-        deviceId,
-        deviceName,
-        inputType: 'dpad.right',
-        mappedAction: 'move_right',
-        isActive: true
-      },
-      {
-        deviceId,
-        deviceName,
-        inputType: 'button.folder',
-        mappedAction: 'open_files',
-        isActive: true
-      },
-      {
-        deviceId,
-        deviceName,
-        inputType: 'voice.recording',
-        mappedAction: 'voice_input',
-        isActive: true
-      },
-      {
-        deviceId,
-        deviceName,
-        inputType: 'canvas.draw_move',
-        mappedAction: 'canvas_draw',
-        isActive: true
-      }
-    ];
+    return DEFAULT_PHONE_MAPPINGS;
+  }
+
+  // Attach device identity to mapping definitions
+  private buildMappings(deviceId: string, deviceName: string, definitions: MappingDefinition[]): InputMapping[] {
+    return definitions.map(({ inputType, mappedAction, isActive }) => ({
+      deviceId,
+      deviceName,
+      inputType,
+      mappedAction,
+      isActive
+    }));
+  }
+
+  // Spectators watch; nothing they send reaches the editor
+  isSpectator(deviceId: string): boolean {
+    return this.deviceTypes.get(deviceId) === 'spectator';
+  }
+
+  // Mute or unmute a device; muted devices stay registered but their inputs are dropped
+  setMuted(deviceId: string, muted: boolean) {
+    if (muted === this.mutedDevices.has(deviceId)) return;
+
+    if (muted) {
+      this.mutedDevices.add(deviceId);
+    } else {
+      this.mutedDevices.delete(deviceId);
+    }
+    const deviceName = this.deviceNames.get(deviceId) || 'Unknown Device';
+    console.log(`${muted ? '🔇' : '🔊'} [InputRouter] ${deviceName} ${muted ? 'muted' : 'unmuted'}`);
+  }
+
+  isMuted(deviceId: string): boolean {
+    return this.mutedDevices.has(deviceId);
   }
 
   // Process incoming WebRTC message with input data
-  processWebRTCInput(deviceId: string, message: any): ControllerInput | null {
+  processWebRTCInput(deviceId: string, message: WebRTCMessage): ControllerInput | null {
     const deviceName = this.deviceNames.get(deviceId) || 'Unknown Device';
+
+    if (this.isSpectator(deviceId)) {
+      console.log(`👀 [InputRouter] Ignoring WebRTC input from spectator ${deviceName}`);
+      return null;
+    }
+
+    if (this.isMuted(deviceId)) {
+      console.log(`🔇 [InputRouter] Dropping WebRTC input from muted ${deviceName}`);
+      return null;
+    }
     
     console.log(`📨 [InputRouter] Processing WebRTC input from ${deviceName}:`, message.type);
 
     try {
-      // Handle different message types and extract input events
-      let inputEvent: InputEvent | null = null;
-
-      if (message.type === 'navigation' || message.type === 'game_data') {
-        inputEvent = this.extractInputFromMessage(message);
-      }
-
+      const inputEvent = this.extractInputFromMessage(message);
       if (!inputEvent) {
         return null;
       }
 
+      inputEvent.mappedAction = this.resolveMappedAction(deviceId, inputEvent);
+
       const controllerInput: ControllerInput = {
         deviceId,
         deviceName,
@@ -141,7 +246,7 @@ export class InputRouter {
       this.addToHistory(controllerInput);
       this.onInputCallback?.(controllerInput);
 
-      console.log(`✅ [InputRouter] Processed WebRTC input: ${inputEvent.type}.${inputEvent.action}`);
+      console.log(`✅ [InputRouter] Processed WebRTC input: ${inputEvent.type}.${inputEvent.action}${inputEvent.mappedAction ? ` → ${inputEvent.mappedAction}` : ''}`);
       return controllerInput;
 
     } catch (error) {
@@ -150,68 +255,34 @@ export class InputRouter {
     }
   }
 
-  // ENHANCED: Extract input event from various message formats including new types
-  private extractInputFromMessage(message: any): InputEvent | null {
-    const data = message.data;
-    
-    // Handle AirConsole-style dpad input
-    if (data?.dpad) {
-      const dpadData = data.dpad;
-      const actionKey = Object.keys(dpadData)[0];
-      const actionData = dpadData[actionKey];
-      
-      return {
-        type: 'dpad',
-        action: actionData.direction || actionKey,
-        data: actionData,
-        timestamp: message.timestamp || Date.now()
-      };
-    }
-
-    // Handle button input
-    if (data?.button) {
-      const buttonName = Object.keys(data.button)[0];
-      const buttonData = data.button[buttonName];
-      return {
-        type: 'button',
-        action: buttonName,
-        data: buttonData,
-        timestamp: message.timestamp || Date.now()
-      };
-    }
-
-    // NEW: Handle voice input
-    if (data?.voice) {
-      const voiceAction = Object.keys(data.voice)[0];
-      const voiceData = data.voice[voiceAction];
-      console.log(`🎤 [InputRouter] Extracted voice input: ${voiceAction}`, voiceData);
-      return {
-        type: 'voice',
-        action: voiceAction,
-        data: voiceData,
-        timestamp: message.timestamp || Date.now()
-      };
-    }
-
-    // NEW: Handle canvas input
-    if (data?.canvas) {
-      const canvasAction = Object.keys(data.canvas)[0];
-      const canvasData = data.canvas[canvasAction];
-      console.log(`🎨 [InputRouter] Extracted canvas input: ${canvasAction}`, canvasData);
-      return {
-        type: 'canvas',
-        action: canvasAction,
-        data: canvasData,
-        timestamp: message.timestamp || Date.now()
-      };
+  // Extract the input event from a validated game_data/navigation message
+  private extractInputFromMessage(message: WebRTCMessage): InputEvent | null {
+    if ((message.type !== 'navigation' && message.type !== 'game_data') || message.data.kind !== 'input') {
+      return null;
     }
 
-    return null;
+    const { type, action, data } = message.data.input;
+    return {
+      type,
+      action,
+      data,
+      timestamp: message.timestamp || Date.now()
+    };
   }
 
   // Process device input from database
   processDeviceInput(deviceInput: any): ControllerInput | null {
     const deviceName = this.deviceNames.get(deviceInput.device_id) || 'Unknown Device';
+
+    if (this.isSpectator(deviceInput.device_id)) {
+      console.log(`👀 [InputRouter] Ignoring device input from spectator ${deviceName}`);
+      return null;
+    }
+
+    if (this.isMuted(deviceInput.device_id)) {
+      console.log(`🔇 [InputRouter] Dropping device input from muted ${deviceName}`);
+      return null;
+    }
     
     console.log(`📡 [InputRouter] Processing device input from ${deviceName}:`, deviceInput.input_type, deviceInput.input_action);
 
@@ -223,6 +294,8 @@ export class InputRouter {
         timestamp: new Date(deviceInput.timestamp).getTime()
       };
 
+      inputEvent.mappedAction = this.resolveMappedAction(deviceInput.device_id, inputEvent);
+
       const controllerInput: ControllerInput = {
         deviceId: deviceInput.device_id,
         deviceName,
@@ -234,7 +307,7 @@ export class InputRouter {
       this.addToHistory(controllerInput);
       this.onInputCallback?.(controllerInput);
 
-      console.log(`✅ [InputRouter] Processed device input: ${inputEvent.type}.${inputEvent.action}`);
+      console.log(`✅ [InputRouter] Processed device input: ${inputEvent.type}.${inputEvent.action}${inputEvent.mappedAction ? ` → ${inputEvent.mappedAction}` : ''}`);
       return controllerInput;
 
     } catch (error) {
@@ -243,6 +316,97 @@ export class InputRouter {
     }
   }
 
+  // Resolve an input event against the device's active mappings
+  private resolveMappedAction(deviceId: string, inputEvent: InputEvent): string | undefined {
+    const inputType = `${inputEvent.type}.${inputEvent.action}`;
+    const mapping = this.inputMappings.get(deviceId)?.find(m => m.inputType === inputType && m.isActive);
+    return mapping?.mappedAction;
+  }
+
+  // Replace a device's mappings and notify listeners
+  private updateMappings(deviceId: string, mappings: InputMapping[]) {
+    this.inputMappings.set(deviceId, mappings);
+    this.onMappingChangeCallback?.(deviceId, mappings);
+  }
+
+  // Get the current mappings for a device
+  getMappings(deviceId: string): InputMapping[] {
+    return this.inputMappings.get(deviceId) || [];
+  }
+
+  // Replace all mappings for a device, e.g. after the player saves a new profile
+  setMappings(deviceId: string, definitions: MappingDefinition[]) {
+    const deviceName = this.deviceNames.get(deviceId) || 'Unknown Device';
+    this.updateMappings(deviceId, this.buildMappings(deviceId, deviceName, definitions));
+    console.log(`🗺️ [InputRouter] Applied ${definitions.length} mappings for ${deviceName}`);
+  }
+
+  // Apply the profile a phone sent for itself. Only registered, unmuted players may change
+  // their mappings, and only to a valid profile; returns whether it was applied
+  applyMappingProfile(deviceId: string, definitions: MappingDefinition[]): boolean {
+    const deviceName = this.deviceNames.get(deviceId) || 'Unknown Device';
+
+    if (this.deviceTypes.get(deviceId) !== 'phone' || this.isMuted(deviceId)) {
+      console.warn(`⚠️ [InputRouter] Ignoring mapping profile from ${deviceName}, not an active player`);
+      return false;
+    }
+
+    if (!isValidMappingProfile(definitions)) {
+      console.warn(`⚠️ [InputRouter] Ignoring invalid mapping profile from ${deviceName}`);
+      return false;
+    }
+
+    this.setMappings(deviceId, withDefaultMappings(definitions));
+    return true;
+  }
+
+  // Add or replace the mapping for an input type (e.g. 'dpad.up')
+  addMapping(deviceId: string, inputType: string, mappedAction: string, isActive: boolean = true) {
+    const deviceName = this.deviceNames.get(deviceId) || 'Unknown Device';
+    const mappings = this.getMappings(deviceId).filter(m => m.inputType !== inputType);
+    mappings.push({ deviceId, deviceName, inputType, mappedAction, isActive });
+
+    this.updateMappings(deviceId, mappings);
+    console.log(`🗺️ [InputRouter] Mapped ${inputType} → ${mappedAction} for ${deviceName}`);
+  }
+
+  // Remove the mapping for an input type
+  removeMapping(deviceId: string, inputType: string): boolean {
+    const mappings = this.getMappings(deviceId);
+    const remaining = mappings.filter(m => m.inputType !== inputType);
+    if (remaining.length === mappings.length) {
+      return false;
+    }
+
+    this.updateMappings(deviceId, remaining);
+    console.log(`🗺️ [InputRouter] Removed mapping for ${inputType} (${deviceId.slice(-8)})`);
+    return true;
+  }
+
+  // Enable a mapping without changing its action
+  enableMapping(deviceId: string, inputType: string): boolean {
+    return this.setMappingActive(deviceId, inputType, true);
+  }
+
+  // Disable a mapping so the input is routed without a mapped action
+  disableMapping(deviceId: string, inputType: string): boolean {
+    return this.setMappingActive(deviceId, inputType, false);
+  }
+
+  private setMappingActive(deviceId: string, inputType: string, isActive: boolean): boolean {
+    const mappings = this.getMappings(deviceId);
+    if (!mappings.some(m => m.inputType === inputType)) {
+      return false;
+    }
+
+    this.updateMappings(
+      deviceId,
+      mappings.map(m => (m.inputType === inputType ? { ...m, isActive } : m))
+    );
+    console.log(`🗺️ [InputRouter] ${isActive ? 'Enabled' : 'Disabled'} mapping ${inputType} (${deviceId.slice(-8)})`);
+    return true;
+  }
+
   // Add input to history with size limit
   private addToHistory(input: ControllerInput) {
     this.inputHistory.unshift(input);
@@ -274,6 +438,8 @@ export class InputRouter {
   unregisterDevice(deviceId: string) {
     const deviceName = this.deviceNames.get(deviceId);
     this.deviceNames.delete(deviceId);
+    this.deviceTypes.delete(deviceId);
+    this.mutedDevices.delete(deviceId);
     this.inputMappings.delete(deviceId);
     
     // Remove from history
@@ -285,6 +451,8 @@ export class InputRouter {
   // Clear all data
   clear() {
     this.deviceNames.clear();
+    this.deviceTypes.clear();
+    this.mutedDevices.clear();
     this.inputMappings.clear();
     this.inputHistory = [];
     console.log('🧹 [InputRouter] Cleared all input router data');
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { LatencyTracker } from './latency';
+import type { PongPayload } from './protocol';
+
+// Ping/pong bookkeeping: a peer whose clock runs 500ms ahead, 20ms away each way
+
+const PEER_AHEAD = 500;
+
+// A pong for a ping sent at `sentAt`, taking `oneWay` ms each way and `hold` ms on the peer
+const pong = (sentAt: number, oneWay = 20, hold = 5): { pong: PongPayload; receivedAt: number } => ({
+  pong: {
+    pingId: 1,
+    sentAt,
+    receivedAt: sentAt + oneWay + PEER_AHEAD,
+    repliedAt: sentAt + oneWay + hold + PEER_AHEAD
+  },
+  receivedAt: sentAt + 2 * oneWay + hold
+});
+
+describe('LatencyTracker', () => {
+  it('takes the peer time out of the round trip and finds the clock offset', () => {
+    const tracker = new LatencyTracker();
+    const { pong: payload, receivedAt } = pong(1000);
+
+    expect(tracker.recordPong('phone-1', payload, receivedAt)).toEqual({
+      rtt: 40,
+      clockOffset: PEER_AHEAD,
+      pingSamples: 1,
+      updatedAt: receivedAt
+    });
+  });
+
+  it('smooths later samples into moving averages', () => {
+    const tracker = new LatencyTracker();
+    const first = pong(1000);
+    const slower = pong(3000, 45);
+
+    tracker.recordPong('phone-1', first.pong, first.receivedAt);
+    const stats = tracker.recordPong('phone-1', slower.pong, slower.receivedAt);
+
+    expect(stats.rtt).toBe(50);
+    expect(stats.clockOffset).toBe(PEER_AHEAD);
+    expect(stats.pingSamples).toBe(2);
+  });
+
+  it('never reports a negative round trip', () => {
+    const tracker = new LatencyTracker();
+
+    const stats = tracker.recordPong('phone-1', { pingId: 1, sentAt: 1000, receivedAt: 1500, repliedAt: 1600 }, 1010);
+
+    expect(stats.rtt).toBe(0);
+  });
+
+  it('measures input latency on the local clock once the offset is known', () => {
+    const tracker = new LatencyTracker();
+    const sentAt = 2000 + PEER_AHEAD;
+
+    expect(tracker.recordInput('phone-1', sentAt, 2030)).toBeUndefined();
+    expect(tracker.get('phone-1')).toBeUndefined();
+
+    const { pong: payload, receivedAt } = pong(1000);
+    tracker.recordPong('phone-1', payload, receivedAt);
+
+    expect(tracker.recordInput('phone-1', sentAt, 2030)).toBe(30);
+    expect(tracker.recordInput('phone-1', sentAt + 100, 2180)).toBe(80);
+    expect(tracker.get('phone-1')).toMatchObject({ inputLatency: 80, averageInputLatency: 40, rtt: 40, updatedAt: 2180 });
+  });
+
+  it('keeps peers apart and forgets them on request', () => {
+    const tracker = new LatencyTracker();
+    const first = pong(1000);
+    const second = pong(1000, 60);
+
+    tracker.recordPong('phone-1', first.pong, first.receivedAt);
+    tracker.recordPong('phone-2', second.pong, second.receivedAt);
+    expect(Object.keys(tracker.getAll())).toEqual(['phone-1', 'phone-2']);
+    expect(tracker.get('phone-2')?.rtt).toBe(120);
+
+    tracker.remove('phone-1');
+    expect(tracker.get('phone-1')).toBeUndefined();
+
+    tracker.clear();
+    expect(tracker.getAll()).toEqual({});
+  });
+});
@@ -0,0 +1,86 @@
+import { PongPayload } from './protocol';
+
+export interface PeerLatency {
+  rtt?: number; // Smoothed round-trip time in ms
+  clockOffset?: number; // Smoothed peer clock minus local clock in ms
+  inputLatency?: number; // Last one-way input latency in ms (needs clockOffset)
+  averageInputLatency?: number; // Smoothed one-way input latency in ms
+  pingSamples: number;
+  updatedAt: number;
+}
+
+// Weight of the newest sample in the moving averages
+const SMOOTHING = 0.2;
+
+const smooth = (previous: number | undefined, sample: number) => {
+  return previous === undefined ? sample : previous + SMOOTHING * (sample - previous);
+};
+
+/*
+  Per-peer latency bookkeeping for the ping/pong protocol.
+
+  With t0 = ping sent (local), t1 = ping received (peer), t2 = pong sent (peer) and
+  t3 = pong received (local), NTP-style:
+    rtt    = (t3 - t0) - (t2 - t1)
+    offset = ((t1 - t0) + (t2 - t3)) / 2
+
+  Input latency converts the sender's InputEvent timestamp to the local clock with the
+  offset, so it is only available once at least one pong came back.
+*/
+export class LatencyTracker {
+  private peers = new Map<string, PeerLatency>();
+
+  // Record a pong answering one of our pings; returns the updated stats
+  recordPong(deviceId: string, pong: PongPayload, receivedAt: number = Date.now()): PeerLatency {
+    const rtt = Math.max(0, (receivedAt - pong.sentAt) - (pong.repliedAt - pong.receivedAt));
+    const offset = ((pong.receivedAt - pong.sentAt) + (pong.repliedAt - receivedAt)) / 2;
+    const current = this.getOrCreate(deviceId);
+
+    const updated: PeerLatency = {
+      ...current,
+      rtt: smooth(current.rtt, rtt),
+      clockOffset: smooth(current.clockOffset, offset),
+      pingSamples: current.pingSamples + 1,
+      updatedAt: receivedAt
+    };
+    this.peers.set(deviceId, updated);
+    return updated;
+  }
+
+  // Record an input stamped with the sender's clock; returns the latency or undefined
+  recordInput(deviceId: string, sentAt: number, receivedAt: number = Date.now()): number | undefined {
+    const current = this.peers.get(deviceId);
+    if (current?.clockOffset === undefined) {
+      return undefined;
+    }
+
+    const latency = Math.max(0, receivedAt - (sentAt - current.clockOffset));
+    this.peers.set(deviceId, {
+      ...current,
+      inputLatency: latency,
+      averageInputLatency: smooth(current.averageInputLatency, latency),
+      updatedAt: receivedAt
+    });
+    return latency;
+  }
+
+  get(deviceId: string): PeerLatency | undefined {
+    return this.peers.get(deviceId);
+  }
+
+  getAll(): Record<string, PeerLatency> {
+    return Object.fromEntries(this.peers);
+  }
+
+  remove(deviceId: string) {
+    this.peers.delete(deviceId);
+  }
+
+  clear() {
+    this.peers.clear();
+  }
+
+  private getOrCreate(deviceId: string): PeerLatency {
+    return this.peers.get(deviceId) || { pingSamples: 0, updatedAt: Date.now() };
+  }
+}
@@ -0,0 +1,55 @@
+/*
+  Lobby access
+
+  Lobby codes are short and end up on screen and in links, so the console can protect a
+  lobby further:
+
+    open   anyone with the code joins (the default)
+    pin    phones also need the numeric PIN shown on the console; the server checks it,
+           and only a hash is stored (see 20250709090000_open_door.sql). After
+           PIN_MAX_ATTEMPTS wrong PINs in a row, PIN joins to the lobby are refused for
+           PIN_LOCKOUT_MINUTES (see 20250710090000_tight_seal.sql)
+    knock  phones join as `pending` devices that the console or the host phone approves
+           or denies; pending devices don't get a controller, presence-based removal or
+           the host role until they are approved, and denying one deletes it
+
+  The console itself is never held back. The local server and the memory repositories
+  follow the same rules.
+*/
+
+export type JoinMode = 'open' | 'pin' | 'knock';
+
+export const JOIN_MODES: JoinMode[] = ['open', 'pin', 'knock'];
+
+// Devices waiting at the door of a knock-mode lobby are pending
+export type DeviceStatus = 'active' | 'pending';
+
+export const PIN_LENGTH = 4;
+
+// Wrong PINs in a row before a lobby stops taking PINs for a while
+export const PIN_MAX_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MINUTES = 5;
+
+// SQLSTATE raised when a phone joins a PIN lobby without the right PIN
+export const PIN_REQUIRED_SQLSTATE = 'VC003';
+
+export const generateLobbyPin = (): string => {
+  let pin = '';
+  for (let i = 0; i < PIN_LENGTH; i++) {
+    pin += Math.floor(Math.random() * 10).toString();
+  }
+  return pin;
+};
+
+export const isValidPin = (pin: string): boolean => new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin);
+
+export const describeJoinMode = (mode: JoinMode): string => {
+  switch (mode) {
+    case 'open':
+      return 'Anyone with the code can join';
+    case 'pin':
+      return 'Players need the PIN shown here';
+    case 'knock':
+      return 'You approve each player who knocks';
+  }
+};
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryRepositories } from './memoryRepositories';
+import { InputRouter, type ControllerInput } from './inputRouter';
+import { PROTOCOL_VERSION, createInputPayload, parseWebRTCMessage, type WebRTCMessage } from './protocol';
+import { followLobbyLock, shouldLinkToConsole, type PhoneGameStatus } from './consoleLink';
+import { PLANS } from './plans';
+import type { Session } from './supabase';
+
+// The lobby -> lock -> editor flow against the in-memory repositories, without a browser
+
+const waitFor = async (condition: () => boolean, timeout = 1000) => {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('lobby flow', () => {
+  it('locks the lobby on an editor and routes the host phone with its saved profile', async () => {
+    const repositories = createMemoryRepositories();
+
+    // Console opens a lobby; a phone joins as host and brings its saved profile
+    const session = await repositories.sessions.create('ABCD');
+    expect(session).not.toBeNull();
+    const { device: consoleDevice } = await repositories.devices.join(session!.id, 'Console', 'console');
+    const { device: phone } = await repositories.devices.join(session!.id, 'Ada', 'phone', true);
+    expect(consoleDevice && phone).toBeTruthy();
+    await repositories.mappingProfiles.save('Ada', 'Lefty', [
+      { inputType: 'dpad.up', mappedAction: 'move_down', isActive: true },
+      { inputType: 'button.confirm', mappedAction: 'confirm', isActive: true }
+    ]);
+
+    const sessionChanges: Session[] = [];
+    const unsubscribe = repositories.sessions.subscribe(session!.id, change => {
+      if (change.new) sessionChanges.push(change.new);
+    });
+
+    // The host picks an editor, which locks the lobby for everyone watching the session
+    expect(await repositories.sessions.lock(session!.id, 'bolt')).toBe(true);
+    await waitFor(() => sessionChanges.some(change => change.is_locked));
+    expect(sessionChanges.at(-1)).toMatchObject({ is_locked: true, selected_editor: 'bolt' });
+    unsubscribe();
+
+    // The console routes the phone's inputs through the profile it loaded from the repositories
+    const routed: ControllerInput[] = [];
+    const router = new InputRouter(input => routed.push(input), undefined, repositories.mappingProfiles);
+    for (const device of await repositories.devices.listBySession(session!.id)) {
+      await router.registerDevice(device.id, device.name, device.device_type);
+    }
+
+    // Over the relay, as a phone without a data channel would send it
+    const consoleRelay = repositories.relay.open(session!.id, consoleDevice!.id, (text, from) => {
+      router.processWebRTCInput(from, parseWebRTCMessage(text));
+    }, () => {});
+    const phoneRelay = repositories.relay.open(session!.id, phone!.id, () => {}, () => {});
+    await Promise.all([consoleRelay.connect(), phoneRelay.connect()]);
+    expect(phoneRelay.sendText(consoleDevice!.id, JSON.stringify({
+      type: 'game_data',
+      version: PROTOCOL_VERSION,
+      senderId: phone!.id,
+      data: createInputPayload('dpad', 'up', { pressed: true })
+    }))).toBe(true);
+    await waitFor(() => routed.length === 1);
+    consoleRelay.close();
+    phoneRelay.close();
+
+    expect(routed[0]).toMatchObject({ deviceId: phone!.id, deviceName: 'Ada' });
+    expect(routed[0].input.mappedAction).toBe('move_down');
+  });
+
+  it('links a spectator who joined before the lock to the console once the lobby locks', async () => {
+    const repositories = createMemoryRepositories();
+    const session = await repositories.sessions.create('WXYZ');
+    const { device: consoleDevice } = await repositories.devices.join(session!.id, 'Console', 'console');
+    await repositories.devices.join(session!.id, 'Ada', 'phone', true);
+    const { device: spectator } = await repositories.devices.join(session!.id, 'Eve', 'spectator');
+
+    // The spectator's phone: the lobby as it loaded it, then the session row it follows
+    let isLobbyLocked = (await repositories.sessions.getByCode('WXYZ'))!.is_locked;
+    let gameStatus: PhoneGameStatus = 'waiting';
+    const linked = () => shouldLinkToConsole({
+      sessionId: session!.id,
+      deviceId: spectator!.id,
+      isLobbyLocked,
+      sessionEnded: false,
+      isPending: false
+    });
+    const unsubscribe = repositories.sessions.subscribe(session!.id, change => {
+      if (!change.new) return;
+      isLobbyLocked = change.new.is_locked;
+      gameStatus = followLobbyLock(gameStatus, isLobbyLocked);
+    });
+    expect(linked()).toBe(false);
+
+    expect(await repositories.sessions.lock(session!.id)).toBe(true);
+    await waitFor(() => isLobbyLocked);
+    unsubscribe();
+    expect(linked()).toBe(true);
+    expect(gameStatus).toBe('editor_selection');
+
+    // Linked, it hears the console's chat and the players' sketches
+    const received: WebRTCMessage[] = [];
+    const consoleRelay = repositories.relay.open(session!.id, consoleDevice!.id, () => {}, () => {});
+    const spectatorRelay = repositories.relay.open(session!.id, spectator!.id, text => {
+      received.push(parseWebRTCMessage(text));
+    }, () => {});
+    await Promise.all([consoleRelay.connect(), spectatorRelay.connect()]);
+    const envelope = { version: PROTOCOL_VERSION, senderId: consoleDevice!.id, timestamp: Date.now() };
+    consoleRelay.sendText(spectator!.id, JSON.stringify({ ...envelope, type: 'chat', data: { text: 'gg', fromName: 'Ada' } }));
+    consoleRelay.sendText(spectator!.id, JSON.stringify({
+      ...envelope,
+      type: 'sketch',
+      data: { playerId: 'ada', input: { type: 'canvas', action: 'clear', data: {} } }
+    }));
+    await waitFor(() => received.length === 2);
+    consoleRelay.close();
+    spectatorRelay.close();
+
+    expect(received.map(message => message.type)).toEqual(['chat', 'sketch']);
+  });
+
+  it('falls back to the default mappings for players without a profile', async () => {
+    const repositories = createMemoryRepositories();
+    const session = await repositories.sessions.create('EFGH');
+    const { device: phone } = await repositories.devices.join(session!.id, 'Grace', 'phone');
+
+    const router = new InputRouter(undefined, undefined, repositories.mappingProfiles);
+    await router.registerDevice(phone!.id, phone!.name, 'phone');
+
+    expect(router.getMappings(phone!.id).find(mapping => mapping.inputType === 'dpad.up')?.mappedAction).toBe('move_up');
+  });
+
+  it('opens lobbies only with a plan\'s seat count', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const repositories = createMemoryRepositories();
+
+    expect(await repositories.sessions.create('MNOP', 100)).toBeNull();
+    const session = await repositories.sessions.create('MNOP', PLANS.pro.maxPlayers);
+    expect(session).toMatchObject({ max_players: 6 });
+  });
+
+  it('stops taking PINs after too many wrong ones, until the console sets a new PIN', async () => {
+    const repositories = createMemoryRepositories();
+    const session = await repositories.sessions.create('IJKL');
+    const { device: consoleDevice } = await repositories.devices.join(session!.id, 'Console', 'console');
+    expect(await repositories.sessions.setAccess(session!.id, consoleDevice!.id, 'pin', '4321')).toBe(true);
+
+    for (const guess of ['0000', '0001', '0002', '0003', '0004']) {
+      expect((await repositories.devices.join(session!.id, 'Mallory', 'phone', false, null, guess)).error).toBe('pin_required');
+    }
+    expect((await repositories.devices.join(session!.id, 'Grace', 'phone', false, null, '4321')).error).toBe('pin_locked');
+
+    await repositories.sessions.setAccess(session!.id, consoleDevice!.id, 'pin', '5678');
+    expect((await repositories.devices.join(session!.id, 'Grace', 'phone', false, null, '5678')).device).not.toBeNull();
+  });
+
+  it('makes only the first phone host, whatever other devices ask for', async () => {
+    const repositories = createMemoryRepositories();
+    const session = await repositories.sessions.create('QRST');
+    const { device: consoleDevice } = await repositories.devices.join(session!.id, 'Console', 'console', true);
+    const { device: spectator } = await repositories.devices.join(session!.id, 'Eve', 'spectator', true);
+    const { device: host } = await repositories.devices.join(session!.id, 'Ada', 'phone', true);
+    const { device: second } = await repositories.devices.join(session!.id, 'Grace', 'phone', true);
+
+    expect(consoleDevice?.is_host).toBe(true);
+    expect(spectator?.is_host).toBe(false);
+    expect(host?.is_host).toBe(true);
+    expect(second?.is_host).toBe(false);
+    expect((await repositories.sessions.get(session!.id))?.host_device_id).toBe(host!.id);
+  });
+
+  it('lets spectators watch a full lobby and seats them only when there is room', async () => {
+    const repositories = createMemoryRepositories();
+    const session = await repositories.sessions.create('UVWX', PLANS.free.maxPlayers);
+    const phones = [];
+    for (let i = 0; i < PLANS.free.maxPlayers; i++) {
+      phones.push((await repositories.devices.join(session!.id, `Player ${i}`, 'phone', i === 0)).device!);
+    }
+
+    expect((await repositories.devices.join(session!.id, 'Late', 'phone')).error).toBe('lobby_full');
+    const { device: spectator } = await repositories.devices.join(session!.id, 'Eve', 'spectator');
+    expect(spectator).toMatchObject({ device_type: 'spectator', is_host: false });
+
+    expect(await repositories.devices.promote(spectator!.id)).toEqual({ device: null, error: 'lobby_full', maxPlayers: PLANS.free.maxPlayers });
+    expect((await repositories.devices.promote(phones[1].id)).error).toBe('failed');
+
+    await repositories.devices.remove(phones[1].id);
+    expect((await repositories.devices.promote(spectator!.id)).device).toMatchObject({ id: spectator!.id, device_type: 'phone', is_host: false });
+    expect((await repositories.devices.join(session!.id, 'Late', 'phone')).error).toBe('lobby_full');
+  });
+});
@@ -0,0 +1,287 @@
+import type { SignalingStatus } from './signaling';
+
+/*
+  Client for the local server (server/localServer.js)
+
+  One WebSocket per page, shared by the repositories, signaling and the relay
+  transport. Requests are matched to replies by id. Subscriptions survive reconnects:
+  they are re-registered on the new socket and report SUBSCRIBED/CLOSED like Supabase
+  channels do. The server only lets a connection act for devices it joined or resumed,
+  so after a reconnect the devices are claimed back first with their access tokens.
+
+  VITE_LOCAL_SERVER_URL sets the address; by default the server is expected on port 8787
+  of the host that served the page, which is what phones on the same LAN need.
+*/
+
+export type LocalServerTopic = 'sessions' | 'devices' | 'device_inputs' | 'webrtc_signals' | 'relay' | 'presence';
+
+export interface LocalServerChange<T = unknown> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: T | null;
+  old: T | null;
+}
+
+export class LocalServerError extends Error {
+  code: string;
+  // Extra fields some errors carry, e.g. maxPlayers for lobby_full
+  details: Record<string, unknown>;
+
+  constructor(code: string, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'LocalServerError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+interface Subscription {
+  topic: LocalServerTopic;
+  filter: { sessionId?: string; deviceId?: string };
+  onChange: (change: LocalServerChange) => void;
+  onStatus?: (status: SignalingStatus) => void;
+  serverId?: string;
+  registering?: boolean;
+}
+
+const REQUEST_TIMEOUT = 10000;
+const RECONNECT_BASE_DELAY = 500;
+const RECONNECT_MAX_DELAY = 10000;
+
+export const getLocalServerUrl = (): string => {
+  const configured = import.meta.env.VITE_LOCAL_SERVER_URL;
+  if (configured) return configured;
+
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.hostname}:8787`;
+};
+
+export class LocalServerClient {
+  private url: string;
+  private socket?: WebSocket;
+  private opening?: Promise<WebSocket>;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private subscriptions = new Map<number, Subscription>();
+  private nextSubscriptionId = 1;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private deviceAccess = new Map<string, string>(); // device id -> access token
+
+  constructor(url: string = getLocalServerUrl()) {
+    this.url = url;
+  }
+
+  // Run an operation on the server; rejects with LocalServerError when the server refuses it
+  async request<T>(op: string, params: Record<string, unknown> = {}): Promise<T> {
+    const socket = await this.open();
+    const id = this.nextRequestId++;
+
+    return new Promise<T>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new LocalServerError('timeout', `${op} timed out`));
+      }, REQUEST_TIMEOUT);
+
+      this.pending.set(id, { resolve: result => resolve(result as T), reject, timeout });
+      socket.send(JSON.stringify({ id, op, params }));
+    });
+  }
+
+  // Receive changes for a topic until the returned function is called
+  subscribe<T>(
+    topic: LocalServerTopic,
+    filter: { sessionId?: string; deviceId?: string },
+    onChange: (change: LocalServerChange<T>) => void,
+    onStatus?: (status: SignalingStatus) => void
+  ): () => void {
+    const localId = this.nextSubscriptionId++;
+    const subscription: Subscription = {
+      topic,
+      filter,
+      onChange: onChange as (change: LocalServerChange) => void,
+      onStatus
+    };
+    this.subscriptions.set(localId, subscription);
+    this.register(localId, subscription);
+
+    return () => {
+      this.subscriptions.delete(localId);
+      if (subscription.serverId && this.socket?.readyState === WebSocket.OPEN) {
+        this.request('unsubscribe', { subscription: subscription.serverId }).catch(() => undefined);
+      }
+      subscription.onStatus?.('CLOSED');
+    };
+  }
+
+  // Keep a device's access token so a new connection can act for it again
+  rememberDevice(deviceId: string, accessToken: string) {
+    this.deviceAccess.set(deviceId, accessToken);
+  }
+
+  close() {
+    clearTimeout(this.reconnectTimer);
+    this.subscriptions.clear();
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  private async register(localId: number, subscription: Subscription) {
+    subscription.registering = true;
+    try {
+      const { subscription: serverId } = await this.request<{ subscription: string }>('subscribe', {
+        topic: subscription.topic,
+        ...subscription.filter
+      });
+
+      // Unsubscribed while the request was in flight
+      if (!this.subscriptions.has(localId)) {
+        this.request('unsubscribe', { subscription: serverId }).catch(() => undefined);
+        return;
+      }
+
+      subscription.serverId = serverId;
+      subscription.onStatus?.('SUBSCRIBED');
+    } catch (error) {
+      console.error(`❌ [LocalServer] Failed to subscribe to ${subscription.topic}:`, error);
+      subscription.onStatus?.('CHANNEL_ERROR');
+    } finally {
+      subscription.registering = false;
+    }
+  }
+
+  private open(): Promise<WebSocket> {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      return Promise.resolve(this.socket);
+    }
+
+    if (!this.opening) {
+      this.opening = new Promise<WebSocket>((resolve, reject) => {
+        const socket = new WebSocket(this.url);
+
+        socket.onopen = () => {
+          console.log(`🔌 [LocalServer] Connected to ${this.url}`);
+          this.socket = socket;
+          this.opening = undefined;
+          this.reconnectAttempts = 0;
+          resolve(socket);
+        };
+
+        socket.onmessage = (event) => this.handleMessage(event.data);
+
+        socket.onclose = () => {
+          const wasOpen = this.socket === socket;
+          if (wasOpen) this.socket = undefined;
+          this.opening = undefined;
+          this.failPending();
+          reject(new LocalServerError('unavailable', `could not connect to ${this.url}`));
+
+          if (wasOpen) {
+            console.log('🔌 [LocalServer] Connection lost');
+            this.subscriptions.forEach(subscription => {
+              subscription.serverId = undefined;
+              subscription.onStatus?.('CLOSED');
+            });
+          }
+          this.scheduleReconnect();
+        };
+      });
+    }
+
+    return this.opening;
+  }
+
+  // Reconnect while anything is subscribed, then re-register every subscription
+  private scheduleReconnect() {
+    if (this.subscriptions.size === 0 || this.reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.open().then(
+        async () => {
+          await this.claimDevices();
+          this.subscriptions.forEach((subscription, localId) => {
+            if (!subscription.serverId && !subscription.registering) {
+              this.register(localId, subscription);
+            }
+          });
+        },
+        () => undefined // onclose already scheduled the next attempt
+      );
+    }, delay);
+  }
+
+  // Act for our devices again on a new connection; forget those the server no longer has
+  private async claimDevices() {
+    await Promise.all([...this.deviceAccess].map(async ([deviceId, accessToken]) => {
+      try {
+        const claimed = await this.request<boolean>('claimDevice', { deviceId, accessToken });
+        if (!claimed) this.deviceAccess.delete(deviceId);
+      } catch (error) {
+        console.error(`❌ [LocalServer] Failed to claim device ${deviceId.slice(-8)}:`, error);
+      }
+    }));
+  }
+
+  private failPending() {
+    this.pending.forEach(request => {
+      clearTimeout(request.timeout);
+      request.reject(new LocalServerError('unavailable', 'connection to local server lost'));
+    });
+    this.pending.clear();
+  }
+
+  private handleMessage(data: unknown) {
+    if (typeof data !== 'string') return;
+
+    let message;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      console.error('❌ [LocalServer] Dropping non-JSON message');
+      return;
+    }
+
+    if (typeof message.subscription === 'string') {
+      this.subscriptions.forEach(subscription => {
+        if (subscription.serverId === message.subscription) {
+          subscription.onChange({ eventType: message.eventType, new: message.new, old: message.old });
+        }
+      });
+      return;
+    }
+
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    this.pending.delete(message.id);
+    clearTimeout(request.timeout);
+    if (message.ok) {
+      request.resolve(message.result);
+    } else {
+      request.reject(new LocalServerError(
+        message.error?.code || 'internal',
+        message.error?.message || 'request failed',
+        message.error?.details
+      ));
+    }
+  }
+}
+
+let sharedClient: LocalServerClient | undefined;
+
+// The page-wide client, created on first use
+export const getLocalServerClient = (): LocalServerClient => {
+  if (!sharedClient) {
+    sharedClient = new LocalServerClient();
+  }
+  return sharedClient;
+};
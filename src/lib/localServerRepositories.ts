@@ -0,0 +1,169 @@
+import type { Device, InputMappingProfile, LobbySummary, Session, SessionUpdate } from './supabase';
+import { LocalSignalingBackend } from './signaling';
+import { LocalRelayTransport } from './transport';
+import type { PresenceMembers, PresenceMeta } from './presence';
+import type { ModerationEntry } from './moderation';
+import { getLocalServerClient, LocalServerClient, LocalServerError } from './localServer';
+import type { DeviceJoinResult, Repositories } from './repositories';
+
+// Repositories backed by the local server (server/localServer.js)
+
+export const createLocalServerRepositories = (client: LocalServerClient = getLocalServerClient()): Repositories => {
+  // Run a server operation, logging failures and returning the fallback like the Supabase helpers
+  const call = async <T>(op: string, params: Record<string, unknown>, fallback: T): Promise<T> => {
+    try {
+      return await client.request<T>(op, params);
+    } catch (error) {
+      console.error(`❌ [LocalServer] ${op} failed:`, error);
+      return fallback;
+    }
+  };
+
+  // Devices the server returns from joins and resumes carry an access token; the client
+  // keeps it to act for the device again after a reconnect
+  const claim = (result: Device & { access_token?: string }): Device => {
+    const { access_token: accessToken, ...device } = result;
+    if (accessToken) client.rememberDevice(device.id, accessToken);
+    return device;
+  };
+
+  // Run an operation that seats a device, reporting lobby_full with the session's capacity,
+  // bans, and missing or locked PINs
+  const seat = async (op: string, params: Record<string, unknown>): Promise<DeviceJoinResult> => {
+    try {
+      const device = claim(await client.request<Device>(op, params));
+      return { device, error: null };
+    } catch (error) {
+      if (error instanceof LocalServerError && error.code === 'lobby_full') {
+        console.warn('🚫 [LocalServer] Lobby is full:', error.message);
+        const { maxPlayers } = error.details;
+        return { device: null, error: 'lobby_full', maxPlayers: typeof maxPlayers === 'number' ? maxPlayers : undefined };
+      }
+      if (error instanceof LocalServerError && error.code === 'banned') {
+        console.warn('🚫 [LocalServer] Banned from this session:', error.message);
+        return { device: null, error: 'banned' };
+      }
+      if (error instanceof LocalServerError && error.code === 'pin_required') {
+        console.warn('🔢 [LocalServer] Wrong or missing lobby PIN');
+        return { device: null, error: 'pin_required' };
+      }
+      if (error instanceof LocalServerError && error.code === 'pin_locked') {
+        console.warn('🔒 [LocalServer] Too many wrong PINs, lobby PINs locked for now');
+        return { device: null, error: 'pin_locked' };
+      }
+      console.error(`❌ [LocalServer] ${op} failed:`, error);
+      return { device: null, error: 'failed' };
+    }
+  };
+
+  const updateSession = async (sessionId: string, changes: SessionUpdate) => {
+    const session = await call<Session | null>('updateSession', { sessionId, changes }, null);
+    return session !== null;
+  };
+
+  return {
+    kind: 'local',
+
+    async checkConnection() {
+      try {
+        await client.request('ping');
+      } catch (error) {
+        throw new Error(`Local server error: ${error instanceof Error ? error.message : 'unreachable'}`);
+      }
+    },
+
+    sessions: {
+      create: (code, maxPlayers) => call<Session | null>('createSession', { code, maxPlayers }, null),
+      get: sessionId => call<Session | null>('getSession', { sessionId }, null),
+      getByCode: code => call<LobbySummary | null>('getSessionByCode', { code }, null),
+      update: updateSession,
+      lock: (sessionId, selectedEditor) => updateSession(sessionId, { is_locked: true, selected_editor: selectedEditor || null }),
+      end: async (sessionId, reason = 'ended_by_host') => {
+        const session = await call<Session | null>('endSession', { sessionId, reason }, null);
+        return session !== null;
+      },
+      transferHost: (sessionId, deviceId, expectedHostId) =>
+        call<boolean>('transferHost', { sessionId, deviceId, expectedHostId }, false),
+      moderate: (sessionId, hostDeviceId, deviceId, action) =>
+        call<boolean>('moderateDevice', { sessionId, hostDeviceId, deviceId, action }, false),
+      lastModeration: (sessionId, deviceId) =>
+        call<ModerationEntry | null>('getLastModeration', { sessionId, deviceId }, null),
+      setAccess: (sessionId, consoleDeviceId, mode, pin) =>
+        call<boolean>('setLobbyAccess', { sessionId, consoleDeviceId, mode, pin }, false),
+      setIceConfig: (sessionId, consoleDeviceId, config) =>
+        call<boolean>('setIceConfig', { sessionId, consoleDeviceId, config }, false),
+      subscribe: (sessionId, onChange, onStatus) => client.subscribe<Session>('sessions', { sessionId }, onChange, onStatus)
+    },
+
+    devices: {
+      create: (sessionId: string, name: string, deviceType: Device['device_type'] = 'phone', isHost: boolean = false) =>
+        call<Device | null>('createDevice', { sessionId, name, deviceType, isHost }, null).then(device => device && claim(device)),
+      join: (
+        sessionId: string,
+        name: string,
+        deviceType: Device['device_type'] = 'phone',
+        isHost: boolean = false,
+        token?: string | null,
+        pin?: string | null
+      ) => seat('createDevice', { sessionId, name, deviceType, isHost, token, pin }),
+      review: (sessionId, reviewerDeviceId, deviceId, approve) =>
+        call<boolean>('reviewJoin', { sessionId, reviewerDeviceId, deviceId, approve }, false),
+      promote: deviceId => seat('promoteDevice', { deviceId }),
+      listBySession: sessionId => call<Device[]>('getSessionDevices', { sessionId }, []),
+      touch: async deviceId => {
+        const device = await call<Device | null>('touchDevice', { deviceId }, null);
+        return device !== null;
+      },
+      remove: async deviceId => call<boolean>('deleteDevice', { deviceId }, false),
+      issueToken: deviceId => call<string | null>('issueDeviceToken', { deviceId }, null),
+      resume: (sessionId, token) => call<Device | null>('resumeDevice', { sessionId, token }, null).then(device => device && claim(device)),
+      subscribe: (sessionId, onChange, onStatus) => client.subscribe<Device>('devices', { sessionId }, onChange, onStatus)
+    },
+
+    // Both go through the server, which names the sender of everything it passes on
+    signals: {
+      open: (sessionId, deviceId) => new LocalSignalingBackend(sessionId, deviceId)
+    },
+
+    relay: {
+      open: (sessionId, deviceId, onText, onBinary, onReadyChange, onSendFailed) =>
+        new LocalRelayTransport(sessionId, deviceId, onText, onBinary, onReadyChange, onSendFailed)
+    },
+
+    presence: {
+      join(sessionId, meta, onSync, onStatus) {
+        let current: PresenceMeta = meta;
+        let subscribed = false;
+        const track = () => {
+          call('trackPresence', { sessionId, deviceId: current.device_id, meta: current }, null);
+        };
+
+        // Presence belongs to the server connection, so announce again after every reconnect
+        const unsubscribe = client.subscribe<{ members: PresenceMembers }>('presence', { sessionId }, change => {
+          if (change.new) onSync(change.new.members);
+        }, status => {
+          subscribed = status === 'SUBSCRIBED';
+          if (subscribed) track();
+          onStatus?.(status);
+        });
+
+        return {
+          update(changes) {
+            current = { ...current, ...changes };
+            if (subscribed) track();
+          },
+          leave() {
+            call('untrackPresence', { sessionId, deviceId: current.device_id }, null);
+            unsubscribe();
+          }
+        };
+      }
+    },
+
+    mappingProfiles: {
+      getForPlayer: playerName => call<InputMappingProfile | null>('getMappingProfile', { playerName }, null),
+      save: (playerName, profileName, mappings) =>
+        call<InputMappingProfile | null>('saveMappingProfile', { playerName, profileName, mappings }, null)
+    }
+  };
+};
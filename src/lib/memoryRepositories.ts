@@ -0,0 +1,633 @@
+import type { Device, InputMappingProfile, LobbySummary, Session, SessionEndReason, SessionUpdate } from './supabase';
+import type { DeviceJoinResult, Repositories, RowChange, SubscriptionStatus } from './repositories';
+import { PLANS, DEFAULT_PLAN, isPlanCapacity } from './plans';
+import type { PresenceMembers, PresenceMeta } from './presence';
+import { getLastModeration, isBanned, normalizeBannedName, type ModerationAction } from './moderation';
+import { PIN_LOCKOUT_MINUTES, PIN_MAX_ATTEMPTS, isValidPin } from './lobbyAccess';
+import type { IceConfig } from './iceConfig';
+import { MemoryRelay, MemoryRelayTransport, MemorySignalingBackend, MemorySignalingBus } from './webrtcHarness';
+
+/*
+  In-memory repositories
+
+  Everything lives in this page, so a console and its phones only see each other when
+  they share one instance - which is what a headless test of the lobby -> lock -> editor
+  flow wants. Rows copy the Postgres defaults and constraints the app relies on (unique
+  active lobby codes, devices ordered by joined_at, lobby capacity, bans, lobby access).
+
+  Change events arrive asynchronously like postgres_changes, after `eventDelay` ms, and
+  subscriptions report SUBSCRIBED the same way, as do signals and relayed messages (on
+  the harness's buses, see webrtcHarness.ts). Presence lasts until a member leaves;
+  there is no connection to lose. Device resume tokens are random rather than signed, and
+  lobby PINs are kept as they are - the maps below are the only things that see them.
+*/
+
+export interface MemoryRepositoryOptions {
+  eventDelay?: number;
+}
+
+interface Listener<T> {
+  matches: (row: T) => boolean;
+  onChange: (change: RowChange<T>) => void;
+}
+
+export interface MemoryRepositories extends Repositories {
+  // Current rows, for assertions
+  snapshot(): { sessions: Session[]; devices: Device[] };
+  // End active sessions whose devices were all last seen more than idleMs ago, like
+  // expire_inactive_sessions(); returns how many ended
+  expireInactive(idleMs: number): number;
+  // Drop all rows and subscriptions
+  reset(): void;
+}
+
+export const createMemoryRepositories = (options: MemoryRepositoryOptions = {}): MemoryRepositories => {
+  const eventDelay = options.eventDelay ?? 0;
+
+  const sessionRows = new Map<string, Session>();
+  const deviceRows = new Map<string, Device>();
+  const deviceTokens = new Map<string, string>(); // token -> device id
+  const lobbyPins = new Map<string, { pin: string; failedAttempts: number; lockedUntil: number }>(); // session id -> PIN
+  const mappingProfileRows = new Map<string, InputMappingProfile>(); // player name -> profile
+
+  const sessionListeners = new Set<Listener<Session>>();
+  const deviceListeners = new Set<Listener<Device>>();
+  let signalingBus = new MemorySignalingBus({ latency: eventDelay });
+  let relay = new MemoryRelay({ latency: eventDelay });
+
+  // session id -> device id -> meta, and who is watching each session
+  const presenceMembers = new Map<string, Map<string, PresenceMeta>>();
+  const presenceWatchers = new Map<string, Set<(members: PresenceMembers) => void>>();
+
+  const later = (callback: () => void) => {
+    setTimeout(callback, eventDelay);
+  };
+
+  const emit = <T>(listeners: Set<Listener<T>>, change: RowChange<T>) => {
+    const row = (change.new || change.old) as T;
+    listeners.forEach(listener => {
+      if (listener.matches(row)) {
+        later(() => {
+          // Unsubscribed before delivery
+          if (listeners.has(listener)) listener.onChange(change);
+        });
+      }
+    });
+  };
+
+  const listen = <T>(
+    listeners: Set<Listener<T>>,
+    matches: (row: T) => boolean,
+    onChange: (change: RowChange<T>) => void,
+    onStatus?: (status: SubscriptionStatus) => void
+  ): (() => void) => {
+    const listener: Listener<T> = { matches, onChange };
+    listeners.add(listener);
+    later(() => {
+      if (listeners.has(listener)) onStatus?.('SUBSCRIBED');
+    });
+
+    return () => {
+      if (listeners.delete(listener)) onStatus?.('CLOSED');
+    };
+  };
+
+  const updateSession = async (sessionId: string, changes: SessionUpdate) => {
+    const old = sessionRows.get(sessionId);
+    if (!old) {
+      console.error('❌ [Memory] Session not found:', sessionId.slice(-8));
+      return false;
+    }
+
+    const session: Session = { ...old, ...changes };
+    sessionRows.set(sessionId, session);
+    emit(sessionListeners, { eventType: 'UPDATE', new: session, old });
+    return true;
+  };
+
+  // transfer_host(): devices.is_host and sessions.host_device_id change together
+  const transferHost = (sessionId: string, newHostId: string, expectedHostId?: string) => {
+    const old = sessionRows.get(sessionId);
+    const newHost = deviceRows.get(newHostId);
+    if (!old?.is_active || !newHost || newHost.session_id !== sessionId || newHost.device_type !== 'phone') return false;
+    if (newHost.status !== 'active') return false;
+    if (expectedHostId && old.host_device_id !== expectedHostId) return false;
+
+    deviceRows.forEach(previous => {
+      if (previous.session_id !== sessionId || previous.is_host === (previous.id === newHostId)) return;
+      const device: Device = { ...previous, is_host: previous.id === newHostId };
+      deviceRows.set(device.id, device);
+      emit(deviceListeners, { eventType: 'UPDATE', new: device, old: previous });
+    });
+
+    const session: Session = { ...old, host_device_id: newHostId };
+    sessionRows.set(sessionId, session);
+    emit(sessionListeners, { eventType: 'UPDATE', new: session, old });
+    return true;
+  };
+
+  // The session's capacity if every seat is taken, null while there's room
+  const fullCapacity = (session: Session, exceptDeviceId?: string): number | null => {
+    const maxPlayers = session.max_players ?? PLANS[DEFAULT_PLAN].maxPlayers;
+    const seated = [...deviceRows.values()]
+      .filter(device => device.session_id === session.id && device.device_type === 'phone' && device.id !== exceptDeviceId)
+      .length;
+    return seated >= maxPlayers ? maxPlayers : null;
+  };
+
+  // Insert a device, refusing phones past max_players like enforce_lobby_capacity(), banned
+  // players like refuse_banned_device() and holding them at the door like guard_lobby_access()
+  const joinSession = (
+    sessionId: string,
+    name: string,
+    deviceType: Device['device_type'],
+    isHost: boolean,
+    token?: string | null,
+    pin?: string | null
+  ): DeviceJoinResult => {
+    const session = sessionRows.get(sessionId);
+    if (!session) {
+      console.error('❌ [Memory] Session not found:', sessionId.slice(-8));
+      return { device: null, error: 'failed' };
+    }
+
+    if (isBanned(session, name, token)) {
+      console.warn('🚫 [Memory] Banned from this session:', name);
+      return { device: null, error: 'banned' };
+    }
+
+    // Like join_session(): wrong PINs are counted, and too many in a row lock PIN joins
+    if (deviceType !== 'console' && session.join_mode === 'pin') {
+      const lobbyPin = lobbyPins.get(sessionId);
+      if (pin && lobbyPin && lobbyPin.lockedUntil > Date.now()) {
+        console.warn('🔒 [Memory] Too many wrong PINs for', session.code);
+        return { device: null, error: 'pin_locked' };
+      }
+      if (!pin || !lobbyPin || lobbyPin.pin !== pin) {
+        if (pin && lobbyPin && ++lobbyPin.failedAttempts >= PIN_MAX_ATTEMPTS) {
+          lobbyPin.failedAttempts = 0;
+          lobbyPin.lockedUntil = Date.now() + PIN_LOCKOUT_MINUTES * 60 * 1000;
+        }
+        console.warn('🔢 [Memory] Wrong or missing lobby PIN:', session.code);
+        return { device: null, error: 'pin_required' };
+      }
+      lobbyPin.failedAttempts = 0;
+    }
+    const pending = deviceType !== 'console' && session.join_mode === 'knock';
+
+    const maxPlayers = fullCapacity(session);
+    if (deviceType === 'phone' && maxPlayers !== null) {
+      console.warn('🚫 [Memory] Lobby is full:', session.code);
+      return { device: null, error: 'lobby_full', maxPlayers };
+    }
+
+    // Like join_session(): the console, or the first phone; later hosts come from election or transfer
+    const hasHostPhone = [...deviceRows.values()]
+      .some(device => device.session_id === sessionId && device.device_type === 'phone' && device.is_host);
+    const host = isHost && !pending && (deviceType === 'console' || (deviceType === 'phone' && !hasHostPhone));
+
+    const now = new Date().toISOString();
+    // Keep joined_at strictly increasing so ordering is stable within a millisecond
+    const lastJoined = Math.max(0, ...[...deviceRows.values()].map(device => device.joined_at));
+    const device: Device = {
+      id: crypto.randomUUID(),
+      session_id: sessionId,
+      name,
+      device_type: deviceType,
+      is_host: host,
+      status: pending ? 'pending' : 'active',
+      joined_at: Math.max(Date.now(), lastJoined + 1),
+      last_seen: now,
+      connected_at: now,
+      token_issued_at: null,
+      is_muted: false
+    };
+    deviceRows.set(device.id, device);
+    emit(deviceListeners, { eventType: 'INSERT', new: device, old: null });
+
+    // trigger_record_session_host, which only records phones
+    if (device.is_host && device.device_type === 'phone' && !session.host_device_id) {
+      const updated: Session = { ...session, host_device_id: device.id };
+      sessionRows.set(sessionId, updated);
+      emit(sessionListeners, { eventType: 'UPDATE', new: updated, old: session });
+    }
+    return { device, error: null };
+  };
+
+  // Delete a device; a deleted host hands over like trigger_elect_host_on_delete
+  const removeDevice = (deviceId: string) => {
+    const old = deviceRows.get(deviceId);
+    if (!old) return false;
+
+    deviceRows.delete(deviceId);
+    deviceTokens.forEach((id, token) => {
+      if (id === deviceId) deviceTokens.delete(token);
+    });
+    emit(deviceListeners, { eventType: 'DELETE', new: null, old });
+
+    const session = sessionRows.get(old.session_id);
+    if (session?.host_device_id === deviceId) {
+      const cleared: Session = { ...session, host_device_id: null };
+      sessionRows.set(session.id, cleared);
+
+      const nextHost = [...deviceRows.values()]
+        .filter(device => device.session_id === session.id && device.device_type === 'phone' && device.status === 'active')
+        .sort((a, b) => a.joined_at - b.joined_at)[0];
+      if (!nextHost || !transferHost(session.id, nextHost.id)) {
+        emit(sessionListeners, { eventType: 'UPDATE', new: cleared, old: session });
+      }
+    }
+    return true;
+  };
+
+  // moderate_device(): only the host, never on itself or the console, logged on the session
+  const moderateDevice = (sessionId: string, hostDeviceId: string, deviceId: string, action: ModerationAction) => {
+    const old = sessionRows.get(sessionId);
+    const target = deviceRows.get(deviceId);
+    if (!old?.is_active || old.host_device_id !== hostDeviceId || deviceId === hostDeviceId) return false;
+    if (!target || target.session_id !== sessionId || target.device_type === 'console') return false;
+
+    // Log first, so a removed phone finds out why when its row disappears
+    const session: Session = {
+      ...old,
+      moderation_log: [...(old.moderation_log || []), { action, device_id: deviceId, name: target.name, at: new Date().toISOString() }]
+    };
+    if (action === 'ban') {
+      const name = normalizeBannedName(target.name);
+      session.banned_names = [...(old.banned_names || []).filter(banned => banned !== name), name];
+      session.banned_device_ids = [...(old.banned_device_ids || []).filter(id => id !== deviceId), deviceId];
+    }
+    sessionRows.set(sessionId, session);
+    emit(sessionListeners, { eventType: 'UPDATE', new: session, old });
+
+    if (action === 'kick' || action === 'ban') {
+      return removeDevice(deviceId);
+    }
+
+    const device: Device = { ...target, is_muted: action === 'mute' };
+    deviceRows.set(deviceId, device);
+    emit(deviceListeners, { eventType: 'UPDATE', new: device, old: target });
+    return true;
+  };
+
+  // set_ice_config(): console-only
+  const setIceConfig = (sessionId: string, consoleDeviceId: string, config: IceConfig | null) => {
+    const old = sessionRows.get(sessionId);
+    const consoleDevice = deviceRows.get(consoleDeviceId);
+    if (!old?.is_active || consoleDevice?.session_id !== sessionId || consoleDevice.device_type !== 'console') return false;
+
+    const session: Session = { ...old, ice_config: config };
+    sessionRows.set(sessionId, session);
+    emit(sessionListeners, { eventType: 'UPDATE', new: session, old });
+    return true;
+  };
+
+  // set_lobby_access(): console-only, a 4-digit PIN for 'pin' lobbies
+  const setLobbyAccess = (sessionId: string, consoleDeviceId: string, mode: Session['join_mode'], pin?: string) => {
+    const old = sessionRows.get(sessionId);
+    const consoleDevice = deviceRows.get(consoleDeviceId);
+    if (!old?.is_active || consoleDevice?.session_id !== sessionId || consoleDevice.device_type !== 'console') return false;
+    if (mode === 'pin' && !(pin && isValidPin(pin))) return false;
+
+    if (mode === 'pin' && pin) {
+      lobbyPins.set(sessionId, { pin, failedAttempts: 0, lockedUntil: 0 });
+    } else {
+      lobbyPins.delete(sessionId);
+    }
+
+    const session: Session = { ...old, join_mode: mode };
+    sessionRows.set(sessionId, session);
+    emit(sessionListeners, { eventType: 'UPDATE', new: session, old });
+    return true;
+  };
+
+  // review_join(): the console or host lets a pending device in, or denies it
+  const reviewJoin = (sessionId: string, reviewerDeviceId: string, deviceId: string, approve: boolean) => {
+    const session = sessionRows.get(sessionId);
+    const reviewer = deviceRows.get(reviewerDeviceId);
+    const target = deviceRows.get(deviceId);
+    if (!session?.is_active || reviewer?.session_id !== sessionId || reviewer.status !== 'active') return false;
+    if (reviewer.device_type !== 'console' && session.host_device_id !== reviewerDeviceId) return false;
+    if (target?.session_id !== sessionId || target.status !== 'pending') return false;
+
+    if (!approve) return removeDevice(deviceId);
+
+    const device: Device = { ...target, status: 'active' };
+    deviceRows.set(deviceId, device);
+    emit(deviceListeners, { eventType: 'UPDATE', new: device, old: target });
+
+    const hasHost = [...deviceRows.values()]
+      .some(other => other.session_id === sessionId && other.device_type === 'phone' && other.status === 'active' && other.is_host);
+    if (device.device_type === 'phone' && !hasHost) {
+      transferHost(sessionId, deviceId);
+    }
+    return true;
+  };
+
+  const syncPresence = (sessionId: string) => {
+    const members: PresenceMembers = Object.fromEntries(presenceMembers.get(sessionId) || []);
+    presenceWatchers.get(sessionId)?.forEach(onSync => {
+      later(() => {
+        if (presenceWatchers.get(sessionId)?.has(onSync)) onSync(members);
+      });
+    });
+  };
+
+  // ended_at/end_reason are stamped like the database does; clients never set them
+  const endSession = (sessionId: string, reason: SessionEndReason) => {
+    const old = sessionRows.get(sessionId);
+    if (!old) {
+      console.error('❌ [Memory] Session not found:', sessionId.slice(-8));
+      return false;
+    }
+    if (!old.is_active) return true;
+
+    const session: Session = { ...old, is_active: false, ended_at: new Date().toISOString(), end_reason: reason };
+    sessionRows.set(sessionId, session);
+    emit(sessionListeners, { eventType: 'UPDATE', new: session, old });
+    return true;
+  };
+
+  return {
+    kind: 'memory',
+
+    async checkConnection() {
+      // Always reachable
+    },
+
+    sessions: {
+      async create(code, maxPlayers = PLANS[DEFAULT_PLAN].maxPlayers) {
+        if (!isPlanCapacity(maxPlayers)) {
+          console.error('❌ [Memory] No plan seats', maxPlayers, 'players');
+          return null;
+        }
+
+        const taken = [...sessionRows.values()].some(session => session.is_active && session.code === code);
+        if (taken) {
+          // idx_sessions_code_unique
+          console.error('❌ [Memory] An active session already uses code', code);
+          return null;
+        }
+
+        const session: Session = {
+          id: crypto.randomUUID(),
+          code,
+          is_active: true,
+          is_locked: false,
+          selected_editor: null,
+          ice_config: null,
+          host_device_id: null,
+          max_players: maxPlayers,
+          banned_names: [],
+          banned_device_ids: [],
+          moderation_log: [],
+          join_mode: 'open',
+          created_at: new Date().toISOString()
+        };
+        sessionRows.set(session.id, session);
+        emit(sessionListeners, { eventType: 'INSERT', new: session, old: null });
+        return session;
+      },
+
+      async get(sessionId) {
+        return sessionRows.get(sessionId) || null;
+      },
+
+      // Like find_session(), only what a phone needs before it joins
+      async getByCode(code) {
+        const session = [...sessionRows.values()].find(row => row.is_active && row.code === code);
+        if (!session) return null;
+
+        const summary: LobbySummary = {
+          id: session.id,
+          code: session.code,
+          is_active: session.is_active,
+          is_locked: session.is_locked,
+          selected_editor: session.selected_editor,
+          join_mode: session.join_mode,
+          max_players: session.max_players,
+          pin_required: session.join_mode === 'pin'
+        };
+        return summary;
+      },
+
+      update: updateSession,
+
+      lock(sessionId, selectedEditor) {
+        return updateSession(sessionId, { is_locked: true, selected_editor: selectedEditor || null });
+      },
+
+      async end(sessionId, reason = 'ended_by_host') {
+        return endSession(sessionId, reason);
+      },
+
+      async transferHost(sessionId, deviceId, expectedHostId) {
+        return transferHost(sessionId, deviceId, expectedHostId);
+      },
+
+      async moderate(sessionId, hostDeviceId, deviceId, action) {
+        return moderateDevice(sessionId, hostDeviceId, deviceId, action);
+      },
+
+      async lastModeration(sessionId, deviceId) {
+        const session = sessionRows.get(sessionId);
+        return session ? getLastModeration(session, deviceId) : null;
+      },
+
+      async setAccess(sessionId, consoleDeviceId, mode, pin) {
+        return setLobbyAccess(sessionId, consoleDeviceId, mode, pin);
+      },
+
+      async setIceConfig(sessionId, consoleDeviceId, config) {
+        return setIceConfig(sessionId, consoleDeviceId, config);
+      },
+
+      subscribe(sessionId, onChange, onStatus) {
+        return listen(sessionListeners, session => session.id === sessionId, onChange, onStatus);
+      }
+    },
+
+    devices: {
+      async create(sessionId: string, name: string, deviceType: Device['device_type'] = 'phone', isHost: boolean = false) {
+        return joinSession(sessionId, name, deviceType, isHost).device;
+      },
+
+      async join(
+        sessionId: string,
+        name: string,
+        deviceType: Device['device_type'] = 'phone',
+        isHost: boolean = false,
+        token?: string | null,
+        pin?: string | null
+      ) {
+        return joinSession(sessionId, name, deviceType, isHost, token, pin);
+      },
+
+      async review(sessionId, reviewerDeviceId, deviceId, approve) {
+        return reviewJoin(sessionId, reviewerDeviceId, deviceId, approve);
+      },
+
+      async listBySession(sessionId) {
+        return [...deviceRows.values()]
+          .filter(device => device.session_id === sessionId)
+          .sort((a, b) => a.joined_at - b.joined_at);
+      },
+
+      async touch(deviceId) {
+        const old = deviceRows.get(deviceId);
+        if (!old) return false;
+
+        const device: Device = { ...old, last_seen: new Date().toISOString() };
+        deviceRows.set(deviceId, device);
+        emit(deviceListeners, { eventType: 'UPDATE', new: device, old });
+        return true;
+      },
+
+      async issueToken(deviceId) {
+        const old = deviceRows.get(deviceId);
+        if (!old || old.token_issued_at) return null;
+
+        const token = `v1.${deviceId}.${crypto.randomUUID()}`;
+        deviceRows.set(deviceId, { ...old, token_issued_at: new Date().toISOString() });
+        deviceTokens.set(token, deviceId);
+        return token;
+      },
+
+      async resume(sessionId, token) {
+        const old = deviceRows.get(deviceTokens.get(token) || '');
+        if (!old || old.session_id !== sessionId || !sessionRows.get(sessionId)?.is_active) return null;
+
+        const now = new Date().toISOString();
+        const device: Device = { ...old, last_seen: now, connected_at: now };
+        deviceRows.set(device.id, device);
+        emit(deviceListeners, { eventType: 'UPDATE', new: device, old });
+        return device;
+      },
+
+      async promote(deviceId) {
+        const old = deviceRows.get(deviceId);
+        const session = old && sessionRows.get(old.session_id);
+        if (!old || !session || old.device_type !== 'spectator') {
+          console.error('❌ [Memory] Not a spectator:', deviceId.slice(-8));
+          return { device: null, error: 'failed' };
+        }
+
+        const maxPlayers = fullCapacity(session, deviceId);
+        if (maxPlayers !== null) return { device: null, error: 'lobby_full', maxPlayers };
+
+        const device: Device = { ...old, device_type: 'phone' };
+        deviceRows.set(deviceId, device);
+        emit(deviceListeners, { eventType: 'UPDATE', new: device, old });
+        return { device, error: null };
+      },
+
+      async remove(deviceId) {
+        return removeDevice(deviceId);
+      },
+
+      subscribe(sessionId, onChange, onStatus) {
+        return listen(deviceListeners, device => device.session_id === sessionId, onChange, onStatus);
+      }
+    },
+
+    signals: {
+      open: (sessionId, deviceId) => new MemorySignalingBackend(signalingBus, sessionId, deviceId)
+    },
+
+    relay: {
+      open: (sessionId, deviceId, onText, onBinary, onReadyChange) =>
+        new MemoryRelayTransport(relay, sessionId, deviceId, onText, onBinary, onReadyChange)
+    },
+
+    presence: {
+      join(sessionId, meta, onSync, onStatus) {
+        const deviceId = meta.device_id;
+        if (!presenceMembers.has(sessionId)) presenceMembers.set(sessionId, new Map());
+        if (!presenceWatchers.has(sessionId)) presenceWatchers.set(sessionId, new Set());
+
+        const watchers = presenceWatchers.get(sessionId)!;
+        watchers.add(onSync);
+        presenceMembers.get(sessionId)!.set(deviceId, meta);
+        later(() => {
+          if (watchers.has(onSync)) onStatus?.('SUBSCRIBED');
+        });
+        syncPresence(sessionId);
+
+        return {
+          update(changes) {
+            const members = presenceMembers.get(sessionId);
+            const current = members?.get(deviceId);
+            if (!members || !current) return;
+
+            members.set(deviceId, { ...current, ...changes });
+            syncPresence(sessionId);
+          },
+          leave() {
+            if (!watchers.delete(onSync)) return;
+            presenceMembers.get(sessionId)?.delete(deviceId);
+            onStatus?.('CLOSED');
+            syncPresence(sessionId);
+          }
+        };
+      }
+    },
+
+    mappingProfiles: {
+      async getForPlayer(playerName) {
+        return mappingProfileRows.get(playerName) ?? null;
+      },
+
+      async save(playerName, profileName, mappings) {
+        // One profile per player name, like the upsert on player_name
+        const now = new Date().toISOString();
+        const existing = mappingProfileRows.get(playerName);
+        const profile: InputMappingProfile = {
+          id: existing?.id ?? crypto.randomUUID(),
+          player_name: playerName,
+          profile_name: profileName,
+          mappings,
+          created_at: existing?.created_at ?? now,
+          updated_at: now
+        };
+        mappingProfileRows.set(playerName, profile);
+        return profile;
+      }
+    },
+
+    snapshot() {
+      return {
+        sessions: [...sessionRows.values()],
+        devices: [...deviceRows.values()]
+      };
+    },
+
+    expireInactive(idleMs) {
+      const cutoff = Date.now() - idleMs;
+      const idle = [...sessionRows.values()].filter(session => {
+        if (!session.is_active) return false;
+        const seen = [...deviceRows.values()]
+          .filter(device => device.session_id === session.id)
+          .map(device => new Date(device.last_seen).getTime());
+        // A session without devices counts from its creation
+        return Math.max(new Date(session.created_at).getTime(), ...seen) < cutoff;
+      });
+
+      idle.forEach(session => endSession(session.id, 'expired'));
+      return idle.length;
+    },
+
+    reset() {
+      sessionRows.clear();
+      deviceRows.clear();
+      deviceTokens.clear();
+      lobbyPins.clear();
+      mappingProfileRows.clear();
+      sessionListeners.clear();
+      deviceListeners.clear();
+      signalingBus = new MemorySignalingBus({ latency: eventDelay });
+      relay = new MemoryRelay({ latency: eventDelay });
+      presenceMembers.clear();
+      presenceWatchers.clear();
+    }
+  };
+};
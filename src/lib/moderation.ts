@@ -0,0 +1,76 @@
+import type { Session } from './supabase';
+
+/*
+  Host moderation
+
+  The host phone can kick, ban, mute or unmute any other phone or spectator:
+
+    kick    removes the device; the console closes its WebRTC peer and the phone may join again
+    ban     removes the device and refuses its name (case-insensitive) and its resume
+            token in this session from then on
+    mute    keeps the device but the console's InputRouter drops its inputs (devices.is_muted)
+    unmute  undoes a mute
+
+  Every action is appended to `sessions.moderation_log`, which the console shows next to
+  its player list and a removed phone reads to tell a kick from a ban. See
+  moderate_device() in 20250708090000_firm_hand.sql; the local server and the memory
+  repositories follow the same rules.
+
+  Resume tokens look like `v1.<device id>.<signature>` (20250704090000_steady_anchor.sql),
+  so a ban records the device id and a phone joining again hands over the token it
+  still has from its last visit (see deviceIdentity.ts).
+*/
+
+export type ModerationAction = 'kick' | 'ban' | 'mute' | 'unmute';
+
+export const MODERATION_ACTIONS: ModerationAction[] = ['kick', 'ban', 'mute', 'unmute'];
+
+export interface ModerationEntry {
+  action: ModerationAction;
+  device_id: string;
+  name: string;
+  at: string; // ISO timestamp
+}
+
+// SQLSTATE raised by refuse_banned_device() when a banned player joins
+export const BANNED_SQLSTATE = 'VC002';
+
+// Names are banned regardless of case and surrounding spaces
+export const normalizeBannedName = (name: string): string => name.trim().toLowerCase();
+
+// Device id a resume token was issued for, without checking its signature
+export const getTokenDeviceId = (token: string): string | null => {
+  const [version, deviceId, signature] = token.split('.');
+  return version === 'v1' && deviceId && signature ? deviceId : null;
+};
+
+// Whether a player with this name (and optionally this old token) is banned from the session
+export const isBanned = (session: Pick<Session, 'banned_names' | 'banned_device_ids'>, name: string, token?: string | null): boolean => {
+  if ((session.banned_names || []).includes(normalizeBannedName(name))) return true;
+
+  const deviceId = token ? getTokenDeviceId(token) : null;
+  return deviceId !== null && (session.banned_device_ids || []).includes(deviceId);
+};
+
+// Most recent action taken against a device
+export const getLastModeration = (session: Pick<Session, 'moderation_log'>, deviceId: string): ModerationEntry | null => {
+  const log = session.moderation_log || [];
+  for (let i = log.length - 1; i >= 0; i--) {
+    if (log[i].device_id === deviceId) return log[i];
+  }
+  return null;
+};
+
+// One line for the console's moderation list
+export const describeModeration = (entry: ModerationEntry): string => {
+  switch (entry.action) {
+    case 'kick':
+      return `${entry.name} was kicked`;
+    case 'ban':
+      return `${entry.name} was banned`;
+    case 'mute':
+      return `${entry.name} was muted`;
+    case 'unmute':
+      return `${entry.name} was unmuted`;
+  }
+};
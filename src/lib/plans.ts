@@ -0,0 +1,35 @@
+/*
+  Plans and lobby capacity
+
+  The console picks a plan when it creates a session and stores the plan's seat count as
+  `sessions.max_players`. The database (enforce_lobby_capacity), the local server and
+  the memory repositories refuse phones beyond it, so the limit holds however many
+  phones join at once. The landing page's pricing cards read the same numbers.
+
+  The seat count is not a paid limit. There are no accounts or payments behind the plans:
+  create_session() only checks that `max_players` is one of the plans' seat counts, so any
+  console can open a Pro-sized lobby. Charging for Pro needs an entitlement the server can
+  check before it hands out 6 seats.
+*/
+
+export type PlanId = 'free' | 'pro';
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  maxPlayers: number;
+}
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: { id: 'free', name: 'Free', maxPlayers: 4 },
+  pro: { id: 'pro', name: 'Pro', maxPlayers: 6 }
+};
+
+export const DEFAULT_PLAN: PlanId = 'free';
+
+// Lobbies can only be created with one of the plans' seat counts (create_session())
+export const isPlanCapacity = (maxPlayers: number): boolean =>
+  Object.values(PLANS).some(plan => plan.maxPlayers === maxPlayers);
+
+// SQLSTATE raised by enforce_lobby_capacity() when a phone joins a full lobby
+export const LOBBY_FULL_SQLSTATE = 'VC001';
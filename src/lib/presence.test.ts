@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDLE_AFTER, getPresenceStatus, type PresenceMembers, type PresenceMeta } from './presence';
+import { createMemoryRepositories } from './memoryRepositories';
+
+// Presence status as the console derives it, and the presence channel of the memory repositories
+
+const meta = (deviceId: string, changes: Partial<PresenceMeta> = {}): PresenceMeta => ({
+  device_id: deviceId,
+  name: deviceId,
+  device_type: 'phone',
+  state: 'active',
+  heartbeat_at: 0,
+  ...changes
+});
+
+const waitFor = async (condition: () => boolean, timeout = 1000) => {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getPresenceStatus', () => {
+  const now = 1_000_000;
+
+  it('is online while present and heartbeating', () => {
+    expect(getPresenceStatus(meta('phone-1'), now - 5000, now)).toBe('online');
+    expect(getPresenceStatus(meta('phone-1'), undefined, now)).toBe('online');
+  });
+
+  it('is idle when the page is hidden or heartbeats stopped arriving', () => {
+    expect(getPresenceStatus(meta('phone-1', { state: 'idle' }), now, now)).toBe('idle');
+    expect(getPresenceStatus(meta('phone-1'), now - IDLE_AFTER, now)).toBe('online');
+    expect(getPresenceStatus(meta('phone-1'), now - IDLE_AFTER - 1, now)).toBe('idle');
+  });
+
+  it('goes by when the observer heard the heartbeat, not the sender\'s clock', () => {
+    expect(getPresenceStatus(meta('phone-1', { heartbeat_at: now - 10 * IDLE_AFTER }), now - 1000, now)).toBe('online');
+  });
+
+  it('is disconnected once the device left the channel', () => {
+    expect(getPresenceStatus(undefined, now - 1000, now)).toBe('disconnected');
+  });
+});
+
+describe('memory presence', () => {
+  it('syncs every member on join, heartbeat and leave', async () => {
+    const { presence } = createMemoryRepositories();
+    let consoleView: PresenceMembers = {};
+    const statuses: string[] = [];
+
+    const consoleHandle = presence.join('session-1', meta('console', { device_type: 'console' }), members => {
+      consoleView = members;
+    }, status => statuses.push(status));
+    const phone = presence.join('session-1', meta('phone-1'), () => {});
+    presence.join('session-2', meta('phone-2'), () => {});
+
+    await waitFor(() => Object.keys(consoleView).length === 2);
+    expect(Object.keys(consoleView).sort()).toEqual(['console', 'phone-1']);
+    expect(statuses).toEqual(['SUBSCRIBED']);
+
+    phone.update({ state: 'idle', heartbeat_at: 42 });
+    await waitFor(() => consoleView['phone-1']?.state === 'idle');
+    expect(consoleView['phone-1']).toMatchObject({ heartbeat_at: 42, device_id: 'phone-1' });
+
+    phone.leave();
+    await waitFor(() => !consoleView['phone-1']);
+
+    consoleHandle.leave();
+    expect(statuses).toEqual(['SUBSCRIBED', 'CLOSED']);
+  });
+
+  it('ignores updates after leaving', async () => {
+    const { presence } = createMemoryRepositories();
+    let consoleView: PresenceMembers = {};
+    presence.join('session-1', meta('console', { device_type: 'console' }), members => {
+      consoleView = members;
+    });
+    const phone = presence.join('session-1', meta('phone-1'), () => {});
+    await waitFor(() => Boolean(consoleView['phone-1']));
+
+    phone.leave();
+    phone.update({ heartbeat_at: 1 });
+    await waitFor(() => !consoleView['phone-1']);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(Object.keys(consoleView)).toEqual(['console']);
+  });
+});
@@ -0,0 +1,56 @@
+import type { Device } from './supabase';
+
+/*
+  Device presence
+
+  Every device joins its session's presence channel (Supabase Realtime Presence, or the
+  local server's `presence` topic) and re-announces itself every HEARTBEAT_INTERVAL.
+  Leaving the channel - closing the tab, losing the network - drops the device from
+  every member's view within seconds.
+
+  Status, as the console sees it:
+    online        present and heartbeating
+    idle          present, but its page is hidden or heartbeats stopped arriving
+    disconnected  not present; removed from the session after REMOVE_AFTER
+
+  Heartbeat times are taken from the observer's clock when a heartbeat arrives, so
+  phones with a skewed clock aren't marked idle.
+*/
+
+export type PresenceState = 'active' | 'idle';
+export type PresenceStatus = 'online' | 'idle' | 'disconnected';
+
+export const HEARTBEAT_INTERVAL = 10000;
+// Three missed heartbeats
+export const IDLE_AFTER = 3 * HEARTBEAT_INTERVAL;
+// Grace period before a vanished device is removed
+export const REMOVE_AFTER = 2 * 60 * 1000;
+
+// What a device announces about itself
+export interface PresenceMeta {
+  device_id: string;
+  name: string;
+  device_type: Device['device_type'];
+  state: PresenceState;
+  heartbeat_at: number; // Sender's clock, changes with every heartbeat
+}
+
+// Present devices by device id
+export type PresenceMembers = Record<string, PresenceMeta>;
+
+export interface PresenceHandle {
+  // Re-announce with changes (heartbeats, idle state)
+  update(changes: Partial<Omit<PresenceMeta, 'device_id'>>): void;
+  leave(): void;
+}
+
+export const getPresenceStatus = (
+  meta: PresenceMeta | undefined,
+  lastHeartbeatAt: number | undefined,
+  now: number = Date.now()
+): PresenceStatus => {
+  if (!meta) return 'disconnected';
+  if (meta.state === 'idle') return 'idle';
+  if (lastHeartbeatAt !== undefined && now - lastHeartbeatAt > IDLE_AFTER) return 'idle';
+  return 'online';
+};
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { CHAT_MAX_LENGTH, PROTOCOL_VERSION, ProtocolError, createInputPayload, getDeliveryClass, parseWebRTCMessage } from './protocol';
+
+// The data channel envelope: everything relayed between phones and the console passes here
+
+const envelope = (fields: Record<string, unknown>) => JSON.stringify({
+  version: PROTOCOL_VERSION,
+  senderId: 'phone-1',
+  timestamp: 1000,
+  ...fields
+});
+
+const rejection = (raw: string): ProtocolError => {
+  try {
+    parseWebRTCMessage(raw);
+  } catch (error) {
+    if (error instanceof ProtocolError) return error;
+    throw error;
+  }
+  throw new Error('message was accepted');
+};
+
+describe('parseWebRTCMessage', () => {
+  it('accepts a current input message', () => {
+    const message = parseWebRTCMessage(envelope({ type: 'game_data', data: createInputPayload('dpad', 'up', { pressed: true }) }));
+
+    expect(message).toEqual({
+      version: PROTOCOL_VERSION,
+      type: 'game_data',
+      timestamp: 1000,
+      senderId: 'phone-1',
+      data: { kind: 'input', input: { type: 'dpad', action: 'up', data: { pressed: true } } }
+    });
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(rejection('{"type": "game_data"')).toMatchObject({ code: 'malformed_json' });
+  });
+
+  it('rejects envelopes without a type or sender', () => {
+    expect(rejection('[]')).toMatchObject({ code: 'invalid_envelope' });
+    expect(rejection('null')).toMatchObject({ code: 'invalid_envelope' });
+    expect(rejection(JSON.stringify({ version: 1, type: 'heartbeat' }))).toMatchObject({ code: 'invalid_envelope' });
+    expect(rejection(JSON.stringify({ version: 1, type: 7, senderId: 'phone-1' }))).toMatchObject({ code: 'invalid_envelope' });
+  });
+
+  it('rejects versions it does not speak', () => {
+    expect(rejection(envelope({ type: 'heartbeat', version: PROTOCOL_VERSION + 1 }))).toMatchObject({ code: 'unsupported_version', rejectedType: 'heartbeat' });
+    expect(rejection(envelope({ type: 'heartbeat', version: -1 }))).toMatchObject({ code: 'unsupported_version' });
+    expect(rejection(envelope({ type: 'heartbeat', version: '1' }))).toMatchObject({ code: 'unsupported_version' });
+  });
+
+  it('rejects unknown message types', () => {
+    expect(rejection(envelope({ type: 'take_over', data: {} }))).toMatchObject({ code: 'unknown_type', rejectedType: 'take_over' });
+  });
+
+  it('rejects input with an unknown type, a missing action or an unknown kind', () => {
+    expect(rejection(envelope({ type: 'game_data', data: { kind: 'input', input: { type: 'keyboard', action: 'q' } } })))
+      .toMatchObject({ code: 'invalid_payload', rejectedType: 'game_data' });
+    expect(rejection(envelope({ type: 'navigation', data: { kind: 'input', input: { type: 'dpad' } } })))
+      .toMatchObject({ code: 'invalid_payload', rejectedType: 'navigation' });
+    expect(rejection(envelope({ type: 'game_data', data: { kind: 'script', source: 'alert(1)' } })))
+      .toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(envelope({ type: 'game_data', data: 'up' }))).toMatchObject({ code: 'invalid_payload' });
+  });
+
+  it('drops input data that is not an object', () => {
+    const message = parseWebRTCMessage(envelope({ type: 'game_data', data: { kind: 'input', input: { type: 'button', action: 'confirm', data: [1, 2] } } }));
+
+    expect(message.data).toEqual({ kind: 'input', input: { type: 'button', action: 'confirm', data: {} } });
+  });
+
+  it('rejects mapping profiles with malformed mappings', () => {
+    const profile = (mappings: unknown) => envelope({ type: 'game_data', data: { kind: 'mapping_profile', profile: { profileName: 'Lefty', mappings } } });
+
+    expect(parseWebRTCMessage(profile([{ inputType: 'dpad.up', mappedAction: 'move_down', isActive: true }])).data)
+      .toMatchObject({ kind: 'mapping_profile', profile: { profileName: 'Lefty' } });
+    expect(rejection(profile('dpad.up=move_down'))).toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(profile([{ inputType: 'dpad.up', mappedAction: 'move_down', isActive: 'yes' }]))).toMatchObject({ code: 'invalid_payload' });
+  });
+
+  it('checks selection, ping, pong and protocol_error payloads', () => {
+    expect(rejection(envelope({ type: 'selection', data: { highlightedEditorIndex: '2' } }))).toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(envelope({ type: 'selection', data: { highlightedEditorIndex: 2, selectedEditor: 3 } }))).toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(envelope({ type: 'ping', data: { pingId: 1, sentAt: null } }))).toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(envelope({ type: 'pong', data: { pingId: 1, sentAt: 2, receivedAt: 3 } }))).toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(envelope({ type: 'protocol_error', data: { code: 'unknown_type' } }))).toMatchObject({ code: 'invalid_payload' });
+
+    expect(parseWebRTCMessage(envelope({ type: 'heartbeat', data: { anything: true } })).data).toEqual({});
+    expect(parseWebRTCMessage(envelope({ type: 'ping', data: { pingId: 1, sentAt: 2, extra: 'x' } })).data).toEqual({ pingId: 1, sentAt: 2 });
+  });
+
+  it('checks chat and sketch payloads', () => {
+    expect(rejection(envelope({ type: 'chat', data: { text: '  ' } }))).toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(envelope({ type: 'chat', data: { text: 'x'.repeat(CHAT_MAX_LENGTH + 1) } }))).toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(envelope({ type: 'chat', data: { text: 'hi', fromName: 3 } }))).toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(envelope({ type: 'sketch', data: { input: { type: 'canvas', action: 'clear' } } }))).toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(envelope({ type: 'sketch', data: { playerId: 'phone-2', input: { type: 'dpad', action: 'up' } } }))).toMatchObject({ code: 'invalid_payload' });
+
+    expect(parseWebRTCMessage(envelope({ type: 'chat', data: { text: 'hi' } })).data).toEqual({ text: 'hi' });
+    expect(parseWebRTCMessage(envelope({ type: 'sketch', data: { playerId: 'phone-2', input: { type: 'canvas', action: 'clear' } } })).data)
+      .toEqual({ playerId: 'phone-2', input: { type: 'canvas', action: 'clear', data: {} } });
+  });
+
+  it('fills in a missing timestamp', () => {
+    const message = parseWebRTCMessage(JSON.stringify({ version: PROTOCOL_VERSION, type: 'heartbeat', senderId: 'phone-1' }));
+
+    expect(typeof message.timestamp).toBe('number');
+  });
+});
+
+describe('legacy version 0 messages', () => {
+  const legacy = (type: string, data: unknown) => JSON.stringify({ type, data, senderId: 'phone-1', timestamp: 1000 });
+
+  it('upgrades grouped input to the current shape', () => {
+    expect(parseWebRTCMessage(legacy('game_data', { button: { confirm: { pressed: true } } }))).toMatchObject({
+      version: 0,
+      type: 'game_data',
+      data: { kind: 'input', input: { type: 'button', action: 'confirm', data: { pressed: true } } }
+    });
+  });
+
+  it('takes the d-pad action from its direction', () => {
+    expect(parseWebRTCMessage(legacy('navigation', { dpad: { press: { direction: 'left' } } })).data)
+      .toEqual({ kind: 'input', input: { type: 'dpad', action: 'left', data: { direction: 'left' } } });
+  });
+
+  it('upgrades mapping profiles', () => {
+    const mappingProfile = { profileName: 'Lefty', mappings: [] };
+
+    expect(parseWebRTCMessage(legacy('game_data', { mappingProfile })).data).toEqual({ kind: 'mapping_profile', profile: mappingProfile });
+  });
+
+  it('still validates what the upgrade produced', () => {
+    expect(rejection(legacy('game_data', { joystick: { tilt: {} } }))).toMatchObject({ code: 'invalid_payload' });
+    expect(rejection(legacy('game_data', { mappingProfile: { profileName: 'Lefty' } }))).toMatchObject({ code: 'invalid_payload' });
+  });
+
+  it('leaves other message types alone', () => {
+    expect(parseWebRTCMessage(legacy('selection', { highlightedEditorIndex: 1 })).data).toEqual({ highlightedEditorIndex: 1, selectedEditor: undefined });
+  });
+});
+
+describe('getDeliveryClass', () => {
+  it('streams moves, repeats and probes and keeps commands reliable', () => {
+    const input = (type: Parameters<typeof createInputPayload>[0], action: string, data = {}) =>
+      getDeliveryClass({ type: 'game_data', data: createInputPayload(type, action, data) });
+
+    expect(input('canvas', 'draw_move')).toBe('unreliable');
+    expect(input('canvas', 'draw_end')).toBe('reliable');
+    expect(input('dpad', 'up', { repeat: true })).toBe('unreliable');
+    expect(input('dpad', 'up')).toBe('reliable');
+    expect(input('button', 'confirm')).toBe('reliable');
+    expect(getDeliveryClass({ type: 'ping', data: { pingId: 1, sentAt: 0 } })).toBe('unreliable');
+    expect(getDeliveryClass({ type: 'selection', data: { highlightedEditorIndex: 0 } })).toBe('reliable');
+    expect(getDeliveryClass({ type: 'sketch', data: { playerId: 'phone-1', input: { type: 'canvas', action: 'draw_move', data: {} } } })).toBe('unreliable');
+    expect(getDeliveryClass({ type: 'chat', data: { text: 'hi' } })).toBe('reliable');
+  });
+});
@@ -0,0 +1,348 @@
+/*
+  VibeConsole WebRTC wire protocol
+
+  Every data channel message is a JSON envelope:
+    { version, type, data, timestamp, senderId }
+
+  `version` is PROTOCOL_VERSION for current clients. Messages without a version are
+  treated as version 0 (legacy phones that sent `{ dpad: { up: {...} } }` style data)
+  and upgraded on receive, so older phones keep working with newer consoles.
+
+  Messages that fail validation are rejected with a ProtocolError; the receiver
+  reports it locally and answers the sender with a `protocol_error` message.
+*/
+
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 0;
+
+export const INPUT_TYPES = ['dpad', 'button', 'swipe', 'touch', 'accelerometer', 'voice', 'canvas'] as const;
+export type InputType = typeof INPUT_TYPES[number];
+
+export interface InputPayload {
+  type: InputType;
+  action: string;
+  data: Record<string, unknown>;
+}
+
+export interface MappingProfilePayload {
+  profileName: string;
+  mappings: Array<{ inputType: string; mappedAction: string; isActive: boolean }>;
+}
+
+export type GameDataPayload =
+  | { kind: 'input'; input: InputPayload }
+  | { kind: 'mapping_profile'; profile: MappingProfilePayload };
+
+export interface SelectionPayload {
+  highlightedEditorIndex: number;
+  selectedEditor?: string;
+}
+
+export type HeartbeatPayload = Record<string, never>;
+
+// Latency probe; the receiver echoes `sentAt` back in a pong with its own clock readings
+export interface PingPayload {
+  pingId: number;
+  sentAt: number;
+}
+
+export interface PongPayload {
+  pingId: number;
+  sentAt: number; // Pinger's clock, echoed
+  receivedAt: number; // Ponger's clock when the ping arrived
+  repliedAt: number; // Ponger's clock when the pong was sent
+}
+
+// Chat line; phones send the text only and the console stamps the sender before passing it on
+export const CHAT_MAX_LENGTH = 200;
+
+export interface ChatPayload {
+  text: string;
+  fromDeviceId?: string;
+  fromName?: string;
+}
+
+// A player's canvas input, passed on by the console to spectators
+export interface SketchPayload {
+  playerId: string;
+  input: InputPayload;
+}
+
+export type ProtocolErrorCode =
+  | 'malformed_json'
+  | 'invalid_envelope'
+  | 'unsupported_version'
+  | 'unknown_type'
+  | 'invalid_payload';
+
+export interface ProtocolErrorPayload {
+  code: ProtocolErrorCode;
+  message: string;
+  rejectedType?: string;
+}
+
+interface MessageEnvelope<T extends string, D> {
+  version: number;
+  type: T;
+  data: D;
+  timestamp: number;
+  senderId: string;
+}
+
+export type WebRTCMessage =
+  | MessageEnvelope<'game_data', GameDataPayload>
+  | MessageEnvelope<'navigation', GameDataPayload>
+  | MessageEnvelope<'selection', SelectionPayload>
+  | MessageEnvelope<'heartbeat', HeartbeatPayload>
+  | MessageEnvelope<'ping', PingPayload>
+  | MessageEnvelope<'pong', PongPayload>
+  | MessageEnvelope<'chat', ChatPayload>
+  | MessageEnvelope<'sketch', SketchPayload>
+  | MessageEnvelope<'protocol_error', ProtocolErrorPayload>;
+
+export type WebRTCMessageType = WebRTCMessage['type'];
+
+// Message as passed to sendMessage - the manager fills in the envelope fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type OutgoingWebRTCMessage = DistributiveOmit<WebRTCMessage, 'version' | 'timestamp' | 'senderId'>;
+
+// Which data channel a message travels on: commands must arrive, streams must be fresh
+export type DeliveryClass = 'reliable' | 'unreliable';
+
+const STREAMING_INPUT_TYPES: InputType[] = ['canvas', 'accelerometer', 'touch', 'swipe'];
+
+export const getDeliveryClass = (message: OutgoingWebRTCMessage): DeliveryClass => {
+  // Probes measure the stream path; a lost ping is simply superseded by the next one
+  if (message.type === 'ping' || message.type === 'pong') {
+    return 'unreliable';
+  }
+
+  // Sketches follow the stroke they were drawn with
+  if (message.type === 'sketch') {
+    return message.data.input.action === 'draw_move' ? 'unreliable' : 'reliable';
+  }
+
+  if ((message.type !== 'game_data' && message.type !== 'navigation') || message.data.kind !== 'input') {
+    return 'reliable';
+  }
+
+  const { type, action, data } = message.data.input;
+
+  // Held d-pad repeats are superseded by the next one; single presses must arrive
+  if (type === 'dpad') {
+    return data.repeat === true ? 'unreliable' : 'reliable';
+  }
+
+  // Stroke moves stream; start/end/clear bracket the stream and must arrive
+  if (type === 'canvas') {
+    return action === 'draw_move' ? 'unreliable' : 'reliable';
+  }
+
+  return STREAMING_INPUT_TYPES.includes(type) ? 'unreliable' : 'reliable';
+};
+
+export class ProtocolError extends Error {
+  code: ProtocolErrorCode;
+  rejectedType?: string;
+
+  constructor(code: ProtocolErrorCode, message: string, rejectedType?: string) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.code = code;
+    this.rejectedType = rejectedType;
+  }
+
+  toPayload(): ProtocolErrorPayload {
+    return { code: this.code, message: this.message, rejectedType: this.rejectedType };
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isInputType = (value: unknown): value is InputType => {
+  return typeof value === 'string' && (INPUT_TYPES as readonly string[]).includes(value);
+};
+
+// Build an input game_data payload
+export const createInputPayload = (
+  type: InputType,
+  action: string,
+  data: Record<string, unknown> = {}
+): GameDataPayload => ({
+  kind: 'input',
+  input: { type, action, data }
+});
+
+// Upgrade version 0 game data (`{ dpad: { up: {...} } }`) to the current shape
+const upgradeLegacyGameData = (data: Record<string, unknown>): unknown => {
+  if (isRecord(data.mappingProfile)) {
+    return { kind: 'mapping_profile', profile: data.mappingProfile };
+  }
+
+  for (const inputType of INPUT_TYPES) {
+    const group = data[inputType];
+    if (!isRecord(group)) continue;
+
+    const key = Object.keys(group)[0];
+    const inputData = isRecord(group[key]) ? group[key] as Record<string, unknown> : {};
+    const action = inputType === 'dpad' && typeof inputData.direction === 'string' ? inputData.direction : key;
+    return { kind: 'input', input: { type: inputType, action, data: inputData } };
+  }
+
+  return data;
+};
+
+const validateInput = (input: unknown, type: string): InputPayload => {
+  if (!isRecord(input) || !isInputType(input.type) || typeof input.action !== 'string') {
+    throw new ProtocolError('invalid_payload', 'input requires a known type and a string action', type);
+  }
+  return {
+    type: input.type,
+    action: input.action,
+    data: isRecord(input.data) ? input.data : {}
+  };
+};
+
+const validateGameData = (data: unknown, type: string): GameDataPayload => {
+  if (!isRecord(data)) {
+    throw new ProtocolError('invalid_payload', 'game data must be an object', type);
+  }
+
+  if (data.kind === 'input') {
+    return { kind: 'input', input: validateInput(data.input, type) };
+  }
+
+  if (data.kind === 'mapping_profile') {
+    const profile = data.profile;
+    if (!isRecord(profile) || typeof profile.profileName !== 'string' || !Array.isArray(profile.mappings)) {
+      throw new ProtocolError('invalid_payload', 'mapping profile requires a name and a mappings array', type);
+    }
+    const mappingsValid = profile.mappings.every(m =>
+      isRecord(m) && typeof m.inputType === 'string' && typeof m.mappedAction === 'string' && typeof m.isActive === 'boolean'
+    );
+    if (!mappingsValid) {
+      throw new ProtocolError('invalid_payload', 'mapping profile contains malformed mappings', type);
+    }
+    return { kind: 'mapping_profile', profile: profile as unknown as MappingProfilePayload };
+  }
+
+  throw new ProtocolError('invalid_payload', `unknown game data kind: ${String(data.kind)}`, type);
+};
+
+const validateSelection = (data: unknown): SelectionPayload => {
+  if (!isRecord(data) || typeof data.highlightedEditorIndex !== 'number') {
+    throw new ProtocolError('invalid_payload', 'selection requires a numeric highlightedEditorIndex', 'selection');
+  }
+  if (data.selectedEditor !== undefined && typeof data.selectedEditor !== 'string') {
+    throw new ProtocolError('invalid_payload', 'selectedEditor must be a string', 'selection');
+  }
+  return {
+    highlightedEditorIndex: data.highlightedEditorIndex,
+    selectedEditor: data.selectedEditor
+  };
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const validatePing = (data: unknown): PingPayload => {
+  if (!isRecord(data) || !isFiniteNumber(data.pingId) || !isFiniteNumber(data.sentAt)) {
+    throw new ProtocolError('invalid_payload', 'ping requires numeric pingId and sentAt', 'ping');
+  }
+  return { pingId: data.pingId, sentAt: data.sentAt };
+};
+
+const validatePong = (data: unknown): PongPayload => {
+  if (
+    !isRecord(data) ||
+    !isFiniteNumber(data.pingId) ||
+    !isFiniteNumber(data.sentAt) ||
+    !isFiniteNumber(data.receivedAt) ||
+    !isFiniteNumber(data.repliedAt)
+  ) {
+    throw new ProtocolError('invalid_payload', 'pong requires numeric pingId, sentAt, receivedAt and repliedAt', 'pong');
+  }
+  return { pingId: data.pingId, sentAt: data.sentAt, receivedAt: data.receivedAt, repliedAt: data.repliedAt };
+};
+
+const validateChat = (data: unknown): ChatPayload => {
+  if (!isRecord(data) || typeof data.text !== 'string' || data.text.trim() === '') {
+    throw new ProtocolError('invalid_payload', 'chat requires non-empty text', 'chat');
+  }
+  if (data.text.length > CHAT_MAX_LENGTH) {
+    throw new ProtocolError('invalid_payload', `chat text is longer than ${CHAT_MAX_LENGTH} characters`, 'chat');
+  }
+  if ((data.fromDeviceId !== undefined && typeof data.fromDeviceId !== 'string') ||
+      (data.fromName !== undefined && typeof data.fromName !== 'string')) {
+    throw new ProtocolError('invalid_payload', 'chat sender must be strings', 'chat');
+  }
+  return { text: data.text, fromDeviceId: data.fromDeviceId, fromName: data.fromName };
+};
+
+const validateSketch = (data: unknown): SketchPayload => {
+  if (!isRecord(data) || typeof data.playerId !== 'string') {
+    throw new ProtocolError('invalid_payload', 'sketch requires a playerId', 'sketch');
+  }
+  const input = validateInput(data.input, 'sketch');
+  if (input.type !== 'canvas') {
+    throw new ProtocolError('invalid_payload', 'sketch input must be canvas input', 'sketch');
+  }
+  return { playerId: data.playerId, input };
+};
+
+const validateProtocolError = (data: unknown): ProtocolErrorPayload => {
+  if (!isRecord(data) || typeof data.code !== 'string' || typeof data.message !== 'string') {
+    throw new ProtocolError('invalid_payload', 'protocol_error requires a code and a message', 'protocol_error');
+  }
+  return data as unknown as ProtocolErrorPayload;
+};
+
+// Parse and validate a raw data channel payload; throws ProtocolError when rejected
+export const parseWebRTCMessage = (raw: string): WebRTCMessage => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('malformed_json', 'message is not valid JSON');
+  }
+
+  if (!isRecord(parsed) || typeof parsed.type !== 'string' || typeof parsed.senderId !== 'string') {
+    throw new ProtocolError('invalid_envelope', 'message requires string type and senderId');
+  }
+
+  const version = parsed.version === undefined ? 0 : parsed.version;
+  if (typeof version !== 'number' || version < MIN_PROTOCOL_VERSION || version > PROTOCOL_VERSION) {
+    throw new ProtocolError('unsupported_version', `unsupported protocol version: ${String(version)}`, parsed.type);
+  }
+
+  const timestamp = typeof parsed.timestamp === 'number' ? parsed.timestamp : Date.now();
+  const envelope = { version, timestamp, senderId: parsed.senderId };
+  const data = version === 0 && isRecord(parsed.data) && (parsed.type === 'game_data' || parsed.type === 'navigation')
+    ? upgradeLegacyGameData(parsed.data)
+    : parsed.data;
+
+  switch (parsed.type) {
+    case 'game_data':
+    case 'navigation':
+      return { ...envelope, type: parsed.type, data: validateGameData(data, parsed.type) };
+    case 'selection':
+      return { ...envelope, type: 'selection', data: validateSelection(data) };
+    case 'heartbeat':
+      return { ...envelope, type: 'heartbeat', data: {} };
+    case 'ping':
+      return { ...envelope, type: 'ping', data: validatePing(data) };
+    case 'pong':
+      return { ...envelope, type: 'pong', data: validatePong(data) };
+    case 'chat':
+      return { ...envelope, type: 'chat', data: validateChat(data) };
+    case 'sketch':
+      return { ...envelope, type: 'sketch', data: validateSketch(data) };
+    case 'protocol_error':
+      return { ...envelope, type: 'protocol_error', data: validateProtocolError(data) };
+    default:
+      throw new ProtocolError('unknown_type', `unknown message type: ${parsed.type}`, parsed.type);
+  }
+};
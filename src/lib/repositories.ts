@@ -0,0 +1,159 @@
+import type { Device, InputMappingProfile, LobbySummary, Session, SessionEndReason, SessionUpdate } from './supabase';
+import type { SignalingBackend, SignalingStatus } from './signaling';
+import type { MessageTransport } from './transport';
+import type { PresenceHandle, PresenceMembers, PresenceMeta } from './presence';
+import type { ModerationAction, ModerationEntry } from './moderation';
+import type { JoinMode } from './lobbyAccess';
+import type { IceConfig } from './iceConfig';
+
+/*
+  Repositories - typed access to sessions, devices, signaling, the message relay, presence
+  and input mapping profiles
+
+  supabase  Postgres tables and postgres_changes (supabaseRepositories.ts)
+  local     The local server over a WebSocket (localServerRepositories.ts)
+  memory    Plain maps in the page, for headless tests and demos (memoryRepositories.ts)
+
+  Components get them from RepositoryContext (see useRepositories) and never talk to a
+  backend directly. VITE_BACKEND picks between supabase (default) and local for the app.
+
+  Like the Supabase helpers, failed reads return null or [] and failed writes return
+  null or false after logging. Subscriptions return an unsubscribe function.
+*/
+
+export type RepositoryKind = 'supabase' | 'local' | 'memory';
+
+// Same shape as a postgres_changes payload
+export interface RowChange<T> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: T | null;
+  old: Partial<T> | null;
+}
+
+// Channel statuses, shared with the signaling backends
+export type SubscriptionStatus = SignalingStatus;
+
+// Why a device couldn't join; lobby_full comes with the session's capacity, pin_locked
+// means the lobby refuses PINs for a while after too many wrong ones
+export type DeviceJoinError = 'lobby_full' | 'banned' | 'pin_required' | 'pin_locked' | 'failed';
+
+export type DeviceJoinResult =
+  | { device: Device; error: null }
+  | { device: null; error: DeviceJoinError; maxPlayers?: number };
+
+export interface SessionRepository {
+  // maxPlayers defaults to the Free plan's capacity
+  create(code: string, maxPlayers?: number): Promise<Session | null>;
+  get(sessionId: string): Promise<Session | null>;
+  // Active sessions only, and only what a phone needs before it joins
+  getByCode(code: string): Promise<LobbySummary | null>;
+  update(sessionId: string, changes: SessionUpdate): Promise<boolean>;
+  lock(sessionId: string, selectedEditor?: string): Promise<boolean>;
+  // Deactivate the session for every device; true if it is (now) inactive
+  end(sessionId: string, reason?: SessionEndReason): Promise<boolean>;
+  // Hand the host role to another phone; with expectedHostId, only while that device is host
+  transferHost(sessionId: string, deviceId: string, expectedHostId?: string): Promise<boolean>;
+  // Kick, ban, mute or unmute a device; only hostDeviceId, while it is host, may do so
+  moderate(sessionId: string, hostDeviceId: string, deviceId: string, action: ModerationAction): Promise<boolean>;
+  // Why this device (deviceId) was last moderated; still answers after it was removed
+  lastModeration(sessionId: string, deviceId: string): Promise<ModerationEntry | null>;
+  // Console-only: choose how phones get in; pin is required for 'pin' mode
+  setAccess(sessionId: string, consoleDeviceId: string, mode: JoinMode, pin?: string): Promise<boolean>;
+  // Console-only: ICE settings overlaid for every device (sessions.ice_config); null clears them
+  setIceConfig(sessionId: string, consoleDeviceId: string, config: IceConfig | null): Promise<boolean>;
+  subscribe(
+    sessionId: string,
+    onChange: (change: RowChange<Session>) => void,
+    onStatus?: (status: SubscriptionStatus) => void
+  ): () => void;
+}
+
+export interface DeviceRepository {
+  create(sessionId: string, name: string, deviceType?: Device['device_type'], isHost?: boolean): Promise<Device | null>;
+  // Like create, but says why a join was refused (capacity, bans and PINs are enforced
+  // server-side). token is the resume token of this phone's previous device in the session,
+  // checked for bans; pin is needed for PIN lobbies. Knock lobbies hand back a pending device
+  join(
+    sessionId: string,
+    name: string,
+    deviceType?: Device['device_type'],
+    isHost?: boolean,
+    token?: string | null,
+    pin?: string | null
+  ): Promise<DeviceJoinResult>;
+  // Console or host: approve a pending device, or deny (remove) it
+  review(sessionId: string, reviewerDeviceId: string, deviceId: string, approve: boolean): Promise<boolean>;
+  // Oldest first
+  listBySession(sessionId: string): Promise<Device[]>;
+  // Refresh last_seen, which drives session expiry
+  touch(deviceId: string): Promise<boolean>;
+  // Make a spectator a player, subject to the lobby's capacity
+  promote(deviceId: string): Promise<DeviceJoinResult>;
+  // Take a device out of its session (inputs go with it)
+  remove(deviceId: string): Promise<boolean>;
+  // Signed resume token for a device we just created; null if it was already issued
+  issueToken(deviceId: string): Promise<string | null>;
+  // The device row the token belongs to, if it is still in this (active) session
+  resume(sessionId: string, token: string): Promise<Device | null>;
+  subscribe(
+    sessionId: string,
+    onChange: (change: RowChange<Device>) => void,
+    onStatus?: (status: SubscriptionStatus) => void
+  ): () => void;
+}
+
+export interface SignalRepository {
+  // This device's way of exchanging offers, answers and candidates (see signaling.ts)
+  open(sessionId: string, deviceId: string): SignalingBackend;
+}
+
+export interface RelayRepository {
+  // This device's relay for messages that can't go over a data channel (see transport.ts);
+  // onSendFailed hears about sends the backend accepted but couldn't deliver
+  open(
+    sessionId: string,
+    deviceId: string,
+    onText: (text: string, fromDeviceId: string) => void,
+    onBinary: (buffer: ArrayBuffer, fromDeviceId: string) => void,
+    onReadyChange?: (ready: boolean) => void,
+    onSendFailed?: (targetDeviceId: string, reason: string) => void
+  ): MessageTransport;
+}
+
+export interface PresenceRepository {
+  // Announce this device on the session's presence channel; onSync gets every member
+  // (this device included) whenever anyone joins, leaves or heartbeats
+  join(
+    sessionId: string,
+    meta: PresenceMeta,
+    onSync: (members: PresenceMembers) => void,
+    onStatus?: (status: SubscriptionStatus) => void
+  ): PresenceHandle;
+}
+
+export interface MappingProfileRepository {
+  // The profile a player saved under this name, if any
+  getForPlayer(playerName: string): Promise<InputMappingProfile | null>;
+  // Create or replace the player's profile
+  save(
+    playerName: string,
+    profileName: string,
+    mappings: InputMappingProfile['mappings']
+  ): Promise<InputMappingProfile | null>;
+}
+
+export interface Repositories {
+  readonly kind: RepositoryKind;
+  // Throws when the backend can't be reached
+  checkConnection(): Promise<void>;
+  sessions: SessionRepository;
+  devices: DeviceRepository;
+  signals: SignalRepository;
+  relay: RelayRepository;
+  presence: PresenceRepository;
+  mappingProfiles: MappingProfileRepository;
+}
+
+export const getConfiguredRepositoryKind = (): Exclude<RepositoryKind, 'memory'> => {
+  return import.meta.env.VITE_BACKEND === 'local' ? 'local' : 'supabase';
+};
@@ -0,0 +1,13 @@
+import { createContext } from 'react';
+import { getConfiguredRepositoryKind, Repositories } from './repositories';
+import { createSupabaseRepositories } from './supabaseRepositories';
+import { createLocalServerRepositories } from './localServerRepositories';
+
+// Repositories for the configured backend (VITE_BACKEND)
+export const createRepositories = (kind = getConfiguredRepositoryKind()): Repositories => {
+  console.log(`🗄️ [Data] Using ${kind} repositories`);
+  return kind === 'local' ? createLocalServerRepositories() : createSupabaseRepositories();
+};
+
+// Provided once at the root (main.tsx); tests provide createMemoryRepositories() instead
+export const RepositoryContext = createContext<Repositories | null>(null);
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BroadcastSignalingBackend, type SignalMessage } from './signaling';
+
+// Broadcast signaling: each device sends on its own outbox and listens on its peers'
+
+const fake = vi.hoisted(() => {
+  type Handler = (event: { payload: unknown }) => void;
+  interface FakeChannel {
+    handler?: Handler;
+    on: (type: string, filter: unknown, handler: Handler) => FakeChannel;
+    subscribe: (onStatus: (status: string) => void) => FakeChannel;
+    send: ReturnType<typeof vi.fn>;
+    unsubscribe: ReturnType<typeof vi.fn>;
+  }
+
+  const channels = new Map<string, FakeChannel>();
+  const channel = (topic: string) => {
+    const created: FakeChannel = {
+      on: (_type, _filter, handler) => {
+        created.handler = handler;
+        return created;
+      },
+      subscribe: onStatus => {
+        queueMicrotask(() => onStatus('SUBSCRIBED'));
+        return created;
+      },
+      send: vi.fn(async () => 'ok'),
+      unsubscribe: vi.fn()
+    };
+    channels.set(topic, created);
+    return created;
+  };
+
+  return {
+    channels,
+    channel: vi.fn(channel),
+    rpc: vi.fn(),
+    broadcast: (topic: string, payload: unknown) => channels.get(topic)?.handler?.({ payload })
+  };
+});
+
+vi.mock('./supabase', () => ({
+  supabase: { channel: fake.channel, rpc: fake.rpc }
+}));
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+afterEach(() => {
+  fake.channels.clear();
+  vi.clearAllMocks();
+});
+
+describe('BroadcastSignalingBackend', () => {
+  it('sends on its own outbox without naming a sender or calling the database', async () => {
+    const backend = new BroadcastSignalingBackend('session-1', 'phone-1');
+    await backend.send('console', 'offer', { sdp: { type: 'offer', sdp: 'v=0' } });
+
+    expect(fake.channels.get('signals_session-1_phone-1')!.send).toHaveBeenCalledWith({
+      type: 'broadcast',
+      event: 'signal',
+      payload: { to: 'console', type: 'offer', payload: { sdp: { type: 'offer', sdp: 'v=0' } } }
+    });
+    expect(fake.rpc).not.toHaveBeenCalled();
+  });
+
+  it('fails the send when Realtime does not acknowledge it', async () => {
+    const backend = new BroadcastSignalingBackend('session-1', 'phone-1');
+    await backend.send('console', 'offer', {});
+    fake.channels.get('signals_session-1_phone-1')!.send.mockResolvedValueOnce('timed out');
+
+    await expect(backend.send('console', 'answer', {})).rejects.toThrow(/timed out/);
+  });
+
+  it('credits signals to the owner of the outbox they arrive on', async () => {
+    const received: SignalMessage[] = [];
+    const backend = new BroadcastSignalingBackend('session-1', 'console');
+    backend.listenTo(['phone-1']);
+    backend.subscribe(signal => received.push(signal));
+    await flush();
+
+    fake.broadcast('signals_session-1_phone-1', { to: 'console', type: 'offer', payload: { timestamp: 1 } });
+    fake.broadcast('signals_session-1_phone-1', { to: 'phone-2', type: 'offer', payload: {} });
+    fake.broadcast('signals_session-1_phone-1', { to: 'console', type: 'takeover', payload: {} });
+    // A sender named in the payload is ignored
+    fake.broadcast('signals_session-1_phone-1', { from: 'phone-2', to: 'console', type: 'answer', payload: {} });
+
+    expect(received).toEqual([{
+      session_id: 'session-1',
+      sender_device_id: 'phone-1',
+      receiver_device_id: 'console',
+      type: 'offer',
+      payload: { timestamp: 1 }
+    }, {
+      session_id: 'session-1',
+      sender_device_id: 'phone-1',
+      receiver_device_id: 'console',
+      type: 'answer',
+      payload: {}
+    }]);
+    backend.close();
+  });
+
+  it('only listens on the outboxes of the devices it was given', async () => {
+    const backend = new BroadcastSignalingBackend('session-1', 'console');
+    backend.subscribe(() => {});
+    backend.listenTo(['phone-1', 'phone-2', 'console']);
+    await flush();
+
+    expect(fake.channels.has('signals_session-1_phone-1')).toBe(true);
+    expect(fake.channels.has('signals_session-1_phone-2')).toBe(true);
+    expect(fake.channel).toHaveBeenCalledTimes(3); // Both phones and our own outbox
+
+    backend.listenTo(['phone-2']);
+    expect(fake.channels.get('signals_session-1_phone-1')!.unsubscribe).toHaveBeenCalled();
+    expect(fake.channels.get('signals_session-1_phone-2')!.unsubscribe).not.toHaveBeenCalled();
+    backend.close();
+  });
+});
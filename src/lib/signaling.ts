@@ -0,0 +1,350 @@
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { getLocalServerClient } from './localServer';
+
+/*
+  Signaling backends - how offers, answers and ICE candidates reach the other peer
+
+  table      Rows in `webrtc_signals`, delivered through postgres_changes. Delivered rows
+             are marked `processed` so the cleanup functions can drop them.
+  broadcast  Ephemeral Supabase Realtime broadcast. Each device sends on its own outbox,
+             `signals_<sessionId>_<deviceId>`, and listens on the outboxes of the devices
+             it negotiates with (see listenTo). Only the owner may broadcast on an outbox,
+             which Realtime checks once when the channel is joined, so a signal is
+             credited to the outbox it arrived on and never passes through Postgres. A
+             signal sent while the receiver isn't listening is lost, which the
+             perfect-negotiation/ICE-restart loop in WebRTCManager recovers from.
+  local      Relayed by the local server (server/localServer.js), unstored like broadcast.
+  memory     An in-process bus for the multi-peer harness (webrtcHarness.ts); never
+             selected by configuration.
+
+  The repositories pick one (SignalRepository.open): local for the local server, otherwise
+  VITE_SIGNALING_BACKEND ('broadcast' by default, or 'table').
+*/
+
+export type SignalType = 'offer' | 'answer' | 'candidate';
+export type SignalingBackendKind = 'table' | 'broadcast' | 'local' | 'memory';
+
+export interface SignalPayload {
+  sdp?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+  timestamp?: number;
+  deviceType?: 'console' | 'controller';
+}
+
+// Same field names as a `webrtc_signals` row, so handlers don't care where it came from
+export interface SignalMessage {
+  session_id: string;
+  sender_device_id: string;
+  receiver_device_id: string;
+  type: SignalType;
+  payload: SignalPayload;
+}
+
+// A signal as broadcast on the sender's outbox; the outbox names the sender
+interface OutboxSignal {
+  to: string;
+  type: SignalType;
+  payload: SignalPayload;
+}
+
+const SIGNAL_TYPES: SignalType[] = ['offer', 'answer', 'candidate'];
+
+// Supabase channel statuses, passed through so callers can report channel errors
+export type SignalingStatus = 'SUBSCRIBED' | 'TIMED_OUT' | 'CLOSED' | 'CHANNEL_ERROR';
+
+export interface SignalingBackend {
+  readonly kind: SignalingBackendKind;
+  send(receiverDeviceId: string, type: SignalType, payload: SignalPayload): Promise<void>;
+  // Deliver signals addressed to this device; returns an unsubscribe function
+  subscribe(onSignal: (signal: SignalMessage) => void, onStatus?: (status: SignalingStatus) => void): () => void;
+  // Devices whose signals are heard; only broadcast needs this, the other backends
+  // deliver everything addressed to this device
+  listenTo(deviceIds: Iterable<string>): void;
+  // Release anything held for sending
+  close(): void;
+}
+
+export class TableSignalingBackend implements SignalingBackend {
+  readonly kind = 'table' as const;
+  private sessionId: string;
+  private deviceId: string;
+
+  constructor(sessionId: string, deviceId: string) {
+    this.sessionId = sessionId;
+    this.deviceId = deviceId;
+  }
+
+  async send(receiverDeviceId: string, type: SignalType, payload: SignalPayload): Promise<void> {
+    const { supabase } = await import('./supabase');
+    const { error } = await supabase
+      .from('webrtc_signals')
+      .insert({
+        session_id: this.sessionId,
+        sender_device_id: this.deviceId,
+        receiver_device_id: receiverDeviceId,
+        type,
+        payload
+      });
+
+    if (error) {
+      console.error(`❌ [Signaling] Supabase error sending signal:`, error);
+      throw error;
+    }
+  }
+
+  subscribe(onSignal: (signal: SignalMessage) => void, onStatus?: (status: SignalingStatus) => void): () => void {
+    let channel: RealtimeChannel | undefined;
+    let unsubscribed = false;
+
+    import('./supabase').then(({ supabase }) => {
+      if (unsubscribed) return;
+
+      channel = supabase
+        .channel(`webrtc_signals_${this.sessionId}_${this.deviceId}`)
+        .on('postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'webrtc_signals',
+            filter: `receiver_device_id=eq.${this.deviceId}`
+          },
+          (payload) => {
+            const row = payload.new as SignalMessage & { id: string };
+            onSignal(row);
+
+            // Let cleanup_old_data() remove delivered signals
+            supabase
+              .from('webrtc_signals')
+              .update({ processed: true })
+              .eq('id', row.id)
+              .then(({ error }) => {
+                if (error) console.error('❌ [Signaling] Error marking signal processed:', error);
+              });
+          }
+        )
+        .subscribe(status => onStatus?.(status));
+    });
+
+    return () => {
+      unsubscribed = true;
+      channel?.unsubscribe();
+    };
+  }
+
+  listenTo() {
+    // The INSERT policy on webrtc_signals checks the sender
+  }
+
+  close() {
+    // Inserts hold no connection
+  }
+}
+
+export class BroadcastSignalingBackend implements SignalingBackend {
+  readonly kind = 'broadcast' as const;
+  private sessionId: string;
+  private deviceId: string;
+  private client?: Promise<SupabaseClient>;
+  private outbox?: Promise<RealtimeChannel>;
+  private peers = new Set<string>();
+  private peerChannels = new Map<string, RealtimeChannel>(); // Outboxes we listen on, by owner
+  private listeners = new Set<(signal: SignalMessage) => void>();
+  private statusListeners = new Set<(status: SignalingStatus) => void>();
+
+  constructor(sessionId: string, deviceId: string) {
+    this.sessionId = sessionId;
+    this.deviceId = deviceId;
+  }
+
+  // Broadcast on our own outbox; Realtime acknowledges each signal, so a lost one fails the send
+  async send(receiverDeviceId: string, type: SignalType, payload: SignalPayload): Promise<void> {
+    const outbox = await this.getOutbox();
+    const signal: OutboxSignal = { to: receiverDeviceId, type, payload };
+    const result = await outbox.send({ type: 'broadcast', event: 'signal', payload: signal });
+
+    if (result !== 'ok') {
+      throw new Error(`signal to ${receiverDeviceId.slice(-8)} not sent: ${result}`);
+    }
+  }
+
+  subscribe(onSignal: (signal: SignalMessage) => void, onStatus?: (status: SignalingStatus) => void): () => void {
+    this.listeners.add(onSignal);
+    if (onStatus) this.statusListeners.add(onStatus);
+    this.getOutbox().catch(error => {
+      console.error('❌ [Signaling] Failed to join broadcast outbox:', error);
+    });
+    this.peers.forEach(peer => this.joinPeer(peer));
+
+    return () => {
+      this.listeners.delete(onSignal);
+      if (onStatus) this.statusListeners.delete(onStatus);
+      if (this.listeners.size === 0) {
+        this.close();
+      }
+    };
+  }
+
+  // Join the outboxes of new peers and leave those of devices no longer listed
+  listenTo(deviceIds: Iterable<string>) {
+    this.peers = new Set(deviceIds);
+    this.peers.delete(this.deviceId);
+
+    for (const [peer, channel] of this.peerChannels) {
+      if (!this.peers.has(peer)) {
+        channel.unsubscribe();
+        this.peerChannels.delete(peer);
+      }
+    }
+
+    if (this.listeners.size > 0) {
+      this.peers.forEach(peer => this.joinPeer(peer));
+    }
+  }
+
+  close() {
+    this.listeners.clear();
+    this.statusListeners.clear();
+    this.peerChannels.forEach(channel => channel.unsubscribe());
+    this.peerChannels.clear();
+    this.outbox?.then(channel => channel.unsubscribe(), () => undefined);
+    this.outbox = undefined;
+  }
+
+  private topic(deviceId: string) {
+    return `signals_${this.sessionId}_${deviceId}`;
+  }
+
+  // Load the client once for the outbox and every peer channel
+  private getClient(): Promise<SupabaseClient> {
+    if (!this.client) {
+      this.client = import('./supabase').then(({ supabase }) => supabase);
+    }
+    return this.client;
+  }
+
+  // Join our outbox once
+  private getOutbox(): Promise<RealtimeChannel> {
+    if (!this.outbox) {
+      const pending = this.getClient().then(supabase => new Promise<RealtimeChannel>((resolve, reject) => {
+        const channel = supabase
+          .channel(this.topic(this.deviceId), {
+            config: { broadcast: { self: false, ack: true }, private: true }
+          })
+          .subscribe(status => {
+            this.statusListeners.forEach(listener => listener(status));
+            if (status === 'SUBSCRIBED') {
+              resolve(channel);
+            } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+              channel.unsubscribe();
+              reject(new Error(`signaling outbox ${status}`));
+            }
+          });
+      }));
+
+      // Forget a failed join so the next send or subscribe tries again
+      pending.catch(() => {
+        if (this.outbox === pending) this.outbox = undefined;
+      });
+      this.outbox = pending;
+    }
+    return this.outbox;
+  }
+
+  // Listen on a peer's outbox for signals addressed to us
+  private joinPeer(peer: string) {
+    if (this.peerChannels.has(peer)) return;
+
+    this.getClient().then(supabase => {
+      if (!this.peers.has(peer) || this.listeners.size === 0 || this.peerChannels.has(peer)) return;
+
+      const channel = supabase
+        .channel(this.topic(peer), {
+          config: { broadcast: { self: false }, private: true }
+        })
+        .on('broadcast', { event: 'signal' }, ({ payload }) => {
+          const signal = this.toSignal(payload as OutboxSignal, peer);
+          if (!signal) return;
+          this.listeners.forEach(listener => listener(signal));
+        })
+        .subscribe(status => {
+          if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            this.statusListeners.forEach(listener => listener(status));
+          }
+        });
+      this.peerChannels.set(peer, channel);
+    });
+  }
+
+  // Signals for this device, credited to the owner of the outbox they came on
+  private toSignal(signal: OutboxSignal, from: string): SignalMessage | null {
+    if (!signal || signal.to !== this.deviceId || !SIGNAL_TYPES.includes(signal.type)) {
+      return null;
+    }
+    return {
+      session_id: this.sessionId,
+      sender_device_id: from,
+      receiver_device_id: signal.to,
+      type: signal.type,
+      payload: signal.payload || {}
+    };
+  }
+}
+
+export class LocalSignalingBackend implements SignalingBackend {
+  readonly kind = 'local' as const;
+  private sessionId: string;
+  private deviceId: string;
+
+  constructor(sessionId: string, deviceId: string) {
+    this.sessionId = sessionId;
+    this.deviceId = deviceId;
+  }
+
+  async send(receiverDeviceId: string, type: SignalType, payload: SignalPayload): Promise<void> {
+    await getLocalServerClient().request('sendSignal', {
+      sessionId: this.sessionId,
+      senderDeviceId: this.deviceId,
+      receiverDeviceId,
+      type,
+      payload
+    });
+  }
+
+  subscribe(onSignal: (signal: SignalMessage) => void, onStatus?: (status: SignalingStatus) => void): () => void {
+    return getLocalServerClient().subscribe<SignalMessage>(
+      'webrtc_signals',
+      { sessionId: this.sessionId, deviceId: this.deviceId },
+      change => {
+        if (change.new) onSignal(change.new);
+      },
+      onStatus
+    );
+  }
+
+  listenTo() {
+    // The server sets the sender of every signal it relays
+  }
+
+  close() {
+    // The shared local server connection outlives any one manager
+  }
+}
+
+export const getDefaultSignalingBackendKind = (): SignalingBackendKind => {
+  return import.meta.env.VITE_SIGNALING_BACKEND === 'table' ? 'table' : 'broadcast';
+};
+
+export const createSignalingBackend = (
+  sessionId: string,
+  deviceId: string,
+  kind: SignalingBackendKind = getDefaultSignalingBackendKind()
+): SignalingBackend => {
+  switch (kind) {
+    case 'table':
+      return new TableSignalingBackend(sessionId, deviceId);
+    case 'local':
+      return new LocalSignalingBackend(sessionId, deviceId);
+    default:
+      return new BroadcastSignalingBackend(sessionId, deviceId);
+  }
+};
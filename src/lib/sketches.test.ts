@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createInputPayload, type InputPayload, type SketchPayload } from './protocol';
+import { SketchForwarder, getSketchSegments } from './sketches';
+
+// The console passes the players' strokes on to spectators, one sketch per stroke frame
+
+const canvasInput = (action: string, data: Record<string, unknown> = {}): InputPayload => {
+  const payload = createInputPayload('canvas', action, data);
+  if (payload.kind !== 'input') throw new Error('not an input');
+  return payload.input;
+};
+
+const move = (fromX: number, toX: number) => canvasInput('draw_move', {
+  from: { x: fromX, y: 0 },
+  to: { x: toX, y: 0 },
+  color: '#FFFFFF',
+  lineWidth: 3,
+  canvasWidth: 300,
+  canvasHeight: 200
+});
+
+describe('SketchForwarder', () => {
+  it('folds the moves of one frame into a single sketch', async () => {
+    const sent: SketchPayload[] = [];
+    const forwarder = new SketchForwarder(sketch => sent.push(sketch));
+
+    forwarder.push('phone-1', move(0, 1));
+    forwarder.push('phone-1', move(1, 2));
+    forwarder.push('phone-2', move(5, 6));
+    expect(sent).toEqual([]);
+    await Promise.resolve();
+
+    expect(sent).toEqual([{
+      playerId: 'phone-1',
+      input: {
+        type: 'canvas',
+        action: 'draw_move',
+        data: {
+          color: '#FFFFFF',
+          lineWidth: 3,
+          canvasWidth: 300,
+          canvasHeight: 200,
+          segments: [{ from: { x: 0, y: 0 }, to: { x: 1, y: 0 } }, { from: { x: 1, y: 0 }, to: { x: 2, y: 0 } }]
+        }
+      }
+    }, {
+      playerId: 'phone-2',
+      input: expect.objectContaining({ action: 'draw_move' })
+    }]);
+  });
+
+  it('sends waiting moves before the end of their stroke', async () => {
+    const sent: SketchPayload[] = [];
+    const forwarder = new SketchForwarder(sketch => sent.push(sketch));
+
+    forwarder.push('phone-1', move(0, 1));
+    forwarder.push('phone-1', canvasInput('draw_end'));
+    await Promise.resolve();
+
+    expect(sent.map(sketch => sketch.input.action)).toEqual(['draw_move', 'draw_end']);
+  });
+});
+
+describe('getSketchSegments', () => {
+  it('leaves out malformed segments', () => {
+    expect(getSketchSegments({
+      segments: [{ from: { x: 0, y: 0 }, to: { x: 1, y: 1 } }, { from: { x: 0 }, to: { x: 1, y: 1 } }, null]
+    })).toEqual([{ from: { x: 0, y: 0 }, to: { x: 1, y: 1 } }]);
+    expect(getSketchSegments({})).toEqual([]);
+  });
+});
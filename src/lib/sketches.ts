@@ -0,0 +1,82 @@
+/*
+  Sketches: the players' canvas strokes, passed on by the console to spectators
+
+  The console gets each stroke frame as one draw_move per segment (see
+  WebRTCManager.handleStreamFrame). SketchForwarder folds the moves of one frame back into
+  a single draw_move sketch carrying `segments`, so spectators get one message per frame
+  rather than one per segment. draw_start, draw_end and clear go on as they are, after any
+  moves still waiting.
+*/
+
+import type { InputPayload, SketchPayload } from './protocol';
+
+export interface SketchPoint {
+  x: number;
+  y: number;
+}
+
+export interface SketchSegment {
+  from: SketchPoint;
+  to: SketchPoint;
+}
+
+export class SketchForwarder {
+  private pendingMoves = new Map<string, Record<string, unknown>[]>(); // Moves of the current frame per player
+  private send: (sketch: SketchPayload) => void;
+
+  constructor(send: (sketch: SketchPayload) => void) {
+    this.send = send;
+  }
+
+  // Take one canvas input from a player; moves go out once their frame has been delivered
+  push(playerId: string, input: InputPayload) {
+    if (input.action !== 'draw_move') {
+      this.flush(playerId);
+      this.send({ playerId, input });
+      return;
+    }
+
+    const moves = this.pendingMoves.get(playerId);
+    if (moves) {
+      moves.push(input.data);
+      return;
+    }
+
+    // A frame's moves are delivered synchronously, so the frame is complete by the next microtask
+    this.pendingMoves.set(playerId, [input.data]);
+    queueMicrotask(() => this.flush(playerId));
+  }
+
+  private flush(playerId: string) {
+    const moves = this.pendingMoves.get(playerId);
+    if (!moves) return;
+    this.pendingMoves.delete(playerId);
+
+    const { color, lineWidth, canvasWidth, canvasHeight } = moves[0];
+    this.send({
+      playerId,
+      input: {
+        type: 'canvas',
+        action: 'draw_move',
+        data: {
+          color,
+          lineWidth,
+          canvasWidth,
+          canvasHeight,
+          segments: moves.map(({ from, to }) => ({ from, to }))
+        }
+      }
+    });
+  }
+}
+
+const isPoint = (value: unknown): value is SketchPoint => {
+  const point = value as SketchPoint | null;
+  return typeof point?.x === 'number' && typeof point?.y === 'number';
+};
+
+// The segments of a draw_move sketch; malformed ones are left out
+export const getSketchSegments = (data: Record<string, unknown>): SketchSegment[] => {
+  if (!Array.isArray(data.segments)) return [];
+  return data.segments.filter((segment): segment is SketchSegment => isPoint(segment?.from) && isPoint(segment?.to));
+};
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { STROKE_END_GRACE_MS, StrokeEndGate, decodeStreamBatch, encodeStreamBatch } from './streamCodec';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('stream codec', () => {
+  it('carries the canvas frame sequence in the header', () => {
+    const frame = encodeStreamBatch({
+      kind: 'canvas',
+      canvasWidth: 320,
+      canvasHeight: 240,
+      lineWidth: 3,
+      color: '#10B981',
+      points: [{ x: 1, y: 2, t: 0 }, { x: 4, y: 6, t: 16 }],
+      sequence: 65537
+    });
+
+    expect(decodeStreamBatch(frame, 0)).toMatchObject({ kind: 'canvas', sequence: 1, points: [{ x: 1, y: 2 }, { x: 4, y: 6 }] });
+  });
+
+  it('rejects frames of any other kind, such as the old accelerometer frames', () => {
+    const frame = new Uint8Array([0x56, 1, 2, 0, 1, 0, 0, 0, 100, 0, 0, 0, 0, 0, 0, 0]);
+
+    expect(decodeStreamBatch(frame.buffer, 0)).toBeNull();
+  });
+});
+
+describe('StrokeEndGate', () => {
+  it('holds draw_end until the frame it names was delivered', () => {
+    const gate = new StrokeEndGate();
+    const delivered: string[] = [];
+
+    gate.receiveFrame('phone-1', 1, () => delivered.push('frame 1'));
+    gate.receiveEnd('phone-1', 2, () => delivered.push('end'));
+    expect(delivered).toEqual(['frame 1']);
+
+    gate.receiveFrame('phone-1', 2, () => delivered.push('frame 2'));
+    expect(delivered).toEqual(['frame 1', 'frame 2', 'end']);
+  });
+
+  it('gives up on a lost frame and drops it if it turns up later', () => {
+    vi.useFakeTimers();
+    const gate = new StrokeEndGate();
+    const delivered: string[] = [];
+
+    gate.receiveEnd('phone-1', 7, () => delivered.push('end'));
+    vi.advanceTimersByTime(STROKE_END_GRACE_MS);
+    gate.receiveFrame('phone-1', 7, () => delivered.push('late frame'));
+
+    expect(delivered).toEqual(['end']);
+  });
+
+  it('ends the stroke before a later stroke draws, across wraparound', () => {
+    const gate = new StrokeEndGate();
+    const delivered: string[] = [];
+
+    gate.receiveFrame('phone-1', 65535, () => delivered.push('frame 65535'));
+    gate.receiveEnd('phone-1', 0, () => delivered.push('end'));
+    gate.receiveFrame('phone-1', 1, () => delivered.push('frame 1'));
+
+    expect(delivered).toEqual(['frame 65535', 'end', 'frame 1']);
+  });
+
+  it('starts over when a reloaded phone counts from the beginning again', () => {
+    const gate = new StrokeEndGate();
+    const delivered: string[] = [];
+
+    gate.receiveFrame('phone-1', 500, () => delivered.push('frame 500'));
+    gate.receiveEnd('phone-1', 500, () => delivered.push('end'));
+    gate.startStroke('phone-1');
+    gate.receiveFrame('phone-1', 1, () => delivered.push('frame 1'));
+
+    expect(delivered).toEqual(['frame 500', 'end', 'frame 1']);
+  });
+});
@@ -0,0 +1,287 @@
+/*
+  Compact binary encoding for high-frequency streaming inputs (canvas strokes)
+
+  Frames are sent as ArrayBuffers over the data channel instead of one JSON message per
+  pointer move. All multi-byte values are little-endian.
+
+  Header (8 bytes)
+    u8  magic        0x56 ('V')
+    u8  version      STREAM_CODEC_VERSION
+    u8  kind         1 = canvas; other kinds are rejected
+    u8  reserved
+    u16 count        number of samples in the batch
+    u16 sequence     the sender's frame number, wrapping at 65536
+
+  Canvas body
+    u16 canvasWidth, u16 canvasHeight
+    u8  lineWidth, u8 r, u8 g, u8 b
+    i16 startX, i16 startY, u16 startDt   - first point, absolute
+    then (count - 1) × { i16 dx, i16 dy, u16 dt }   - deltas from the previous point
+
+  `dt` is milliseconds since the batch's first sample; the receiver anchors each batch
+  at its arrival time.
+
+  Frames go over the unreliable stream channel while draw_end goes over the reliable
+  control channel, so draw_end can overtake the stroke's last frame. The phone puts the
+  sequence of the stroke's last frame in draw_end (`lastFrame`), and StrokeEndGate on the
+  console holds draw_end until that frame arrived.
+*/
+
+export const STREAM_CODEC_VERSION = 1;
+const MAGIC = 0x56;
+const HEADER_SIZE = 8;
+const SEQUENCE_RANGE = 0x10000;
+
+// How long draw_end waits for a stroke frame that may have been lost
+export const STROKE_END_GRACE_MS = 150;
+
+export const DEFAULT_STREAM_FPS = Number(import.meta.env.VITE_INPUT_STREAM_FPS) || 30;
+
+export interface CanvasPoint {
+  x: number;
+  y: number;
+  t: number; // ms timestamp
+}
+
+export interface CanvasStreamBatch {
+  kind: 'canvas';
+  canvasWidth: number;
+  canvasHeight: number;
+  lineWidth: number;
+  color: string;
+  points: CanvasPoint[];
+  sequence?: number; // Frame number, see StrokeEndGate
+}
+
+export type StreamBatch = CanvasStreamBatch;
+
+const KIND_CODES = { canvas: 1 } as const;
+
+const clampInt16 = (value: number) => Math.max(-32768, Math.min(32767, Math.round(value)));
+const clampUint16 = (value: number) => Math.max(0, Math.min(65535, Math.round(value)));
+
+const parseHexColor = (color: string): [number, number, number] => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color);
+  if (!match) return [0, 0, 0];
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+const toHexColor = (r: number, g: number, b: number) => {
+  return `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+};
+
+// True when sequence `a` comes after `b`, allowing for wraparound
+const isAfter = (a: number, b: number) => {
+  const distance = (a - b + SEQUENCE_RANGE) % SEQUENCE_RANGE;
+  return distance !== 0 && distance < SEQUENCE_RANGE / 2;
+};
+
+const writeHeader = (view: DataView, kind: StreamBatch['kind'], count: number, sequence = 0) => {
+  view.setUint8(0, MAGIC);
+  view.setUint8(1, STREAM_CODEC_VERSION);
+  view.setUint8(2, KIND_CODES[kind]);
+  view.setUint16(4, count, true);
+  view.setUint16(6, sequence % SEQUENCE_RANGE, true);
+};
+
+// Encode a batch into a compact binary frame
+export const encodeStreamBatch = (batch: StreamBatch): ArrayBuffer => {
+  const { points } = batch;
+  const buffer = new ArrayBuffer(HEADER_SIZE + 8 + points.length * 6);
+  const view = new DataView(buffer);
+  writeHeader(view, 'canvas', points.length, batch.sequence);
+
+  const [r, g, b] = parseHexColor(batch.color);
+  view.setUint16(8, clampUint16(batch.canvasWidth), true);
+  view.setUint16(10, clampUint16(batch.canvasHeight), true);
+  view.setUint8(12, Math.min(255, Math.round(batch.lineWidth)));
+  view.setUint8(13, r);
+  view.setUint8(14, g);
+  view.setUint8(15, b);
+
+  const baseTime = points[0]?.t ?? 0;
+  let offset = 16;
+  let prev = { x: 0, y: 0 };
+  points.forEach((point, index) => {
+    const x = Math.round(point.x);
+    const y = Math.round(point.y);
+    view.setInt16(offset, clampInt16(index === 0 ? x : x - prev.x), true);
+    view.setInt16(offset + 2, clampInt16(index === 0 ? y : y - prev.y), true);
+    view.setUint16(offset + 4, clampUint16(point.t - baseTime), true);
+    prev = { x, y };
+    offset += 6;
+  });
+
+  return buffer;
+};
+
+// Decode a binary frame; returns null for anything that isn't a valid stream frame
+export const decodeStreamBatch = (buffer: ArrayBuffer, baseTime: number = Date.now()): StreamBatch | null => {
+  if (buffer.byteLength < HEADER_SIZE) return null;
+
+  const view = new DataView(buffer);
+  if (view.getUint8(0) !== MAGIC || view.getUint8(1) !== STREAM_CODEC_VERSION) return null;
+
+  const kind = view.getUint8(2);
+  const count = view.getUint16(4, true);
+
+  if (kind === KIND_CODES.canvas) {
+    if (buffer.byteLength !== HEADER_SIZE + 8 + count * 6) return null;
+
+    const points: CanvasPoint[] = [];
+    let offset = 16;
+    let x = 0;
+    let y = 0;
+    for (let i = 0; i < count; i++) {
+      x += view.getInt16(offset, true);
+      y += view.getInt16(offset + 2, true);
+      points.push({ x, y, t: baseTime + view.getUint16(offset + 4, true) });
+      offset += 6;
+    }
+
+    return {
+      kind: 'canvas',
+      canvasWidth: view.getUint16(8, true),
+      canvasHeight: view.getUint16(10, true),
+      lineWidth: view.getUint8(12),
+      color: toHexColor(view.getUint8(13), view.getUint8(14), view.getUint8(15)),
+      points,
+      sequence: view.getUint16(6, true)
+    };
+  }
+
+  return null;
+};
+
+/*
+  Collects streaming samples and flushes them as one batch per frame. Call `flush()`
+  before sending a discrete event that must arrive after the stream (e.g. draw_end).
+*/
+export class StreamBatcher<T> {
+  private samples: T[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private frameInterval: number;
+  private onFlush: (samples: T[]) => void;
+
+  constructor(onFlush: (samples: T[]) => void, fps: number = DEFAULT_STREAM_FPS) {
+    this.onFlush = onFlush;
+    this.frameInterval = 1000 / Math.max(1, fps);
+  }
+
+  push(sample: T) {
+    this.samples.push(sample);
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.frameInterval);
+    }
+  }
+
+  flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.samples.length === 0) return;
+
+    const batch = this.samples;
+    this.samples = [];
+    this.onFlush(batch);
+  }
+
+  // Drop pending samples without sending them
+  dispose() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.samples = [];
+  }
+}
+
+/*
+  Keeps each sender's draw_end behind the stroke frames it follows. `receiveEnd` holds
+  draw_end until the frame named by its `lastFrame` was delivered, for at most
+  STROKE_END_GRACE_MS since that frame may be lost. A frame from after the stroke also
+  releases it, and frames that turn up once their stroke ended are dropped. draw_start
+  resets the sender's sequence, so a phone that reloaded and counts from 0 again is fine.
+*/
+export class StrokeEndGate {
+  private lastFrames = new Map<string, number>(); // Newest frame delivered per sender
+  private endedThrough = new Map<string, number>(); // Last frame of each sender's ended stroke
+  private pendingEnds = new Map<string, { lastFrame: number; deliver: () => void; timer: ReturnType<typeof setTimeout> }>();
+  private graceMs: number;
+
+  constructor(graceMs: number = STROKE_END_GRACE_MS) {
+    this.graceMs = graceMs;
+  }
+
+  // A new stroke: the previous one has ended and frame numbers may start over
+  startStroke(deviceId: string) {
+    this.releaseEnd(deviceId);
+    this.lastFrames.delete(deviceId);
+    this.endedThrough.delete(deviceId);
+  }
+
+  // Deliver a canvas frame unless its stroke already ended
+  receiveFrame(deviceId: string, sequence: number, deliver: () => void) {
+    const ended = this.endedThrough.get(deviceId);
+    if (ended !== undefined && !isAfter(sequence, ended)) return;
+
+    const pending = this.pendingEnds.get(deviceId);
+    if (pending && isAfter(sequence, pending.lastFrame)) {
+      this.releaseEnd(deviceId);
+    }
+
+    deliver();
+    const last = this.lastFrames.get(deviceId);
+    if (last === undefined || isAfter(sequence, last)) {
+      this.lastFrames.set(deviceId, sequence);
+    }
+
+    if (this.pendingEnds.get(deviceId)?.lastFrame === sequence) {
+      this.releaseEnd(deviceId);
+    }
+  }
+
+  // Deliver draw_end once its stroke's last frame is in; without `lastFrame` right away
+  receiveEnd(deviceId: string, lastFrame: number | undefined, deliver: () => void) {
+    this.releaseEnd(deviceId);
+
+    const last = this.lastFrames.get(deviceId);
+    if (lastFrame === undefined || (last !== undefined && !isAfter(lastFrame, last))) {
+      if (lastFrame !== undefined) this.endedThrough.set(deviceId, lastFrame);
+      deliver();
+      return;
+    }
+
+    const timer = setTimeout(() => this.releaseEnd(deviceId), this.graceMs);
+    this.pendingEnds.set(deviceId, { lastFrame, deliver, timer });
+  }
+
+  // Forget a sender, dropping any draw_end still waiting
+  remove(deviceId: string) {
+    const pending = this.pendingEnds.get(deviceId);
+    if (pending) clearTimeout(pending.timer);
+    this.pendingEnds.delete(deviceId);
+    this.lastFrames.delete(deviceId);
+    this.endedThrough.delete(deviceId);
+  }
+
+  clear() {
+    for (const deviceId of [...this.pendingEnds.keys()]) {
+      this.remove(deviceId);
+    }
+    this.lastFrames.clear();
+    this.endedThrough.clear();
+  }
+
+  private releaseEnd(deviceId: string) {
+    const pending = this.pendingEnds.get(deviceId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingEnds.delete(deviceId);
+    this.endedThrough.set(deviceId, pending.lastFrame);
+    pending.deliver();
+  }
+}
@@ -1,16 +1,38 @@
 import { createClient } from '@supabase/supabase-js';
+import type { IceConfig } from './iceConfig';
+import type { DeviceJoinResult } from './repositories';
+import { PLANS, DEFAULT_PLAN, LOBBY_FULL_SQLSTATE } from './plans';
+import { BANNED_SQLSTATE, type ModerationAction, type ModerationEntry } from './moderation';
+import { PIN_REQUIRED_SQLSTATE, type DeviceStatus, type JoinMode } from './lobbyAccess';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseKey) {
+// The local server backend (VITE_BACKEND=local) runs without a Supabase project
+const usesLocalServer = import.meta.env.VITE_BACKEND === 'local';
+
+if (!usesLocalServer && (!supabaseUrl || !supabaseKey)) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseKey, {
+// Device-scoped JWT from join_session() or device_access_token(). Row level security only
+// lets it reach its own session (see 20250710090000_tight_seal.sql), so requests carry it
+// in place of the anon key once this tab has joined one
+let deviceAccessToken: string | null = null;
+
+// Never contacted in local server mode, but createClient needs a URL and key
+export const supabase = createClient(supabaseUrl || 'http://localhost:54321', supabaseKey || 'local-server', {
   auth: {
     persistSession: false, // Disable auth persistence for gaming sessions
   },
+  global: {
+    fetch: (input, init) => {
+      if (!deviceAccessToken) return fetch(input, init);
+      const headers = new Headers(init?.headers);
+      headers.set('Authorization', `Bearer ${deviceAccessToken}`);
+      return fetch(input, { ...init, headers });
+    }
+  },
   realtime: {
     params: {
       eventsPerSecond: 20, // Increase event rate for gaming
@@ -18,6 +40,12 @@ export const supabase = createClient(supabaseUrl, supabaseKey, {
   },
 });
 
+// Act as this device from now on, for REST requests and Realtime subscriptions alike
+const setDeviceAccessToken = (token: string) => {
+  deviceAccessToken = token;
+  supabase.realtime.setAuth(token);
+};
+
 // Enhanced TypeScript interfaces matching your database schema
 export interface Session {
   id: string;
@@ -25,18 +53,42 @@ export interface Session {
   is_active: boolean;
   is_locked: boolean;
   selected_editor: string | null;
+  ice_config?: IceConfig | null;
+  ended_at?: string | null; // Set when is_active goes false
+  end_reason?: SessionEndReason | null;
+  host_device_id?: string | null; // Follows devices.is_host, see transfer_host()
+  max_players?: number; // Phones the lobby holds, enforced by enforce_lobby_capacity()
+  banned_names?: string[]; // Lower-cased, see moderate_device()
+  banned_device_ids?: string[];
+  moderation_log?: ModerationEntry[]; // JSONB, oldest first
+  join_mode?: JoinMode; // Set by the console with set_lobby_access()
   created_at: string;
 }
 
+// What find_session() tells a phone about a lobby before it joins
+export type LobbySummary = Pick<Session, 'id' | 'code' | 'is_active' | 'is_locked' | 'selected_editor' | 'join_mode' | 'max_players'> & {
+  pin_required: boolean;
+};
+
+// Why a session stopped being active
+export type SessionEndReason = 'ended_by_host' | 'expired';
+
+// Session fields clients may change; sessions end through endSession() only, and only the
+// console sets ice_config (setIceConfig())
+export type SessionUpdate = Partial<Pick<Session, 'is_locked' | 'selected_editor'>>;
+
 export interface Device {
   id: string;
   session_id: string;
   name: string;
-  device_type: 'phone' | 'console';
+  device_type: 'phone' | 'console' | 'spectator'; // Spectators watch without a seat
   is_host: boolean;
   joined_at: number; // BIGINT timestamp
   last_seen: string; // TIMESTAMPTZ
   connected_at?: string; // Legacy column for backward compatibility
+  token_issued_at?: string | null; // Set once the device's resume token has been issued
+  is_muted?: boolean; // Set by the host; the console drops the device's inputs
+  status?: DeviceStatus; // Pending while waiting to be let into a knock lobby
 }
 
 export interface DeviceInput {
@@ -62,21 +114,26 @@ export interface WebRTCSignal {
   created_at: string;
 }
 
+export interface InputMappingProfile {
+  id: string;
+  player_name: string;
+  profile_name: string;
+  mappings: Array<{ inputType: string; mappedAction: string; isActive: boolean }>; // JSONB
+  created_at: string;
+  updated_at: string;
+}
+
 // Enhanced helper functions
 export const sessionHelpers = {
-  // Create a new session with proper defaults
-  async createSession(code: string): Promise<Session | null> {
+  // Create a new session with proper defaults; the console joins it right after
+  async createSession(code: string, maxPlayers: number = PLANS[DEFAULT_PLAN].maxPlayers): Promise<Session | null> {
     try {
       const { data, error } = await supabase
-        .from('sessions')
-        .insert({
-          code,
-          is_active: true,
-          is_locked: false,
-          selected_editor: null
+        .rpc('create_session', {
+          lobby_code: code,
+          max_players: maxPlayers
         })
-        .select()
-        .single();
+        .single<Session>();
 
       if (error) {
         console.error('❌ Error creating session:', error);
@@ -91,15 +148,12 @@ export const sessionHelpers = {
     }
   },
 
-  // Get session by code
-  async getSessionByCode(code: string): Promise<Session | null> {
+  // Get session by code; works before joining, so phones can see what they're joining
+  async getSessionByCode(code: string): Promise<LobbySummary | null> {
     try {
       const { data, error } = await supabase
-        .from('sessions')
-        .select('*')
-        .eq('code', code)
-        .eq('is_active', true)
-        .single();
+        .rpc('find_session', { lobby_code: code })
+        .single<LobbySummary>();
 
       if (error) {
         if (error.code === 'PGRST116') {
@@ -116,6 +170,201 @@ export const sessionHelpers = {
     }
   },
 
+  // Get session by id, active or not
+  async getSession(sessionId: string): Promise<Session | null> {
+    try {
+      const { data, error } = await supabase
+        .from('sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('❌ Error fetching session:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ Exception fetching session:', error);
+      return null;
+    }
+  },
+
+  // Update lobby state (lock, selected editor, ...)
+  async updateSession(sessionId: string, changes: SessionUpdate): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('sessions')
+        .update(changes)
+        .eq('id', sessionId);
+
+      if (error) {
+        console.error('❌ Error updating session:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ Exception updating session:', error);
+      return false;
+    }
+  },
+
+  // End a session for everyone; phones see it through their session subscription
+  async endSession(sessionId: string, reason: SessionEndReason = 'ended_by_host'): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('end_session', {
+        session_uuid: sessionId,
+        reason
+      });
+
+      if (error) {
+        console.error('❌ Error ending session:', error);
+        return false;
+      }
+
+      // false when the session had already ended - still ended, so not a failure
+      console.log(`🏁 Session ended (${reason})${data ? '' : ' - was already inactive'}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Exception ending session:', error);
+      return false;
+    }
+  },
+
+  // Make another phone the host; with expectedHostId, only while that device is still host
+  async transferHost(sessionId: string, deviceId: string, expectedHostId?: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('transfer_host', {
+        session_uuid: sessionId,
+        new_host_uuid: deviceId,
+        expected_host_uuid: expectedHostId || null
+      });
+
+      if (error) {
+        console.error('❌ Error transferring host:', error);
+        return false;
+      }
+
+      if (!data) {
+        console.warn('⚠️ Host transfer rejected (host changed or device left)');
+        return false;
+      }
+
+      console.log('👑 Host transferred to', deviceId.slice(-8));
+      return true;
+    } catch (error) {
+      console.error('❌ Exception transferring host:', error);
+      return false;
+    }
+  },
+
+  // Host-only: kick, ban, mute or unmute another device; false if we aren't (still) host
+  async moderateDevice(
+    sessionId: string,
+    hostDeviceId: string,
+    deviceId: string,
+    action: ModerationAction
+  ): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('moderate_device', {
+        session_uuid: sessionId,
+        host_uuid: hostDeviceId,
+        target_uuid: deviceId,
+        moderation_action: action
+      });
+
+      if (error) {
+        console.error(`❌ Error moderating device (${action}):`, error);
+        return false;
+      }
+
+      if (!data) {
+        console.warn(`⚠️ Moderation rejected (${action}): not host, or the device left`);
+        return false;
+      }
+
+      console.log(`🛡️ Device ${deviceId.slice(-8)}: ${action}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Exception moderating device:', error);
+      return false;
+    }
+  },
+
+  // This device's last moderation entry; still answers once the device was removed
+  async getLastModeration(sessionId: string): Promise<ModerationEntry | null> {
+    try {
+      const { data, error } = await supabase.rpc('last_moderation', { session_uuid: sessionId });
+
+      if (error) {
+        console.error('❌ Error fetching moderation:', error);
+        return null;
+      }
+
+      return data as ModerationEntry | null;
+    } catch (error) {
+      console.error('❌ Exception fetching moderation:', error);
+      return null;
+    }
+  },
+
+  // Console-only: open the lobby, protect it with a PIN, or make players knock
+  async setLobbyAccess(sessionId: string, consoleDeviceId: string, mode: JoinMode, pin?: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('set_lobby_access', {
+        session_uuid: sessionId,
+        console_uuid: consoleDeviceId,
+        mode,
+        pin: pin || null
+      });
+
+      if (error) {
+        console.error('❌ Error setting lobby access:', error);
+        return false;
+      }
+
+      if (!data) {
+        console.warn('⚠️ Lobby access change rejected (not the console, or a bad PIN)');
+        return false;
+      }
+
+      console.log('🚪 Lobby access is now', mode);
+      return true;
+    } catch (error) {
+      console.error('❌ Exception setting lobby access:', error);
+      return false;
+    }
+  },
+
+  // Console-only: overlay ICE settings for every device in the session, or clear them with null
+  async setIceConfig(sessionId: string, consoleDeviceId: string, config: IceConfig | null): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('set_ice_config', {
+        session_uuid: sessionId,
+        console_uuid: consoleDeviceId,
+        config
+      });
+
+      if (error) {
+        console.error('❌ Error setting ICE config:', error);
+        return false;
+      }
+
+      if (!data) {
+        console.warn('⚠️ ICE config change rejected (not the console)');
+        return false;
+      }
+
+      console.log('🧊 Session ICE config', config ? 'set' : 'cleared');
+      return true;
+    } catch (error) {
+      console.error('❌ Exception setting ICE config:', error);
+      return false;
+    }
+  },
+
   // Lock session for game start
   async lockSession(sessionId: string, selectedEditor?: string): Promise<boolean> {
     try {
@@ -146,40 +395,231 @@ export const deviceHelpers = {
   async createDevice(
     sessionId: string, 
     name: string, 
-    deviceType: 'phone' | 'console' = 'phone',
+    deviceType: Device['device_type'] = 'phone',
     isHost: boolean = false
   ): Promise<Device | null> {
+    const { device } = await deviceHelpers.joinSession(sessionId, name, deviceType, isHost);
+    return device;
+  },
+
+  // Create a device, telling a full lobby, a ban or a missing PIN apart from other failures.
+  // token is the resume token of this phone's previous device in the session, if it has one
+  async joinSession(
+    sessionId: string,
+    name: string,
+    deviceType: Device['device_type'] = 'phone',
+    isHost: boolean = false,
+    token?: string | null,
+    pin?: string | null
+  ): Promise<DeviceJoinResult> {
     try {
-      const now = new Date().toISOString();
-      const joinedAtTimestamp = Date.now(); // Use milliseconds timestamp for BIGINT
-      
-      const { data, error } = await supabase
-        .from('devices')
-        .insert({
-          session_id: sessionId,
-          name,
-          device_type: deviceType,
-          is_host: isHost,
-          joined_at: joinedAtTimestamp, // BIGINT timestamp
-          last_seen: now, // TIMESTAMPTZ
-          connected_at: now // Explicitly set connected_at for compatibility
-        })
-        .select()
-        .single();
+      // join_session() checks bans (names and the old token) and the PIN, and hands back
+      // the device together with its access token
+      const { data, error } = await supabase.rpc('join_session', {
+        session_uuid: sessionId,
+        device_name: name,
+        device_type: deviceType,
+        is_host: isHost,
+        token: token || null,
+        pin: pin || null
+      });
 
       if (error) {
+        // Raised by enforce_lobby_capacity(); the hint carries the capacity
+        if (error.code === LOBBY_FULL_SQLSTATE) {
+          console.warn('🚫 Lobby is full:', error.details);
+          return { device: null, error: 'lobby_full', maxPlayers: Number(error.hint) || undefined };
+        }
+        // Raised by refuse_banned_device() and join_session()
+        if (error.code === BANNED_SQLSTATE) {
+          console.warn('🚫 Banned from this session:', name);
+          return { device: null, error: 'banned' };
+        }
+        // Raised by guard_lobby_access() and join_session()
+        if (error.code === PIN_REQUIRED_SQLSTATE) {
+          console.warn('🔢 Wrong or missing lobby PIN');
+          return { device: null, error: 'pin_required' };
+        }
         console.error('❌ Error creating device:', error);
+        return { device: null, error: 'failed' };
+      }
+
+      // NULL when the session is gone, or already has its console; a wrong PIN is answered
+      // rather than raised, so the guess stays counted
+      const joined = data as { device: Device; access_token: string } | { error: 'pin_required' | 'pin_locked' } | null;
+      if (!joined) {
+        console.error('❌ Error creating device: session not joinable');
+        return { device: null, error: 'failed' };
+      }
+      if ('error' in joined) {
+        console.warn(joined.error === 'pin_locked' ? '🔒 Too many wrong PINs, lobby PINs locked for now' : '🔢 Wrong lobby PIN');
+        return { device: null, error: joined.error };
+      }
+
+      setDeviceAccessToken(joined.access_token);
+      const device = joined.device;
+      console.log(`✅ Device created: ${name} (${deviceType}${device.status === 'pending' ? ', pending approval' : ''})`);
+      return { device, error: null };
+    } catch (error) {
+      console.error('❌ Exception creating device:', error);
+      return { device: null, error: 'failed' };
+    }
+  },
+
+  // Mark a device as still around; session expiry is based on last_seen
+  async touchDevice(deviceId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('devices')
+        .update({ last_seen: new Date().toISOString() })
+        .eq('id', deviceId);
+
+      if (error) {
+        console.error('❌ Error updating device last_seen:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ Exception updating device last_seen:', error);
+      return false;
+    }
+  },
+
+  // Get the signed token that lets this device rejoin after a reload; issued only once
+  async issueDeviceToken(deviceId: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('issue_device_token', {
+        device_uuid: deviceId
+      });
+
+      if (error) {
+        console.error('❌ Error issuing device token:', error);
+        return null;
+      }
+
+      if (!data) {
+        console.warn('⚠️ Device token was already issued:', deviceId.slice(-8));
         return null;
       }
 
-      console.log(`✅ Device created: ${name} (${deviceType})`);
       return data;
     } catch (error) {
-      console.error('❌ Exception creating device:', error);
+      console.error('❌ Exception issuing device token:', error);
       return null;
     }
   },
 
+  // Reclaim a device row with its token; null if the token is invalid or the device is gone
+  async resumeDevice(sessionId: string, token: string): Promise<Device | null> {
+    try {
+      const { data, error } = await supabase.rpc('resume_device', {
+        session_uuid: sessionId,
+        token
+      });
+
+      if (error) {
+        console.error('❌ Error resuming device:', error);
+        return null;
+      }
+
+      const device = (data as Device[] | null)?.[0] || null;
+      if (!device) return null;
+
+      // The token from before the reload is gone with the page
+      const { data: accessToken, error: tokenError } = await supabase.rpc('device_access_token', {
+        session_uuid: sessionId,
+        token
+      });
+
+      if (tokenError || !accessToken) {
+        console.error('❌ Error getting access token for resumed device:', tokenError);
+        return null;
+      }
+
+      setDeviceAccessToken(accessToken);
+      console.log(`✅ Device resumed: ${device.name}`);
+      return device;
+    } catch (error) {
+      console.error('❌ Exception resuming device:', error);
+      return null;
+    }
+  },
+
+  // Turn a spectator into a player; refused with lobby_full when every seat is taken.
+  // Only the console or the host may, see promote_spectator()
+  async promoteSpectator(deviceId: string): Promise<DeviceJoinResult> {
+    try {
+      const { data, error } = await supabase
+        .rpc('promote_spectator', { device_uuid: deviceId })
+        .single<Device>();
+
+      if (error) {
+        if (error.code === LOBBY_FULL_SQLSTATE) {
+          console.warn('🚫 Lobby is full, spectator stays a spectator:', error.details);
+          return { device: null, error: 'lobby_full', maxPlayers: Number(error.hint) || undefined };
+        }
+        console.error('❌ Error promoting spectator:', error);
+        return { device: null, error: 'failed' };
+      }
+
+      console.log(`✅ Spectator promoted: ${data.name}`);
+      return { device: data, error: null };
+    } catch (error) {
+      console.error('❌ Exception promoting spectator:', error);
+      return { device: null, error: 'failed' };
+    }
+  },
+
+  // Console or host: let a pending device into a knock lobby, or deny it (deletes it)
+  async reviewJoin(sessionId: string, reviewerDeviceId: string, deviceId: string, approve: boolean): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('review_join', {
+        session_uuid: sessionId,
+        reviewer_uuid: reviewerDeviceId,
+        device_uuid: deviceId,
+        approve
+      });
+
+      if (error) {
+        console.error('❌ Error reviewing join request:', error);
+        return false;
+      }
+
+      if (!data) {
+        console.warn('⚠️ Join review rejected (not console or host, or the device is no longer pending)');
+        return false;
+      }
+
+      console.log(`${approve ? '✅ Approved' : '🚫 Denied'} device ${deviceId.slice(-8)}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Exception reviewing join request:', error);
+      return false;
+    }
+  },
+
+  // Remove a device from its session; its inputs and signals cascade
+  async removeDevice(deviceId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('devices')
+        .delete()
+        .eq('id', deviceId);
+
+      if (error) {
+        console.error('❌ Error removing device:', error);
+        return false;
+      }
+
+      console.log('🗑️ Device removed:', deviceId.slice(-8));
+      return true;
+    } catch (error) {
+      console.error('❌ Exception removing device:', error);
+      return false;
+    }
+  },
+
   // Get devices for session
   async getSessionDevices(sessionId: string): Promise<Device[]> {
     try {
@@ -375,6 +815,63 @@ export const webrtcHelpers = {
   }
 };
 
+// Input mapping profile helpers
+export const mappingProfileHelpers = {
+  // Get the saved mapping profile for a player name
+  async getProfileForPlayer(playerName: string): Promise<InputMappingProfile | null> {
+    try {
+      const { data, error } = await supabase
+        .from('input_mapping_profiles')
+        .select('*')
+        .eq('player_name', playerName)
+        .maybeSingle();
+
+      if (error) {
+        console.error('❌ Error fetching mapping profile:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ Exception fetching mapping profile:', error);
+      return null;
+    }
+  },
+
+  // Create or replace the mapping profile for a player name
+  async saveProfile(
+    playerName: string,
+    profileName: string,
+    mappings: InputMappingProfile['mappings']
+  ): Promise<InputMappingProfile | null> {
+    try {
+      const { data, error } = await supabase
+        .from('input_mapping_profiles')
+        .upsert(
+          {
+            player_name: playerName,
+            profile_name: profileName,
+            mappings
+          },
+          { onConflict: 'player_name' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ Error saving mapping profile:', error);
+        return null;
+      }
+
+      console.log(`✅ Mapping profile saved: ${profileName} (${playerName})`);
+      return data;
+    } catch (error) {
+      console.error('❌ Exception saving mapping profile:', error);
+      return null;
+    }
+  }
+};
+
 // Real-time subscription helpers
 export const realtimeHelpers = {
   // Subscribe to device changes
@@ -444,5 +941,6 @@ export default {
   deviceHelpers,
   deviceInputHelpers,
   webrtcHelpers,
+  mappingProfileHelpers,
   realtimeHelpers
 };
\ No newline at end of file
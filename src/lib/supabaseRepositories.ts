@@ -0,0 +1,267 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Device, SessionEndReason, SessionUpdate } from './supabase';
+import { createSignalingBackend } from './signaling';
+import { RealtimeBroadcastTransport } from './transport';
+import type { PresenceMeta, PresenceMembers } from './presence';
+import type {
+  DeviceRepository,
+  MappingProfileRepository,
+  PresenceRepository,
+  RelayRepository,
+  Repositories,
+  RowChange,
+  SessionRepository,
+  SignalRepository,
+  SubscriptionStatus
+} from './repositories';
+
+// Repositories backed by the helpers in ./supabase, loaded on first use
+
+const toRowChange = <T>(payload: { eventType: RowChange<T>['eventType']; new: unknown; old: unknown }): RowChange<T> => ({
+  eventType: payload.eventType,
+  // postgres_changes sends {} rather than null for the missing side
+  new: payload.eventType === 'DELETE' ? null : payload.new as T,
+  old: payload.eventType === 'INSERT' ? null : payload.old as Partial<T>
+});
+
+// supabase.channel() hands back an existing channel with the same name, which can't
+// take more listeners once subscribed - so every subscription gets its own
+let nextChannelId = 1;
+
+const subscribeToTable = <T>(
+  channelName: string,
+  table: string,
+  filter: string,
+  event: '*' | 'INSERT' | 'UPDATE',
+  onChange: (change: RowChange<T>) => void,
+  onStatus?: (status: SubscriptionStatus) => void
+): (() => void) => {
+  let unsubscribed = false;
+  let unsubscribe = () => {
+    unsubscribed = true;
+  };
+
+  import('./supabase').then(({ supabase }) => {
+    if (unsubscribed) return;
+
+    const channel = supabase
+      .channel(`${channelName}_${nextChannelId++}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table, filter }, payload => {
+        if (event !== '*' && payload.eventType !== event) return;
+        onChange(toRowChange<T>(payload));
+      })
+      .subscribe(status => onStatus?.(status));
+
+    unsubscribe = () => {
+      supabase.removeChannel(channel);
+    };
+  });
+
+  return () => unsubscribe();
+};
+
+const sessions: SessionRepository = {
+  async create(code, maxPlayers) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.createSession(code, maxPlayers);
+  },
+
+  async get(sessionId) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.getSession(sessionId);
+  },
+
+  async getByCode(code) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.getSessionByCode(code);
+  },
+
+  async update(sessionId: string, changes: SessionUpdate) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.updateSession(sessionId, changes);
+  },
+
+  async lock(sessionId, selectedEditor) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.lockSession(sessionId, selectedEditor);
+  },
+
+  async end(sessionId: string, reason?: SessionEndReason) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.endSession(sessionId, reason);
+  },
+
+  async transferHost(sessionId, deviceId, expectedHostId) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.transferHost(sessionId, deviceId, expectedHostId);
+  },
+
+  async moderate(sessionId, hostDeviceId, deviceId, action) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.moderateDevice(sessionId, hostDeviceId, deviceId, action);
+  },
+
+  // The device is the one our token is for
+  async lastModeration(sessionId) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.getLastModeration(sessionId);
+  },
+
+  async setAccess(sessionId, consoleDeviceId, mode, pin) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.setLobbyAccess(sessionId, consoleDeviceId, mode, pin);
+  },
+
+  async setIceConfig(sessionId, consoleDeviceId, config) {
+    const { sessionHelpers } = await import('./supabase');
+    return sessionHelpers.setIceConfig(sessionId, consoleDeviceId, config);
+  },
+
+  subscribe(sessionId, onChange, onStatus) {
+    return subscribeToTable(`session_${sessionId}`, 'sessions', `id=eq.${sessionId}`, 'UPDATE', onChange, onStatus);
+  }
+};
+
+const devices: DeviceRepository = {
+  async create(sessionId: string, name: string, deviceType: Device['device_type'] = 'phone', isHost: boolean = false) {
+    const { deviceHelpers } = await import('./supabase');
+    return deviceHelpers.createDevice(sessionId, name, deviceType, isHost);
+  },
+
+  async join(
+    sessionId: string,
+    name: string,
+    deviceType: Device['device_type'] = 'phone',
+    isHost: boolean = false,
+    token?: string | null,
+    pin?: string | null
+  ) {
+    const { deviceHelpers } = await import('./supabase');
+    return deviceHelpers.joinSession(sessionId, name, deviceType, isHost, token, pin);
+  },
+
+  async review(sessionId, reviewerDeviceId, deviceId, approve) {
+    const { deviceHelpers } = await import('./supabase');
+    return deviceHelpers.reviewJoin(sessionId, reviewerDeviceId, deviceId, approve);
+  },
+
+  async listBySession(sessionId) {
+    const { deviceHelpers } = await import('./supabase');
+    return deviceHelpers.getSessionDevices(sessionId);
+  },
+
+  async touch(deviceId) {
+    const { deviceHelpers } = await import('./supabase');
+    return deviceHelpers.touchDevice(deviceId);
+  },
+
+  async promote(deviceId) {
+    const { deviceHelpers } = await import('./supabase');
+    return deviceHelpers.promoteSpectator(deviceId);
+  },
+
+  async remove(deviceId) {
+    const { deviceHelpers } = await import('./supabase');
+    return deviceHelpers.removeDevice(deviceId);
+  },
+
+  async issueToken(deviceId) {
+    const { deviceHelpers } = await import('./supabase');
+    return deviceHelpers.issueDeviceToken(deviceId);
+  },
+
+  async resume(sessionId, token) {
+    const { deviceHelpers } = await import('./supabase');
+    return deviceHelpers.resumeDevice(sessionId, token);
+  },
+
+  subscribe(sessionId, onChange, onStatus) {
+    return subscribeToTable(`devices_${sessionId}`, 'devices', `session_id=eq.${sessionId}`, '*', onChange, onStatus);
+  }
+};
+
+// Broadcast outboxes by default, webrtc_signals rows with VITE_SIGNALING_BACKEND=table
+const signals: SignalRepository = {
+  open: (sessionId, deviceId) => createSignalingBackend(sessionId, deviceId)
+};
+
+const relay: RelayRepository = {
+  open: (sessionId, deviceId, onText, onBinary, onReadyChange, onSendFailed) =>
+    new RealtimeBroadcastTransport(sessionId, deviceId, onText, onBinary, onReadyChange, onSendFailed)
+};
+
+// Realtime Presence keyed by device id; every device must use the same channel name
+const presence: PresenceRepository = {
+  join(sessionId, meta, onSync, onStatus) {
+    let current: PresenceMeta = meta;
+    let left = false;
+    let channel: RealtimeChannel | undefined;
+    let subscribed = false;
+
+    import('./supabase').then(({ supabase }) => {
+      if (left) return;
+
+      channel = supabase
+        .channel(`presence_${sessionId}`, { config: { presence: { key: meta.device_id }, private: true } })
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel!.presenceState<PresenceMeta>();
+          const members: PresenceMembers = {};
+          for (const [deviceId, metas] of Object.entries(state)) {
+            // The newest entry wins if a device is connected twice
+            if (metas.length > 0) members[deviceId] = metas[metas.length - 1];
+          }
+          onSync(members);
+        })
+        .subscribe(status => {
+          subscribed = status === 'SUBSCRIBED';
+          if (subscribed) channel!.track(current);
+          onStatus?.(status);
+        });
+    });
+
+    return {
+      update(changes) {
+        current = { ...current, ...changes };
+        if (subscribed) channel?.track(current);
+      },
+      leave() {
+        left = true;
+        if (channel) {
+          const leaving = channel;
+          leaving.untrack().finally(() => {
+            import('./supabase').then(({ supabase }) => supabase.removeChannel(leaving));
+          });
+        }
+      }
+    };
+  }
+};
+
+const mappingProfiles: MappingProfileRepository = {
+  async getForPlayer(playerName) {
+    const { mappingProfileHelpers } = await import('./supabase');
+    return mappingProfileHelpers.getProfileForPlayer(playerName);
+  },
+
+  async save(playerName, profileName, mappings) {
+    const { mappingProfileHelpers } = await import('./supabase');
+    return mappingProfileHelpers.saveProfile(playerName, profileName, mappings);
+  }
+};
+
+export const createSupabaseRepositories = (): Repositories => ({
+  kind: 'supabase',
+
+  async checkConnection() {
+    const { supabase } = await import('./supabase');
+    const { error } = await supabase.from('sessions').select('id').limit(1);
+    if (error) throw new Error(`Database error: ${error.message}`);
+  },
+
+  sessions,
+  devices,
+  signals,
+  relay,
+  presence,
+  mappingProfiles
+});
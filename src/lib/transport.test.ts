@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RealtimeBroadcastTransport } from './transport';
+
+// The Supabase relay: each device sends on its own outbox and listens on its senders'
+
+const fake = vi.hoisted(() => {
+  type Handler = (event: { payload: unknown }) => void;
+  interface FakeChannel {
+    handler?: Handler;
+    on: (type: string, filter: unknown, handler: Handler) => FakeChannel;
+    subscribe: (onStatus: (status: string) => void) => FakeChannel;
+    send: ReturnType<typeof vi.fn>;
+    unsubscribe: ReturnType<typeof vi.fn>;
+  }
+
+  const channels = new Map<string, FakeChannel>();
+  const channel = (topic: string) => {
+    const created: FakeChannel = {
+      on: (_type, _filter, handler) => {
+        created.handler = handler;
+        return created;
+      },
+      subscribe: onStatus => {
+        onStatus('SUBSCRIBED');
+        return created;
+      },
+      send: vi.fn(async () => 'ok'),
+      unsubscribe: vi.fn()
+    };
+    channels.set(topic, created);
+    return created;
+  };
+
+  return {
+    channels,
+    channel: vi.fn(channel),
+    rpc: vi.fn(),
+    broadcast: (topic: string, payload: unknown) => channels.get(topic)?.handler?.({ payload })
+  };
+});
+
+vi.mock('./supabase', () => ({
+  supabase: { channel: fake.channel, rpc: fake.rpc }
+}));
+
+const outbox = (deviceId: string) => fake.channels.get(`transport_session-1_${deviceId}`)!;
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fake.channels.clear();
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('RealtimeBroadcastTransport', () => {
+  it('sends on its own outbox without naming a sender or calling the database', async () => {
+    const transport = new RealtimeBroadcastTransport('session-1', 'phone-1', () => {}, () => {});
+    await transport.connect();
+
+    expect(transport.sendText('console', '{"type":"ping"}')).toBe(true);
+    expect(transport.sendText('console', '{"type":"pong"}')).toBe(true);
+    expect(outbox('phone-1').send.mock.calls).toEqual([
+      [{ type: 'broadcast', event: 'message', payload: { to: 'console', text: '{"type":"ping"}' } }],
+      [{ type: 'broadcast', event: 'message', payload: { to: 'console', text: '{"type":"pong"}' } }]
+    ]);
+    expect(fake.rpc).not.toHaveBeenCalled();
+  });
+
+  it('credits envelopes to the owner of the outbox they arrive on', async () => {
+    const received: [string, string][] = [];
+    const transport = new RealtimeBroadcastTransport('session-1', 'console', (text, from) => received.push([text, from]), () => {});
+    await transport.connect();
+    transport.listenTo(['phone-1']);
+
+    fake.broadcast('transport_session-1_phone-1', { to: 'console', text: 'for the console' });
+    fake.broadcast('transport_session-1_phone-1', { to: 'phone-2', text: 'for someone else' });
+    fake.broadcast('transport_session-1_phone-1', { from: 'phone-2', to: 'console', text: 'claims another sender' });
+    expect(received).toEqual([['for the console', 'phone-1'], ['claims another sender', 'phone-1']]);
+  });
+
+  it('only listens on the outboxes of the senders it was given', async () => {
+    const transport = new RealtimeBroadcastTransport('session-1', 'console', () => {}, () => {});
+    transport.listenTo(['phone-1', 'phone-2']);
+    await transport.connect();
+    expect(outbox('phone-1')).toBeDefined();
+    expect(outbox('phone-2')).toBeDefined();
+
+    transport.listenTo(['phone-2']);
+    expect(outbox('phone-1').unsubscribe).toHaveBeenCalled();
+    expect(outbox('phone-2').unsubscribe).not.toHaveBeenCalled();
+  });
+
+  it('carries stream frames as base64 and hands them back as bytes', async () => {
+    const frames: [number[], string][] = [];
+    const transport = new RealtimeBroadcastTransport('session-1', 'console', () => {}, (buffer, from) => frames.push([Array.from(new Uint8Array(buffer)), from]));
+    await transport.connect();
+    transport.listenTo(['phone-1']);
+
+    transport.sendBinary('phone-1', new Uint8Array([0, 1, 254, 255]).buffer);
+    expect(outbox('console').send).toHaveBeenCalledWith({ type: 'broadcast', event: 'message', payload: { to: 'phone-1', binary: 'AAH+/w==' } });
+
+    fake.broadcast('transport_session-1_phone-1', { to: 'console', binary: 'AAH+/w==' });
+    expect(frames).toEqual([[[0, 1, 254, 255], 'phone-1']]);
+  });
+
+  it('reports sends that Realtime does not acknowledge', async () => {
+    const failures: [string, string][] = [];
+    const transport = new RealtimeBroadcastTransport('session-1', 'phone-1', () => {}, () => {}, undefined, (to, reason) => failures.push([to, reason]));
+    await transport.connect();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    outbox('phone-1').send.mockResolvedValueOnce('timed out');
+
+    expect(transport.sendText('console', 'lost')).toBe(true);
+    await flush();
+    expect(failures).toEqual([['console', 'timed out']]);
+  });
+
+  it('stops sending and reports itself not ready once closed', async () => {
+    const readiness: boolean[] = [];
+    const transport = new RealtimeBroadcastTransport('session-1', 'phone-1', () => {}, () => {}, ready => readiness.push(ready));
+    expect(transport.sendText('console', 'too early')).toBe(false);
+
+    await transport.connect();
+    const sent = outbox('phone-1');
+    transport.close();
+
+    expect(transport.sendText('console', 'too late')).toBe(false);
+    expect(sent.send).not.toHaveBeenCalled();
+    expect(sent.unsubscribe).toHaveBeenCalled();
+    expect(readiness).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,319 @@
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { getLocalServerClient } from './localServer';
+
+/*
+  Message transports
+
+  WebRTC data channels are the primary transport. When a peer's channel isn't open
+  (still negotiating, or a restrictive NAT means it never will be) messages go over
+  Supabase Realtime broadcast instead. Broadcast messages are relayed by Realtime and
+  never touch Postgres.
+
+  Each device sends on its own outbox, `transport_<sessionId>_<deviceId>`, and listens
+  on the outboxes of the devices it takes relayed messages from (see listenTo, which
+  WebRTCManager.setRelaySenders calls). Only the owner may broadcast on an outbox, and
+  muted devices not at all; Realtime checks that once when the channel is joined. So
+  the sender of a message is the outbox it arrived on, whatever the payload says.
+
+  Broadcast payload (event `message`):
+    { to, text }    - a JSON protocol envelope, exactly as sent on a data channel
+    { to, binary }  - a base64 encoded stream frame (see streamCodec)
+
+  Messages leave in order over the outbox, and Realtime acknowledges each one; sends
+  it doesn't acknowledge are reported through onSendFailed. Listeners drop envelopes
+  addressed to someone else.
+
+  The repositories pick the relay (RelayRepository.open). With the local server backend
+  (VITE_BACKEND=local) the same envelopes go through its `relay` operation instead,
+  which only forwards them to the addressed device and sets `from` itself, to the
+  device the sending connection receives relayed envelopes for.
+  Both count as the 'realtime' (relayed) transport.
+*/
+
+export type TransportKind = 'webrtc' | 'realtime';
+
+export interface MessageTransport {
+  readonly kind: TransportKind;
+  connect(): Promise<void>;
+  isReady(): boolean;
+  // Devices whose relayed messages are heard; only the Supabase relay needs this, the
+  // others deliver everything addressed to this device
+  listenTo(deviceIds: Iterable<string>): void;
+  // False when the message can't go out; a message that goes out and is lost later is
+  // reported through onSendFailed
+  sendText(targetDeviceId: string, text: string): boolean;
+  sendBinary(targetDeviceId: string, buffer: ArrayBuffer): boolean;
+  close(): void;
+}
+
+interface BroadcastEnvelope {
+  from: string;
+  to: string;
+  text?: string;
+  binary?: string;
+}
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): ArrayBuffer => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+export class RealtimeBroadcastTransport implements MessageTransport {
+  readonly kind = 'realtime' as const;
+  private sessionId: string;
+  private deviceId: string;
+  private outbox?: RealtimeChannel;
+  private client?: SupabaseClient;
+  private peers = new Set<string>();
+  private peerChannels = new Map<string, RealtimeChannel>(); // Outboxes we listen on, by owner
+  private ready = false;
+  private closed = false;
+  private onText: (text: string, fromDeviceId: string) => void;
+  private onBinary: (buffer: ArrayBuffer, fromDeviceId: string) => void;
+  private onReadyChange?: (ready: boolean) => void;
+  private onSendFailed?: (targetDeviceId: string, reason: string) => void;
+
+  constructor(
+    sessionId: string,
+    deviceId: string,
+    onText: (text: string, fromDeviceId: string) => void,
+    onBinary: (buffer: ArrayBuffer, fromDeviceId: string) => void,
+    onReadyChange?: (ready: boolean) => void,
+    onSendFailed?: (targetDeviceId: string, reason: string) => void
+  ) {
+    this.sessionId = sessionId;
+    this.deviceId = deviceId;
+    this.onText = onText;
+    this.onBinary = onBinary;
+    this.onReadyChange = onReadyChange;
+    this.onSendFailed = onSendFailed;
+  }
+
+  // Join our outbox, and the outboxes of the devices we already listen to
+  async connect(): Promise<void> {
+    const { supabase } = await import('./supabase');
+    if (this.closed) return;
+
+    this.client = supabase;
+    this.outbox = supabase
+      .channel(this.topic(this.deviceId), {
+        config: { broadcast: { self: false, ack: true }, private: true }
+      })
+      .subscribe((status) => {
+        console.log(`📻 [Transport] Realtime outbox status: ${status}`);
+        this.setReady(status === 'SUBSCRIBED');
+      });
+    this.peers.forEach(peer => this.joinPeer(peer));
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  // Join the outboxes of new senders and leave those no longer listed
+  listenTo(deviceIds: Iterable<string>) {
+    this.peers = new Set(deviceIds);
+    this.peers.delete(this.deviceId);
+
+    for (const [peer, channel] of this.peerChannels) {
+      if (!this.peers.has(peer)) {
+        channel.unsubscribe();
+        this.peerChannels.delete(peer);
+      }
+    }
+
+    this.peers.forEach(peer => this.joinPeer(peer));
+  }
+
+  sendText(targetDeviceId: string, text: string): boolean {
+    return this.send({ to: targetDeviceId, text });
+  }
+
+  sendBinary(targetDeviceId: string, buffer: ArrayBuffer): boolean {
+    return this.send({ to: targetDeviceId, binary: toBase64(buffer) });
+  }
+
+  close() {
+    this.closed = true;
+    this.setReady(false);
+    this.peerChannels.forEach(channel => channel.unsubscribe());
+    this.peerChannels.clear();
+    this.outbox?.unsubscribe();
+    this.outbox = undefined;
+  }
+
+  private topic(deviceId: string) {
+    return `transport_${this.sessionId}_${deviceId}`;
+  }
+
+  // Only while the outbox is joined: otherwise supabase-js would post each message over HTTP
+  private send(envelope: Omit<BroadcastEnvelope, 'from'>): boolean {
+    if (!this.outbox || !this.ready) {
+      return false;
+    }
+
+    this.outbox
+      .send({ type: 'broadcast', event: 'message', payload: envelope })
+      .then(result => {
+        if (result !== 'ok') {
+          console.error(`❌ [Transport] Realtime relay to ${envelope.to.slice(-8)} failed: ${result}`);
+          this.onSendFailed?.(envelope.to, result);
+        }
+      });
+    return true;
+  }
+
+  // Listen on a sender's outbox for envelopes addressed to us
+  private joinPeer(peer: string) {
+    if (!this.client || this.closed || this.peerChannels.has(peer)) return;
+
+    const channel = this.client
+      .channel(this.topic(peer), {
+        config: { broadcast: { self: false }, private: true }
+      })
+      .on('broadcast', { event: 'message' }, ({ payload }) => {
+        this.handleBroadcast(payload as BroadcastEnvelope, peer);
+      })
+      .subscribe((status) => {
+        console.log(`📻 [Transport] Realtime relay from ${peer.slice(-8)}: ${status}`);
+      });
+    this.peerChannels.set(peer, channel);
+  }
+
+  private handleBroadcast(envelope: BroadcastEnvelope, from: string) {
+    if (!envelope || envelope.to !== this.deviceId) {
+      return;
+    }
+
+    if (typeof envelope.text === 'string') {
+      this.onText(envelope.text, from);
+    } else if (typeof envelope.binary === 'string') {
+      try {
+        this.onBinary(fromBase64(envelope.binary), from);
+      } catch (error) {
+        console.error(`❌ [Transport] Undecodable binary broadcast from ${from.slice(-8)}:`, error);
+      }
+    }
+  }
+
+  private setReady(ready: boolean) {
+    if (this.ready === ready) return;
+    this.ready = ready;
+    this.onReadyChange?.(ready);
+  }
+}
+
+export class LocalRelayTransport implements MessageTransport {
+  readonly kind = 'realtime' as const;
+  private sessionId: string;
+  private deviceId: string;
+  private ready = false;
+  private closed = false;
+  private unsubscribe?: () => void;
+  private onText: (text: string, fromDeviceId: string) => void;
+  private onBinary: (buffer: ArrayBuffer, fromDeviceId: string) => void;
+  private onReadyChange?: (ready: boolean) => void;
+  private onSendFailed?: (targetDeviceId: string, reason: string) => void;
+
+  constructor(
+    sessionId: string,
+    deviceId: string,
+    onText: (text: string, fromDeviceId: string) => void,
+    onBinary: (buffer: ArrayBuffer, fromDeviceId: string) => void,
+    onReadyChange?: (ready: boolean) => void,
+    onSendFailed?: (targetDeviceId: string, reason: string) => void
+  ) {
+    this.sessionId = sessionId;
+    this.deviceId = deviceId;
+    this.onText = onText;
+    this.onBinary = onBinary;
+    this.onReadyChange = onReadyChange;
+    this.onSendFailed = onSendFailed;
+  }
+
+  // Register for envelopes addressed to this device
+  async connect(): Promise<void> {
+    if (this.closed) return;
+
+    this.unsubscribe = getLocalServerClient().subscribe<BroadcastEnvelope>(
+      'relay',
+      { sessionId: this.sessionId, deviceId: this.deviceId },
+      change => {
+        if (change.new) this.handleEnvelope(change.new);
+      },
+      status => {
+        console.log(`📻 [Transport] Local relay status: ${status}`);
+        this.setReady(status === 'SUBSCRIBED');
+      }
+    );
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  listenTo() {
+    // The server only forwards envelopes addressed to us and sets their sender
+  }
+
+  sendText(targetDeviceId: string, text: string): boolean {
+    return this.send({ to: targetDeviceId, text });
+  }
+
+  sendBinary(targetDeviceId: string, buffer: ArrayBuffer): boolean {
+    return this.send({ to: targetDeviceId, binary: toBase64(buffer) });
+  }
+
+  close() {
+    this.closed = true;
+    this.setReady(false);
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  // The server fills in `from`; requests share one WebSocket, so they stay in order
+  private send(envelope: Omit<BroadcastEnvelope, 'from'>): boolean {
+    if (!this.ready) {
+      return false;
+    }
+
+    getLocalServerClient()
+      .request('relay', { sessionId: this.sessionId, ...envelope })
+      .catch(error => {
+        console.error(`❌ [Transport] Local relay to ${envelope.to.slice(-8)} failed:`, error);
+        this.onSendFailed?.(envelope.to, error instanceof Error ? error.message : String(error));
+      });
+    return true;
+  }
+
+  private handleEnvelope(envelope: BroadcastEnvelope) {
+    if (typeof envelope.text === 'string') {
+      this.onText(envelope.text, envelope.from);
+    } else if (typeof envelope.binary === 'string') {
+      try {
+        this.onBinary(fromBase64(envelope.binary), envelope.from);
+      } catch (error) {
+        console.error(`❌ [Transport] Undecodable binary relay from ${envelope.from.slice(-8)}:`, error);
+      }
+    }
+  }
+
+  private setReady(ready: boolean) {
+    if (this.ready === ready) return;
+    this.ready = ready;
+    this.onReadyChange?.(ready);
+  }
+}
@@ -1,95 +1,253 @@
+import { DeliveryClass, OutgoingWebRTCMessage, PROTOCOL_VERSION, ProtocolError, WebRTCMessage, createInputPayload, getDeliveryClass, parseWebRTCMessage } from './protocol';
+import { StreamBatch, StrokeEndGate, decodeStreamBatch } from './streamCodec';
+import { LatencyTracker, PeerLatency } from './latency';
+import type { MessageTransport, TransportKind } from './transport';
+import type { RelayRepository, SessionRepository, SignalRepository } from './repositories';
+import { SignalMessage, SignalPayload, SignalType, SignalingBackend } from './signaling';
+import { CandidatePairInfo, IceConfig, IceCredentialProvider, IceServerResolver, getEnvIceConfig, getSelectedCandidatePair, mergeIceConfig } from './iceConfig';
+
+export type { OutgoingWebRTCMessage, WebRTCMessage } from './protocol';
+export type { PeerLatency } from './latency';
+export type { TransportKind } from './transport';
+export type { CandidatePairInfo } from './iceConfig';
+
 export interface WebRTCConnection {
   peerConnection: RTCPeerConnection;
-  dataChannel?: RTCDataChannel;
+  reliableChannel?: RTCDataChannel; // Ordered, fully reliable - commands (selection, lock, editor change)
+  unreliableChannel?: RTCDataChannel; // Unordered, no retransmits - streaming input
   deviceId: string;
-  isInitiator: boolean;
+  polite: boolean; // Perfect negotiation role - the polite peer yields on offer collisions
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
   connectionState: 'new' | 'connecting' | 'connected' | 'disconnected' | 'failed' | 'closed';
-  lastConnectionAttempt?: number;
+  candidatePair?: CandidatePairInfo; // Active ICE candidate pair once connected
 }
 
-export interface WebRTCMessage {
-  type: 'navigation' | 'selection' | 'heartbeat' | 'game_data';
-  data: any;
-  timestamp: number;
-  senderId: string;
+// Data channels are pre-negotiated with fixed ids, so both peers open them symmetrically
+// and colliding offers never produce duplicate channels
+const RELIABLE_CHANNEL_LABEL = 'control';
+const UNRELIABLE_CHANNEL_LABEL = 'stream';
+const RELIABLE_CHANNEL_ID = 0;
+const UNRELIABLE_CHANNEL_ID = 1;
+
+// ICE restart backoff: exponential, capped, with jitter and no attempt limit
+const RESTART_BASE_DELAY = 1000;
+const RESTART_MAX_DELAY = 30000;
+
+const getRestartDelay = (attempt: number) => {
+  const capped = Math.min(RESTART_MAX_DELAY, RESTART_BASE_DELAY * 2 ** attempt);
+  // Equal jitter: half fixed, half random, so peers that dropped together don't retry in lockstep
+  return capped / 2 + Math.random() * (capped / 2);
+};
+
+// Collaborators from the app's repositories; the test harness passes in-memory ones
+export interface WebRTCServices {
+  sessions?: SessionRepository; // Source of the session's ICE settings
+  signals: SignalRepository;
+  relay: RelayRepository; // For peers without an open data channel
+  createPeerConnection?: (configuration: RTCConfiguration) => RTCPeerConnection;
 }
 
 export class WebRTCManager {
   private connections = new Map<string, WebRTCConnection>();
+  private pendingConnections = new Map<string, Promise<WebRTCConnection>>(); // Waiting on ICE servers
   private sessionId: string;
   private deviceId: string;
   private isHost: boolean;
   private onMessageCallback?: (message: WebRTCMessage, fromDeviceId: string) => void;
   private onConnectionStateChange?: (deviceId: string, state: RTCPeerConnectionState) => void;
+  private onProtocolError?: (error: ProtocolError, fromDeviceId: string) => void;
+  private onLatencyUpdate?: (deviceId: string, latency: PeerLatency) => void;
+  private onTransportChange?: (deviceId: string, transport: TransportKind) => void;
+  private onRelayFailure?: (deviceId: string, reason: string) => void;
+  private sessions?: SessionRepository; // Source of the session's ICE settings
+  private createPeerConnection: (configuration: RTCConfiguration) => RTCPeerConnection;
+  private fallbackTransport: MessageTransport;
+  private transports = new Map<string, TransportKind>(); // Transport last used per peer
+  private knownPeers = new Set<string>(); // Peers we talk to, with or without a data channel
+  private relaySenders?: Set<string>; // Devices whose relayed messages are accepted; any if unset
+  private iceResolver: IceServerResolver;
+  private signaling: SignalingBackend;
+  private sessionIceConfigLoaded?: Promise<void>;
+  private latency = new LatencyTracker();
+  private strokeEnds = new StrokeEndGate(); // Keeps draw_end behind the stroke's frames
+  private pingTimer?: ReturnType<typeof setInterval>;
+  private pingInterval = 2000; // 2 seconds between pings to each peer
+  private nextPingId = 1;
   private pendingCandidates = new Map<string, RTCIceCandidateInit[]>();
-  private connectionAttempts = new Map<string, number>();
-  private maxConnectionAttempts = 3;
-  private connectionCooldown = 5000; // 5 seconds between attempts
+  private hostPeers = new Set<string>(); // Peers that announced themselves as the console
+  private restartAttempts = new Map<string, number>();
+  private restartTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
   constructor(
     sessionId: string, 
     deviceId: string, 
-    isHost: boolean = false,
+    isHost: boolean,
+    services: WebRTCServices,
     onMessage?: (message: WebRTCMessage, fromDeviceId: string) => void,
-    onConnectionStateChange?: (deviceId: string, state: RTCPeerConnectionState) => void
+    onConnectionStateChange?: (deviceId: string, state: RTCPeerConnectionState) => void,
+    onProtocolError?: (error: ProtocolError, fromDeviceId: string) => void,
+    onLatencyUpdate?: (deviceId: string, latency: PeerLatency) => void,
+    onTransportChange?: (deviceId: string, transport: TransportKind) => void,
+    onRelayFailure?: (deviceId: string, reason: string) => void
   ) {
     this.sessionId = sessionId;
     this.deviceId = deviceId;
     this.isHost = isHost;
     this.onMessageCallback = onMessage;
     this.onConnectionStateChange = onConnectionStateChange;
+    this.onProtocolError = onProtocolError;
+    this.onLatencyUpdate = onLatencyUpdate;
+    this.onTransportChange = onTransportChange;
+    this.onRelayFailure = onRelayFailure;
+    this.sessions = services.sessions;
+    this.createPeerConnection = services.createPeerConnection || (configuration => new RTCPeerConnection(configuration));
+    this.iceResolver = new IceServerResolver(deviceId);
+    this.signaling = services.signals.open(sessionId, deviceId);
+    this.fallbackTransport = services.relay.open(
+      sessionId,
+      deviceId,
+      (text, fromDeviceId) => {
+        if (!this.acceptsRelayFrom(fromDeviceId)) return;
+        this.knownPeers.add(fromDeviceId);
+        this.handleIncomingText(text, fromDeviceId);
+      },
+      (buffer, fromDeviceId) => {
+        if (!this.acceptsRelayFrom(fromDeviceId)) return;
+        this.knownPeers.add(fromDeviceId);
+        this.handleStreamFrame(buffer, fromDeviceId);
+      },
+      undefined,
+      (targetDeviceId, reason) => this.onRelayFailure?.(targetDeviceId, reason)
+    );
+    this.fallbackTransport.connect().catch(error => {
+      console.error('❌ [WebRTC] Failed to start Realtime fallback transport:', error);
+    });
+    this.pingTimer = setInterval(() => this.pingPeers(), this.pingInterval);
     
     console.log(`🚀 [WebRTC] Manager initialized - Session: ${sessionId.slice(-8)}, Device: ${deviceId.slice(-8)}, Host: ${isHost}`);
   }
 
-  // ICE servers configuration (using free STUN servers)
-  private getIceServers(): RTCIceServer[] {
-    return [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' }
-    ];
+  // Use a custom TURN credential provider instead of the one picked from config
+  setIceCredentialProvider(provider: IceCredentialProvider | null, config?: IceConfig) {
+    this.iceResolver.setConfig(config || getEnvIceConfig(), provider);
   }
 
-  // Check if we should attempt connection to a device
-  private shouldAttemptConnection(targetDeviceId: string): boolean {
-    const existingConnection = this.connections.get(targetDeviceId);
-    const currentTime = Date.now();
-    
-    // Don't connect if already connected or connecting
-    if (existingConnection) {
-      const state = existingConnection.peerConnection.connectionState;
-      
-      if (state === 'connected' || state === 'connecting') {
-        return false;
-      }
-      
-      // Check cooldown for failed connections
-      if (existingConnection.lastConnectionAttempt) {
-        const timeSinceLastAttempt = currentTime - existingConnection.lastConnectionAttempt;
-        if (timeSinceLastAttempt < this.connectionCooldown) {
-          return false;
+  // Overlay the session's ICE settings (sessions.ice_config) on the environment config, once
+  private loadSessionIceConfig(): Promise<void> {
+    if (!this.sessionIceConfigLoaded) {
+      this.sessionIceConfigLoaded = (async () => {
+        try {
+          if (!this.sessions) return;
+          const session = await this.sessions.get(this.sessionId);
+          if (session?.ice_config) {
+            this.iceResolver.setConfig(mergeIceConfig(getEnvIceConfig(), session.ice_config));
+            console.log('🧊 [WebRTC] Applied session ICE settings');
+          }
+        } catch (error) {
+          console.error('❌ [WebRTC] Failed to load session ICE settings, using environment config:', error);
         }
-      }
-    }
-    
-    // Check attempt count
-    const attempts = this.connectionAttempts.get(targetDeviceId) || 0;
-    if (attempts >= this.maxConnectionAttempts) {
-      return false;
+      })();
     }
-    
-    return true;
+    return this.sessionIceConfigLoaded;
+  }
+
+  // ICE servers (STUN plus TURN with short-lived credentials) for a new peer connection
+  private async getIceConfiguration(): Promise<Pick<RTCConfiguration, 'iceServers' | 'iceTransportPolicy'>> {
+    await this.loadSessionIceConfig();
+    return this.iceResolver.resolve();
+  }
+
+  // The console is always impolite; between two phones the lower device id is polite
+  private isPolite(peerDeviceId: string): boolean {
+    if (this.isHost) return false;
+    if (this.hostPeers.has(peerDeviceId)) return true;
+    return this.deviceId < peerDeviceId;
   }
 
-  // Create a new peer connection
-  private createPeerConnection(targetDeviceId: string, isInitiator: boolean): RTCPeerConnection {
-    console.log(`🔗 [WebRTC] Creating peer connection to ${targetDeviceId.slice(-8)} (initiator: ${isInitiator})`);
+  // Create the peer connection for a device, or join the one already waiting on its ICE servers,
+  // so overlapping connects and offers never build two connections to one peer
+  private createConnection(targetDeviceId: string): Promise<WebRTCConnection> {
+    const pending = this.pendingConnections.get(targetDeviceId);
+    if (pending) return pending;
+
+    const created = this.getIceConfiguration()
+      .then(iceConfiguration => {
+        if (this.pendingConnections.get(targetDeviceId) !== created) {
+          throw new Error(`Connection to ${targetDeviceId.slice(-8)} was closed while it was being created`);
+        }
+        return this.setUpConnection(targetDeviceId, iceConfiguration);
+      })
+      .finally(() => {
+        if (this.pendingConnections.get(targetDeviceId) === created) {
+          this.pendingConnections.delete(targetDeviceId);
+        }
+      });
+
+    this.pendingConnections.set(targetDeviceId, created);
+    return created;
+  }
+
+  // Build a peer connection with its data channels and negotiation handlers
+  private setUpConnection(
+    targetDeviceId: string,
+    iceConfiguration: Pick<RTCConfiguration, 'iceServers' | 'iceTransportPolicy'>
+  ): WebRTCConnection {
+    const polite = this.isPolite(targetDeviceId);
+    console.log(`🔗 [WebRTC] Creating peer connection to ${targetDeviceId.slice(-8)} (${polite ? 'polite' : 'impolite'})`);
     
-    const peerConnection = new RTCPeerConnection({
-      iceServers: this.getIceServers(),
+    const peerConnection = this.createPeerConnection({
+      ...iceConfiguration,
       iceCandidatePoolSize: 10
     });
 
+    const reliableChannel = peerConnection.createDataChannel(RELIABLE_CHANNEL_LABEL, {
+      negotiated: true,
+      id: RELIABLE_CHANNEL_ID,
+      ordered: true // Fully reliable and ordered for game commands
+    });
+    const unreliableChannel = peerConnection.createDataChannel(UNRELIABLE_CHANNEL_LABEL, {
+      negotiated: true,
+      id: UNRELIABLE_CHANNEL_ID,
+      ordered: false, // Latest input wins - stale stream samples aren't worth waiting for
+      maxRetransmits: 0
+    });
+
+    const connection: WebRTCConnection = {
+      peerConnection,
+      reliableChannel,
+      unreliableChannel,
+      deviceId: targetDeviceId,
+      polite,
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+      connectionState: 'connecting'
+    };
+    this.connections.set(targetDeviceId, connection);
+
+    this.setupDataChannel(reliableChannel, targetDeviceId);
+    this.setupDataChannel(unreliableChannel, targetDeviceId);
+
+    // Any change needing an offer (first channel, ICE restart) ends up here
+    peerConnection.onnegotiationneeded = async () => {
+      try {
+        connection.makingOffer = true;
+        await peerConnection.setLocalDescription();
+        await this.sendSignal(targetDeviceId, 'offer', {
+          sdp: peerConnection.localDescription?.toJSON(),
+          timestamp: Date.now(),
+          deviceType: this.isHost ? 'console' : 'controller'
+        });
+        console.log(`🎯 [WebRTC] Offer sent to ${targetDeviceId.slice(-8)}`);
+      } catch (error) {
+        console.error(`💥 [WebRTC] Error creating/sending offer for ${targetDeviceId.slice(-8)}:`, error);
+      } finally {
+        connection.makingOffer = false;
+      }
+    };
+
     // Handle ICE candidates
     peerConnection.onicecandidate = async (event) => {
       if (event.candidate) {
@@ -108,21 +266,18 @@ export class WebRTCManager {
       }
     };
 
-    // Handle ICE connection state changes
+    // Handle ICE connection state changes - restart ICE instead of rebuilding the connection
     peerConnection.oniceconnectionstatechange = () => {
       const iceState = peerConnection.iceConnectionState;
       console.log(`🧊 [WebRTC] ICE connection state with ${targetDeviceId.slice(-8)}: ${iceState}`);
       
-      // Update connection tracking
-      const connection = this.connections.get(targetDeviceId);
-      if (connection) {
-        if (iceState === 'failed' || iceState === 'disconnected') {
-          connection.connectionState = 'failed';
-        } else if (iceState === 'connected' || iceState === 'completed') {
-          connection.connectionState = 'connected';
-          // Reset attempt counter on successful connection
-          this.connectionAttempts.delete(targetDeviceId);
-        }
+      if (iceState === 'failed' || iceState === 'disconnected') {
+        connection.connectionState = iceState === 'failed' ? 'failed' : 'disconnected';
+        this.scheduleIceRestart(targetDeviceId);
+      } else if (iceState === 'connected' || iceState === 'completed') {
+        connection.connectionState = 'connected';
+        this.clearIceRestart(targetDeviceId);
+        this.updateCandidatePair(targetDeviceId);
       }
     };
 
@@ -131,261 +286,435 @@ export class WebRTCManager {
       const state = peerConnection.connectionState;
       console.log(`🔗 [WebRTC] Connection state with ${targetDeviceId.slice(-8)}: ${state}`);
       
-      // Update connection tracking
-      const connection = this.connections.get(targetDeviceId);
-      if (connection) {
-        connection.connectionState = state;
-      }
-      
+      connection.connectionState = state;
       this.onConnectionStateChange?.(targetDeviceId, state);
       
       if (state === 'connected') {
         console.log(`✅ [WebRTC] Successfully connected to ${targetDeviceId.slice(-8)}`);
-        // Reset attempt counter on successful connection
-        this.connectionAttempts.delete(targetDeviceId);
-      } else if (state === 'failed') {
-        console.log(`❌ [WebRTC] Connection failed with ${targetDeviceId.slice(-8)}`);
-        // Increment attempt counter
-        const attempts = this.connectionAttempts.get(targetDeviceId) || 0;
-        this.connectionAttempts.set(targetDeviceId, attempts + 1);
-        
-        // Schedule retry if under max attempts
-        if (attempts + 1 < this.maxConnectionAttempts) {
-          setTimeout(() => this.reconnectToPeer(targetDeviceId), this.connectionCooldown);
-        }
-      } else if (state === 'disconnected') {
-        console.log(`⚠️ [WebRTC] Connection disconnected with ${targetDeviceId.slice(-8)}`);
-        if (connection) {
-          connection.connectionState = 'disconnected';
-        }
+      } else if (state === 'failed' || state === 'disconnected') {
+        console.log(`⚠️ [WebRTC] Connection ${state} with ${targetDeviceId.slice(-8)}`);
+        this.fallBackToRealtime(targetDeviceId);
       }
     };
 
-    // Handle incoming data channels (for receivers)
+    // Channels opened by older clients that don't pre-negotiate them
     peerConnection.ondatachannel = (event) => {
       const dataChannel = event.channel;
       console.log(`📨 [WebRTC] Received data channel from ${targetDeviceId.slice(-8)}: ${dataChannel.label}`);
       
-      // Update the connection with the received data channel
-      const connection = this.connections.get(targetDeviceId);
-      if (connection) {
-        connection.dataChannel = dataChannel;
-        this.setupDataChannel(dataChannel, targetDeviceId);
+      if (dataChannel.label === UNRELIABLE_CHANNEL_LABEL) {
+        connection.unreliableChannel = dataChannel;
+      } else {
+        connection.reliableChannel = dataChannel;
       }
+      this.setupDataChannel(dataChannel, targetDeviceId);
     };
 
-    return peerConnection;
+    return connection;
+  }
+
+  // Close a peer connection for good and forget its per-path state
+  private closeConnection(deviceId: string) {
+    const connection = this.connections.get(deviceId);
+    if (connection) {
+      this.closeChannels(connection);
+      connection.peerConnection.close();
+      this.connections.delete(deviceId);
+    }
+
+    // A connection still waiting on its ICE servers is dropped when they arrive
+    this.pendingConnections.delete(deviceId);
+    this.clearIceRestart(deviceId);
+    this.pendingCandidates.delete(deviceId);
+    // Stats from the old connection don't describe the new path
+    this.latency.remove(deviceId);
+    this.fallBackToRealtime(deviceId);
+  }
+
+  // Restart ICE after a backoff delay, and keep retrying until the peer is back
+  private scheduleIceRestart(deviceId: string) {
+    if (this.restartTimers.has(deviceId)) return;
+
+    const attempt = this.restartAttempts.get(deviceId) || 0;
+    const delay = getRestartDelay(attempt);
+    console.log(`⏳ [WebRTC] ICE restart #${attempt + 1} with ${deviceId.slice(-8)} in ${Math.round(delay)}ms`);
+
+    this.restartTimers.set(deviceId, setTimeout(() => {
+      this.restartTimers.delete(deviceId);
+      this.restartAttempts.set(deviceId, attempt + 1);
+
+      const connection = this.connections.get(deviceId);
+      if (!connection) return;
+
+      const { peerConnection } = connection;
+      if (peerConnection.iceConnectionState === 'connected' || peerConnection.iceConnectionState === 'completed') {
+        this.clearIceRestart(deviceId);
+        return;
+      }
+
+      if (peerConnection.connectionState === 'closed') {
+        // Nothing left to restart - build a fresh connection
+        this.closeConnection(deviceId);
+        this.connectToPeer(deviceId).catch(error => {
+          console.error(`❌ [WebRTC] Failed to reconnect to ${deviceId.slice(-8)}:`, error);
+        });
+        return;
+      }
+
+      console.log(`🔄 [WebRTC] Restarting ICE with ${deviceId.slice(-8)}`);
+      this.restartIce(connection).catch(error => {
+        console.error(`❌ [WebRTC] Failed to restart ICE with ${deviceId.slice(-8)}:`, error);
+      });
+      this.scheduleIceRestart(deviceId);
+    }, delay));
+  }
+
+  private async restartIce(connection: WebRTCConnection) {
+    const { peerConnection } = connection;
+    if (peerConnection.signalingState === 'have-local-offer' && !connection.makingOffer) {
+      // Our last offer never got an answer (lost signal) - withdraw it, or no new offer is made
+      await peerConnection.setLocalDescription({ type: 'rollback' });
+    }
+    peerConnection.restartIce();
+  }
+
+  private clearIceRestart(deviceId: string) {
+    const timer = this.restartTimers.get(deviceId);
+    if (timer) {
+      clearTimeout(timer);
+      this.restartTimers.delete(deviceId);
+    }
+    this.restartAttempts.delete(deviceId);
+  }
+
+  // Record which candidate pair (host/srflx/relay) the connection settled on
+  private async updateCandidatePair(deviceId: string) {
+    const connection = this.connections.get(deviceId);
+    if (!connection) return;
+
+    try {
+      const pair = await getSelectedCandidatePair(connection.peerConnection);
+      if (pair && this.connections.get(deviceId) === connection) {
+        connection.candidatePair = pair;
+        console.log(`🧊 [WebRTC] Candidate pair with ${deviceId.slice(-8)}: ${pair.local} ↔ ${pair.remote} (${pair.protocol || 'unknown'})`);
+        this.onConnectionStateChange?.(deviceId, connection.peerConnection.connectionState);
+      }
+    } catch (error) {
+      console.error(`❌ [WebRTC] Error reading candidate pair for ${deviceId.slice(-8)}:`, error);
+    }
   }
 
   // Setup data channel event handlers
   private setupDataChannel(dataChannel: RTCDataChannel, deviceId: string) {
-    console.log(`🔧 [WebRTC] Setting up data channel for ${deviceId.slice(-8)}`);
+    console.log(`🔧 [WebRTC] Setting up ${dataChannel.label} data channel for ${deviceId.slice(-8)}`);
+    dataChannel.binaryType = 'arraybuffer';
+
+    // Connection state follows the current reliable channel; the stream channel is best-effort
+    // and channels of a replaced connection must not touch its successor
+    const getOwningConnection = () => {
+      const connection = this.connections.get(deviceId);
+      return connection?.reliableChannel === dataChannel ? connection : undefined;
+    };
     
     dataChannel.onopen = () => {
-      console.log(`✅ [WebRTC] Data channel opened with ${deviceId.slice(-8)}`);
+      console.log(`✅ [WebRTC] ${dataChannel.label} channel opened with ${deviceId.slice(-8)}`);
       
       // Update connection state
-      const connection = this.connections.get(deviceId);
+      const connection = getOwningConnection();
       if (connection) {
         connection.connectionState = 'connected';
+        this.setTransport(deviceId, 'webrtc');
       }
     };
 
     dataChannel.onclose = () => {
-      console.log(`❌ [WebRTC] Data channel closed with ${deviceId.slice(-8)}`);
+      console.log(`❌ [WebRTC] ${dataChannel.label} channel closed with ${deviceId.slice(-8)}`);
       
       // Update connection state
-      const connection = this.connections.get(deviceId);
+      const connection = getOwningConnection();
       if (connection) {
         connection.connectionState = 'disconnected';
+        this.fallBackToRealtime(deviceId);
       }
     };
 
     dataChannel.onerror = (error) => {
-      console.error(`💥 [WebRTC] Data channel error with ${deviceId.slice(-8)}:`, error);
+      console.error(`💥 [WebRTC] ${dataChannel.label} channel error with ${deviceId.slice(-8)}:`, error);
       
       // Update connection state
-      const connection = this.connections.get(deviceId);
+      const connection = getOwningConnection();
       if (connection) {
         connection.connectionState = 'failed';
+        this.fallBackToRealtime(deviceId);
       }
     };
 
     dataChannel.onmessage = (event) => {
-      try {
-        const message: WebRTCMessage = JSON.parse(event.data);
-        console.log(`📩 [WebRTC] Received message from ${deviceId.slice(-8)}:`, message.type);
-        this.onMessageCallback?.(message, deviceId);
-      } catch (error) {
-        console.error(`❌ [WebRTC] Error parsing message from ${deviceId.slice(-8)}:`, error);
+      if (event.data instanceof ArrayBuffer) {
+        this.handleStreamFrame(event.data, deviceId);
+        return;
       }
+
+      this.handleIncomingText(event.data, deviceId);
     };
   }
 
-  // Send signaling message via Supabase
-  private async sendSignal(targetDeviceId: string, type: 'offer' | 'answer' | 'candidate', payload: any) {
+  // Validate and dispatch a JSON message, whichever transport it arrived on
+  private handleIncomingText(text: string, deviceId: string) {
+    let message: WebRTCMessage;
     try {
-      const { supabase } = await import('./supabase');
-      const { error } = await supabase
-        .from('webrtc_signals')
-        .insert({
-          session_id: this.sessionId,
-          sender_device_id: this.deviceId,
-          receiver_device_id: targetDeviceId,
-          type,
-          payload
-        });
+      message = parseWebRTCMessage(text);
+    } catch (error) {
+      this.rejectMessage(deviceId, error instanceof ProtocolError
+        ? error
+        : new ProtocolError('invalid_envelope', String(error)));
+      return;
+    }
+
+    // Latency probes are answered here and never reach the app
+    if (message.type === 'ping' || message.type === 'pong') {
+      this.handleLatencyProbe(message, deviceId);
+      return;
+    }
+
+    if ((message.type === 'game_data' || message.type === 'navigation') && message.data.kind === 'input') {
+      this.latency.recordInput(deviceId, message.timestamp);
+    }
+
+    if (message.type === 'protocol_error') {
+      console.warn(`⚠️ [WebRTC] ${deviceId.slice(-8)} rejected our ${message.data.rejectedType || 'message'}: ${message.data.code} - ${message.data.message}`);
+    } else {
+      console.log(`📩 [WebRTC] Received message from ${deviceId.slice(-8)}:`, message.type);
+    }
+
+    // draw_end comes on the reliable channel and may overtake the stroke's last frame
+    if (message.type === 'game_data' && message.data.kind === 'input' && message.data.input.type === 'canvas') {
+      const { action, data } = message.data.input;
+      if (action === 'draw_start') {
+        this.strokeEnds.startStroke(deviceId);
+      } else if (action === 'draw_end') {
+        this.strokeEnds.receiveEnd(deviceId, typeof data.lastFrame === 'number' ? data.lastFrame : undefined,
+          () => this.onMessageCallback?.(message, deviceId));
+        return;
+      }
+    }
+
+    this.onMessageCallback?.(message, deviceId);
+  }
+
+  // Answer pings and fold pongs into the peer's latency stats
+  private handleLatencyProbe(message: Extract<WebRTCMessage, { type: 'ping' | 'pong' }>, deviceId: string) {
+    if (message.type === 'ping') {
+      const receivedAt = Date.now();
+      this.sendMessage(deviceId, {
+        type: 'pong',
+        data: { pingId: message.data.pingId, sentAt: message.data.sentAt, receivedAt, repliedAt: Date.now() }
+      });
+      return;
+    }
+
+    const stats = this.latency.recordPong(deviceId, message.data);
+    this.onLatencyUpdate?.(deviceId, stats);
+  }
+
+  // Ping every connected peer; pongs update RTT and clock offset
+  private pingPeers() {
+    for (const deviceId of this.getConnectedDevices()) {
+      this.sendMessage(deviceId, {
+        type: 'ping',
+        data: { pingId: this.nextPingId++, sentAt: Date.now() }
+      });
+    }
+  }
+
+  // Decode a binary stream frame and deliver it as regular input messages
+  private handleStreamFrame(buffer: ArrayBuffer, deviceId: string) {
+    const batch = decodeStreamBatch(buffer);
+    if (!batch) {
+      this.rejectMessage(deviceId, new ProtocolError('invalid_payload', 'undecodable binary stream frame', 'stream'));
+      return;
+    }
 
-      if (error) {
-        console.error(`❌ [WebRTC] Supabase error sending signal:`, error);
-        throw error;
+    const messages = this.streamBatchToMessages(batch, deviceId);
+    console.log(`📩 [WebRTC] Received ${batch.kind} stream batch from ${deviceId.slice(-8)} (${messages.length} inputs, ${buffer.byteLength} bytes)`);
+    const deliver = () => {
+      for (const message of messages) {
+        this.onMessageCallback?.(message, deviceId);
       }
+    };
+
+    this.strokeEnds.receiveFrame(deviceId, batch.sequence ?? 0, deliver);
+  }
 
-      console.log(`📤 [WebRTC] Sent ${type} signal to ${targetDeviceId.slice(-8)}`);
+  private streamBatchToMessages(batch: StreamBatch, deviceId: string): WebRTCMessage[] {
+    const envelope = { version: PROTOCOL_VERSION, senderId: deviceId };
+    const { points, color, lineWidth, canvasWidth, canvasHeight } = batch;
+
+    return points.slice(1).map((to, index) => ({
+      ...envelope,
+      type: 'game_data' as const,
+      timestamp: to.t,
+      data: createInputPayload('canvas', 'draw_move', {
+        from: { x: points[index].x, y: points[index].y },
+        to: { x: to.x, y: to.y },
+        color,
+        lineWidth,
+        canvasWidth,
+        canvasHeight
+      })
+    }));
+  }
+
+  // Report an invalid incoming message locally and tell the sender why it was rejected
+  private rejectMessage(deviceId: string, error: ProtocolError) {
+    console.error(`❌ [WebRTC] Rejected message from ${deviceId.slice(-8)}: ${error.code} - ${error.message}`);
+    this.onProtocolError?.(error, deviceId);
+
+    // Never answer an error with an error, to avoid ping-ponging between peers
+    if (error.rejectedType !== 'protocol_error') {
+      this.sendMessage(deviceId, { type: 'protocol_error', data: error.toPayload() });
+    }
+  }
+
+  // Send signaling message through the configured signaling backend
+  private async sendSignal(targetDeviceId: string, type: SignalType, payload: SignalPayload) {
+    try {
+      await this.signaling.send(targetDeviceId, type, payload);
+      console.log(`📤 [WebRTC] Sent ${type} signal to ${targetDeviceId.slice(-8)} (${this.signaling.kind})`);
     } catch (error) {
       console.error(`❌ [WebRTC] Error sending signal:`, error);
       throw error;
     }
   }
 
-  // Initialize connection to a peer
+  // Backend signals are sent through; subscribe to it to feed handleSignal
+  getSignalingBackend(): SignalingBackend {
+    return this.signaling;
+  }
+
+  // Initialize connection to a peer; safe to call repeatedly
   async connectToPeer(targetDeviceId: string): Promise<void> {
+    this.knownPeers.add(targetDeviceId);
+
+    const existing = this.connections.get(targetDeviceId);
+    if (existing && existing.peerConnection.connectionState !== 'closed') {
+      // Negotiating, connected, or already recovering through ICE restarts
+      if (existing.connectionState === 'failed') {
+        this.scheduleIceRestart(targetDeviceId);
+      }
+      return;
+    }
+
     console.log(`🤝 [WebRTC] Connecting to ${targetDeviceId.slice(-8)}`);
-    
-    // Check if we should attempt this connection
-    if (!this.shouldAttemptConnection(targetDeviceId)) {
+    if (existing) {
+      this.closeConnection(targetDeviceId);
+    }
+
+    // Creating the data channels fires negotiationneeded, which sends the offer
+    await this.createConnection(targetDeviceId);
+  }
+
+  // Apply a remote offer/answer following the perfect negotiation pattern
+  private async handleDescription(connection: WebRTCConnection, description: RTCSessionDescriptionInit) {
+    const { peerConnection, deviceId } = connection;
+
+    const readyForOffer = !connection.makingOffer &&
+      (peerConnection.signalingState === 'stable' || connection.isSettingRemoteAnswerPending);
+    const offerCollision = description.type === 'offer' && !readyForOffer;
+
+    connection.ignoreOffer = !connection.polite && offerCollision;
+    if (connection.ignoreOffer) {
+      console.log(`🙅 [WebRTC] Ignoring colliding offer from ${deviceId.slice(-8)} (impolite)`);
       return;
     }
-    
-    // Clean up any existing failed connection
-    const existingConnection = this.connections.get(targetDeviceId);
-    if (existingConnection && existingConnection.connectionState === 'failed') {
-      existingConnection.dataChannel?.close();
-      existingConnection.peerConnection.close();
-      this.connections.delete(targetDeviceId);
+
+    if (offerCollision) {
+      console.log(`🤝 [WebRTC] Offer collision with ${deviceId.slice(-8)}, rolling back (polite)`);
     }
-    
-    const peerConnection = this.createPeerConnection(targetDeviceId, true);
-    
-    // Create data channel (initiator creates the channel)
-    const dataChannel = peerConnection.createDataChannel('gameData', {
-      ordered: true, // Ensure message order for game commands
-      maxRetransmits: 3 // Allow some retransmits for reliability
-    });
-    
-    this.setupDataChannel(dataChannel, targetDeviceId);
 
-    // Store connection
-    const connection: WebRTCConnection = {
-      peerConnection,
-      dataChannel,
-      deviceId: targetDeviceId,
-      isInitiator: true,
-      connectionState: 'connecting',
-      lastConnectionAttempt: Date.now()
-    };
-    
-    this.connections.set(targetDeviceId, connection);
-    
-    // Increment attempt counter
-    const attempts = this.connectionAttempts.get(targetDeviceId) || 0;
-    this.connectionAttempts.set(targetDeviceId, attempts + 1);
+    // A polite peer rolls back its own offer implicitly here
+    connection.isSettingRemoteAnswerPending = description.type === 'answer';
+    await peerConnection.setRemoteDescription(description);
+    connection.isSettingRemoteAnswerPending = false;
+    console.log(`✅ [WebRTC] Remote ${description.type} set for ${deviceId.slice(-8)}`);
 
-    try {
-      // Create and send offer
-      console.log(`📝 [WebRTC] Creating offer for ${targetDeviceId.slice(-8)}`);
-      const offer = await peerConnection.createOffer({
-        offerToReceiveAudio: false,
-        offerToReceiveVideo: false
-      });
-      
-      await peerConnection.setLocalDescription(offer);
-      console.log(`✅ [WebRTC] Local description set for ${targetDeviceId.slice(-8)}`);
-      
-      await this.sendSignal(targetDeviceId, 'offer', {
-        sdp: offer,
+    // Process any pending ICE candidates
+    const pendingCandidates = this.pendingCandidates.get(deviceId) || [];
+    this.pendingCandidates.delete(deviceId);
+    for (const candidate of pendingCandidates) {
+      await peerConnection.addIceCandidate(candidate);
+    }
+
+    if (description.type === 'offer') {
+      await peerConnection.setLocalDescription();
+      await this.sendSignal(deviceId, 'answer', {
+        sdp: peerConnection.localDescription?.toJSON(),
         timestamp: Date.now(),
         deviceType: this.isHost ? 'console' : 'controller'
       });
-      
-      console.log(`🎯 [WebRTC] Offer sent successfully to ${targetDeviceId.slice(-8)}`);
-    } catch (error) {
-      console.error(`💥 [WebRTC] Error creating/sending offer for ${targetDeviceId.slice(-8)}:`, error);
-      
-      // Clean up failed connection
-      connection.connectionState = 'failed';
-      dataChannel.close();
-      peerConnection.close();
-      this.connections.delete(targetDeviceId);
-      
-      throw error;
+      console.log(`✅ [WebRTC] Answer sent to ${deviceId.slice(-8)}`);
     }
   }
 
   // Handle incoming signaling messages
-  async handleSignal(signal: any): Promise<void> {
+  async handleSignal(signal: SignalMessage): Promise<void> {
     const { sender_device_id, type, payload } = signal;
     
     console.log(`📡 [WebRTC] Handling ${type} signal from ${sender_device_id.slice(-8)}`);
 
-    let connection = this.connections.get(sender_device_id);
+    this.knownPeers.add(sender_device_id);
+    if (payload?.deviceType === 'console') {
+      this.hostPeers.add(sender_device_id);
+    }
+
+    // Wait for a connection that is still being created rather than building a second one
+    let connection = this.connections.get(sender_device_id) ??
+      await this.pendingConnections.get(sender_device_id)?.catch(() => undefined);
+    if (connection) {
+      // We may have offered before learning the peer is the console - the console never
+      // backs down, so without this both sides would ignore each other's offer forever
+      connection.polite = this.isPolite(sender_device_id);
+    }
     
     try {
-      if (type === 'offer') {
-        // Create new connection for incoming offer if none exists
+      if (type === 'offer' || type === 'answer') {
+        const description = payload.sdp;
+        if (!description) {
+          console.log(`⚠️ [WebRTC] ${type} from ${sender_device_id.slice(-8)} without an SDP, ignoring`);
+          return;
+        }
+
         if (!connection) {
+          if (type === 'answer') {
+            console.log(`⚠️ [WebRTC] Answer from ${sender_device_id.slice(-8)} without a connection, ignoring`);
+            return;
+          }
           console.log(`🆕 [WebRTC] Creating new connection for incoming offer from ${sender_device_id.slice(-8)}`);
-          const peerConnection = this.createPeerConnection(sender_device_id, false);
-          connection = {
-            peerConnection,
-            deviceId: sender_device_id,
-            isInitiator: false,
-            connectionState: 'connecting',
-            lastConnectionAttempt: Date.now()
-          };
-          this.connections.set(sender_device_id, connection);
+          connection = await this.createConnection(sender_device_id);
         }
 
-        // Set remote description and create answer
-        await connection.peerConnection.setRemoteDescription(new RTCSessionDescription(payload.sdp));
-        console.log(`✅ [WebRTC] Remote description set for ${sender_device_id.slice(-8)}`);
-        
-        // Process any pending ICE candidates
-        const pendingCandidates = this.pendingCandidates.get(sender_device_id) || [];
-        for (const candidate of pendingCandidates) {
-          await connection.peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-        }
-        this.pendingCandidates.delete(sender_device_id);
-        
-        const answer = await connection.peerConnection.createAnswer();
-        await connection.peerConnection.setLocalDescription(answer);
-        console.log(`✅ [WebRTC] Answer created for ${sender_device_id.slice(-8)}`);
-        
-        await this.sendSignal(sender_device_id, 'answer', {
-          sdp: answer,
-          timestamp: Date.now(),
-          deviceType: this.isHost ? 'console' : 'controller'
-        });
-        
-      } else if (type === 'answer' && connection) {
-        // Handle answer
-        await connection.peerConnection.setRemoteDescription(new RTCSessionDescription(payload.sdp));
-        console.log(`✅ [WebRTC] Remote description set from answer for ${sender_device_id.slice(-8)}`);
-        
-        // Process any pending ICE candidates
-        const pendingCandidates = this.pendingCandidates.get(sender_device_id) || [];
-        for (const candidate of pendingCandidates) {
-          await connection.peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
+        try {
+          await this.handleDescription(connection, description);
+        } catch (error) {
+          if (type !== 'offer') throw error;
+
+          // The peer reloaded and offers a brand new session - start over with it
+          console.log(`🔄 [WebRTC] Offer from ${sender_device_id.slice(-8)} doesn't fit the existing connection, rebuilding`);
+          this.closeConnection(sender_device_id);
+          connection = await this.createConnection(sender_device_id);
+          await this.handleDescription(connection, description);
         }
-        this.pendingCandidates.delete(sender_device_id);
         
       } else if (type === 'candidate') {
         // Handle ICE candidate
         if (payload.candidate) {
-          const candidate = new RTCIceCandidate(payload.candidate);
-          
           if (connection && connection.peerConnection.remoteDescription) {
-            await connection.peerConnection.addIceCandidate(candidate);
+            try {
+              await connection.peerConnection.addIceCandidate(payload.candidate);
+            } catch (error) {
+              // Candidates for an offer we ignored are expected to fail
+              if (!connection.ignoreOffer) throw error;
+            }
           } else {
             // Store candidate for later if remote description isn't set yet
             if (!this.pendingCandidates.has(sender_device_id)) {
@@ -399,90 +728,125 @@ export class WebRTCManager {
     } catch (error) {
       console.error(`💥 [WebRTC] Error handling ${type} signal from ${sender_device_id.slice(-8)}:`, error);
       
-      // Mark connection as failed
+      // Mark connection as failed so the ICE restart loop picks it up
       if (connection) {
         connection.connectionState = 'failed';
+        this.scheduleIceRestart(sender_device_id);
       }
       
       throw error;
     }
   }
 
-  // Send message via WebRTC data channel
-  sendMessage(targetDeviceId: string, message: Omit<WebRTCMessage, 'timestamp' | 'senderId'>): boolean {
-    const connection = this.connections.get(targetDeviceId);
-    
-    if (!connection?.dataChannel) {
-      return false;
+  // Pick the open channel for a delivery class, falling back to the reliable channel
+  private getChannel(connection: WebRTCConnection | undefined, deliveryClass: DeliveryClass): RTCDataChannel | null {
+    if (!connection) {
+      return null;
     }
-    
-    if (connection.dataChannel.readyState !== 'open') {
-      return false;
+
+    if (deliveryClass === 'unreliable' && connection.unreliableChannel?.readyState === 'open') {
+      return connection.unreliableChannel;
+    }
+
+    return connection.reliableChannel?.readyState === 'open' ? connection.reliableChannel : null;
+  }
+
+  private closeChannels(connection: WebRTCConnection) {
+    connection.reliableChannel?.close();
+    connection.unreliableChannel?.close();
+  }
+
+  // Record which transport a peer is reached over and report switches
+  private setTransport(deviceId: string, transport: TransportKind) {
+    const previous = this.transports.get(deviceId);
+    if (previous === transport) return;
+
+    this.transports.set(deviceId, transport);
+    console.log(`🔀 [WebRTC] Transport for ${deviceId.slice(-8)}: ${previous || 'none'} → ${transport}`);
+    this.onTransportChange?.(deviceId, transport);
+  }
+
+  // The data channel to a peer went away - carry on over Realtime if it's available
+  private fallBackToRealtime(deviceId: string) {
+    if (this.fallbackTransport.isReady() && this.transports.has(deviceId)) {
+      this.setTransport(deviceId, 'realtime');
     }
+  }
 
-    const fullMessage: WebRTCMessage = {
+  // Send message over the data channel chosen by message class, or Realtime broadcast
+  sendMessage(targetDeviceId: string, message: OutgoingWebRTCMessage): boolean {
+    const fullMessage = {
       ...message,
+      version: PROTOCOL_VERSION,
       timestamp: Date.now(),
       senderId: this.deviceId
-    };
+    } as WebRTCMessage;
+    const text = JSON.stringify(fullMessage);
+    const isProbe = fullMessage.type === 'ping' || fullMessage.type === 'pong';
+    const channel = this.getChannel(this.connections.get(targetDeviceId), getDeliveryClass(message));
 
-    try {
-      connection.dataChannel.send(JSON.stringify(fullMessage));
-      console.log(`📤 [WebRTC] Sent ${fullMessage.type} message to ${targetDeviceId.slice(-8)}`);
-      return true;
-    } catch (error) {
-      console.error(`❌ [WebRTC] Error sending message to ${targetDeviceId.slice(-8)}:`, error);
-      return false;
+    if (channel) {
+      try {
+        channel.send(text);
+        this.setTransport(targetDeviceId, 'webrtc');
+        if (!isProbe) {
+          console.log(`📤 [WebRTC] Sent ${fullMessage.type} message to ${targetDeviceId.slice(-8)} (${channel.label})`);
+        }
+        return true;
+      } catch (error) {
+        console.error(`❌ [WebRTC] Error sending message to ${targetDeviceId.slice(-8)}:`, error);
+      }
     }
-  }
-
-  // Broadcast message to all connected peers
-  broadcastMessage(message: Omit<WebRTCMessage, 'timestamp' | 'senderId'>): { webrtc: number; fallback: string[] } {
-    const webrtcSent: string[] = [];
-    const fallbackNeeded: string[] = [];
 
-    for (const [deviceId, connection] of this.connections) {
-      if (this.sendMessage(deviceId, message)) {
-        webrtcSent.push(deviceId);
-      } else {
-        fallbackNeeded.push(deviceId);
+    if (this.fallbackTransport.sendText(targetDeviceId, text)) {
+      this.setTransport(targetDeviceId, 'realtime');
+      if (!isProbe) {
+        console.log(`📤 [WebRTC] Sent ${fullMessage.type} message to ${targetDeviceId.slice(-8)} (realtime)`);
       }
+      return true;
     }
 
-    return { webrtc: webrtcSent.length, fallback: fallbackNeeded };
+    return false;
   }
 
-  // Reconnect to a peer
-  private async reconnectToPeer(deviceId: string): Promise<void> {
-    console.log(`🔄 [WebRTC] Attempting reconnection to ${deviceId.slice(-8)}`);
+  // Send a binary stream frame via the unreliable data channel, or Realtime broadcast
+  sendBinary(targetDeviceId: string, buffer: ArrayBuffer): boolean {
+    const channel = this.getChannel(this.connections.get(targetDeviceId), 'unreliable');
     
-    // Check if we should attempt reconnection
-    if (!this.shouldAttemptConnection(deviceId)) {
-      return;
+    if (channel) {
+      try {
+        channel.send(buffer);
+        this.setTransport(targetDeviceId, 'webrtc');
+        return true;
+      } catch (error) {
+        console.error(`❌ [WebRTC] Error sending binary frame to ${targetDeviceId.slice(-8)}:`, error);
+      }
     }
-    
-    // Clean up old connection
-    const oldConnection = this.connections.get(deviceId);
-    if (oldConnection) {
-      oldConnection.dataChannel?.close();
-      oldConnection.peerConnection.close();
-      this.connections.delete(deviceId);
+
+    if (this.fallbackTransport.sendBinary(targetDeviceId, buffer)) {
+      this.setTransport(targetDeviceId, 'realtime');
+      return true;
     }
 
-    // Clear pending candidates
-    this.pendingCandidates.delete(deviceId);
+    return false;
+  }
 
-    // Wait a bit before reconnecting
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Reconnect if we were the initiator
-    if (oldConnection?.isInitiator) {
-      try {
-        await this.connectToPeer(deviceId);
-      } catch (error) {
-        console.error(`❌ [WebRTC] Failed to reconnect to ${deviceId.slice(-8)}:`, error);
+  // Broadcast message to all known peers
+  broadcastMessage(message: OutgoingWebRTCMessage): { webrtc: number; realtime: number; failed: string[] } {
+    const result = { webrtc: 0, realtime: 0, failed: [] as string[] };
+    const peers = new Set([...this.connections.keys(), ...this.knownPeers]);
+
+    for (const deviceId of peers) {
+      if (!this.sendMessage(deviceId, message)) {
+        result.failed.push(deviceId);
+      } else if (this.transports.get(deviceId) === 'realtime') {
+        result.realtime++;
+      } else {
+        result.webrtc++;
       }
     }
+
+    return result;
   }
 
   // Get connection status for all peers
@@ -498,31 +862,98 @@ export class WebRTCManager {
   getDataChannelStatus(): Record<string, RTCDataChannelState | 'none'> {
     const status: Record<string, RTCDataChannelState | 'none'> = {};
     for (const [deviceId, connection] of this.connections) {
-      status[deviceId] = connection.dataChannel?.readyState || 'none';
+      status[deviceId] = connection.reliableChannel?.readyState || 'none';
+    }
+    return status;
+  }
+
+  // Get latency stats for all peers that answered a ping
+  getLatencyStats(): Record<string, PeerLatency> {
+    return this.latency.getAll();
+  }
+
+  // Get the active candidate pair for each connected peer
+  getCandidatePairStatus(): Record<string, CandidatePairInfo> {
+    const status: Record<string, CandidatePairInfo> = {};
+    for (const [deviceId, connection] of this.connections) {
+      if (connection.candidatePair) {
+        status[deviceId] = connection.candidatePair;
+      }
     }
     return status;
   }
 
+  // Get the transport each peer is currently reached over
+  getTransportStatus(): Record<string, TransportKind> {
+    return Object.fromEntries(this.transports);
+  }
+
+  // Devices we negotiate with (the console: its phones; phones: the console). Broadcast
+  // signaling only hears signals from these.
+  setSignalingPeers(deviceIds: Iterable<string>): void {
+    this.signaling.listenTo(deviceIds);
+  }
+
+  // Only accept relayed messages from these devices (the console: players still here and
+  // unmuted; phones: the console). The Supabase relay only listens on these devices'
+  // outboxes; the local server stamps each relayed envelope's sender.
+  setRelaySenders(deviceIds: Iterable<string>): void {
+    this.relaySenders = new Set(deviceIds);
+    this.fallbackTransport.listenTo(this.relaySenders);
+  }
+
+  private acceptsRelayFrom(fromDeviceId: string): boolean {
+    if (!this.relaySenders || this.relaySenders.has(fromDeviceId)) return true;
+    console.log(`🚫 [WebRTC] Dropping relayed message from unknown or muted ${fromDeviceId.slice(-8)}`);
+    return false;
+  }
+
+  // Drop a peer for good (kicked by the host): no Realtime fallback and no reconnect
+  disconnectPeer(deviceId: string): void {
+    console.log(`✂️ [WebRTC] Disconnecting ${deviceId.slice(-8)}`);
+    this.closeConnection(deviceId);
+    this.transports.delete(deviceId);
+    this.knownPeers.delete(deviceId);
+    this.hostPeers.delete(deviceId);
+  }
+
   // Get list of connected device IDs
   getConnectedDevices(): string[] {
     return Array.from(this.connections.keys()).filter(deviceId => {
       const connection = this.connections.get(deviceId);
       return connection?.peerConnection.connectionState === 'connected' && 
-             connection?.dataChannel?.readyState === 'open';
+             connection?.reliableChannel?.readyState === 'open';
     });
   }
 
   // Cleanup all connections
   cleanup(): void {
     console.log('🧹 [WebRTC] Cleaning up all connections');
+
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = undefined;
+    }
     
     for (const [deviceId, connection] of this.connections) {
-      connection.dataChannel?.close();
+      this.closeChannels(connection);
       connection.peerConnection.close();
     }
     
     this.connections.clear();
+    this.pendingConnections.clear();
     this.pendingCandidates.clear();
-    this.connectionAttempts.clear();
+    for (const timer of this.restartTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.restartTimers.clear();
+    this.restartAttempts.clear();
+    this.hostPeers.clear();
+    this.latency.clear();
+    this.strokeEnds.clear();
+    this.fallbackTransport.close();
+    this.signaling.close();
+    this.transports.clear();
+    this.knownPeers.clear();
   }
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebRTCHarness } from './webrtcHarness';
+import { createInputPayload } from './protocol';
+
+// Connection handling end to end: a console and its phones on the fake network
+
+let harness: WebRTCHarness;
+
+beforeEach(() => {
+  // The manager narrates every step; keep the test output readable
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  harness?.dispose();
+  vi.restoreAllMocks();
+});
+
+const sendButtons = (from: string, to: string, count: number) => {
+  for (let i = 0; i < count; i++) {
+    harness.getPeer(from).manager.sendMessage(to, {
+      type: 'game_data',
+      data: createInputPayload('button', `press-${i}`, { pressed: true })
+    });
+  }
+};
+
+const receivedActions = (deviceId: string) =>
+  harness.getPeer(deviceId).messages
+    .filter(({ message }) => message.type === 'game_data')
+    .map(({ message }) => (message.data as { input: { action: string } }).input.action);
+
+describe('WebRTC harness', () => {
+  it('connects a phone to the console and delivers messages in order', async () => {
+    harness = new WebRTCHarness();
+    harness.addPeer('console', { isHost: true });
+    harness.addPeer('phone-1');
+
+    await harness.connect('phone-1', 'console');
+    sendButtons('phone-1', 'console', 5);
+
+    await harness.waitFor(() => receivedActions('console').length === 5);
+    expect(receivedActions('console')).toEqual(['press-0', 'press-1', 'press-2', 'press-3', 'press-4']);
+  });
+
+  it('settles glare when both sides offer at once', async () => {
+    harness = new WebRTCHarness();
+    harness.addPeer('console', { isHost: true });
+    harness.addPeer('phone-1');
+
+    await Promise.all([
+      harness.getPeer('phone-1').manager.connectToPeer('console'),
+      harness.getPeer('console').manager.connectToPeer('phone-1')
+    ]);
+
+    await harness.waitFor(() => harness.isConnected('phone-1', 'console'), 5000, 'glare to settle');
+  });
+
+  it('keeps reliable messages whole and ordered on a lossy link', async () => {
+    harness = new WebRTCHarness({ network: { conditions: { latency: 30, loss: 0.2 } } });
+    harness.addPeer('console', { isHost: true });
+    harness.addPeer('phone-1');
+
+    await harness.connect('phone-1', 'console', 15000);
+    sendButtons('phone-1', 'console', 20);
+
+    await harness.waitFor(() => receivedActions('console').length === 20, 10000, 'every input');
+    expect(receivedActions('console')).toEqual(Array.from({ length: 20 }, (_, i) => `press-${i}`));
+  }, 30000);
+
+  it('builds one connection per peer when connects overlap a slow TURN lookup', async () => {
+    harness = new WebRTCHarness();
+    const consolePeer = harness.addPeer('console', { isHost: true });
+    const phone = harness.addPeer('phone-1');
+    const slowProvider = { getCredentials: () => harness.sleep(100).then(() => null) };
+    consolePeer.manager.setIceCredentialProvider(slowProvider);
+    phone.manager.setIceCredentialProvider(slowProvider);
+    const createPeerConnection = vi.spyOn(harness.network, 'createPeerConnection');
+
+    await Promise.all([
+      phone.manager.connectToPeer('console'),
+      phone.manager.connectToPeer('console'),
+      consolePeer.manager.connectToPeer('phone-1')
+    ]);
+
+    await harness.waitFor(() => harness.isConnected('phone-1', 'console'), 5000, 'the connection');
+    expect(createPeerConnection.mock.calls.map(([deviceId]) => deviceId).sort()).toEqual(['console', 'phone-1']);
+  });
+
+  it('recovers through the ICE restart loop when restart signals are lost', async () => {
+    harness = new WebRTCHarness({ network: { disconnectAfter: 100, failAfter: 300 } });
+    harness.addPeer('console', { isHost: true });
+    harness.addPeer('phone-1');
+    await harness.connect('phone-1', 'console');
+
+    // A failed connection only comes back through a restart, whose first signals are lost
+    harness.signaling.dropNext(2);
+    harness.network.disconnect('phone-1', 'console');
+    await harness.waitFor(() => harness.signaling.stats.dropped === 2, 15000, 'the restart signals to be lost');
+
+    harness.network.reconnect('phone-1', 'console');
+    await harness.waitFor(() => harness.isConnected('phone-1', 'console'), 20000, 'recovery');
+    expect(harness.getPeer('phone-1').connectionStates.map(({ state }) => state)).toContain('failed');
+  }, 30000);
+
+  it('delivers reliable inputs sent during an outage once ICE restarts', async () => {
+    harness = new WebRTCHarness({ network: { disconnectAfter: 100, failAfter: 300 } });
+    harness.addPeer('console', { isHost: true });
+    harness.addPeer('phone-1');
+    await harness.connect('phone-1', 'console');
+
+    harness.network.disconnect('phone-1', 'console');
+    await harness.waitFor(() => !harness.isConnected('phone-1', 'console'), 5000, 'the link to drop');
+    sendButtons('phone-1', 'console', 3);
+
+    harness.network.reconnect('phone-1', 'console');
+    await harness.waitFor(() => harness.isConnected('phone-1', 'console'), 20000, 'ICE restart');
+    await harness.waitFor(() => receivedActions('console').length === 3, 5000, 'the held inputs');
+    expect(receivedActions('console')).toEqual(['press-0', 'press-1', 'press-2']);
+  }, 30000);
+
+  it('falls back to the relay while there is no data channel', async () => {
+    harness = new WebRTCHarness();
+    harness.addPeer('console', { isHost: true });
+    harness.addPeer('phone-1');
+    await harness.sleep(50);
+
+    sendButtons('phone-1', 'console', 1);
+    await harness.waitFor(() => receivedActions('console').length === 1, 5000, 'a relayed input');
+    expect(harness.getPeer('console').messages[0].from).toBe('phone-1');
+  });
+
+  it('reports switches between the relay and the data channel', async () => {
+    harness = new WebRTCHarness({ network: { disconnectAfter: 100, failAfter: 300 } });
+    harness.addPeer('console', { isHost: true });
+    const phone = harness.addPeer('phone-1');
+    await harness.sleep(50);
+    const transports = () => phone.transportChanges.map(({ deviceId, transport }) => `${deviceId}:${transport}`);
+
+    sendButtons('phone-1', 'console', 1);
+    expect(transports()).toEqual(['console:realtime']);
+
+    await harness.connect('phone-1', 'console');
+    expect(transports()).toEqual(['console:realtime', 'console:webrtc']);
+    expect(phone.manager.getTransportStatus()).toEqual({ console: 'webrtc' });
+
+    harness.network.disconnect('phone-1', 'console');
+    await harness.waitFor(() => transports().length === 3, 5000, 'the switch back to the relay');
+    expect(transports()[2]).toBe('console:realtime');
+
+    harness.network.reconnect('phone-1', 'console');
+    await harness.waitFor(() => harness.isConnected('phone-1', 'console'), 20000, 'ICE restart');
+    sendButtons('phone-1', 'console', 1);
+    expect(transports()).toEqual(['console:realtime', 'console:webrtc', 'console:realtime', 'console:webrtc']);
+    await harness.waitFor(() => receivedActions('console').length === 2, 5000, 'both inputs');
+  }, 30000);
+
+  it('fails sends and reports no switch while both transports are down', async () => {
+    harness = new WebRTCHarness({ relay: { enabled: false } });
+    harness.addPeer('console', { isHost: true });
+    const phone = harness.addPeer('phone-1');
+    await harness.sleep(50);
+
+    expect(phone.manager.sendMessage('console', { type: 'game_data', data: createInputPayload('button', 'confirm') })).toBe(false);
+    expect(phone.transportChanges).toEqual([]);
+
+    harness.relay.setEnabled(true);
+    expect(phone.manager.sendMessage('console', { type: 'game_data', data: createInputPayload('button', 'confirm') })).toBe(true);
+    expect(phone.transportChanges).toEqual([{ deviceId: 'console', transport: 'realtime' }]);
+  });
+
+  it('drops relayed messages from devices the console does not accept', async () => {
+    harness = new WebRTCHarness();
+    harness.addPeer('console', { isHost: true }).manager.setRelaySenders(['phone-1']);
+    harness.addPeer('phone-1');
+    harness.addPeer('phone-2');
+    await harness.sleep(50);
+
+    sendButtons('phone-2', 'console', 1);
+    sendButtons('phone-1', 'console', 1);
+    await harness.waitFor(() => receivedActions('console').length === 1, 5000, 'the accepted input');
+    await harness.sleep(50);
+    expect(harness.getPeer('console').messages.map(({ from }) => from)).toEqual(['phone-1']);
+  });
+
+  it('lets phones take relayed messages from the console only', async () => {
+    harness = new WebRTCHarness();
+    harness.addPeer('console', { isHost: true });
+    harness.addPeer('phone-1').manager.setRelaySenders(['console']);
+    harness.addPeer('phone-2');
+    await harness.sleep(50);
+
+    sendButtons('phone-2', 'phone-1', 1);
+    sendButtons('console', 'phone-1', 1);
+    await harness.waitFor(() => receivedActions('phone-1').length > 0, 5000, 'the console input');
+    await harness.sleep(50);
+    expect(harness.getPeer('phone-1').messages.map(({ from }) => from)).toEqual(['console']);
+  });
+});
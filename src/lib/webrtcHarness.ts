@@ -0,0 +1,388 @@
+import { WebRTCManager, type PeerLatency, type WebRTCMessage } from './webrtc';
+import type { MessageTransport, TransportKind } from './transport';
+import type { ProtocolError } from './protocol';
+import type { SignalMessage, SignalPayload, SignalType, SignalingBackend, SignalingStatus } from './signaling';
+import { SimulatedNetwork, type SimulatedNetworkOptions } from './fakeWebRTC';
+
+/*
+  Multi-peer WebRTC harness
+
+  Runs several WebRTCManagers in one process - a console and its phones - on fake peer
+  connections (fakeWebRTC.ts) with the signaling and relay traffic on in-memory buses,
+  so connection handling can be exercised without browsers or a backend:
+
+    const harness = new WebRTCHarness({ network: { conditions: { latency: 40, loss: 0.05 } } });
+    const consolePeer = harness.addPeer('console', { isHost: true });
+    harness.addPeer('phone-1');
+    await harness.connect('phone-1', 'console');
+    harness.network.disconnect('phone-1', 'console');   // ICE restart with backoff
+    harness.signaling.dropNext(2);                       // lose the next offer/candidate
+    await harness.waitFor(() => harness.isConnected('phone-1', 'console'), 20000);
+
+  Recovery goes through the manager's perfect negotiation and jittered ICE restart loop
+  (which replaced the old shouldAttemptConnection/connectionCooldown checks), so expect
+  timings in seconds rather than milliseconds when links fail.
+
+  The scenarios in webrtcHarness.test.ts run under vitest with `npm test`.
+*/
+
+export interface SignalingBusOptions {
+  latency?: number; // ms before a signal arrives
+  dropRate?: number; // Probability (0..1) that a signal is lost
+}
+
+export interface BusStats {
+  sent: number;
+  delivered: number;
+  dropped: number;
+}
+
+type SignalFilter = (signal: SignalMessage) => boolean;
+
+// Delivers signals between the peers of a harness, with delay and loss
+export class MemorySignalingBus {
+  latency: number;
+  dropRate: number;
+  readonly stats: BusStats = { sent: 0, delivered: 0, dropped: 0 };
+  private subscribers = new Map<string, Set<(signal: SignalMessage) => void>>();
+  private pendingDrops: { count: number; filter?: SignalFilter }[] = [];
+
+  constructor(options: SignalingBusOptions = {}) {
+    this.latency = options.latency ?? 10;
+    this.dropRate = options.dropRate ?? 0;
+  }
+
+  // Lose the next `count` signals (matching `filter`, if given)
+  dropNext(count: number = 1, filter?: SignalFilter) {
+    this.pendingDrops.push({ count, filter });
+  }
+
+  async send(signal: SignalMessage): Promise<void> {
+    this.stats.sent++;
+    if (this.shouldDrop(signal)) {
+      this.stats.dropped++;
+      console.log(`🕳️ [Harness] Dropped ${signal.type} signal ${signal.sender_device_id} → ${signal.receiver_device_id}`);
+      return;
+    }
+
+    setTimeout(() => {
+      const receivers = this.subscribers.get(this.key(signal.session_id, signal.receiver_device_id));
+      if (!receivers?.size) {
+        // Like broadcast signaling, nobody listening means the signal is gone
+        this.stats.dropped++;
+        return;
+      }
+      this.stats.delivered++;
+      receivers.forEach(onSignal => onSignal(signal));
+    }, this.latency);
+  }
+
+  subscribe(
+    sessionId: string,
+    deviceId: string,
+    onSignal: (signal: SignalMessage) => void,
+    onStatus?: (status: SignalingStatus) => void
+  ): () => void {
+    const key = this.key(sessionId, deviceId);
+    if (!this.subscribers.has(key)) {
+      this.subscribers.set(key, new Set());
+    }
+    this.subscribers.get(key)!.add(onSignal);
+    setTimeout(() => onStatus?.('SUBSCRIBED'), 0);
+
+    return () => {
+      if (this.subscribers.get(key)?.delete(onSignal)) onStatus?.('CLOSED');
+    };
+  }
+
+  private key(sessionId: string, deviceId: string) {
+    return `${sessionId}|${deviceId}`;
+  }
+
+  private shouldDrop(signal: SignalMessage): boolean {
+    const index = this.pendingDrops.findIndex(drop => !drop.filter || drop.filter(signal));
+    if (index !== -1) {
+      const drop = this.pendingDrops[index];
+      drop.count--;
+      if (drop.count <= 0) this.pendingDrops.splice(index, 1);
+      return true;
+    }
+    return Math.random() < this.dropRate;
+  }
+}
+
+export class MemorySignalingBackend implements SignalingBackend {
+  readonly kind = 'memory' as const;
+  private bus: MemorySignalingBus;
+  private sessionId: string;
+  private deviceId: string;
+
+  constructor(bus: MemorySignalingBus, sessionId: string, deviceId: string) {
+    this.bus = bus;
+    this.sessionId = sessionId;
+    this.deviceId = deviceId;
+  }
+
+  send(receiverDeviceId: string, type: SignalType, payload: SignalPayload): Promise<void> {
+    return this.bus.send({
+      session_id: this.sessionId,
+      sender_device_id: this.deviceId,
+      receiver_device_id: receiverDeviceId,
+      type,
+      payload
+    });
+  }
+
+  subscribe(onSignal: (signal: SignalMessage) => void, onStatus?: (status: SignalingStatus) => void): () => void {
+    return this.bus.subscribe(this.sessionId, this.deviceId, onSignal, onStatus);
+  }
+
+  listenTo() {
+    // The bus delivers by receiver
+  }
+
+  close() {
+    // The bus belongs to the harness
+  }
+}
+
+// Stands in for the Realtime broadcast / local server relay
+export class MemoryRelay {
+  latency: number;
+  private enabled: boolean;
+  private transports = new Set<MemoryRelayTransport>();
+
+  constructor(options: { latency?: number; enabled?: boolean } = {}) {
+    this.latency = options.latency ?? 60;
+    this.enabled = options.enabled ?? true;
+  }
+
+  // Take the relay down (or bring it back) for every peer
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    this.transports.forEach(transport => transport.setReady(enabled));
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  attach(transport: MemoryRelayTransport) {
+    this.transports.add(transport);
+  }
+
+  detach(transport: MemoryRelayTransport) {
+    this.transports.delete(transport);
+  }
+
+  deliver(sessionId: string, toDeviceId: string, deliver: (transport: MemoryRelayTransport) => void) {
+    setTimeout(() => {
+      this.transports.forEach(transport => {
+        if (transport.sessionId === sessionId && transport.deviceId === toDeviceId && transport.isReady()) {
+          deliver(transport);
+        }
+      });
+    }, this.latency);
+  }
+}
+
+export class MemoryRelayTransport implements MessageTransport {
+  readonly kind = 'realtime' as const;
+  readonly sessionId: string;
+  readonly deviceId: string;
+  private relay: MemoryRelay;
+  private ready = false;
+  private closed = false;
+  private onText: (text: string, fromDeviceId: string) => void;
+  private onBinary: (buffer: ArrayBuffer, fromDeviceId: string) => void;
+  private onReadyChange?: (ready: boolean) => void;
+
+  constructor(
+    relay: MemoryRelay,
+    sessionId: string,
+    deviceId: string,
+    onText: (text: string, fromDeviceId: string) => void,
+    onBinary: (buffer: ArrayBuffer, fromDeviceId: string) => void,
+    onReadyChange?: (ready: boolean) => void
+  ) {
+    this.relay = relay;
+    this.sessionId = sessionId;
+    this.deviceId = deviceId;
+    this.onText = onText;
+    this.onBinary = onBinary;
+    this.onReadyChange = onReadyChange;
+  }
+
+  async connect(): Promise<void> {
+    if (this.closed) return;
+    this.relay.attach(this);
+    this.setReady(this.relay.isEnabled());
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  sendText(targetDeviceId: string, text: string): boolean {
+    if (!this.ready) return false;
+    this.relay.deliver(this.sessionId, targetDeviceId, transport => transport.onText(text, this.deviceId));
+    return true;
+  }
+
+  sendBinary(targetDeviceId: string, buffer: ArrayBuffer): boolean {
+    if (!this.ready) return false;
+    const copy = buffer.slice(0);
+    this.relay.deliver(this.sessionId, targetDeviceId, transport => transport.onBinary(copy, this.deviceId));
+    return true;
+  }
+
+  listenTo() {
+    // The relay delivers by receiver and names the sender itself
+  }
+
+  close() {
+    this.closed = true;
+    this.setReady(false);
+    this.relay.detach(this);
+  }
+
+  setReady(ready: boolean) {
+    if (this.closed && ready) return;
+    if (this.ready === ready) return;
+    this.ready = ready;
+    this.onReadyChange?.(ready);
+  }
+}
+
+export interface HarnessOptions {
+  sessionId?: string;
+  network?: SimulatedNetwork | SimulatedNetworkOptions;
+  signaling?: SignalingBusOptions;
+  relay?: { latency?: number; enabled?: boolean };
+}
+
+export interface HarnessPeer {
+  deviceId: string;
+  manager: WebRTCManager;
+  // Everything the manager handed to the app, oldest first
+  messages: { message: WebRTCMessage; from: string }[];
+  connectionStates: { deviceId: string; state: RTCPeerConnectionState; at: number }[];
+  protocolErrors: { error: ProtocolError; from: string }[];
+  latency: Record<string, PeerLatency>;
+  transportChanges: { deviceId: string; transport: TransportKind }[];
+}
+
+export class WebRTCHarness {
+  readonly sessionId: string;
+  readonly network: SimulatedNetwork;
+  readonly signaling: MemorySignalingBus;
+  readonly relay: MemoryRelay;
+  private peers = new Map<string, HarnessPeer & { unsubscribe: () => void }>();
+
+  constructor(options: HarnessOptions = {}) {
+    this.sessionId = options.sessionId || 'harness-session';
+    this.network = options.network instanceof SimulatedNetwork
+      ? options.network
+      : new SimulatedNetwork(options.network);
+    this.signaling = new MemorySignalingBus(options.signaling);
+    this.relay = new MemoryRelay(options.relay);
+  }
+
+  // Start a manager for a device, wired to the fake network and buses
+  addPeer(deviceId: string, options: { isHost?: boolean } = {}): HarnessPeer {
+    if (this.peers.has(deviceId)) {
+      throw new Error(`Peer ${deviceId} already exists`);
+    }
+
+    const messages: HarnessPeer['messages'] = [];
+    const connectionStates: HarnessPeer['connectionStates'] = [];
+    const protocolErrors: HarnessPeer['protocolErrors'] = [];
+    const latency: HarnessPeer['latency'] = {};
+    const transportChanges: HarnessPeer['transportChanges'] = [];
+
+    const manager = new WebRTCManager(
+      this.sessionId,
+      deviceId,
+      options.isHost || false,
+      {
+        signals: {
+          open: (sessionId, signalingDeviceId) => new MemorySignalingBackend(this.signaling, sessionId, signalingDeviceId)
+        },
+        relay: {
+          open: (sessionId, transportDeviceId, onText, onBinary, onReadyChange) =>
+            new MemoryRelayTransport(this.relay, sessionId, transportDeviceId, onText, onBinary, onReadyChange)
+        },
+        createPeerConnection: configuration =>
+          this.network.createPeerConnection(deviceId, configuration) as unknown as RTCPeerConnection
+      },
+      (message, from) => messages.push({ message, from }),
+      (remoteId, state) => connectionStates.push({ deviceId: remoteId, state, at: Date.now() }),
+      (error, from) => protocolErrors.push({ error, from }),
+      (remoteId, stats) => {
+        latency[remoteId] = stats;
+      },
+      (remoteId, transport) => transportChanges.push({ deviceId: remoteId, transport })
+    );
+
+    // Errors are already logged by the manager, which also schedules the recovery
+    const unsubscribe = manager.getSignalingBackend().subscribe(signal => {
+      manager.handleSignal(signal).catch(() => {});
+    });
+
+    const peer = { deviceId, manager, messages, connectionStates, protocolErrors, latency, transportChanges, unsubscribe };
+    this.peers.set(deviceId, peer);
+    return peer;
+  }
+
+  getPeer(deviceId: string): HarnessPeer {
+    const peer = this.peers.get(deviceId);
+    if (!peer) throw new Error(`Unknown peer ${deviceId}`);
+    return peer;
+  }
+
+  // Stop a device as if its page closed
+  removePeer(deviceId: string) {
+    const peer = this.peers.get(deviceId);
+    if (!peer) return;
+    peer.unsubscribe();
+    peer.manager.cleanup();
+    this.peers.delete(deviceId);
+  }
+
+  // Have `from` connect to `to` and wait until both ends report the data channel open
+  async connect(from: string, to: string, timeout: number = 5000): Promise<void> {
+    await this.getPeer(from).manager.connectToPeer(to);
+    await this.waitFor(() => this.isConnected(from, to), timeout, `${from} ↔ ${to} to connect`);
+  }
+
+  isConnected(a: string, b: string): boolean {
+    return this.getPeer(a).manager.getConnectedDevices().includes(b) &&
+      this.getPeer(b).manager.getConnectedDevices().includes(a);
+  }
+
+  // Poll until the condition holds; rejects after `timeout` ms
+  waitFor(condition: () => boolean, timeout: number = 5000, description: string = 'condition'): Promise<void> {
+    const startedAt = Date.now();
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        if (condition()) {
+          resolve();
+        } else if (Date.now() - startedAt > timeout) {
+          reject(new Error(`Timed out after ${timeout}ms waiting for ${description}`));
+        } else {
+          setTimeout(check, 20);
+        }
+      };
+      check();
+    });
+  }
+
+  // Resolve after `ms`, letting timers on the fake network run
+  sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  dispose() {
+    [...this.peers.keys()].forEach(deviceId => this.removePeer(deviceId));
+  }
+}
@@ -1,8 +1,13 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { createRepositories, RepositoryContext } from './lib/repositoryContext';
 import './index.css';
 
+const repositories = createRepositories();
+
 createRoot(document.getElementById('root')!).render(
-    <App />
-);
\ No newline at end of file
+    <RepositoryContext.Provider value={repositories}>
+      <App />
+    </RepositoryContext.Provider>
+);
@@ -0,0 +1,48 @@
+/*
+  # Create input_mapping_profiles table for per-player remapping
+
+  1. New Tables
+    - `input_mapping_profiles`
+      - `id` (uuid, primary key)
+      - `player_name` (text, unique - profiles are keyed by player name)
+      - `profile_name` (text, display name chosen by the player)
+      - `mappings` (jsonb, array of { inputType, mappedAction, isActive })
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz, maintained by trigger)
+
+  2. Security
+    - Enable RLS on `input_mapping_profiles` table
+    - Allow anonymous players to read and save profiles (gaming sessions don't require auth)
+
+  3. Notes
+    - Profiles outlive sessions, so there is no session_id foreign key
+    - Reuses the existing update_updated_at_column() trigger function
+*/
+
+-- Create input_mapping_profiles table
+CREATE TABLE IF NOT EXISTS input_mapping_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_name text NOT NULL UNIQUE,
+  profile_name text NOT NULL DEFAULT 'Default',
+  mappings jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE input_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for anonymous access
+CREATE POLICY "Allow anonymous access to input_mapping_profiles"
+  ON input_mapping_profiles
+  FOR ALL
+  TO anon
+  USING (true)
+  WITH CHECK (true);
+
+-- Keep updated_at current on every save
+DROP TRIGGER IF EXISTS update_input_mapping_profiles_updated_at ON input_mapping_profiles;
+CREATE TRIGGER update_input_mapping_profiles_updated_at
+  BEFORE UPDATE ON input_mapping_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
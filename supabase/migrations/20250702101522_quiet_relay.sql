@@ -0,0 +1,17 @@
+/*
+  # Per-session ICE server settings
+
+  1. Changes
+    - Add nullable `ice_config` jsonb column to sessions
+
+  2. Shape (all fields optional, each overrides the client's environment config)
+    - iceServers: RTCIceServer[] used instead of the default STUN servers
+    - turnUrls: TURN URLs that get short-lived credentials from the credential provider
+    - credentialsUrl: TURN REST credential service endpoint
+    - iceTransportPolicy: 'all' | 'relay'
+
+  3. Notes
+    - Never store long-lived TURN passwords here; the row is readable by every device
+*/
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ice_config jsonb;
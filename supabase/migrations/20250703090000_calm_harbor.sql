@@ -0,0 +1,152 @@
+/*
+  # Session lifecycle: explicit end, inactivity expiry and scheduled cleanup
+
+  1. Changes
+    - Add `ended_at` and `end_reason` ('ended_by_host' | 'expired') to sessions
+    - Trigger stamping `ended_at` whenever a session goes inactive
+    - `end_session(session_uuid, reason)` for the console and the host phone
+    - `expire_inactive_sessions(idle_for)` ends sessions whose devices have all been
+      silent (devices.last_seen) for `idle_for`, 30 minutes by default
+    - `update_session_activity()` now expires through the function above
+    - `cleanup_old_data()` expires idle sessions first and ages ended sessions out by
+      `ended_at`
+    - Schedule `cleanup_old_data()` every 5 minutes with pg_cron when it is available
+
+  2. Notes
+    - Devices keep `last_seen` fresh by touching their row (see useSessionLifecycle)
+    - Ending a session frees its lobby code (idx_sessions_code_unique only covers
+      active sessions)
+*/
+
+-- Step 1: Record when and why a session ended
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS end_reason TEXT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE constraint_name = 'sessions_end_reason_check'
+        AND table_name = 'sessions'
+    ) THEN
+        ALTER TABLE sessions
+        ADD CONSTRAINT sessions_end_reason_check
+        CHECK (end_reason IS NULL OR end_reason IN ('ended_by_host', 'expired'));
+    END IF;
+END $$;
+
+-- Step 2: Stamp ended_at however a session is deactivated
+CREATE OR REPLACE FUNCTION stamp_session_end()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.is_active = true AND NEW.is_active = false THEN
+        NEW.ended_at = COALESCE(NEW.ended_at, NOW());
+        NEW.end_reason = COALESCE(NEW.end_reason, 'ended_by_host');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_stamp_session_end ON sessions;
+CREATE TRIGGER trigger_stamp_session_end
+    BEFORE UPDATE ON sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION stamp_session_end();
+
+-- Step 3: Explicit end from the console or the host phone
+CREATE OR REPLACE FUNCTION end_session(session_uuid UUID, reason TEXT DEFAULT 'ended_by_host')
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE sessions
+    SET is_active = false,
+        ended_at = NOW(),
+        end_reason = reason
+    WHERE id = session_uuid
+    AND is_active = true;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 4: Expire sessions nobody has been seen in
+CREATE OR REPLACE FUNCTION expire_inactive_sessions(idle_for INTERVAL DEFAULT INTERVAL '30 minutes')
+RETURNS INTEGER AS $$
+DECLARE
+    expired_count INTEGER;
+BEGIN
+    UPDATE sessions
+    SET is_active = false,
+        ended_at = NOW(),
+        end_reason = 'expired'
+    WHERE id IN (
+        SELECT s.id
+        FROM sessions s
+        LEFT JOIN devices d ON s.id = d.session_id
+        WHERE s.is_active = true
+        GROUP BY s.id, s.created_at
+        -- A session without devices counts from its creation
+        HAVING COALESCE(MAX(d.last_seen), s.created_at) < NOW() - idle_for
+    );
+
+    GET DIAGNOSTICS expired_count = ROW_COUNT;
+    RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_session_activity()
+RETURNS void AS $$
+BEGIN
+    PERFORM expire_inactive_sessions();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 5: Cleanup, now expiring idle sessions before removing old ones
+CREATE OR REPLACE FUNCTION cleanup_old_data()
+RETURNS void AS $$
+DECLARE
+    expired_count INTEGER;
+BEGIN
+    expired_count := expire_inactive_sessions();
+
+    -- Delete processed signals older than 1 hour
+    DELETE FROM webrtc_signals
+    WHERE processed = true
+    AND created_at < NOW() - INTERVAL '1 hour';
+
+    -- Delete unprocessed signals older than 6 hours (likely stale)
+    DELETE FROM webrtc_signals
+    WHERE processed = false
+    AND created_at < NOW() - INTERVAL '6 hours';
+
+    -- Delete sessions that ended more than 24 hours ago
+    DELETE FROM sessions
+    WHERE is_active = false
+    AND COALESCE(ended_at, created_at) < NOW() - INTERVAL '24 hours';
+
+    -- Delete devices from inactive sessions
+    DELETE FROM devices
+    WHERE session_id NOT IN (SELECT id FROM sessions WHERE is_active = true);
+
+    -- Delete devices that haven't been seen in 2 hours
+    DELETE FROM devices
+    WHERE last_seen < NOW() - INTERVAL '2 hours'
+    AND device_type = 'phone'; -- Keep console devices longer
+
+    RAISE NOTICE 'Old data cleanup completed at % (% sessions expired)', NOW(), expired_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 6: Run the cleanup every 5 minutes
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+        CREATE EXTENSION IF NOT EXISTS pg_cron;
+        -- Scheduling under an existing name replaces that job
+        PERFORM cron.schedule('vibeconsole-cleanup', '*/5 * * * *', 'SELECT cleanup_old_data()');
+    ELSE
+        RAISE NOTICE 'pg_cron is not available - call cleanup_old_data() from an external scheduler';
+    END IF;
+END $$;
+
+-- Step 7: Index for the expiry scan
+CREATE INDEX IF NOT EXISTS idx_sessions_active_created ON sessions(created_at) WHERE is_active = true;
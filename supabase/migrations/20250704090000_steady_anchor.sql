@@ -0,0 +1,107 @@
+/*
+  # Resumable device identity
+
+  1. Changes
+    - Enable pgcrypto for HMAC signing
+    - Private `device_token_secrets` table holding the signing key (RLS on, no policies,
+      so only SECURITY DEFINER functions can read it)
+    - Add `token_issued_at` to devices
+    - `issue_device_token(device_uuid)` signs a resume token for a freshly created device
+    - `resume_device(session_uuid, token)` verifies a token and hands back the device row
+
+  2. Notes
+    - Tokens look like `v1.<device id>.<hex HMAC-SHA256 of "device id:session id">`
+    - A token is issued once per device, right after the phone creates its row; anyone
+      else asking later gets NULL, so reading a device id off the table isn't enough to
+      take the device over
+    - Tokens stay valid for as long as the device row exists; removing the device (or the
+      session ending and being cleaned up) is what revokes them
+    - `sign_device_token()` also searches the `extensions` schema, where Supabase installs
+      pgcrypto
+*/
+
+-- Step 1: Signing key
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS device_token_secrets (
+  name TEXT PRIMARY KEY,
+  secret BYTEA NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE device_token_secrets ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO device_token_secrets (name, secret)
+VALUES ('device_token', gen_random_bytes(32))
+ON CONFLICT (name) DO NOTHING;
+
+-- Step 2: Remember which devices already have a token
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS token_issued_at TIMESTAMPTZ;
+
+-- Step 3: Signature over a device and its session
+CREATE OR REPLACE FUNCTION sign_device_token(device_uuid UUID, session_uuid UUID)
+RETURNS TEXT AS $$
+    SELECT encode(
+        hmac(device_uuid::TEXT || ':' || session_uuid::TEXT, secret, 'sha256'),
+        'hex'
+    )
+    FROM device_token_secrets
+    WHERE name = 'device_token';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION sign_device_token(UUID, UUID) FROM PUBLIC;
+
+-- Step 4: Issue a token once per device
+CREATE OR REPLACE FUNCTION issue_device_token(device_uuid UUID)
+RETURNS TEXT AS $$
+DECLARE
+    device_session UUID;
+BEGIN
+    UPDATE devices
+    SET token_issued_at = NOW()
+    WHERE id = device_uuid
+    AND token_issued_at IS NULL
+    RETURNING session_id INTO device_session;
+
+    IF device_session IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN 'v1.' || device_uuid::TEXT || '.' || sign_device_token(device_uuid, device_session);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Step 5: Reclaim a device with its token
+CREATE OR REPLACE FUNCTION resume_device(session_uuid UUID, token TEXT)
+RETURNS SETOF devices AS $$
+DECLARE
+    parts TEXT[];
+    device_uuid UUID;
+BEGIN
+    parts := string_to_array(token, '.');
+    IF array_length(parts, 1) <> 3 OR parts[1] <> 'v1' THEN
+        RETURN;
+    END IF;
+
+    BEGIN
+        device_uuid := parts[2]::UUID;
+    EXCEPTION WHEN invalid_text_representation THEN
+        RETURN;
+    END;
+
+    IF parts[3] IS DISTINCT FROM sign_device_token(device_uuid, session_uuid) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    UPDATE devices d
+    SET last_seen = NOW(),
+        connected_at = NOW()
+    FROM sessions s
+    WHERE d.id = device_uuid
+    AND d.session_id = session_uuid
+    AND s.id = d.session_id
+    AND s.is_active = true
+    RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,124 @@
+/*
+  # Host transfer and host election
+
+  1. Changes
+    - Add `host_device_id` to sessions so every client learns about host changes through
+      its session subscription; `devices.is_host` is kept in step with it
+    - Backfill `host_device_id` from existing host phones
+    - `transfer_host(session_uuid, new_host_uuid, expected_host_uuid)` moves the host
+      flag atomically; with `expected_host_uuid` it only does so if that device is still
+      the host, so an election can't override a transfer that happened in the meantime
+    - Trigger recording the first host phone on the session; the console's `is_host` flag
+      never makes it the host others answer to
+    - Trigger promoting the longest-connected phone when the host device is deleted
+
+  2. Notes
+    - Electing a host for a host that is merely absent is up to the console, which is
+      the client that sees presence (see src/lib/hostElection.ts)
+*/
+
+-- Step 1: Host on the session row
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS host_device_id UUID REFERENCES devices(id) ON DELETE SET NULL;
+
+UPDATE sessions s
+SET host_device_id = d.id
+FROM devices d
+WHERE d.session_id = s.id
+AND d.is_host = true
+AND d.device_type = 'phone'
+AND s.host_device_id IS NULL;
+
+-- Step 2: Atomic transfer
+CREATE OR REPLACE FUNCTION transfer_host(
+    session_uuid UUID,
+    new_host_uuid UUID,
+    expected_host_uuid UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    current_host UUID;
+BEGIN
+    SELECT host_device_id INTO current_host
+    FROM sessions
+    WHERE id = session_uuid
+    AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF expected_host_uuid IS NOT NULL AND current_host IS DISTINCT FROM expected_host_uuid THEN
+        RETURN false;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM devices
+        WHERE id = new_host_uuid
+        AND session_id = session_uuid
+        AND device_type = 'phone'
+    ) THEN
+        RETURN false;
+    END IF;
+
+    UPDATE devices
+    SET is_host = (id = new_host_uuid)
+    WHERE session_id = session_uuid
+    AND is_host IS DISTINCT FROM (id = new_host_uuid);
+
+    UPDATE sessions
+    SET host_device_id = new_host_uuid
+    WHERE id = session_uuid;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 3: The first host phone to join is recorded on the session
+CREATE OR REPLACE FUNCTION record_session_host()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_host = true AND NEW.device_type = 'phone' THEN
+        UPDATE sessions
+        SET host_device_id = NEW.id
+        WHERE id = NEW.session_id
+        AND host_device_id IS NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_record_session_host ON devices;
+CREATE TRIGGER trigger_record_session_host
+    AFTER INSERT ON devices
+    FOR EACH ROW
+    EXECUTE FUNCTION record_session_host();
+
+-- Step 4: A deleted host hands over to the longest-connected phone
+CREATE OR REPLACE FUNCTION elect_host_on_delete()
+RETURNS TRIGGER AS $$
+DECLARE
+    next_host UUID;
+BEGIN
+    IF OLD.is_host = true THEN
+        SELECT id INTO next_host
+        FROM devices
+        WHERE session_id = OLD.session_id
+        AND device_type = 'phone'
+        AND id <> OLD.id
+        ORDER BY joined_at ASC
+        LIMIT 1;
+
+        IF next_host IS NOT NULL THEN
+            PERFORM transfer_host(OLD.session_id, next_host);
+        END IF;
+    END IF;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_elect_host_on_delete ON devices;
+CREATE TRIGGER trigger_elect_host_on_delete
+    AFTER DELETE ON devices
+    FOR EACH ROW
+    EXECUTE FUNCTION elect_host_on_delete();
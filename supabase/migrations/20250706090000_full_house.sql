@@ -0,0 +1,74 @@
+/*
+  # Lobby capacity
+
+  1. Changes
+    - Add `max_players` to sessions, chosen when the console creates the session
+      (4 on Free, 6 on Pro - see src/lib/plans.ts), bounded to 1-6
+    - Trigger refusing phones that would take a lobby past `max_players`
+
+  2. Notes
+    - The trigger locks the session row before counting, so two phones joining at once
+      are counted one after the other and can't both take the last seat
+    - A full lobby raises SQLSTATE 'VC001' with message 'lobby_full'; PostgREST passes
+      both through as the error's `code` and `message`
+    - Only phones take seats; the console doesn't count
+*/
+
+-- Step 1: Capacity on the session
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS max_players INTEGER NOT NULL DEFAULT 4;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE constraint_name = 'sessions_max_players_check'
+        AND table_name = 'sessions'
+    ) THEN
+        ALTER TABLE sessions
+        ADD CONSTRAINT sessions_max_players_check
+        CHECK (max_players BETWEEN 1 AND 6);
+    END IF;
+END $$;
+
+-- Step 2: Enforce it when devices join
+CREATE OR REPLACE FUNCTION enforce_lobby_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    capacity INTEGER;
+    seated INTEGER;
+BEGIN
+    IF NEW.device_type <> 'phone' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Serializes concurrent joins to the same session
+    SELECT max_players INTO capacity
+    FROM sessions
+    WHERE id = NEW.session_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NEW; -- The foreign key reports the missing session
+    END IF;
+
+    SELECT COUNT(*) INTO seated
+    FROM devices
+    WHERE session_id = NEW.session_id
+    AND device_type = 'phone';
+
+    IF seated >= capacity THEN
+        RAISE EXCEPTION 'lobby_full'
+            USING ERRCODE = 'VC001',
+                  DETAIL = format('This lobby holds %s players', capacity),
+                  HINT = capacity::TEXT;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_lobby_capacity ON devices;
+CREATE TRIGGER trigger_enforce_lobby_capacity
+    BEFORE INSERT ON devices
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_lobby_capacity();
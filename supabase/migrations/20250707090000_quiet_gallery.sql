@@ -0,0 +1,83 @@
+/*
+  # Spectators
+
+  1. Changes
+    - Allow 'spectator' in `devices.device_type`
+    - `enforce_lobby_capacity()` also runs when a device becomes a phone, so promoting
+      a spectator can't take a lobby past `max_players`
+
+  2. Notes
+    - Spectators don't take seats, can't be host (transfer_host() only accepts phones)
+      and their inputs are ignored by the console's InputRouter
+    - Phones joining a locked lobby, or choosing to watch a full one, join as spectators;
+      the host promotes them by changing `device_type` to 'phone'
+*/
+
+-- Step 1: Replace the device_type check, whatever it was named
+DO $$
+DECLARE
+    constraint_record RECORD;
+BEGIN
+    FOR constraint_record IN
+        SELECT conname
+        FROM pg_constraint
+        WHERE conrelid = 'devices'::regclass
+        AND contype = 'c'
+        AND pg_get_constraintdef(oid) ILIKE '%device_type%'
+    LOOP
+        EXECUTE format('ALTER TABLE devices DROP CONSTRAINT %I', constraint_record.conname);
+    END LOOP;
+END $$;
+
+ALTER TABLE devices
+ADD CONSTRAINT devices_device_type_check
+CHECK (device_type IN ('console', 'phone', 'spectator'));
+
+-- Step 2: Count promotions against capacity too
+CREATE OR REPLACE FUNCTION enforce_lobby_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    capacity INTEGER;
+    seated INTEGER;
+BEGIN
+    IF NEW.device_type <> 'phone' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Already seated
+    IF TG_OP = 'UPDATE' AND OLD.device_type = 'phone' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Serializes concurrent joins to the same session
+    SELECT max_players INTO capacity
+    FROM sessions
+    WHERE id = NEW.session_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NEW; -- The foreign key reports the missing session
+    END IF;
+
+    SELECT COUNT(*) INTO seated
+    FROM devices
+    WHERE session_id = NEW.session_id
+    AND device_type = 'phone'
+    AND id <> NEW.id;
+
+    IF seated >= capacity THEN
+        RAISE EXCEPTION 'lobby_full'
+            USING ERRCODE = 'VC001',
+                  DETAIL = format('This lobby holds %s players', capacity),
+                  HINT = capacity::TEXT;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_lobby_capacity ON devices;
+CREATE TRIGGER trigger_enforce_lobby_capacity
+    BEFORE INSERT OR UPDATE OF device_type ON devices
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_lobby_capacity();
@@ -0,0 +1,144 @@
+/*
+  # Host moderation
+
+  1. Changes
+    - Add `banned_names`, `banned_device_ids` and `moderation_log` to sessions
+    - Add `is_muted` to devices; the console's InputRouter drops a muted device's inputs
+    - `moderate_device(session_uuid, host_uuid, target_uuid, moderation_action)` lets the
+      host kick, ban, mute or unmute another phone or spectator, and logs the action
+    - Trigger refusing devices whose name is banned from the session
+    - `is_device_banned(session_uuid, device_name, token)` for phones that join again
+      with the resume token of an earlier device
+
+  2. Notes
+    - Kick and ban delete the device, so its resume token stops working; a ban also keeps
+      its name (lower-cased, trimmed) and device id on the session
+    - A banned name raises SQLSTATE 'VC002' with message 'banned', like lobby_full
+    - The host can't moderate itself or the console
+    - `moderation_log` entries are `{ action, device_id, name, at }` (see src/lib/moderation.ts)
+*/
+
+-- Step 1: Moderation state
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS banned_names TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS banned_device_ids UUID[] NOT NULL DEFAULT '{}';
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS moderation_log JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS is_muted BOOLEAN NOT NULL DEFAULT false;
+
+-- Step 2: Host actions
+CREATE OR REPLACE FUNCTION moderate_device(
+    session_uuid UUID,
+    host_uuid UUID,
+    target_uuid UUID,
+    moderation_action TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    target devices%ROWTYPE;
+    banned_name TEXT;
+BEGIN
+    IF moderation_action NOT IN ('kick', 'ban', 'mute', 'unmute') THEN
+        RETURN false;
+    END IF;
+
+    -- Only the current host, and never on itself
+    PERFORM 1
+    FROM sessions
+    WHERE id = session_uuid
+    AND is_active = true
+    AND host_device_id = host_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND OR target_uuid = host_uuid THEN
+        RETURN false;
+    END IF;
+
+    SELECT * INTO target
+    FROM devices
+    WHERE id = target_uuid
+    AND session_id = session_uuid
+    AND device_type IN ('phone', 'spectator');
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    -- Log first, so a removed phone finds out why when its row disappears
+    UPDATE sessions
+    SET moderation_log = moderation_log || jsonb_build_array(jsonb_build_object(
+        'action', moderation_action,
+        'device_id', target.id,
+        'name', target.name,
+        'at', NOW()
+    ))
+    WHERE id = session_uuid;
+
+    IF moderation_action = 'ban' THEN
+        banned_name := lower(btrim(target.name));
+        UPDATE sessions
+        SET banned_names = array_append(array_remove(banned_names, banned_name), banned_name),
+            banned_device_ids = array_append(array_remove(banned_device_ids, target.id), target.id)
+        WHERE id = session_uuid;
+    END IF;
+
+    IF moderation_action IN ('kick', 'ban') THEN
+        DELETE FROM devices WHERE id = target_uuid;
+    ELSE
+        UPDATE devices
+        SET is_muted = (moderation_action = 'mute')
+        WHERE id = target_uuid;
+    END IF;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 3: Keep banned names out
+CREATE OR REPLACE FUNCTION refuse_banned_device()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM sessions
+        WHERE id = NEW.session_id
+        AND lower(btrim(NEW.name)) = ANY(banned_names)
+    ) THEN
+        RAISE EXCEPTION 'banned'
+            USING ERRCODE = 'VC002',
+                  DETAIL = 'The host banned this player from the session';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_refuse_banned_device ON devices;
+CREATE TRIGGER trigger_refuse_banned_device
+    BEFORE INSERT ON devices
+    FOR EACH ROW
+    EXECUTE FUNCTION refuse_banned_device();
+
+-- Step 4: Banned names or the token of a banned device
+CREATE OR REPLACE FUNCTION is_device_banned(session_uuid UUID, device_name TEXT, token TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+    parts TEXT[];
+    token_device UUID;
+BEGIN
+    parts := string_to_array(token, '.');
+    IF array_length(parts, 1) = 3 AND parts[1] = 'v1' THEN
+        BEGIN
+            token_device := parts[2]::UUID;
+        EXCEPTION WHEN invalid_text_representation THEN
+            token_device := NULL;
+        END;
+    END IF;
+
+    RETURN EXISTS (
+        SELECT 1 FROM sessions
+        WHERE id = session_uuid
+        AND (
+            lower(btrim(device_name)) = ANY(banned_names)
+            OR token_device = ANY(banned_device_ids)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
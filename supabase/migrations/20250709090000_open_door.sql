@@ -0,0 +1,320 @@
+/*
+  # Lobby access: PIN and knock modes
+
+  1. Changes
+    - Add `join_mode` ('open' | 'pin' | 'knock') to sessions, 'open' by default
+    - Private `lobby_pins` table holding a bcrypt hash of each PIN lobby's PIN, and the
+      wrong guesses made against it (RLS on, no policies, so only SECURITY DEFINER
+      functions can read it)
+    - Add `status` ('active' | 'pending') to devices
+    - `set_lobby_access(session_uuid, console_uuid, mode, pin)` for the console
+    - `join_with_pin(session_uuid, device_name, device_type, is_host, pin)` checks the PIN
+      and creates the device
+    - Trigger refusing phones that join a PIN lobby any other way, and making devices
+      that join a knock lobby pending (and never host)
+    - `review_join(session_uuid, reviewer_uuid, device_uuid, approve)` lets the console or
+      the host approve a pending device, or deny it by deleting it
+    - `transfer_host()` and the host election on delete only pick active phones
+
+  2. Notes
+    - A wrong or missing PIN raises SQLSTATE 'VC003' with message 'pin_required'
+    - The console is never held back; it creates its own device before choosing a mode
+    - Pending phones count against `max_players` while they wait
+    - The first phone approved into a lobby without a phone host becomes host
+    - The PIN functions also search the `extensions` schema, where Supabase installs
+      pgcrypto
+*/
+
+-- Step 1: Access mode and device status
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS join_mode TEXT NOT NULL DEFAULT 'open';
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE constraint_name = 'sessions_join_mode_check'
+        AND table_name = 'sessions'
+    ) THEN
+        ALTER TABLE sessions
+        ADD CONSTRAINT sessions_join_mode_check
+        CHECK (join_mode IN ('open', 'pin', 'knock'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE constraint_name = 'devices_status_check'
+        AND table_name = 'devices'
+    ) THEN
+        ALTER TABLE devices
+        ADD CONSTRAINT devices_status_check
+        CHECK (status IN ('active', 'pending'));
+    END IF;
+END $$;
+
+-- Step 2: PIN hashes, out of reach of clients
+CREATE TABLE IF NOT EXISTS lobby_pins (
+  session_id UUID PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE lobby_pins ENABLE ROW LEVEL SECURITY;
+
+-- Step 3: The console picks the mode (and PIN)
+CREATE OR REPLACE FUNCTION set_lobby_access(
+    session_uuid UUID,
+    console_uuid UUID,
+    mode TEXT,
+    pin TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF mode NOT IN ('open', 'pin', 'knock') THEN
+        RETURN false;
+    END IF;
+
+    IF mode = 'pin' AND (pin IS NULL OR pin !~ '^[0-9]{4}$') THEN
+        RETURN false;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM devices d
+        JOIN sessions s ON s.id = d.session_id
+        WHERE d.id = console_uuid
+        AND d.session_id = session_uuid
+        AND d.device_type = 'console'
+        AND s.is_active = true
+    ) THEN
+        RETURN false;
+    END IF;
+
+    IF mode = 'pin' THEN
+        INSERT INTO lobby_pins (session_id, pin_hash)
+        VALUES (session_uuid, crypt(pin, gen_salt('bf')))
+        ON CONFLICT (session_id) DO UPDATE
+        SET pin_hash = EXCLUDED.pin_hash,
+            failed_attempts = 0,
+            locked_until = NULL,
+            created_at = NOW();
+    ELSE
+        DELETE FROM lobby_pins WHERE session_id = session_uuid;
+    END IF;
+
+    UPDATE sessions
+    SET join_mode = mode
+    WHERE id = session_uuid;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Step 4: Hold devices at the door
+CREATE OR REPLACE FUNCTION guard_lobby_access()
+RETURNS TRIGGER AS $$
+DECLARE
+    lobby_mode TEXT;
+BEGIN
+    IF NEW.device_type = 'console' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT join_mode INTO lobby_mode
+    FROM sessions
+    WHERE id = NEW.session_id;
+
+    -- join_with_pin() marks the session it has checked the PIN for
+    IF lobby_mode = 'pin'
+        AND current_setting('vibeconsole.pin_session', true) IS DISTINCT FROM NEW.session_id::TEXT THEN
+        RAISE EXCEPTION 'pin_required'
+            USING ERRCODE = 'VC003',
+                  DETAIL = 'This lobby needs the PIN shown on the console';
+    END IF;
+
+    IF lobby_mode = 'knock' THEN
+        NEW.status := 'pending';
+        NEW.is_host := false;
+    ELSE
+        NEW.status := 'active';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_guard_lobby_access ON devices;
+CREATE TRIGGER trigger_guard_lobby_access
+    BEFORE INSERT ON devices
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_lobby_access();
+
+-- Step 5: Join a PIN lobby
+CREATE OR REPLACE FUNCTION join_with_pin(
+    session_uuid UUID,
+    device_name TEXT,
+    device_type TEXT,
+    is_host BOOLEAN,
+    pin TEXT
+)
+RETURNS SETOF devices AS $$
+DECLARE
+    stored_hash TEXT;
+BEGIN
+    SELECT pin_hash INTO stored_hash
+    FROM lobby_pins
+    WHERE session_id = session_uuid;
+
+    IF stored_hash IS NULL OR pin IS NULL OR crypt(pin, stored_hash) <> stored_hash THEN
+        RAISE EXCEPTION 'pin_required'
+            USING ERRCODE = 'VC003',
+                  DETAIL = 'This lobby needs the PIN shown on the console';
+    END IF;
+
+    PERFORM set_config('vibeconsole.pin_session', session_uuid::TEXT, true);
+
+    RETURN QUERY
+    INSERT INTO devices (session_id, name, device_type, is_host, joined_at, last_seen, connected_at)
+    VALUES (
+        session_uuid,
+        device_name,
+        join_with_pin.device_type,
+        join_with_pin.is_host,
+        (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT,
+        NOW(),
+        NOW()
+    )
+    RETURNING *;
+
+    PERFORM set_config('vibeconsole.pin_session', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Step 6: Only active phones can be host
+CREATE OR REPLACE FUNCTION transfer_host(
+    session_uuid UUID,
+    new_host_uuid UUID,
+    expected_host_uuid UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    current_host UUID;
+BEGIN
+    SELECT host_device_id INTO current_host
+    FROM sessions
+    WHERE id = session_uuid
+    AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF expected_host_uuid IS NOT NULL AND current_host IS DISTINCT FROM expected_host_uuid THEN
+        RETURN false;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM devices
+        WHERE id = new_host_uuid
+        AND session_id = session_uuid
+        AND device_type = 'phone'
+        AND status = 'active'
+    ) THEN
+        RETURN false;
+    END IF;
+
+    UPDATE devices
+    SET is_host = (id = new_host_uuid)
+    WHERE session_id = session_uuid
+    AND is_host IS DISTINCT FROM (id = new_host_uuid);
+
+    UPDATE sessions
+    SET host_device_id = new_host_uuid
+    WHERE id = session_uuid;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION elect_host_on_delete()
+RETURNS TRIGGER AS $$
+DECLARE
+    next_host UUID;
+BEGIN
+    IF OLD.is_host = true THEN
+        SELECT id INTO next_host
+        FROM devices
+        WHERE session_id = OLD.session_id
+        AND device_type = 'phone'
+        AND status = 'active'
+        AND id <> OLD.id
+        ORDER BY joined_at ASC
+        LIMIT 1;
+
+        IF next_host IS NOT NULL THEN
+            PERFORM transfer_host(OLD.session_id, next_host);
+        END IF;
+    END IF;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 7: Let a pending device in, or turn it away
+CREATE OR REPLACE FUNCTION review_join(
+    session_uuid UUID,
+    reviewer_uuid UUID,
+    device_uuid UUID,
+    approve BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    target devices%ROWTYPE;
+BEGIN
+    -- The console or the current host
+    IF NOT EXISTS (
+        SELECT 1 FROM devices d
+        JOIN sessions s ON s.id = d.session_id
+        WHERE d.id = reviewer_uuid
+        AND d.session_id = session_uuid
+        AND d.status = 'active'
+        AND s.is_active = true
+        AND (d.device_type = 'console' OR s.host_device_id = d.id)
+    ) THEN
+        RETURN false;
+    END IF;
+
+    SELECT * INTO target
+    FROM devices
+    WHERE id = device_uuid
+    AND session_id = session_uuid
+    AND status = 'pending'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF NOT approve THEN
+        DELETE FROM devices WHERE id = device_uuid;
+        RETURN true;
+    END IF;
+
+    UPDATE devices
+    SET status = 'active'
+    WHERE id = device_uuid;
+
+    IF target.device_type = 'phone' AND NOT EXISTS (
+        SELECT 1 FROM devices
+        WHERE session_id = session_uuid
+        AND device_type = 'phone'
+        AND status = 'active'
+        AND is_host = true
+    ) THEN
+        PERFORM transfer_host(session_uuid, device_uuid);
+    END IF;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,609 @@
+/*
+  # Device-scoped access
+
+  1. Changes
+    - `sign_device_jwt(device_uuid, session_uuid)` signs a JWT (role `anon`) carrying the
+      device's `session_id` and `device_id` with the project's JWT secret
+    - `join_session(session_uuid, device_name, device_type, is_host, token, pin)` replaces
+      direct inserts into devices (and `join_with_pin()`): it checks bans and the PIN,
+      creates the device and hands back `{ device, access_token }`
+    - `join_session()` counts wrong PINs per lobby; after 5 in a row it refuses PIN joins
+      for 5 minutes, so the 10,000 4-digit PINs can't be tried in a row. A wrong PIN, or a
+      locked PIN lobby, is answered with `{ "error": "pin_required" }` or
+      `{ "error": "pin_locked" }` instead of an exception, since raising would roll the
+      count back; `set_lobby_access()` clears the count and the lock with a new PIN
+    - `join_session()` locks the session row first, so phones joining at once are decided
+      one after the other. `is_host` is only honoured for the console, or for a phone while
+      the session has no host phone; spectators always join without it
+    - `device_access_token(session_uuid, token)` swaps a resume token for a fresh JWT
+    - `create_session(lobby_code, max_players)` and `find_session(lobby_code)` for the
+      console and for phones that haven't joined yet; `create_session()` refuses a
+      `max_players` that isn't one of the plans' seat counts (4 for Free, 6 for Pro, as in
+      src/lib/plans.ts), raising `invalid_parameter_value`
+    - `find_session()` only returns a lobby's id, code, state and whether it needs a PIN;
+      `last_moderation(session_uuid)` tells a removed device whether it was kicked or banned
+    - `promote_spectator(device_uuid)` replaces updating devices.device_type directly
+    - Policies on sessions, devices, webrtc_signals and device_inputs now only reach the
+      caller's own session; the old `USING (true)` policies are dropped
+    - Clients may only update `is_locked`, `selected_editor` and `ice_config` on sessions,
+      and only as the console or the host; on devices, only their own `last_seen`
+    - `transfer_host()`, `end_session()`, `moderate_device()`, `set_lobby_access()` and
+      `review_join()` check the caller's token instead of trusting the ids passed in
+
+  2. Notes
+    - The JWT secret is read from `app.settings.jwt_secret`; projects that don't expose it
+      need `ALTER DATABASE postgres SET app.settings.jwt_secret = '<JWT secret>'`
+    - Tokens last 24 hours; a phone that reloads gets a new one with its resume token
+    - Access ends as soon as the device row is gone (kick, ban, presence removal), since
+      every policy looks the device up; pending devices only see their own row.
+      `last_moderation()` only reads the token's device id, so it still answers then
+    - The console joins right after `create_session()`, before the lobby code is shown,
+      and a session takes a single console device
+    - Presence and broadcast channels, and `input_mapping_profiles`, are not covered
+    - Seat counts are not paid limits: the console picks `max_players`, and there are no
+      accounts or payments behind the plans, so any console can open a 6-seat lobby
+    - Joining a PIN lobby without a PIN still raises `pin_required` (VC003) from
+      guard_lobby_access(); no guess was made, so nothing is counted
+    - `sign_device_jwt()`, `join_session()` and `set_lobby_access()` search the `extensions`
+      schema for pgcrypto
+*/
+
+-- Step 1: Sign device tokens
+CREATE OR REPLACE FUNCTION jwt_base64url(data BYTEA)
+RETURNS TEXT AS $$
+    SELECT translate(encode(data, 'base64'), E'+/=\n', '-_');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION sign_device_jwt(device_uuid UUID, session_uuid UUID)
+RETURNS TEXT AS $$
+DECLARE
+    secret TEXT := current_setting('app.settings.jwt_secret', true);
+    signing_input TEXT;
+BEGIN
+    IF secret IS NULL OR secret = '' THEN
+        RAISE EXCEPTION 'app.settings.jwt_secret is not set';
+    END IF;
+
+    signing_input := jwt_base64url(convert_to('{"alg":"HS256","typ":"JWT"}', 'utf8'))
+        || '.'
+        || jwt_base64url(convert_to(jsonb_build_object(
+            'iss', 'vibeconsole',
+            'role', 'anon',
+            'session_id', session_uuid,
+            'device_id', device_uuid,
+            'iat', EXTRACT(EPOCH FROM NOW())::BIGINT,
+            'exp', EXTRACT(EPOCH FROM NOW() + INTERVAL '24 hours')::BIGINT
+        )::TEXT, 'utf8'));
+
+    RETURN signing_input || '.' || jwt_base64url(hmac(signing_input, secret, 'sha256'));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION sign_device_jwt(UUID, UUID) FROM PUBLIC;
+
+-- Step 2: Who is calling
+CREATE OR REPLACE FUNCTION caller_device_id()
+RETURNS UUID AS $$
+    SELECT NULLIF(auth.jwt() ->> 'device_id', '')::UUID;
+$$ LANGUAGE sql STABLE;
+
+-- Session of the caller's device, while that device is still in it and let in
+CREATE OR REPLACE FUNCTION caller_session_id()
+RETURNS UUID AS $$
+    SELECT session_id
+    FROM devices
+    WHERE id = caller_device_id()
+    AND session_id = NULLIF(auth.jwt() ->> 'session_id', '')::UUID
+    AND status = 'active';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The console or the current host of the session
+CREATE OR REPLACE FUNCTION caller_controls_session(session_uuid UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM devices d
+        JOIN sessions s ON s.id = d.session_id
+        WHERE d.id = caller_device_id()
+        AND d.session_id = session_uuid
+        AND d.session_id = caller_session_id()
+        AND (d.device_type = 'console' OR s.host_device_id = d.id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 3: Create and find sessions before holding a token
+CREATE OR REPLACE FUNCTION create_session(lobby_code TEXT, max_players INTEGER DEFAULT 4)
+RETURNS SETOF sessions AS $$
+BEGIN
+    IF create_session.max_players IS NULL OR create_session.max_players NOT IN (4, 6) THEN
+        RAISE EXCEPTION 'max_players must be a plan''s seat count (4 or 6)'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO sessions (code, is_active, is_locked, selected_editor, max_players)
+    VALUES (lobby_code, true, false, NULL, create_session.max_players)
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION create_session(TEXT, INTEGER) IS
+    'Creates an active lobby. max_players must be a plan''s seat count (4 or 6); the caller chooses it and it is not checked against any entitlement.';
+
+-- Only what a phone needs to decide how to join; bans, the moderation log and the ICE
+-- settings stay with the session's devices
+CREATE OR REPLACE FUNCTION find_session(lobby_code TEXT)
+RETURNS TABLE (
+    id UUID,
+    code TEXT,
+    is_active BOOLEAN,
+    is_locked BOOLEAN,
+    selected_editor TEXT,
+    join_mode TEXT,
+    max_players INTEGER,
+    pin_required BOOLEAN
+) AS $$
+    SELECT s.id, s.code, s.is_active, s.is_locked, s.selected_editor, s.join_mode, s.max_players,
+        s.join_mode = 'pin'
+    FROM sessions s
+    WHERE s.code = lobby_code
+    AND s.is_active = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The caller's own last moderation entry, which a removed device can still ask for
+CREATE OR REPLACE FUNCTION last_moderation(session_uuid UUID)
+RETURNS JSONB AS $$
+    SELECT log.entry
+    FROM sessions s,
+        jsonb_array_elements(s.moderation_log) WITH ORDINALITY AS log(entry, position)
+    WHERE s.id = session_uuid
+    AND log.entry ->> 'device_id' = caller_device_id()::TEXT
+    ORDER BY log.position DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 4: Join, and get a token
+CREATE OR REPLACE FUNCTION join_session(
+    session_uuid UUID,
+    device_name TEXT,
+    device_type TEXT DEFAULT 'phone',
+    is_host BOOLEAN DEFAULT false,
+    token TEXT DEFAULT NULL,
+    pin TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    stored_pin lobby_pins%ROWTYPE;
+    joined devices%ROWTYPE;
+BEGIN
+    -- Held until commit; enforce_lobby_capacity() takes the same lock later on
+    PERFORM 1 FROM sessions
+    WHERE id = session_uuid
+    AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF join_session.device_type = 'console' AND EXISTS (
+        SELECT 1 FROM devices d
+        WHERE d.session_id = session_uuid
+        AND d.device_type = 'console'
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    -- Banned names are refused by refuse_banned_device() too; tokens only here
+    IF is_device_banned(session_uuid, device_name, token) THEN
+        RAISE EXCEPTION 'banned'
+            USING ERRCODE = 'VC002',
+                  DETAIL = 'The host banned this player from the session';
+    END IF;
+
+    -- guard_lobby_access() refuses PIN lobbies unless the PIN was checked here
+    SELECT * INTO stored_pin
+    FROM lobby_pins
+    WHERE session_id = session_uuid
+    FOR UPDATE;
+
+    IF FOUND AND pin IS NOT NULL THEN
+        IF stored_pin.locked_until > NOW() THEN
+            RETURN jsonb_build_object('error', 'pin_locked');
+        END IF;
+
+        IF crypt(pin, stored_pin.pin_hash) <> stored_pin.pin_hash THEN
+            UPDATE lobby_pins
+            SET failed_attempts = CASE WHEN failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+                locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN NOW() + INTERVAL '5 minutes' ELSE locked_until END
+            WHERE session_id = session_uuid;
+            RETURN jsonb_build_object('error', 'pin_required');
+        END IF;
+
+        UPDATE lobby_pins
+        SET failed_attempts = 0
+        WHERE session_id = session_uuid;
+        PERFORM set_config('vibeconsole.pin_session', session_uuid::TEXT, true);
+    END IF;
+
+    -- The console, or the first phone; later hosts only come from election or transfer
+    INSERT INTO devices (session_id, name, device_type, is_host, joined_at, last_seen, connected_at)
+    VALUES (
+        session_uuid,
+        device_name,
+        join_session.device_type,
+        join_session.is_host AND (
+            join_session.device_type = 'console'
+            OR (join_session.device_type = 'phone' AND NOT EXISTS (
+                SELECT 1 FROM devices d
+                WHERE d.session_id = session_uuid
+                AND d.device_type = 'phone'
+                AND d.is_host = true
+            ))
+        ),
+        (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT,
+        NOW(),
+        NOW()
+    )
+    RETURNING * INTO joined;
+
+    PERFORM set_config('vibeconsole.pin_session', '', true);
+
+    RETURN jsonb_build_object(
+        'device', to_jsonb(joined),
+        'access_token', sign_device_jwt(joined.id, joined.session_id)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS join_with_pin(UUID, TEXT, TEXT, BOOLEAN, TEXT);
+
+-- Step 5: A new token for a resumed device
+CREATE OR REPLACE FUNCTION device_access_token(session_uuid UUID, token TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    device_uuid UUID;
+BEGIN
+    SELECT id INTO device_uuid
+    FROM resume_device(session_uuid, token);
+
+    IF device_uuid IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN sign_device_jwt(device_uuid, session_uuid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Step 6: Host-only spectator promotion
+CREATE OR REPLACE FUNCTION promote_spectator(device_uuid UUID)
+RETURNS SETOF devices AS $$
+BEGIN
+    -- enforce_lobby_capacity() raises lobby_full when every seat is taken
+    RETURN QUERY
+    UPDATE devices
+    SET device_type = 'phone'
+    WHERE id = device_uuid
+    AND device_type = 'spectator'
+    AND caller_controls_session(session_id)
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Step 7: Policies scoped to the caller's session
+DROP POLICY IF EXISTS "Allow anonymous access to sessions" ON sessions;
+DROP POLICY IF EXISTS "Allow anonymous access to devices" ON devices;
+DROP POLICY IF EXISTS "Allow anonymous access to webrtc_signals" ON webrtc_signals;
+DROP POLICY IF EXISTS "Allow anonymous access to device_inputs" ON device_inputs;
+
+CREATE POLICY "Devices read their own session" ON sessions
+FOR SELECT TO anon
+USING (id = caller_session_id());
+
+CREATE POLICY "Console and host update their own session" ON sessions
+FOR UPDATE TO anon
+USING (caller_controls_session(id))
+WITH CHECK (caller_controls_session(id));
+
+CREATE POLICY "Devices read their own session's devices" ON devices
+FOR SELECT TO anon
+USING (session_id = caller_session_id() OR id = caller_device_id());
+
+CREATE POLICY "Devices update their own row" ON devices
+FOR UPDATE TO anon
+USING (id = caller_device_id())
+WITH CHECK (id = caller_device_id());
+
+CREATE POLICY "Devices leave, and the console or host removes others" ON devices
+FOR DELETE TO anon
+USING (id = caller_device_id() OR caller_controls_session(session_id));
+
+CREATE POLICY "Devices send their own signals" ON webrtc_signals
+FOR INSERT TO anon
+WITH CHECK (session_id = caller_session_id() AND sender_device_id = caller_device_id());
+
+CREATE POLICY "Devices read their own signals" ON webrtc_signals
+FOR SELECT TO anon
+USING (
+    session_id = caller_session_id()
+    AND (receiver_device_id = caller_device_id() OR sender_device_id = caller_device_id())
+);
+
+CREATE POLICY "Devices mark their own signals processed" ON webrtc_signals
+FOR UPDATE TO anon
+USING (session_id = caller_session_id() AND receiver_device_id = caller_device_id())
+WITH CHECK (session_id = caller_session_id() AND receiver_device_id = caller_device_id());
+
+CREATE POLICY "Devices send their own inputs" ON device_inputs
+FOR INSERT TO anon
+WITH CHECK (session_id = caller_session_id() AND device_id = caller_device_id());
+
+CREATE POLICY "Devices read their own session's inputs" ON device_inputs
+FOR SELECT TO anon
+USING (session_id = caller_session_id());
+
+-- Step 8: Columns clients may write
+REVOKE INSERT, UPDATE, DELETE ON sessions FROM anon;
+GRANT UPDATE (is_locked, selected_editor, ice_config) ON sessions TO anon;
+
+REVOKE INSERT, UPDATE ON devices FROM anon;
+GRANT UPDATE (last_seen) ON devices TO anon;
+
+-- Views run as their owner unless told otherwise
+ALTER VIEW active_sessions_view SET (security_invoker = true);
+ALTER VIEW session_recent_inputs SET (security_invoker = true);
+
+-- A host that leaves still hands over, though it can no longer read the session
+ALTER FUNCTION elect_host_on_delete() SECURITY DEFINER SET search_path = public;
+
+-- Step 9: Functions that act for the console or the host check the caller
+CREATE OR REPLACE FUNCTION transfer_host(
+    session_uuid UUID,
+    new_host_uuid UUID,
+    expected_host_uuid UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    current_host UUID;
+BEGIN
+    -- Clients call this as the console or the host; triggers hand over for a removed host
+    IF pg_trigger_depth() = 0 AND NOT caller_controls_session(session_uuid) THEN
+        RETURN false;
+    END IF;
+
+    SELECT host_device_id INTO current_host
+    FROM sessions
+    WHERE id = session_uuid
+    AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF expected_host_uuid IS NOT NULL AND current_host IS DISTINCT FROM expected_host_uuid THEN
+        RETURN false;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM devices
+        WHERE id = new_host_uuid
+        AND session_id = session_uuid
+        AND device_type = 'phone'
+        AND status = 'active'
+    ) THEN
+        RETURN false;
+    END IF;
+
+    UPDATE devices
+    SET is_host = (id = new_host_uuid)
+    WHERE session_id = session_uuid
+    AND is_host IS DISTINCT FROM (id = new_host_uuid);
+
+    UPDATE sessions
+    SET host_device_id = new_host_uuid
+    WHERE id = session_uuid;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION end_session(session_uuid UUID, reason TEXT DEFAULT 'ended_by_host')
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF NOT caller_controls_session(session_uuid) THEN
+        RETURN false;
+    END IF;
+
+    UPDATE sessions
+    SET is_active = false,
+        ended_at = NOW(),
+        end_reason = reason
+    WHERE id = session_uuid
+    AND is_active = true;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION moderate_device(
+    session_uuid UUID,
+    host_uuid UUID,
+    target_uuid UUID,
+    moderation_action TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    target devices%ROWTYPE;
+    banned_name TEXT;
+BEGIN
+    IF moderation_action NOT IN ('kick', 'ban', 'mute', 'unmute') THEN
+        RETURN false;
+    END IF;
+
+    IF host_uuid IS DISTINCT FROM caller_device_id() THEN
+        RETURN false;
+    END IF;
+
+    -- Only the current host, and never on itself
+    PERFORM 1
+    FROM sessions
+    WHERE id = session_uuid
+    AND is_active = true
+    AND host_device_id = host_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND OR target_uuid = host_uuid THEN
+        RETURN false;
+    END IF;
+
+    SELECT * INTO target
+    FROM devices
+    WHERE id = target_uuid
+    AND session_id = session_uuid
+    AND device_type IN ('phone', 'spectator');
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    -- Log first, so a removed phone finds out why when its row disappears
+    UPDATE sessions
+    SET moderation_log = moderation_log || jsonb_build_array(jsonb_build_object(
+        'action', moderation_action,
+        'device_id', target.id,
+        'name', target.name,
+        'at', NOW()
+    ))
+    WHERE id = session_uuid;
+
+    IF moderation_action = 'ban' THEN
+        banned_name := lower(btrim(target.name));
+        UPDATE sessions
+        SET banned_names = array_append(array_remove(banned_names, banned_name), banned_name),
+            banned_device_ids = array_append(array_remove(banned_device_ids, target.id), target.id)
+        WHERE id = session_uuid;
+    END IF;
+
+    IF moderation_action IN ('kick', 'ban') THEN
+        DELETE FROM devices WHERE id = target_uuid;
+    ELSE
+        UPDATE devices
+        SET is_muted = (moderation_action = 'mute')
+        WHERE id = target_uuid;
+    END IF;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_lobby_access(
+    session_uuid UUID,
+    console_uuid UUID,
+    mode TEXT,
+    pin TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF mode NOT IN ('open', 'pin', 'knock') THEN
+        RETURN false;
+    END IF;
+
+    IF mode = 'pin' AND (pin IS NULL OR pin !~ '^[0-9]{4}$') THEN
+        RETURN false;
+    END IF;
+
+    IF console_uuid IS DISTINCT FROM caller_device_id() THEN
+        RETURN false;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM devices d
+        JOIN sessions s ON s.id = d.session_id
+        WHERE d.id = console_uuid
+        AND d.session_id = session_uuid
+        AND d.device_type = 'console'
+        AND s.is_active = true
+    ) THEN
+        RETURN false;
+    END IF;
+
+    IF mode = 'pin' THEN
+        INSERT INTO lobby_pins (session_id, pin_hash)
+        VALUES (session_uuid, crypt(pin, gen_salt('bf')))
+        ON CONFLICT (session_id) DO UPDATE
+        SET pin_hash = EXCLUDED.pin_hash,
+            failed_attempts = 0,
+            locked_until = NULL,
+            created_at = NOW();
+    ELSE
+        DELETE FROM lobby_pins WHERE session_id = session_uuid;
+    END IF;
+
+    UPDATE sessions
+    SET join_mode = mode
+    WHERE id = session_uuid;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION review_join(
+    session_uuid UUID,
+    reviewer_uuid UUID,
+    device_uuid UUID,
+    approve BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    target devices%ROWTYPE;
+BEGIN
+    IF reviewer_uuid IS DISTINCT FROM caller_device_id() THEN
+        RETURN false;
+    END IF;
+
+    -- The console or the current host
+    IF NOT EXISTS (
+        SELECT 1 FROM devices d
+        JOIN sessions s ON s.id = d.session_id
+        WHERE d.id = reviewer_uuid
+        AND d.session_id = session_uuid
+        AND d.status = 'active'
+        AND s.is_active = true
+        AND (d.device_type = 'console' OR s.host_device_id = d.id)
+    ) THEN
+        RETURN false;
+    END IF;
+
+    SELECT * INTO target
+    FROM devices
+    WHERE id = device_uuid
+    AND session_id = session_uuid
+    AND status = 'pending'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF NOT approve THEN
+        DELETE FROM devices WHERE id = device_uuid;
+        RETURN true;
+    END IF;
+
+    UPDATE devices
+    SET status = 'active'
+    WHERE id = device_uuid;
+
+    IF target.device_type = 'phone' AND NOT EXISTS (
+        SELECT 1 FROM devices
+        WHERE session_id = session_uuid
+        AND device_type = 'phone'
+        AND status = 'active'
+        AND is_host = true
+    ) THEN
+        PERFORM transfer_host(session_uuid, device_uuid);
+    END IF;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
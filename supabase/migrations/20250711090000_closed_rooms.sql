@@ -0,0 +1,72 @@
+/*
+  # Private Realtime channels
+
+  1. Changes
+    - `caller_lobby_session_id()`: session of the caller's device, pending or not
+    - Policies on `realtime.messages` so only devices of a session can use its
+      `transport_<session>_<device>` relay and `signals_<session>_<device>` signaling
+      outboxes and its `presence_<session>` presence channel
+    - A device may only broadcast on its own outboxes, so receivers credit each message
+      to the outbox's device; muted devices can't broadcast on their relay outbox
+    - Clients join these channels as private channels, authorized by their device token
+
+  2. Notes
+    - Broadcast needs an active device (`caller_session_id()`); presence also lets in
+      phones still knocking, so the console doesn't remove them as absent while they wait
+    - Channels of other sessions, and public channels, stay out of reach
+    - Realtime checks these policies when a channel is joined, not for every message, so
+      broadcasts never write to Postgres; a device muted after joining its relay outbox
+      is dropped by the console instead (see WebRTCManager.setRelaySenders)
+*/
+
+-- Step 1: Session of a device that is in the lobby or waiting to be let in
+CREATE OR REPLACE FUNCTION caller_lobby_session_id()
+RETURNS UUID AS $$
+    SELECT session_id
+    FROM devices
+    WHERE id = caller_device_id()
+    AND session_id = NULLIF(auth.jwt() ->> 'session_id', '')::UUID;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 2: Outboxes of the caller's own session; devices only send on their own
+CREATE POLICY "Devices receive their own session's broadcasts" ON realtime.messages
+FOR SELECT TO anon
+USING (
+    extension = 'broadcast'
+    AND (
+        starts_with(realtime.topic(), 'transport_' || caller_session_id()::TEXT || '_')
+        OR starts_with(realtime.topic(), 'signals_' || caller_session_id()::TEXT || '_')
+    )
+);
+
+CREATE POLICY "Devices broadcast on their own outboxes" ON realtime.messages
+FOR INSERT TO anon
+WITH CHECK (
+    extension = 'broadcast'
+    AND (
+        realtime.topic() = 'signals_' || caller_session_id()::TEXT || '_' || caller_device_id()::TEXT
+        OR (
+            realtime.topic() = 'transport_' || caller_session_id()::TEXT || '_' || caller_device_id()::TEXT
+            AND NOT EXISTS (
+                SELECT 1 FROM devices
+                WHERE id = caller_device_id()
+                AND is_muted = true
+            )
+        )
+    )
+);
+
+-- Step 3: Presence channel of the caller's own session
+CREATE POLICY "Devices see their own session's presence" ON realtime.messages
+FOR SELECT TO anon
+USING (
+    extension = 'presence'
+    AND realtime.topic() = 'presence_' || caller_lobby_session_id()::TEXT
+);
+
+CREATE POLICY "Devices track presence in their own session" ON realtime.messages
+FOR INSERT TO anon
+WITH CHECK (
+    extension = 'presence'
+    AND realtime.topic() = 'presence_' || caller_lobby_session_id()::TEXT
+);
@@ -0,0 +1,33 @@
+/*
+  # Resume tokens only for the device itself
+
+  1. Changes
+    - `issue_device_token(device_uuid)` now also requires the caller's device token to be
+      for `device_uuid` (`caller_device_id()`), so knowing a device id isn't enough to claim
+      its resume token before the device asks for it
+
+  2. Notes
+    - Phones ask for their resume token right after `join_session()`, which already set
+      the device token the request is made with
+*/
+
+-- Step 1: Issue a token once, to the device it is for
+CREATE OR REPLACE FUNCTION issue_device_token(device_uuid UUID)
+RETURNS TEXT AS $$
+DECLARE
+    device_session UUID;
+BEGIN
+    UPDATE devices
+    SET token_issued_at = NOW()
+    WHERE id = device_uuid
+    AND id = caller_device_id()
+    AND token_issued_at IS NULL
+    RETURNING session_id INTO device_session;
+
+    IF device_session IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN 'v1.' || device_uuid::TEXT || '.' || sign_device_token(device_uuid, device_session);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,46 @@
+/*
+  # Mapping profiles scoped to the caller's device
+
+  1. Changes
+    - `caller_device_name()`: name of the device the caller's token is for
+    - Drop the anonymous `FOR ALL USING (true)` policy on `input_mapping_profiles`
+    - Devices read the profiles of players in their own session (the console loads each
+      phone's profile) and their own
+    - Devices only create and update the profile under their own device's name
+
+  2. Notes
+    - Profiles stay keyed by player name and outlive sessions; a player gets their profile
+      back by joining under the same name
+    - Nobody deletes profiles from the client
+*/
+
+-- Step 1: Who is saving
+CREATE OR REPLACE FUNCTION caller_device_name()
+RETURNS TEXT AS $$
+    SELECT name
+    FROM devices
+    WHERE id = caller_device_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 2: Replace the open policy
+DROP POLICY IF EXISTS "Allow anonymous access to input_mapping_profiles" ON input_mapping_profiles;
+
+CREATE POLICY "Devices read their session's profiles" ON input_mapping_profiles
+FOR SELECT TO anon
+USING (
+    player_name = caller_device_name()
+    OR EXISTS (
+        SELECT 1 FROM devices
+        WHERE devices.session_id = caller_session_id()
+        AND devices.name = input_mapping_profiles.player_name
+    )
+);
+
+CREATE POLICY "Devices create their own profile" ON input_mapping_profiles
+FOR INSERT TO anon
+WITH CHECK (player_name = caller_device_name());
+
+CREATE POLICY "Devices update their own profile" ON input_mapping_profiles
+FOR UPDATE TO anon
+USING (player_name = caller_device_name())
+WITH CHECK (player_name = caller_device_name());
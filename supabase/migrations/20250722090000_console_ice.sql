@@ -0,0 +1,53 @@
+/*
+  # Only the console changes a session's ICE settings
+
+  1. Changes
+    - `set_ice_config(session_uuid, console_uuid, config)` sets or clears `ice_config`,
+      only for the caller's own console device in an active session
+    - Clients may no longer update `ice_config` directly; `is_locked` and `selected_editor`
+      stay writable for the console and the host
+
+  2. Notes
+    - `ice_config` is overlaid on every device's ICE servers, TURN URLs, credential service
+      and transport policy (see src/lib/iceConfig.ts); under the "Console and host update
+      their own session" policy the host phone could point every player at its own relays
+    - `config` must be a JSON object, or NULL to fall back to the environment's settings
+*/
+
+-- Step 1: Console-only ICE settings
+CREATE OR REPLACE FUNCTION set_ice_config(
+    session_uuid UUID,
+    console_uuid UUID,
+    config JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF config IS NOT NULL AND jsonb_typeof(config) <> 'object' THEN
+        RETURN false;
+    END IF;
+
+    IF console_uuid IS DISTINCT FROM caller_device_id() THEN
+        RETURN false;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM devices d
+        JOIN sessions s ON s.id = d.session_id
+        WHERE d.id = console_uuid
+        AND d.session_id = session_uuid
+        AND d.device_type = 'console'
+        AND s.is_active = true
+    ) THEN
+        RETURN false;
+    END IF;
+
+    UPDATE sessions
+    SET ice_config = config
+    WHERE id = session_uuid;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Step 2: Only set_ice_config() writes ice_config
+REVOKE UPDATE (ice_config) ON sessions FROM anon;